@@ -0,0 +1,192 @@
+/**
+ * Stand-in market data stream for offline development.
+ *
+ * Replays the daily bars from the mock generator as intrabar quote/trade ticks
+ * using the wire format documented in src/types/streaming.ts.
+ *
+ *   npm run stream:server
+ *   VITE_WEBSOCKET_URL=ws://localhost:8787 npm run dev
+ *
+ * STREAM_PORT (default 8787) and STREAM_TICK_MS (default 1000) tune the server;
+ * STREAM_SEED replays the same deterministic series as `?seed=` in the app.
+ */
+import { WebSocketServer, WebSocket } from 'ws';
+import type { PriceData } from '../src/types/stock';
+import type { StreamClientMessage, StreamServerMessage } from '../src/types/streaming';
+import { generateMockStockData, setMockDataSeed } from '../src/utils/mockData';
+import { parseSeed } from '../src/utils/random';
+
+const PORT = Number(process.env.STREAM_PORT) || 8787;
+const TICK_MS = Number(process.env.STREAM_TICK_MS) || 1000;
+const TICKS_PER_BAR = 8;
+const REPLAY_BARS = 60; // start this many bars before the end, then wrap around
+
+setMockDataSeed(parseSeed(process.env.STREAM_SEED));
+
+interface ReplayState {
+  bars: PriceData[];
+  barIndex: number;
+  tick: number;
+  high: number;
+  low: number;
+  lastPrice: number;
+}
+
+const replays = new Map<string, ReplayState>();
+const clients = new Map<WebSocket, Set<string>>();
+
+const getReplay = (symbol: string): ReplayState => {
+  let replay = replays.get(symbol);
+  if (!replay) {
+    const bars = generateMockStockData(symbol).prices;
+    const barIndex = Math.max(1, bars.length - REPLAY_BARS);
+    replay = { bars, barIndex, tick: 0, high: bars[barIndex].open, low: bars[barIndex].open, lastPrice: bars[barIndex].open };
+    replays.set(symbol, replay);
+  }
+  return replay;
+};
+
+// Walk open → high/low → close across the bar so the ticks respect its range
+const intrabarPrice = (bar: PriceData, tick: number): number => {
+  const path = bar.close >= bar.open
+    ? [bar.open, bar.low, bar.high, bar.close]
+    : [bar.open, bar.high, bar.low, bar.close];
+  const position = (tick / (TICKS_PER_BAR - 1)) * (path.length - 1);
+  const segment = Math.min(Math.floor(position), path.length - 2);
+  const fraction = position - segment;
+  return path[segment] + (path[segment + 1] - path[segment]) * fraction;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const nextTicks = (symbol: string): StreamServerMessage[] => {
+  const replay = getReplay(symbol);
+  const bar = replay.bars[replay.barIndex];
+  const previousClose = replay.bars[replay.barIndex - 1].close;
+
+  const price = round(intrabarPrice(bar, replay.tick));
+  if (replay.tick === 0) {
+    replay.high = price;
+    replay.low = price;
+  }
+  replay.high = Math.max(replay.high, price);
+  replay.low = Math.min(replay.low, price);
+
+  const spread = Math.max(0.01, round(price * 0.0002));
+  const change = price - previousClose;
+  const timestamp = Date.now();
+  const side: 'buy' | 'sell' = price >= replay.lastPrice ? 'buy' : 'sell';
+  replay.lastPrice = price;
+
+  const messages: StreamServerMessage[] = [
+    {
+      type: 'quote',
+      symbol,
+      price,
+      bid: round(price - spread / 2),
+      ask: round(price + spread / 2),
+      open: round(bar.open),
+      high: replay.high,
+      low: replay.low,
+      volume: Math.round(bar.volume * (replay.tick + 1) / TICKS_PER_BAR),
+      change: round(change),
+      changePercent: round((change / previousClose) * 100),
+      timestamp,
+    },
+    {
+      type: 'trade',
+      symbol,
+      price,
+      size: Math.max(1, Math.round(bar.volume / TICKS_PER_BAR / 100000)) * 100,
+      side,
+      timestamp,
+    },
+  ];
+
+  replay.tick++;
+  if (replay.tick >= TICKS_PER_BAR) {
+    replay.tick = 0;
+    replay.barIndex = replay.barIndex + 1 < replay.bars.length ? replay.barIndex + 1 : 1;
+  }
+
+  return messages;
+};
+
+const send = (socket: WebSocket, message: StreamServerMessage) => {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+};
+
+const normalizeSymbols = (symbols: unknown): string[] =>
+  Array.isArray(symbols)
+    ? symbols.filter((s): s is string => typeof s === 'string' && s.trim() !== '').map(s => s.trim().toUpperCase())
+    : [];
+
+const handleClientMessage = (socket: WebSocket, raw: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    send(socket, { type: 'error', message: 'Invalid JSON' });
+    return;
+  }
+  // Valid JSON can still be null or a primitive, which has no `type` to switch on
+  if (typeof parsed !== 'object' || parsed === null) {
+    send(socket, { type: 'error', message: 'Message must be a JSON object' });
+    return;
+  }
+  const message = parsed as StreamClientMessage;
+
+  const subscriptions = clients.get(socket)!;
+
+  switch (message.type) {
+    case 'subscribe': {
+      const symbols = normalizeSymbols(message.symbols);
+      symbols.forEach(symbol => subscriptions.add(symbol));
+      send(socket, { type: 'subscribed', symbols: Array.from(subscriptions) });
+      break;
+    }
+    case 'unsubscribe':
+      normalizeSymbols(message.symbols).forEach(symbol => subscriptions.delete(symbol));
+      send(socket, { type: 'subscribed', symbols: Array.from(subscriptions) });
+      break;
+    case 'ping':
+      send(socket, { type: 'pong', timestamp: message.timestamp });
+      break;
+    default:
+      send(socket, { type: 'error', message: 'Unknown message type' });
+  }
+};
+
+const server = new WebSocketServer({ port: PORT });
+
+server.on('connection', socket => {
+  clients.set(socket, new Set());
+  socket.on('message', data => handleClientMessage(socket, data.toString()));
+  socket.on('close', () => clients.delete(socket));
+});
+
+// Advance each subscribed symbol once per tick and fan out to its subscribers
+const timer = setInterval(() => {
+  const active = new Set<string>();
+  clients.forEach(symbols => symbols.forEach(symbol => active.add(symbol)));
+
+  active.forEach(symbol => {
+    const messages = nextTicks(symbol);
+    clients.forEach((symbols, socket) => {
+      if (symbols.has(symbol)) messages.forEach(message => send(socket, message));
+    });
+  });
+}, TICK_MS);
+
+const shutdown = () => {
+  clearInterval(timer);
+  clients.forEach((_, socket) => socket.close(1001, 'Server shutting down'));
+  server.close(() => process.exit(0));
+};
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
+
+console.log(`📡 Replay stream listening on ws://localhost:${PORT} (tick ${TICK_MS}ms)`);
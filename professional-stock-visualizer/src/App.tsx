@@ -2,10 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Link } from 'react-router-dom';
 import { Search, Loader2, AlertCircle, BarChart3 } from 'lucide-react';
 import type { StockData, QuantitativeMetrics, MarketData } from './types/stock';
-import { generateMockStockData, generateMarketReturns, generateMarketOverview } from './utils/mockData';
+import { generateMarketReturns, generateMarketOverview, getMockDataSeed } from './utils/mockData';
+import { saveMockSeedSetting } from './utils/mockSeed';
+import { parseSeed } from './utils/random';
+import { marketDataService } from './services/marketDataService';
+import { useMarketDataProvider } from './hooks/useMarketDataProvider';
 import { QuantAnalytics } from './utils/quantAnalytics';
 import RiskDashboard from './components/RiskDashboard';
 import AlertsPage from './pages/Alertspage';
+import PortfolioPage from './pages/PortfolioPage';
 import {useAlerts} from './hooks/useAlerts';
 import Card from './components/ui/Card';
 import Button from './components/ui/Button';
@@ -138,6 +143,16 @@ function App() {
 
   const popularSymbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'META', 'NVDA', 'NFLX'];
   const alertsHook = useAlerts(popularSymbols);
+  const { provider, providers, setProvider } = useMarketDataProvider();
+  const mockSeed = getMockDataSeed();
+
+  // Reload with a new mock seed when the header field is committed
+  const commitMockSeed = (value: string) => {
+    const seed = parseSeed(value);
+    if (seed !== mockSeed) {
+      saveMockSeedSetting(seed);
+    }
+  };
 
   // Load market data and default stock on component mount
   useEffect(() => {
@@ -165,7 +180,15 @@ function App() {
         setError('Failed to calculate risk metrics');
       }
     }
-  }, [stockData?.symbol]);
+  }, [stockData?.symbol, stockData?.prices]);
+
+  // Reload the current symbol when the data source is switched
+  useEffect(() => {
+    if (stockData) {
+      loadStock(stockData.symbol, true);
+    }
+    // eslint-disable-next-line
+  }, [provider.id]);
 
   const loadStock = async (symbol: string, showLoading: boolean = true) => {
     if (showLoading) {
@@ -177,11 +200,11 @@ function App() {
       if (showLoading) {
         await new Promise(resolve => setTimeout(resolve, 800));
       }
-      const data = generateMockStockData(symbol.toUpperCase());
+      const data = await marketDataService.loadStockData(symbol, provider);
       setStockData(data);
       setSearchQuery(symbol.toUpperCase());
     } catch (err) {
-      setError('Failed to fetch stock data. Please try again.');
+      setError(err instanceof Error ? err.message : 'Failed to fetch stock data. Please try again.');
       console.error('Load stock error:', err);
     } finally {
       if (showLoading) {
@@ -244,10 +267,39 @@ function App() {
                       "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-blue-100"
                     )}
                     style={{ boxShadow: "none" }}>Alerts</Link>
+                  <Link to="/portfolio" className={cn(
+                      "text-sm font-medium px-3 py-1 rounded transition-colors",
+                      "bg-white text-blue-700 hover:bg-blue-50 hover:text-blue-900",
+                      "focus:outline-none focus:ring-2 focus:ring-blue-500 focus:bg-blue-100"
+                    )}
+                    style={{ boxShadow: "none" }}>Portfolio</Link>
                 </nav>
                 {/* Market Status */}
                 {marketData && (
                   <div className="flex items-center gap-4 text-sm">
+                    {providers.length > 1 && (
+                      <select
+                        value={provider.id}
+                        onChange={(e) => setProvider(e.target.value)}
+                        className="px-2 py-1 bg-background border border-input rounded text-xs"
+                        title="Market data source"
+                      >
+                        {providers.map(p => (
+                          <option key={p.id} value={p.id}>{p.name}</option>
+                        ))}
+                      </select>
+                    )}
+                    {provider.id === 'mock' && (
+                      <input
+                        type="text"
+                        defaultValue={mockSeed ?? ''}
+                        placeholder="Random"
+                        onBlur={(e) => commitMockSeed(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && commitMockSeed(e.currentTarget.value)}
+                        className="w-20 px-2 py-1 bg-background border border-input rounded text-xs"
+                        title="Mock data seed (blank = random). Also settable with ?seed=42 in the URL"
+                      />
+                    )}
                     <div className="flex items-center gap-2">
                       <div className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
                       <span className="text-muted-foreground">Market Open</span>
@@ -285,6 +337,7 @@ function App() {
               }
             />
             <Route path="/alerts" element={<AlertsPage />} />
+            <Route path="/portfolio" element={<PortfolioPage />} />
           </Routes>
         </div>
       </Router>
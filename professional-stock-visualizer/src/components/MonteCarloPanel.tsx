@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Dices, Loader2 } from 'lucide-react';
+import type { MonteCarloResult, SimulationMethod } from '../types/stock';
+import { MonteCarloSimulator, type SimulationAsset } from '../utils/monteCarlo';
+import { getMockDataSeed } from '../utils/mockData';
+import { parseSeed } from '../utils/random';
+import MonteCarloFanChart from './charts/MonteCarloFanChart';
+import Button from './ui/Button';
+import { cn } from '../utils/cn';
+
+interface MonteCarloPanelProps {
+  assets: SimulationAsset[];
+  startValue: number;
+  className?: string;
+}
+
+const METHODS: { value: SimulationMethod; label: string }[] = [
+  { value: 'gbm', label: 'Geometric Brownian motion' },
+  { value: 'bootstrap', label: 'Bootstrap historical returns' }
+];
+const PATH_OPTIONS = [1000, 5000, 10000];
+const HORIZON_OPTIONS = [
+  { days: 21, label: '1 month' },
+  { days: 63, label: '3 months' },
+  { days: 126, label: '6 months' },
+  { days: 252, label: '1 year' }
+];
+
+const selectClassName = 'px-2 py-1 bg-background border border-input rounded text-xs';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(2)}%`;
+const formatCurrency = (value: number) => value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+// 🚀 Simulated price paths with percentile fan, loss probability and simulated VaR/CVaR
+const MonteCarloPanel: React.FC<MonteCarloPanelProps> = ({ assets, startValue, className }) => {
+  const [method, setMethod] = useState<SimulationMethod>('gbm');
+  const [paths, setPaths] = useState(5000);
+  const [horizon, setHorizon] = useState(63);
+  const [seedInput, setSeedInput] = useState(() => String(getMockDataSeed() ?? ''));
+  const [result, setResult] = useState<MonteCarloResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const runSimulation = () => {
+    setIsRunning(true);
+    // Let the spinner paint before the synchronous simulation
+    setTimeout(() => {
+      try {
+        setResult(MonteCarloSimulator.simulate(assets, startValue, { method, paths, horizon, seed: parseSeed(seedInput) }));
+        setError(null);
+      } catch (error) {
+        console.error('Error running Monte Carlo simulation:', error);
+        setResult(null);
+        setError(error instanceof Error ? error.message : 'Simulation failed');
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const median = result?.bands[result.bands.length - 1].p50 ?? 0;
+  const stats = result
+    ? [
+        { label: 'Median Outcome', value: formatCurrency(median), detail: formatPercent(median / result.startValue - 1) },
+        { label: 'Expected Value', value: formatCurrency(result.expectedValue), detail: formatPercent(result.expectedValue / result.startValue - 1) },
+        { label: 'Probability of Loss', value: formatPercent(result.probabilityOfLoss), detail: `${result.paths.toLocaleString()} paths` },
+        { label: 'VaR (95%)', value: formatPercent(result.var95), detail: formatCurrency(result.var95 * result.startValue) },
+        { label: 'VaR (99%)', value: formatPercent(result.var99), detail: formatCurrency(result.var99 * result.startValue) },
+        { label: 'CVaR (95%)', value: formatPercent(result.cvar95), detail: formatCurrency(result.cvar95 * result.startValue) },
+        { label: 'CVaR (99%)', value: formatPercent(result.cvar99), detail: formatCurrency(result.cvar99 * result.startValue) },
+        {
+          label: 'Calibration',
+          value: `${formatPercent(result.volatility * Math.sqrt(252))} vol`,
+          detail: `${formatPercent(result.drift * 252)} drift (annualized)`
+        }
+      ]
+    : [];
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      <div className="flex flex-wrap items-end gap-4 text-xs">
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Model</span>
+          <select value={method} onChange={(e) => setMethod(e.target.value as SimulationMethod)} className={selectClassName}>
+            {METHODS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Paths</span>
+          <select value={paths} onChange={(e) => setPaths(Number(e.target.value))} className={selectClassName}>
+            {PATH_OPTIONS.map(count => (
+              <option key={count} value={count}>{count.toLocaleString()}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Horizon</span>
+          <select value={horizon} onChange={(e) => setHorizon(Number(e.target.value))} className={selectClassName}>
+            {HORIZON_OPTIONS.map(option => (
+              <option key={option.days} value={option.days}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Seed</span>
+          <input
+            type="text"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            placeholder="random"
+            title="Same seed and settings reproduce the same paths; leave blank for a fresh run"
+            className={cn(selectClassName, 'w-24')}
+          />
+        </label>
+        <Button size="sm" onClick={runSimulation} disabled={isRunning || assets.length === 0}>
+          {isRunning ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Dices className="w-4 h-4 mr-1" />}
+          Run Simulation
+        </Button>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {result && (
+        <>
+          <MonteCarloFanChart bands={result.bands} startValue={result.startValue} />
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {stats.map(stat => (
+              <div key={stat.label} className="p-3 rounded-lg border border-border/50 bg-muted/5">
+                <div className="text-xs text-muted-foreground">{stat.label}</div>
+                <div className="text-lg font-semibold">{stat.value}</div>
+                <div className="text-xs text-muted-foreground">{stat.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {result.horizon}-day horizon · {METHODS.find(option => option.value === result.method)?.label}
+            {result.seed !== null ? ` · seed ${result.seed}` : ' · unseeded'}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
@@ -8,9 +8,15 @@ import {
   BarChart3,
   Volume2,
   Target,
-  Zap
+  Zap,
+  Dices
 } from 'lucide-react';
 import type { QuantitativeMetrics, StockData } from '../types/stock';
+import type { VisibleRange } from '../types/chart';
+import type { PriceScaleMode } from '../utils/chartHelpers';
+import { calculateRSI, calculateMACD, calculateBollingerBands, getLatestValue } from '../utils/technicalIndicators';
+import { generateSignals, calculateSignalConsensus } from '../utils/indicatorSignals';
+import { QuantAnalytics } from '../utils/quantAnalytics';
 import TradingChart from './charts/TradingChart';
 import VolumeChart from './charts/VolumeChart';
 import IndicatorChart from './charts/IndicatorChart';
@@ -20,6 +26,8 @@ import Badge from './ui/Badge';
 import { cn } from '../utils/cn';
 import LivePriceIndicator from './LivePriceIndicator';
 import RealTimeStatus from './RealTimeStatus';
+import MonteCarloPanel from './MonteCarloPanel';
+import { useMarketDataProvider } from '../hooks/useMarketDataProvider';
 
 interface RiskDashboardProps {
   riskMetrics: QuantitativeMetrics;
@@ -30,9 +38,13 @@ interface RiskDashboardProps {
 }
 
 // ⚡ COMPLETELY FIXED: Trading Chart with NO white box
-const ProfessionalTradingChart = memo(({ symbol, height = 500 }: { 
+const ProfessionalTradingChart = memo(({ symbol, height = 500, visibleRange, onVisibleRangeChange, priceScale, onPriceScaleChange }: { 
   symbol: string,
-  height?: number 
+  height?: number,
+  visibleRange?: VisibleRange | null,
+  onVisibleRangeChange?: (range: VisibleRange | null) => void,
+  priceScale?: PriceScaleMode,
+  onPriceScaleChange?: (scale: PriceScaleMode) => void
 }) => {
   return (
     <div className="space-y-4">
@@ -46,6 +58,10 @@ const ProfessionalTradingChart = memo(({ symbol, height = 500 }: {
         showControls={true}
         showVolume={true}
         className="w-full bg-transparent"
+        visibleRange={visibleRange}
+        onVisibleRangeChange={onVisibleRangeChange}
+        priceScale={priceScale}
+        onPriceScaleChange={onPriceScaleChange}
       />
     </div>
   );
@@ -88,10 +104,13 @@ const ProfessionalVolumeChart = memo(({ data, symbol, height = 400 }: {
 });
 
 // ⚡ ENHANCED: Interactive Indicator Chart
-const ProfessionalIndicatorChart = memo(({ data, symbol, height = 400 }: { 
+const ProfessionalIndicatorChart = memo(({ data, symbol, height = 400, visibleRange, onVisibleRangeChange, priceScale }: { 
   data: any[], 
   symbol: string,
-  height?: number 
+  height?: number,
+  visibleRange?: VisibleRange | null,
+  onVisibleRangeChange?: (range: VisibleRange | null) => void,
+  priceScale?: PriceScaleMode
 }) => {
   if (!data || !data.length) {
     return (
@@ -103,38 +122,30 @@ const ProfessionalIndicatorChart = memo(({ data, symbol, height = 400 }: {
     );
   }
 
-  // Enhanced technical indicator calculations
-  const calculateRSI = (prices: number[], period: number = 14) => {
-    if (prices.length < period) return 50;
-    const gains = [];
-    const losses = [];
-    
-    for (let i = 1; i < prices.length; i++) {
-      const change = prices[i] - prices[i - 1];
-      gains.push(change > 0 ? change : 0);
-      losses.push(change < 0 ? Math.abs(change) : 0);
-    }
-    
-    const avgGain = gains.slice(-period).reduce((a, b) => a + b, 0) / period;
-    const avgLoss = losses.slice(-period).reduce((a, b) => a + b, 0) / period;
-    
-    if (avgLoss === 0) return 100;
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  };
-
-  const calculateMACD = (prices: number[]) => {
-    const ema12 = prices.slice(-12).reduce((a, b) => a + b, 0) / 12;
-    const ema26 = prices.slice(-26).reduce((a, b) => a + b, 0) / 26;
-    const macdLine = ema12 - ema26;
-    const signalLine = macdLine * 0.9; // Simplified signal line
-    return { macdLine, signalLine, histogram: macdLine - signalLine };
-  };
-
   const prices = data.map(d => d.close);
-  const currentRSI = calculateRSI(prices);
-  const macdData = calculateMACD(prices);
+  const currentRSI = getLatestValue(calculateRSI(prices)) ?? 50;
+  const latestMACD = calculateMACD(prices)[prices.length - 1];
+  const macdData = {
+    macdLine: latestMACD?.macd ?? 0,
+    signalLine: latestMACD?.signal ?? 0,
+    histogram: latestMACD?.histogram ?? 0
+  };
   
+  // Signal layer: per-bar events and their consensus over the last 10 bars
+  const signals = generateSignals(data);
+  const consensus = calculateSignalConsensus(signals, data);
+  const recentSignals = signals.slice(-8).reverse();
+
+  const { upper, middle, lower } = calculateBollingerBands(prices, 20, 2)[prices.length - 1];
+  const lastClose = prices[prices.length - 1];
+  const hasBands = upper !== null && middle !== null && lower !== null;
+  const bandPosition = !hasBands
+    ? 'N/A'
+    : lastClose > upper ? 'Above Upper' : lastClose < lower ? 'Below Lower' : lastClose >= middle ? 'Upper Half' : 'Lower Half';
+  const bandwidth = hasBands && middle !== 0 ? (upper - lower) / middle : null;
+  const latestSqueeze = [...signals].reverse().find(signal => signal.indicator === 'bollinger' && signal.type === 'neutral');
+  const isSqueezed = latestSqueeze !== undefined && consensus.signals.includes(latestSqueeze);
+
   const rsiSignal = currentRSI > 70 ? 'Overbought' : currentRSI < 30 ? 'Oversold' : 'Neutral';
   const rsiVariant = currentRSI > 70 ? 'danger' : currentRSI < 30 ? 'success' : 'secondary';
   const macdSignal = macdData.macdLine > macdData.signalLine ? 'Bullish' : 'Bearish';
@@ -148,9 +159,11 @@ const ProfessionalIndicatorChart = memo(({ data, symbol, height = 400 }: {
         data={data}
         width={800}
         height={height}
-        interactive={true}
-        indicators={['rsi', 'macd', 'bollinger']}
+        indicators={['bollinger', 'rsi', 'macd', 'adx']}
         className="w-full"
+        visibleRange={visibleRange}
+        onVisibleRangeChange={onVisibleRangeChange}
+        priceScale={priceScale}
       />
       
       {/* Enhanced Technical Analysis */}
@@ -219,20 +232,74 @@ const ProfessionalIndicatorChart = memo(({ data, symbol, height = 400 }: {
           <div className="space-y-3">
             <div className="flex justify-between items-center">
               <span className="text-sm text-muted-foreground">Position:</span>
-              <Badge variant="default" size="sm">Middle Band</Badge>
+              <Badge variant="default" size="sm">{bandPosition}</Badge>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-muted-foreground">Bandwidth:</span>
-              <Badge variant="secondary" size="sm">Normal</Badge>
+              <Badge variant="secondary" size="sm">{bandwidth !== null ? `${(bandwidth * 100).toFixed(2)}%` : 'N/A'}</Badge>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm text-muted-foreground">Squeeze:</span>
-              <Badge variant="success" size="sm">No</Badge>
+              <Badge variant={isSqueezed ? 'warning' : 'success'} size="sm">{isSqueezed ? 'Yes' : 'No'}</Badge>
             </div>
-            <Badge variant="success">Normal Range</Badge>
+            <Badge variant={bandPosition.startsWith('Above') ? 'danger' : bandPosition.startsWith('Below') ? 'warning' : 'success'}>
+              {bandPosition.startsWith('Above') || bandPosition.startsWith('Below') ? 'Band Breakout' : 'Normal Range'}
+            </Badge>
           </div>
         </div>
       </div>
+
+      {/* 🚀 Signal consensus and the latest indicator events */}
+      <div className="p-4 bg-muted/5 rounded-lg border border-border/20">
+        <div className="flex items-center justify-between mb-3">
+          <h4 className="font-semibold flex items-center gap-2">
+            <Zap className="w-4 h-4 text-yellow-500" />
+            Indicator Signals
+          </h4>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">
+              {consensus.buyCount} buy · {consensus.sellCount} sell · {consensus.neutralCount} neutral (last 10 bars)
+            </span>
+            <Badge variant={consensus.direction === 'buy' ? 'success' : consensus.direction === 'sell' ? 'danger' : 'secondary'}>
+              {consensus.direction === 'buy' ? 'Bullish' : consensus.direction === 'sell' ? 'Bearish' : 'Neutral'} {(consensus.score * 100).toFixed(0)}
+            </Badge>
+          </div>
+        </div>
+
+        {/* Score from -100 (sell) to +100 (buy) */}
+        <div className="relative w-full h-2 bg-muted rounded-full overflow-hidden mb-4">
+          <div className="absolute inset-y-0 left-1/2 w-px bg-border" />
+          <div
+            className={cn('absolute inset-y-0 rounded-full', consensus.score >= 0 ? 'bg-green-500' : 'bg-red-500')}
+            style={{
+              left: consensus.score >= 0 ? '50%' : `${50 + consensus.score * 50}%`,
+              width: `${Math.abs(consensus.score) * 50}%`
+            }}
+          />
+        </div>
+
+        {recentSignals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No indicator signals in this range</p>
+        ) : (
+          <div className="space-y-2">
+            {recentSignals.map((signal, index) => (
+              <div key={`${signal.timestamp}-${signal.indicator}-${index}`} className="flex items-center gap-3 text-sm">
+                <Badge
+                  variant={signal.type === 'buy' ? 'success' : signal.type === 'sell' ? 'danger' : 'secondary'}
+                  size="sm"
+                >
+                  {signal.type.toUpperCase()}
+                </Badge>
+                <span className="text-xs text-muted-foreground w-20 shrink-0">{signal.timestamp}</span>
+                <span className="flex-1 truncate">{signal.message}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  str {(signal.strength * 100).toFixed(0)}% · conf {(signal.confidence * 100).toFixed(0)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
     </div>
   );
 });
@@ -245,6 +312,11 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
   stockData
 }) => {
   const [activeTab, setActiveTab] = useState('risk');
+  const { provider } = useMarketDataProvider();
+
+  // 🚀 Zoom/pan window and price scale shared by the price and indicator panes
+  const [visibleRange, setVisibleRange] = useState<VisibleRange | null>(null);
+  const [priceScale, setPriceScale] = useState<PriceScaleMode>('normal');
 
   // ⚡ Optimized chart data transformation
   const chartDataPoints = useMemo(() => {
@@ -262,6 +334,12 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
     }));
   }, [stockData?.prices]);
 
+  // 🚀 Close-to-close history the Monte Carlo paths are calibrated on
+  const simulationAssets = useMemo(() => {
+    const closes = chartDataPoints.map(point => point.close);
+    return closes.length > 2 ? [{ symbol, weight: 1, returns: QuantAnalytics.calculateReturns(closes) }] : [];
+  }, [chartDataPoints, symbol]);
+
   // ⚡ Memoized risk metrics extraction
   const riskData = useMemo(() => {
     const actualRiskMetrics = riskMetrics?.riskMetrics || {};
@@ -450,6 +528,10 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
                   <span className="text-muted-foreground">Charts</span>
                   <Badge variant="success" size="sm">✅ Active</Badge>
                 </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-muted-foreground">Data Source</span>
+                  <Badge variant="default" size="sm">{provider.name}</Badge>
+                </div>
                 <div className="flex justify-between items-center">
                   <span className="text-muted-foreground">Data Quality</span>
                   <Badge variant="success" size="sm">✅ High</Badge>
@@ -464,6 +546,17 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
         </div>
       )
     },
+    {
+      id: 'simulation',
+      label: 'Monte Carlo',
+      icon: <Dices className="w-4 h-4" />,
+      content: (
+        <MonteCarloPanel
+          assets={simulationAssets}
+          startValue={chartDataPoints[chartDataPoints.length - 1]?.close ?? 0}
+        />
+      )
+    },
     {
       id: 'charts',
       label: 'Price Analysis',
@@ -471,7 +564,14 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
       content: (
         <div className="space-y-6">
           {/* 🚀 FIXED: No white box - direct chart rendering */}
-          <ProfessionalTradingChart symbol={symbol} height={500} />
+          <ProfessionalTradingChart
+            symbol={symbol}
+            height={500}
+            visibleRange={visibleRange}
+            onVisibleRangeChange={setVisibleRange}
+            priceScale={priceScale}
+            onPriceScaleChange={setPriceScale}
+          />
           
           {/* Summary Cards */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -566,6 +666,9 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
             data={chartDataPoints} 
             symbol={symbol} 
             height={400} 
+            visibleRange={visibleRange}
+            onVisibleRangeChange={setVisibleRange}
+            priceScale={priceScale}
           />
           
           {/* Technical Summary */}
@@ -611,7 +714,7 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
         </div>
       )
     }
-  ], [chartDataPoints, riskData, risk, sharpeRating, RiskIcon, SharpeIcon, formatPercentage, formatRatio, symbol]);
+  ], [chartDataPoints, simulationAssets, riskData, risk, sharpeRating, RiskIcon, SharpeIcon, formatPercentage, formatRatio, symbol, provider, visibleRange, priceScale]);
 
   // Loading state
   if (isLoading) {
@@ -640,7 +743,7 @@ const RiskDashboard: React.FC<RiskDashboardProps> = ({
             <h2 className="text-2xl font-bold tracking-tight">{symbol} Risk & Chart Analysis</h2>
             
             <p className="text-xs text-muted-foreground mt-1">
-              📊 {chartDataPoints.length} data points 
+              📊 {chartDataPoints.length} data points • {stockData?.name ? `${stockData.name} • ` : ''}Source: {provider.name}
             </p>
           </div>
           
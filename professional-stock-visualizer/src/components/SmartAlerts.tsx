@@ -10,9 +10,11 @@ import {
   Plus,
   Activity,
   TrendingUp,
-  AlertCircle
+  AlertCircle,
+  Lightbulb
 } from 'lucide-react';
 import { useAlerts } from '../hooks/useAlerts';
+import type { PriceAlert } from '../types/alerts';
 import { useRealTimeData } from '../hooks/useRealTimeData';
 import { notificationService } from '../services/notificationService';
 import AlertCreator from './alerts/AlertCreator';
@@ -47,7 +49,8 @@ const SmartAlerts: React.FC<SmartAlertsProps> = ({
     markNotificationAsRead,
     clearAllNotifications,
     testAlert,
-    updateSettings
+    updateSettings,
+    getAlertSuggestions
   } = useAlerts(symbols);
 
   const { realTimePrices, isConnected } = useRealTimeData(symbols);
@@ -73,6 +76,29 @@ const SmartAlerts: React.FC<SmartAlertsProps> = ({
     };
   }, [alerts]);
 
+  // 🚀 Suggested alerts from the primary symbol's recent indicator signals
+  const suggestions = useMemo(
+    () => (primarySymbol ? getAlertSuggestions(primarySymbol) : []),
+    [getAlertSuggestions, primarySymbol]
+  );
+
+  const handleAddSuggestion = (suggestion: Partial<PriceAlert>) => {
+    if (!suggestion.symbol || !suggestion.type || !suggestion.condition) return;
+
+    addPriceAlert({
+      symbol: suggestion.symbol,
+      type: suggestion.type,
+      condition: suggestion.condition,
+      isActive: true,
+      notificationSettings: {
+        browser: alerts.settings.browserNotifications,
+        sound: alerts.settings.soundEnabled
+      },
+      message: suggestion.message ?? `${suggestion.symbol} alert`,
+      priority: suggestion.priority ?? 'medium'
+    });
+  };
+
   // 🚀 Handle settings updates
   const handleSettingsUpdate = (key: string, value: any) => {
     updateSettings({ [key]: value });
@@ -311,6 +337,43 @@ const SmartAlerts: React.FC<SmartAlertsProps> = ({
         </div>
       )}
 
+      {/* Suggested Alerts */}
+      {activeView === 'dashboard' && suggestions.length > 0 && (
+        <div className="p-4 bg-card border rounded-lg">
+          <div className="flex items-center gap-2 mb-3">
+            <Lightbulb className="w-5 h-5 text-yellow-500" />
+            <h3 className="font-semibold">Suggested Alerts</h3>
+            <Badge variant="secondary" size="sm">{primarySymbol}</Badge>
+          </div>
+          <div className="space-y-2">
+            {suggestions.map((suggestion, index) => (
+              <div
+                key={`${suggestion.type}-${suggestion.condition?.value}-${index}`}
+                className="flex items-center justify-between gap-3 p-2 bg-muted/20 rounded-lg text-sm"
+              >
+                <div>
+                  <div className="font-medium">{suggestion.message}</div>
+                  {suggestion.type !== 'volume_spike' && suggestion.condition && (
+                    <div className="text-xs text-muted-foreground">
+                      Price {suggestion.condition.operator === 'greater_than' ? 'above' : 'below'} ${suggestion.condition.value.toFixed(2)}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={suggestion.priority === 'high' ? 'destructive' : 'secondary'} size="sm">
+                    {suggestion.priority}
+                  </Badge>
+                  <Button size="sm" variant="outline" onClick={() => handleAddSuggestion(suggestion)}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Main Content */}
       {activeView === 'dashboard' && (
         <AlertsList
@@ -2,6 +2,7 @@ import React, { useState } from 'react';
 import { Plus, Bell, TrendingUp, Volume2, DollarSign, Percent, Clock } from 'lucide-react';
 import type { PriceAlert, TechnicalAlert, NewsAlert } from '../../types/alerts';
 import Button from '../ui/Button';
+import FormulaInput from '../charts/FormulaInput';
 import { cn } from '../../utils/cn';
 
 interface AlertCreatorProps {
@@ -42,6 +43,10 @@ const AlertCreator: React.FC<AlertCreatorProps> = ({
     symbol: symbols[0] || 'AAPL',
     type: 'rsi_overbought' as const,
     rsiLevel: 70,
+    adxLevel: 25,
+    signalDirection: '' as '' | 'buy' | 'sell',
+    formula: '(close - sma(close, 20)) / atr(14)',
+    threshold: 0,
     supportLevel: 0,
     resistanceLevel: 0,
     volumeMultiplier: 2,
@@ -117,6 +122,16 @@ const AlertCreator: React.FC<AlertCreatorProps> = ({
     if (technicalAlertData.type.includes('rsi')) {
       parameters.rsiLevel = technicalAlertData.rsiLevel;
     }
+    if (technicalAlertData.type.includes('adx')) {
+      parameters.adxLevel = technicalAlertData.adxLevel;
+    }
+    if (technicalAlertData.type.includes('sar') && technicalAlertData.signalDirection) {
+      parameters.signalDirection = technicalAlertData.signalDirection;
+    }
+    if (technicalAlertData.type.includes('formula')) {
+      parameters.formula = technicalAlertData.formula;
+      parameters.threshold = technicalAlertData.threshold;
+    }
     if (technicalAlertData.type.includes('support')) {
       parameters.supportLevel = technicalAlertData.supportLevel;
     }
@@ -180,7 +195,12 @@ const AlertCreator: React.FC<AlertCreatorProps> = ({
       'macd_crossover': `MACD bullish crossover detected for ${technicalAlertData.symbol}`,
       'support_break': `${technicalAlertData.symbol} broke below support level`,
       'resistance_break': `${technicalAlertData.symbol} broke above resistance level`,
-      'volume_breakout': `Volume spike detected for ${technicalAlertData.symbol}`
+      'volume_breakout': `Volume spike detected for ${technicalAlertData.symbol}`,
+      'adx_strong_trend': `ADX shows ${technicalAlertData.symbol} is in a strong trend`,
+      'adx_weak_trend': `ADX shows ${technicalAlertData.symbol} has lost its trend`,
+      'sar_reversal': `Parabolic SAR reversal on ${technicalAlertData.symbol}`,
+      'formula_above': `${technicalAlertData.formula} rose above ${technicalAlertData.threshold} on ${technicalAlertData.symbol}`,
+      'formula_below': `${technicalAlertData.formula} fell below ${technicalAlertData.threshold} on ${technicalAlertData.symbol}`
     };
     return typeMap[technicalAlertData.type] || `Technical signal detected for ${technicalAlertData.symbol}`;
   };
@@ -207,6 +227,10 @@ const AlertCreator: React.FC<AlertCreatorProps> = ({
       symbol: symbols[0] || 'AAPL',
       type: 'rsi_overbought',
       rsiLevel: 70,
+      adxLevel: 25,
+      signalDirection: '',
+      formula: '(close - sma(close, 20)) / atr(14)',
+      threshold: 0,
       supportLevel: 0,
       resistanceLevel: 0,
       volumeMultiplier: 2,
@@ -429,6 +453,11 @@ const AlertCreator: React.FC<AlertCreatorProps> = ({
                 <option value="support_break">Support Break</option>
                 <option value="resistance_break">Resistance Break</option>
                 <option value="volume_breakout">Volume Breakout</option>
+                <option value="adx_strong_trend">ADX Strong Trend</option>
+                <option value="adx_weak_trend">ADX Weak Trend</option>
+                <option value="sar_reversal">Parabolic SAR Reversal</option>
+                <option value="formula_above">Formula Above</option>
+                <option value="formula_below">Formula Below</option>
               </select>
             </div>
           </div>
@@ -448,6 +477,57 @@ const AlertCreator: React.FC<AlertCreatorProps> = ({
             </div>
           )}
 
+          {technicalAlertData.type.includes('adx') && (
+            <div>
+              <label className="block text-sm font-medium mb-1">ADX Level</label>
+              <input
+                type="number"
+                value={technicalAlertData.adxLevel}
+                onChange={(e) => setTechnicalAlertData(prev => ({ ...prev, adxLevel: parseInt(e.target.value) || 25 }))}
+                className="w-full p-2 border rounded-md"
+                min="0"
+                max="100"
+              />
+            </div>
+          )}
+
+          {technicalAlertData.type.includes('sar') && (
+            <div>
+              <label className="block text-sm font-medium mb-1">Direction</label>
+              <select
+                value={technicalAlertData.signalDirection}
+                onChange={(e) => setTechnicalAlertData(prev => ({ ...prev, signalDirection: e.target.value as '' | 'buy' | 'sell' }))}
+                className="w-full p-2 border rounded-md"
+              >
+                <option value="">Any flip</option>
+                <option value="buy">Bullish flip (buy)</option>
+                <option value="sell">Bearish flip (sell)</option>
+              </select>
+            </div>
+          )}
+
+          {technicalAlertData.type.includes('formula') && (
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <label className="block text-sm font-medium mb-1">Formula</label>
+                <FormulaInput
+                  value={technicalAlertData.formula}
+                  onChange={(formula) => setTechnicalAlertData(prev => ({ ...prev, formula }))}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Threshold</label>
+                <input
+                  type="number"
+                  value={technicalAlertData.threshold}
+                  onChange={(e) => setTechnicalAlertData(prev => ({ ...prev, threshold: parseFloat(e.target.value) || 0 }))}
+                  className="w-full p-2 border rounded-md"
+                  step="any"
+                />
+              </div>
+            </div>
+          )}
+
           {technicalAlertData.type.includes('volume') && (
             <div>
               <label className="block text-sm font-medium mb-1">Volume Multiplier</label>
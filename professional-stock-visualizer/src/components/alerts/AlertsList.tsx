@@ -107,6 +107,18 @@ const AlertsList: React.FC<AlertsListProps> = ({
           return `RSI < ${techAlert.parameters.rsiLevel || 30}`;
         case 'volume_breakout':
           return `Volume > ${techAlert.parameters.volumeMultiplier || 2}x avg`;
+        case 'adx_strong_trend':
+          return `ADX > ${techAlert.parameters.adxLevel || 25}`;
+        case 'adx_weak_trend':
+          return `ADX < ${techAlert.parameters.adxLevel || 20}`;
+        case 'sar_reversal':
+          return techAlert.parameters.signalDirection
+            ? `SAR flips ${techAlert.parameters.signalDirection === 'buy' ? 'bullish' : 'bearish'}`
+            : 'SAR reversal';
+        case 'formula_above':
+          return `${techAlert.parameters.formula} > ${techAlert.parameters.threshold ?? 0}`;
+        case 'formula_below':
+          return `${techAlert.parameters.formula} < ${techAlert.parameters.threshold ?? 0}`;
         default:
           return techAlert.type.replace('_', ' ').toUpperCase();
       }
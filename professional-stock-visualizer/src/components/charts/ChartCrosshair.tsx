@@ -0,0 +1,47 @@
+import React from 'react';
+
+interface ChartCrosshairProps {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  valueLabel?: string; // shown on the right axis at the pointer height
+  timeLabel?: string; // shown on the bottom axis at the pointer position
+}
+
+const LABEL_HEIGHT = 16;
+
+// 🚀 Crosshair lines with value and time labels pinned to the axes
+const ChartCrosshair: React.FC<ChartCrosshairProps> = ({ x, y, width, height, valueLabel, timeLabel }) => {
+  const valueWidth = valueLabel ? valueLabel.length * 6 + 10 : 0;
+  const timeWidth = timeLabel ? timeLabel.length * 6 + 10 : 0;
+  const timeX = Math.max(0, Math.min(width - timeWidth, x - timeWidth / 2));
+  const valueY = Math.max(0, Math.min(height - LABEL_HEIGHT, y - LABEL_HEIGHT / 2));
+
+  return (
+    <g className="chart-crosshair pointer-events-none">
+      <line x1={x} y1={0} x2={x} y2={height} stroke="hsl(var(--muted-foreground))" strokeWidth="1" strokeDasharray="3,3" opacity={0.7} />
+      <line x1={0} y1={y} x2={width} y2={y} stroke="hsl(var(--muted-foreground))" strokeWidth="1" strokeDasharray="3,3" opacity={0.7} />
+
+      {valueLabel && (
+        <g>
+          <rect x={width - valueWidth} y={valueY} width={valueWidth} height={LABEL_HEIGHT} rx={2} fill="#1e293b" />
+          <text x={width - valueWidth / 2} y={valueY + 11} textAnchor="middle" fontSize="10" fill="white">
+            {valueLabel}
+          </text>
+        </g>
+      )}
+
+      {timeLabel && (
+        <g>
+          <rect x={timeX} y={height - LABEL_HEIGHT} width={timeWidth} height={LABEL_HEIGHT} rx={2} fill="#1e293b" />
+          <text x={timeX + timeWidth / 2} y={height - 5} textAnchor="middle" fontSize="10" fill="white">
+            {timeLabel}
+          </text>
+        </g>
+      )}
+    </g>
+  );
+};
+
+export default ChartCrosshair;
@@ -0,0 +1,370 @@
+import React, { useState } from 'react';
+import type { ChartAnnotation, ChartDataPoint } from '../../types/chart';
+import { calculateFibonacciRetracement, formatPrice, getTimeIndex } from '../../utils/chartHelpers';
+
+export type DrawingTool = 'select' | ChartAnnotation['type'];
+
+// Everything a chart needs to host the drawing tools; built once in TradingChart
+export interface ChartDrawingControls {
+  annotations: ChartAnnotation[];
+  activeTool: DrawingTool;
+  selectedId: string | null;
+  color: string;
+  onSelect: (id: string | null) => void;
+  onCreate: (annotation: Omit<ChartAnnotation, 'id'>) => void;
+  onUpdate: (id: string, changes: Partial<Omit<ChartAnnotation, 'id'>>) => void;
+}
+
+interface DrawingLayerProps extends ChartDrawingControls {
+  data: ChartDataPoint[];
+  width: number;
+  height: number;
+  scaleX: (index: number) => number;
+  scaleY: (price: number) => number;
+  invertX: (x: number) => number; // pixel → fractional bar index
+  invertY: (y: number) => number; // pixel → price
+}
+
+interface Anchor {
+  time: string;
+  price: number;
+}
+
+interface DragState {
+  id: string;
+  mode: 'move' | 'start' | 'end';
+  originIndex: number;
+  originPrice: number;
+  original: ChartAnnotation;
+}
+
+const DASH_ARRAYS = { solid: undefined, dashed: '6,4', dotted: '2,3' };
+
+const TWO_POINT_TOOLS: DrawingTool[] = ['line', 'rectangle', 'arrow', 'fibonacci'];
+
+// 🚀 Interactive SVG layer: draws, selects and drags annotations anchored to time/price
+const DrawingLayer: React.FC<DrawingLayerProps> = ({
+  annotations,
+  activeTool,
+  selectedId,
+  color,
+  onSelect,
+  onCreate,
+  onUpdate,
+  data,
+  width,
+  height,
+  scaleX,
+  scaleY,
+  invertX,
+  invertY
+}) => {
+  const [draft, setDraft] = useState<{ start: Anchor; end: Anchor } | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [preview, setPreview] = useState<ChartAnnotation | null>(null);
+
+  if (data.length === 0) return null;
+
+  const lastIndex = data.length - 1;
+  const clampIndex = (index: number) => Math.max(0, Math.min(lastIndex, Math.round(index)));
+  const toX = (time: string | number) => scaleX(getTimeIndex(data, time));
+
+  const getPointer = (event: React.MouseEvent<SVGElement>) => {
+    const svg = event.currentTarget.ownerSVGElement ?? event.currentTarget;
+    const rect = svg.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const toAnchor = (event: React.MouseEvent<SVGElement>): Anchor => {
+    const { x, y } = getPointer(event);
+    return { time: data[clampIndex(invertX(x))].time, price: invertY(y) };
+  };
+
+  const shiftTime = (time: string | number, bars: number) =>
+    data[clampIndex(getTimeIndex(data, time) + bars)].time;
+
+  // 🚀 Drawing: press to set the first point, release to set the second
+  const handleDrawStart = (event: React.MouseEvent<SVGRectElement>) => {
+    event.stopPropagation(); // keep the chart from starting a pan underneath
+    const anchor = toAnchor(event);
+
+    if (activeTool === 'text') {
+      const text = window.prompt('Annotation text');
+      if (text?.trim()) {
+        onCreate({
+          type: 'text',
+          coordinates: { x1: anchor.time, y1: anchor.price },
+          style: { color },
+          text: text.trim(),
+          draggable: true,
+          visible: true,
+        });
+      }
+      return;
+    }
+
+    if (TWO_POINT_TOOLS.includes(activeTool)) {
+      setDraft({ start: anchor, end: anchor });
+    }
+  };
+
+  const handleMove = (event: React.MouseEvent<SVGRectElement>) => {
+    if (draft) {
+      setDraft({ ...draft, end: toAnchor(event) });
+      return;
+    }
+
+    if (drag) {
+      const anchor = toAnchor(event);
+      const { x, y } = getPointer(event);
+      const bars = Math.round(invertX(x) - drag.originIndex);
+      const priceDelta = invertY(y) - drag.originPrice;
+      const { coordinates } = drag.original;
+
+      const next = drag.mode === 'move'
+        ? {
+            x1: shiftTime(coordinates.x1, bars),
+            y1: coordinates.y1 + priceDelta,
+            x2: coordinates.x2 !== undefined ? shiftTime(coordinates.x2, bars) : undefined,
+            y2: coordinates.y2 !== undefined ? coordinates.y2 + priceDelta : undefined,
+          }
+        : drag.mode === 'start'
+          ? { ...coordinates, x1: anchor.time, y1: anchor.price }
+          : { ...coordinates, x2: anchor.time, y2: anchor.price };
+
+      setPreview({ ...drag.original, coordinates: next });
+    }
+  };
+
+  const handleEnd = () => {
+    if (draft) {
+      const moved = draft.start.time !== draft.end.time || Math.abs(scaleY(draft.start.price) - scaleY(draft.end.price)) > 3;
+      if (moved && activeTool !== 'select') {
+        onCreate({
+          type: activeTool,
+          coordinates: { x1: draft.start.time, y1: draft.start.price, x2: draft.end.time, y2: draft.end.price },
+          style: { color, width: 1.5, lineStyle: 'solid' },
+          draggable: true,
+          visible: true,
+        });
+      }
+      setDraft(null);
+    }
+
+    if (drag) {
+      if (preview) onUpdate(drag.id, { coordinates: preview.coordinates });
+      setDrag(null);
+      setPreview(null);
+    }
+  };
+
+  // 🚀 Selecting: press on a shape (or one of its handles) to select and drag it
+  const startDrag = (event: React.MouseEvent<SVGElement>, annotation: ChartAnnotation, mode: DragState['mode']) => {
+    if (activeTool !== 'select') return;
+    event.stopPropagation();
+    onSelect(annotation.id);
+    if (annotation.draggable === false) return;
+
+    const { x, y } = getPointer(event);
+    setDrag({ id: annotation.id, mode, originIndex: invertX(x), originPrice: invertY(y), original: annotation });
+  };
+
+  const editText = (annotation: ChartAnnotation) => {
+    if (annotation.type !== 'text') return;
+    const text = window.prompt('Edit annotation text', annotation.text ?? '');
+    if (text !== null && text.trim()) onUpdate(annotation.id, { text: text.trim() });
+  };
+
+  const renderAnnotation = (annotation: ChartAnnotation) => {
+    const { coordinates, style } = annotation;
+    const x1 = toX(coordinates.x1);
+    const y1 = scaleY(coordinates.y1);
+    const x2 = coordinates.x2 !== undefined ? toX(coordinates.x2) : x1;
+    const y2 = coordinates.y2 !== undefined ? scaleY(coordinates.y2) : y1;
+    const isSelected = annotation.id === selectedId;
+    const strokeWidth = (style.width ?? 1.5) + (isSelected ? 1 : 0);
+    const dash = DASH_ARRAYS[style.lineStyle ?? 'solid'];
+    const onMouseDown = (event: React.MouseEvent<SVGElement>) => startDrag(event, annotation, 'move');
+    const hitProps = {
+      stroke: 'transparent',
+      strokeWidth: 10,
+      style: { cursor: activeTool === 'select' ? 'move' : undefined, pointerEvents: 'stroke' as const },
+      onMouseDown,
+    };
+
+    let shape: React.ReactNode = null;
+
+    switch (annotation.type) {
+      case 'line':
+        shape = (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={style.color} strokeWidth={strokeWidth} strokeDasharray={dash} />
+            <line x1={x1} y1={y1} x2={x2} y2={y2} {...hitProps} />
+          </>
+        );
+        break;
+
+      case 'arrow': {
+        const angle = Math.atan2(y2 - y1, x2 - x1);
+        const head = 10;
+        const left = `${x2 - head * Math.cos(angle - Math.PI / 7)},${y2 - head * Math.sin(angle - Math.PI / 7)}`;
+        const right = `${x2 - head * Math.cos(angle + Math.PI / 7)},${y2 - head * Math.sin(angle + Math.PI / 7)}`;
+        shape = (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={style.color} strokeWidth={strokeWidth} strokeDasharray={dash} />
+            <polygon points={`${x2},${y2} ${left} ${right}`} fill={style.color} />
+            <line x1={x1} y1={y1} x2={x2} y2={y2} {...hitProps} />
+          </>
+        );
+        break;
+      }
+
+      case 'rectangle':
+        shape = (
+          <rect
+            x={Math.min(x1, x2)}
+            y={Math.min(y1, y2)}
+            width={Math.abs(x2 - x1)}
+            height={Math.abs(y2 - y1)}
+            fill={style.color}
+            fillOpacity={0.08}
+            stroke={style.color}
+            strokeWidth={strokeWidth}
+            strokeDasharray={dash}
+            style={{ cursor: activeTool === 'select' ? 'move' : undefined }}
+            onMouseDown={onMouseDown}
+          />
+        );
+        break;
+
+      case 'text':
+        shape = (
+          <text
+            x={x1}
+            y={y1}
+            fontSize="12"
+            fontWeight={isSelected ? 700 : 500}
+            fill={style.color}
+            style={{ cursor: activeTool === 'select' ? 'move' : undefined, userSelect: 'none' }}
+            onMouseDown={onMouseDown}
+            onDoubleClick={() => editText(annotation)}
+          >
+            {annotation.text}
+          </text>
+        );
+        break;
+
+      case 'fibonacci': {
+        if (coordinates.x2 === undefined || coordinates.y2 === undefined) break;
+        const fib = calculateFibonacciRetracement(
+          { time: String(coordinates.x1), price: coordinates.y1 },
+          { time: String(coordinates.x2), price: coordinates.y2 },
+          annotation.id
+        );
+        const left = Math.min(x1, x2);
+        shape = (
+          <>
+            <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={style.color} strokeWidth={1} strokeDasharray="4,4" />
+            {fib.levels.map(level => (
+              <g key={level.percentage}>
+                <line
+                  x1={left}
+                  y1={scaleY(level.price)}
+                  x2={width}
+                  y2={scaleY(level.price)}
+                  stroke={style.color}
+                  strokeWidth={level.percentage === 0.618 || level.percentage === 0.5 ? strokeWidth : 1}
+                  strokeDasharray={dash}
+                  opacity={level.percentage > 1 ? 0.5 : 0.85}
+                />
+                <text x={left + 4} y={scaleY(level.price) - 3} fontSize="9" fill={style.color}>
+                  {level.label} ${formatPrice(level.price)}
+                </text>
+              </g>
+            ))}
+            <rect
+              x={left}
+              y={Math.min(y1, y2)}
+              width={Math.max(4, Math.abs(x2 - x1))}
+              height={Math.max(4, Math.abs(y2 - y1))}
+              fill="transparent"
+              style={{ cursor: activeTool === 'select' ? 'move' : undefined }}
+              onMouseDown={onMouseDown}
+            />
+          </>
+        );
+        break;
+      }
+    }
+
+    const handles = isSelected && activeTool === 'select' && annotation.draggable !== false
+      ? (annotation.type === 'text' ? [] : [{ mode: 'start' as const, x: x1, y: y1 }, { mode: 'end' as const, x: x2, y: y2 }])
+      : [];
+
+    return (
+      <g key={annotation.id} className="chart-annotation" opacity={style.opacity ?? 1}>
+        {shape}
+        {handles.map(handle => (
+          <circle
+            key={handle.mode}
+            cx={handle.x}
+            cy={handle.y}
+            r={5}
+            fill="white"
+            stroke={style.color}
+            strokeWidth={2}
+            style={{ cursor: 'grab' }}
+            onMouseDown={(event) => startDrag(event, annotation, handle.mode)}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  const draftAnnotation: ChartAnnotation | null = draft && activeTool !== 'select' && activeTool !== 'text'
+    ? {
+        id: 'draft',
+        type: activeTool,
+        coordinates: { x1: draft.start.time, y1: draft.start.price, x2: draft.end.time, y2: draft.end.price },
+        style: { color, width: 1.5, opacity: 0.7 },
+        visible: true,
+      }
+    : null;
+
+  const capturing = activeTool !== 'select' || drag !== null;
+
+  return (
+    <g className="drawing-layer">
+      <defs>
+        <clipPath id="drawingLayerClip">
+          <rect x={0} y={0} width={width} height={height} />
+        </clipPath>
+      </defs>
+
+      <g clipPath="url(#drawingLayerClip)">
+        {annotations
+          .filter(annotation => annotation.visible)
+          .map(annotation => renderAnnotation(preview?.id === annotation.id ? preview : annotation))}
+        {draftAnnotation && renderAnnotation(draftAnnotation)}
+      </g>
+
+      {/* Full-size capture surface while drawing or dragging */}
+      {capturing && (
+        <rect
+          x={0}
+          y={0}
+          width={width}
+          height={height}
+          fill="transparent"
+          style={{ cursor: drag ? 'grabbing' : 'crosshair' }}
+          onMouseDown={handleDrawStart}
+          onMouseMove={handleMove}
+          onMouseUp={handleEnd}
+          onMouseLeave={handleEnd}
+        />
+      )}
+    </g>
+  );
+};
+
+export default DrawingLayer;
@@ -0,0 +1,106 @@
+import React from 'react';
+import { MousePointer2, Slash, Square, Type, MoveUpRight, Trash2, Eraser } from 'lucide-react';
+import type { ChartAnnotation } from '../../types/chart';
+import type { DrawingTool } from './DrawingLayer';
+import Button from '../ui/Button';
+
+interface DrawingToolbarProps {
+  activeTool: DrawingTool;
+  onToolChange: (tool: DrawingTool) => void;
+  color: string;
+  onColorChange: (color: string) => void;
+  selected: ChartAnnotation | null;
+  onUpdateSelected: (changes: Partial<Omit<ChartAnnotation, 'id'>>) => void;
+  onDeleteSelected: () => void;
+  onClear: () => void;
+  annotationCount: number;
+}
+
+const TOOLS: Array<{ id: DrawingTool; label: string; icon: React.ReactNode }> = [
+  { id: 'select', label: 'Select / move', icon: <MousePointer2 className="w-4 h-4" /> },
+  { id: 'line', label: 'Trend line', icon: <Slash className="w-4 h-4" /> },
+  { id: 'arrow', label: 'Arrow', icon: <MoveUpRight className="w-4 h-4" /> },
+  { id: 'rectangle', label: 'Rectangle', icon: <Square className="w-4 h-4" /> },
+  { id: 'text', label: 'Text', icon: <Type className="w-4 h-4" /> },
+  { id: 'fibonacci', label: 'Fibonacci retracement', icon: <span className="text-xs font-semibold">Fib</span> },
+];
+
+// 🚀 Tool palette for the chart drawing layer
+const DrawingToolbar: React.FC<DrawingToolbarProps> = ({
+  activeTool,
+  onToolChange,
+  color,
+  onColorChange,
+  selected,
+  onUpdateSelected,
+  onDeleteSelected,
+  onClear,
+  annotationCount
+}) => {
+  const handleColorChange = (value: string) => {
+    onColorChange(value);
+    if (selected) onUpdateSelected({ style: { ...selected.style, color: value } });
+  };
+
+  return (
+    <div className="flex items-center gap-1 px-4 py-2 border-b border-border bg-transparent">
+      {TOOLS.map(tool => (
+        <Button
+          key={tool.id}
+          variant={activeTool === tool.id ? "default" : "ghost"}
+          size="sm"
+          onClick={() => onToolChange(tool.id)}
+          title={tool.label}
+          className="h-8 px-2"
+        >
+          {tool.icon}
+        </Button>
+      ))}
+
+      <input
+        type="color"
+        value={selected?.style.color ?? color}
+        onChange={(e) => handleColorChange(e.target.value)}
+        className="h-8 w-8 ml-2 cursor-pointer bg-transparent"
+        title="Drawing color"
+      />
+
+      {selected && selected.type !== 'text' && (
+        <select
+          value={selected.style.lineStyle ?? 'solid'}
+          onChange={(e) => onUpdateSelected({
+            style: { ...selected.style, lineStyle: e.target.value as 'solid' | 'dashed' | 'dotted' }
+          })}
+          className="h-8 ml-1 px-2 text-xs rounded-md border border-border bg-background"
+          title="Line style"
+        >
+          <option value="solid">Solid</option>
+          <option value="dashed">Dashed</option>
+          <option value="dotted">Dotted</option>
+        </select>
+      )}
+
+      {selected && (
+        <Button variant="ghost" size="sm" onClick={onDeleteSelected} title="Delete selected drawing" className="h-8 px-2">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+
+      <div className="ml-auto flex items-center gap-2 text-xs text-muted-foreground">
+        {annotationCount > 0 && <span>{annotationCount} drawing{annotationCount === 1 ? '' : 's'}</span>}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          disabled={annotationCount === 0}
+          title="Clear all drawings"
+          className="h-8 px-2"
+        >
+          <Eraser className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DrawingToolbar;
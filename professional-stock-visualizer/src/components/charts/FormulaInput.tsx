@@ -0,0 +1,57 @@
+import React, { useState, useEffect } from 'react';
+import { cn } from '../../utils/cn';
+import { FORMULA_FIELDS, FORMULA_FUNCTIONS, validateFormula } from '../../utils/formulaEngine';
+
+interface FormulaInputProps {
+  value: string;
+  onChange: (formula: string) => void; // only called with formulas that parse
+  className?: string;
+}
+
+// 🚀 Formula editor that marks the position where parsing failed
+const FormulaInput: React.FC<FormulaInputProps> = ({ value, onChange, className }) => {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    setDraft(value);
+  }, [value]);
+
+  const validation = validateFormula(draft);
+  const error = validation.error;
+
+  const handleChange = (formula: string) => {
+    setDraft(formula);
+    if (validateFormula(formula).valid) onChange(formula);
+  };
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <input
+        type="text"
+        spellCheck={false}
+        className={cn(
+          'w-full h-8 px-2 text-xs font-mono rounded-md border bg-background',
+          error ? 'border-red-500' : 'border-border'
+        )}
+        value={draft}
+        onChange={event => handleChange(event.target.value)}
+      />
+      {error ? (
+        <div className="text-xs">
+          <pre className="font-mono text-muted-foreground overflow-x-auto">
+            {draft}
+            {'\n'}
+            <span className="text-red-500">{' '.repeat(error.position)}^</span>
+          </pre>
+          <p className="text-red-500">{error.message} (position {error.position + 1})</p>
+        </div>
+      ) : (
+        <p className="text-[10px] text-muted-foreground">
+          Fields: {FORMULA_FIELDS.join(', ')} · Functions: {Object.keys(FORMULA_FUNCTIONS).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FormulaInput;
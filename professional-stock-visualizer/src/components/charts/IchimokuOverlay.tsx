@@ -0,0 +1,125 @@
+import React from 'react';
+import type { IchimokuIndicator } from '../../types/indicators';
+
+interface IchimokuOverlayProps {
+  points: IchimokuIndicator['data'];
+  style: IchimokuIndicator['style'];
+  scaleX: (index: number) => number;
+  scaleY: (price: number) => number;
+  isVisible: (index: number) => boolean;
+}
+
+type IchimokuLine = 'conversionLine' | 'baseLine' | 'leadingSpan1' | 'leadingSpan2' | 'laggingSpan';
+
+// One polygon per stretch where span A stays on the same side of span B, split at the crossings
+const buildCloud = (
+  points: IchimokuIndicator['data'],
+  scaleX: (index: number) => number,
+  scaleY: (price: number) => number,
+  isVisible: (index: number) => boolean
+) => {
+  const regions: Array<{ path: string; bullish: boolean }> = [];
+  let upper: Array<[number, number]> = [];
+  let lower: Array<[number, number]> = [];
+  let bullish = true;
+  let previous: { index: number; diff: number; span1: number } | null = null;
+
+  const close = () => {
+    if (upper.length > 1) {
+      const outline = [...upper, ...[...lower].reverse()];
+      regions.push({
+        path: outline.map(([x, y], i) => `${i === 0 ? 'M' : 'L'} ${x} ${y}`).join(' ') + ' Z',
+        bullish
+      });
+    }
+    upper = [];
+    lower = [];
+  };
+
+  points.forEach((point, index) => {
+    const { leadingSpan1: span1, leadingSpan2: span2 } = point;
+    if (span1 === null || span2 === null || !isVisible(index)) {
+      close();
+      previous = null;
+      return;
+    }
+
+    const diff = span1 - span2;
+    const x = scaleX(index);
+
+    if (previous && (diff >= 0) !== (previous.diff >= 0)) {
+      // Interpolate the crossing so both regions meet at a single point
+      const t = previous.diff / (previous.diff - diff);
+      const crossX = scaleX(previous.index + t);
+      const crossY = scaleY(previous.span1 + (span1 - previous.span1) * t);
+      upper.push([crossX, crossY]);
+      lower.push([crossX, crossY]);
+      close();
+      upper.push([crossX, crossY]);
+      lower.push([crossX, crossY]);
+    }
+
+    if (upper.length === 0) bullish = diff >= 0;
+    upper.push([x, scaleY(span1)]);
+    lower.push([x, scaleY(span2)]);
+    previous = { index, diff, span1 };
+  });
+  close();
+
+  return regions;
+};
+
+// 🚀 Ichimoku lines with the kumo shaded by cloud direction
+const IchimokuOverlay: React.FC<IchimokuOverlayProps> = ({ points, style, scaleX, scaleY, isVisible }) => {
+  const buildLine = (key: IchimokuLine) => {
+    let pen = 'M';
+    return points
+      .map((point, index) => {
+        const value = point[key];
+        if (value === null || !isVisible(index)) {
+          pen = 'M';
+          return null;
+        }
+        const command = `${pen} ${scaleX(index)} ${scaleY(value)}`;
+        pen = 'L';
+        return command;
+      })
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  const lines: Array<{ key: IchimokuLine; color: string; dashed?: boolean }> = [
+    { key: 'leadingSpan1', color: style.leadingSpan1Color },
+    { key: 'leadingSpan2', color: style.leadingSpan2Color },
+    { key: 'laggingSpan', color: style.laggingSpanColor, dashed: true },
+    { key: 'baseLine', color: style.baseLineColor },
+    { key: 'conversionLine', color: style.conversionLineColor }
+  ];
+
+  return (
+    <g className="ichimoku-overlay pointer-events-none">
+      {buildCloud(points, scaleX, scaleY, isVisible).map((region, index) => (
+        <path
+          key={index}
+          d={region.path}
+          fill={region.bullish ? style.cloudUpColor : style.cloudDownColor}
+          opacity={0.2}
+        />
+      ))}
+
+      {lines.map(line => (
+        <path
+          key={line.key}
+          d={buildLine(line.key)}
+          stroke={line.color}
+          strokeWidth={line.key.startsWith('leading') ? style.width * 0.75 : style.width}
+          strokeDasharray={line.dashed ? '4,3' : undefined}
+          fill="none"
+          opacity={0.9}
+        />
+      ))}
+    </g>
+  );
+};
+
+export default IchimokuOverlay;
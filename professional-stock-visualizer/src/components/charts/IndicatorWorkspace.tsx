@@ -0,0 +1,648 @@
+import React, { useState, useMemo, useId } from 'react';
+import {
+  Plus,
+  Trash2,
+  Eye,
+  EyeOff,
+  ChevronUp,
+  ChevronDown,
+  Settings2,
+  Save,
+  FolderOpen,
+  Layers,
+  PanelBottom
+} from 'lucide-react';
+import type { ChartDataPoint, VisibleRange } from '../../types/chart';
+import type { AnyIndicator, IchimokuIndicator, IndicatorPreset } from '../../types/indicators';
+import Card from '../ui/Card';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { cn } from '../../utils/cn';
+import { useChartViewport } from '../../hooks/useChartViewport';
+import { useIndicatorEngine } from '../../hooks/useIndicatorEngine';
+import { createPriceScale, formatPrice, type PriceScaleMode } from '../../utils/chartHelpers';
+import {
+  INDICATOR_REGISTRY,
+  describeIndicator,
+  getIndicatorDefinition,
+  getIndicatorLevels,
+  getSeriesValue,
+  type RegisteredIndicatorType
+} from '../../utils/indicatorRegistry';
+import ChartCrosshair from './ChartCrosshair';
+import FormulaInput from './FormulaInput';
+import IchimokuOverlay from './IchimokuOverlay';
+import ParabolicSAROverlay from './ParabolicSAROverlay';
+import PivotPointsOverlay from './PivotPointsOverlay';
+import VWAPOverlay from './VWAPOverlay';
+
+interface IndicatorWorkspaceProps {
+  data: ChartDataPoint[];
+  width?: number;
+  height?: number;
+  panelHeight?: number;
+  visibleRange?: VisibleRange | null;
+  onVisibleRangeChange?: (range: VisibleRange | null) => void;
+  priceScale?: PriceScaleMode;
+  defaultIndicators?: RegisteredIndicatorType[]; // shown until the user saves their own layout
+  className?: string;
+}
+
+interface IndicatorPaneProps {
+  data: ChartDataPoint[];
+  indicators: AnyIndicator[];
+  width: number;
+  height: number;
+  showPrice: boolean; // price pane: close line plus overlays on a price scale
+  visibleRange?: VisibleRange | null;
+  onVisibleRangeChange?: (range: VisibleRange | null) => void;
+  priceScale?: PriceScaleMode;
+}
+
+const PRESET_CATEGORIES: IndicatorPreset['category'][] = ['beginner', 'intermediate', 'advanced', 'professional'];
+
+const DASH_ARRAYS: Record<string, string | undefined> = { solid: undefined, dashed: '6,3', dotted: '2,3' };
+
+const selectClassName = 'h-8 px-2 text-xs rounded-md border border-border bg-background';
+
+// Values an indicator contributes to the pane's autoscale, limited to the visible bars
+const collectScaleValues = (indicator: AnyIndicator, isVisible: (index: number) => boolean): number[] => {
+  const values: number[] = [];
+  switch (indicator.type) {
+    case 'vwap': {
+      const widest = Math.max(0, ...indicator.params.bandMultipliers);
+      indicator.data.forEach((point, index) => {
+        if (point.value === null || point.stdDev === null || !isVisible(index)) return;
+        values.push(point.value + widest * point.stdDev, point.value - widest * point.stdDev);
+      });
+      return values;
+    }
+    case 'pivot_points':
+      return values; // levels far from price would flatten the candles
+    case 'ichimoku':
+      indicator.data.forEach((point, index) => {
+        if (!isVisible(index)) return;
+        [point.conversionLine, point.baseLine, point.leadingSpan1, point.leadingSpan2, point.laggingSpan].forEach(value => {
+          if (value !== null) values.push(value);
+        });
+      });
+      return values;
+    default: {
+      const keys = getIndicatorDefinition(indicator.type).series.map(series => series.key);
+      (indicator.data as object[]).forEach((row, index) => {
+        if (!isVisible(index)) return;
+        keys.forEach(key => {
+          const value = getSeriesValue(row, key);
+          if (value !== null) values.push(value);
+        });
+      });
+      return values;
+    }
+  }
+};
+
+// 🚀 One SVG pane: the price pane stacks overlays by zIndex, panels hold a single indicator
+const IndicatorPane: React.FC<IndicatorPaneProps> = ({
+  data,
+  indicators,
+  width,
+  height,
+  showPrice,
+  visibleRange,
+  onVisibleRangeChange,
+  priceScale = 'normal'
+}) => {
+  // Leave room for the projected Ichimoku cloud
+  const rightPadding = Math.max(
+    0,
+    ...indicators.filter((indicator): indicator is IchimokuIndicator => indicator.type === 'ichimoku').map(indicator => indicator.params.displacement)
+  );
+
+  const { start, end, scaleX, invertX, isVisible, pointer, isPanning, svgRef, viewportHandlers } = useChartViewport({
+    data,
+    width,
+    visibleRange,
+    onVisibleRangeChange,
+    rightPadding
+  });
+  const clipId = `indicator-pane-clip-${useId().replace(/:/g, '')}`;
+
+  const scale = useMemo(() => {
+    const fixedRange = !showPrice && indicators.length === 1 ? getIndicatorDefinition(indicators[0].type).range : undefined;
+    if (fixedRange) return createPriceScale(fixedRange[0], fixedRange[1], height, 'normal', 0.02);
+
+    const values: number[] = [];
+    if (showPrice) {
+      data.forEach((point, index) => {
+        if (index >= Math.floor(start) && index <= Math.ceil(end)) values.push(point.high, point.low);
+      });
+    }
+    indicators.forEach(indicator => values.push(...collectScaleValues(indicator, isVisible)));
+    if (values.length === 0) return createPriceScale(0, 1, height);
+    return createPriceScale(Math.min(...values), Math.max(...values), height, showPrice ? priceScale : 'normal');
+  }, [data, indicators, showPrice, start, end, isVisible, height, priceScale]);
+
+  const scaleY = scale.scale;
+
+  const buildPath = (rows: object[], key: string) => {
+    let pen = 'M';
+    return rows
+      .map((row, index) => {
+        const value = getSeriesValue(row, key);
+        if (value === null || !isVisible(index)) {
+          pen = 'M';
+          return null;
+        }
+        const command = `${pen} ${scaleX(index)} ${scaleY(value)}`;
+        pen = 'L';
+        return command;
+      })
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  const closePath = buildPath(data, 'close');
+  const barWidth = Math.max(1, (width / Math.max(1, end - start + rightPadding)) * 0.6);
+
+  const renderIndicator = (indicator: AnyIndicator) => {
+    switch (indicator.type) {
+      case 'ichimoku':
+        return <IchimokuOverlay points={indicator.data} style={indicator.style} scaleX={scaleX} scaleY={scaleY} isVisible={isVisible} />;
+      case 'parabolic_sar':
+        return <ParabolicSAROverlay points={indicator.data} style={indicator.style} scaleX={scaleX} scaleY={scaleY} isVisible={isVisible} />;
+      case 'pivot_points':
+        return (
+          <PivotPointsOverlay
+            data={data}
+            levels={indicator.data}
+            params={indicator.params}
+            style={indicator.style}
+            scaleX={scaleX}
+            scaleY={scaleY}
+            isVisible={isVisible}
+          />
+        );
+      case 'vwap':
+        return (
+          <VWAPOverlay
+            points={indicator.data}
+            params={indicator.params}
+            style={indicator.style}
+            scaleX={scaleX}
+            scaleY={scaleY}
+            isVisible={isVisible}
+            height={height}
+          />
+        );
+    }
+
+    const definition = getIndicatorDefinition(indicator.type);
+    const style = indicator.style as Record<string, unknown>;
+    const rows = indicator.data as object[];
+    const lineWidth = typeof style.width === 'number' ? style.width : 1.5;
+    const opacity = typeof style.opacity === 'number' ? style.opacity : 1;
+    const dash = typeof style.lineStyle === 'string' ? DASH_ARRAYS[style.lineStyle] : undefined;
+
+    let fillPath: string | null = null;
+    if (definition.fill) {
+      const { upperKey, lowerKey } = definition.fill;
+      const upper: string[] = [];
+      const lower: string[] = [];
+      rows.forEach((row, index) => {
+        const high = getSeriesValue(row, upperKey);
+        const low = getSeriesValue(row, lowerKey);
+        if (high === null || low === null || !isVisible(index)) return;
+        upper.push(`${scaleX(index)} ${scaleY(high)}`);
+        lower.push(`${scaleX(index)} ${scaleY(low)}`);
+      });
+      if (upper.length > 1) fillPath = `M ${upper.join(' L ')} L ${lower.reverse().join(' L ')} Z`;
+    }
+
+    return (
+      <g>
+        {fillPath && definition.fill && (
+          <path
+            d={fillPath}
+            fill={String(style[definition.fill.colorKey])}
+            opacity={definition.fill.opacityKey ? Number(style[definition.fill.opacityKey]) : 0.1}
+          />
+        )}
+        {definition.series.map(series => {
+          if (series.kind === 'histogram') {
+            const zero = scaleY(0);
+            return (
+              <g key={series.key}>
+                {rows.map((row, index) => {
+                  const value = getSeriesValue(row, series.key);
+                  if (value === null || !isVisible(index)) return null;
+                  const y = scaleY(value);
+                  const color = value < 0 && series.negativeColorKey ? style[series.negativeColorKey] : style[series.colorKey];
+                  return (
+                    <rect
+                      key={index}
+                      x={scaleX(index) - barWidth / 2}
+                      y={Math.min(y, zero)}
+                      width={barWidth}
+                      height={Math.max(1, Math.abs(zero - y))}
+                      fill={String(color)}
+                      opacity={0.6}
+                    />
+                  );
+                })}
+              </g>
+            );
+          }
+          return (
+            <path
+              key={series.key}
+              d={buildPath(rows, series.key)}
+              stroke={String(style[series.colorKey])}
+              strokeWidth={lineWidth}
+              strokeDasharray={dash}
+              opacity={opacity}
+              fill="none"
+            />
+          );
+        })}
+      </g>
+    );
+  };
+
+  // Reference levels of a single oscillator panel
+  const levels = !showPrice && indicators.length === 1
+    ? getIndicatorLevels(indicators[0])
+    : [];
+
+  const pointerIndex = pointer ? Math.max(0, Math.min(data.length - 1, Math.round(invertX(pointer.x)))) : data.length - 1;
+
+  return (
+    <svg
+      ref={svgRef}
+      width={width}
+      height={height}
+      className={cn('indicator-pane', isPanning ? 'cursor-grabbing' : 'cursor-crosshair')}
+      {...viewportHandlers}
+    >
+      <defs>
+        <clipPath id={clipId}>
+          <rect width={width} height={height} />
+        </clipPath>
+      </defs>
+      <rect width={width} height={height} fill="transparent" />
+
+      {levels.map(level => (
+        <g key={level}>
+          <line x1={0} y1={scaleY(level)} x2={width} y2={scaleY(level)} stroke="hsl(var(--muted-foreground))" strokeWidth="0.5" strokeDasharray="2,2" />
+          <text x={width - 5} y={scaleY(level) - 3} textAnchor="end" fontSize="10" fill="hsl(var(--muted-foreground))">{level}</text>
+        </g>
+      ))}
+
+      <g clipPath={`url(#${clipId})`}>
+        {showPrice && <path d={closePath} stroke="hsl(var(--foreground))" strokeWidth="1" fill="none" opacity={0.7} />}
+        {indicators.map(indicator => (
+          <g key={indicator.id}>{renderIndicator(indicator)}</g>
+        ))}
+      </g>
+
+      {/* Legend with the values under the pointer */}
+      <g transform="translate(8, 14)">
+        {indicators.map((indicator, row) => {
+          const definition = getIndicatorDefinition(indicator.type);
+          const style = indicator.style as Record<string, unknown>;
+          const point = (indicator.data as object[])[pointerIndex];
+          const values = point
+            ? definition.series
+                .map(series => getSeriesValue(point, series.key))
+                .filter((value): value is number => value !== null)
+                .map(value => formatPrice(value))
+            : [];
+          const color = definition.series[0] ? String(style[definition.series[0].colorKey]) : 'hsl(var(--foreground))';
+          return (
+            <text key={indicator.id} x={0} y={row * 13} fontSize="10" fill={color}>
+              {describeIndicator(indicator)} {values.join(' / ')}
+            </text>
+          );
+        })}
+      </g>
+
+      {pointer && !isPanning && (
+        <ChartCrosshair
+          x={pointer.x}
+          y={pointer.y}
+          width={width}
+          height={height}
+          valueLabel={formatPrice(scale.invert(pointer.y))}
+          timeLabel={data[pointerIndex]?.time}
+        />
+      )}
+    </svg>
+  );
+};
+
+// Number, boolean, option and colour inputs generated from an instance's params and style
+const IndicatorEditor: React.FC<{
+  indicator: AnyIndicator;
+  onChange: (changes: { params?: Record<string, unknown>; style?: Record<string, unknown>; name?: string }) => void;
+}> = ({ indicator, onChange }) => {
+  const definition = getIndicatorDefinition(indicator.type);
+
+  const renderField = (group: 'params' | 'style', key: string, value: unknown) => {
+    const options = (group === 'params' ? definition.paramOptions : definition.styleOptions)?.[key];
+    const update = (next: unknown) => onChange({ [group]: { [key]: next } });
+
+    if (options) {
+      return (
+        <select className={selectClassName} value={String(value)} onChange={event => update(event.target.value)}>
+          {options.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+      );
+    }
+    if (typeof value === 'boolean') {
+      return <input type="checkbox" checked={value} onChange={event => update(event.target.checked)} />;
+    }
+    if (typeof value === 'number') {
+      return (
+        <input
+          type="number"
+          step="any"
+          className={cn(selectClassName, 'w-24')}
+          value={value}
+          onChange={event => {
+            const next = parseFloat(event.target.value);
+            if (!isNaN(next)) update(next);
+          }}
+        />
+      );
+    }
+    if (typeof value === 'string' && value.startsWith('#')) {
+      return <input type="color" className="h-8 w-12 rounded border border-border bg-background" value={value} onChange={event => update(event.target.value)} />;
+    }
+    if (Array.isArray(value) && value.every(item => typeof item === 'number')) {
+      return (
+        <input
+          type="text"
+          className={cn(selectClassName, 'w-24')}
+          defaultValue={value.join(', ')}
+          onBlur={event => update(event.target.value.split(',').map(parseFloat).filter(item => !isNaN(item) && item > 0))}
+        />
+      );
+    }
+    return null; // colour lists and anchors are edited elsewhere
+  };
+
+  const renderGroup = (group: 'params' | 'style') =>
+    Object.entries(indicator[group]).map(([key, value]) => {
+      const field = renderField(group, key, value);
+      return field ? (
+        <label key={`${group}-${key}`} className="flex items-center justify-between gap-2 text-xs">
+          <span className="text-muted-foreground">{key}</span>
+          {field}
+        </label>
+      ) : null;
+    });
+
+  return (
+    <div className="space-y-2 pt-2 border-t border-border">
+      <label className="flex items-center justify-between gap-2 text-xs">
+        <span className="text-muted-foreground">name</span>
+        <input
+          type="text"
+          className={cn(selectClassName, 'w-32')}
+          value={indicator.name}
+          onChange={event => onChange({ name: event.target.value })}
+        />
+      </label>
+      {indicator.type === 'formula' ? (
+        <FormulaInput value={indicator.params.formula} onChange={formula => onChange({ params: { formula } })} />
+      ) : (
+        renderGroup('params')
+      )}
+      {renderGroup('style')}
+    </div>
+  );
+};
+
+// 🚀 Indicator workspace: stack any number of registry instances and save the layout as a preset
+const IndicatorWorkspace: React.FC<IndicatorWorkspaceProps> = ({
+  data,
+  width = 800,
+  height = 320,
+  panelHeight = 160,
+  visibleRange,
+  onVisibleRangeChange,
+  priceScale = 'normal',
+  defaultIndicators,
+  className
+}) => {
+  const {
+    indicators,
+    computed,
+    presets,
+    addIndicator,
+    updateIndicator,
+    removeIndicator,
+    moveIndicator,
+    clearIndicators,
+    savePreset,
+    loadPreset,
+    deletePreset
+  } = useIndicatorEngine(data, defaultIndicators);
+
+  const [typeToAdd, setTypeToAdd] = useState<RegisteredIndicatorType>('sma');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [presetName, setPresetName] = useState('');
+  const [presetCategory, setPresetCategory] = useState<IndicatorPreset['category']>('intermediate');
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+
+  const visibleIndicators = computed.filter(indicator => indicator.visible);
+  const overlays = visibleIndicators.filter(indicator => indicator.displayType === 'overlay');
+  const panels = visibleIndicators.filter(indicator => indicator.displayType === 'separate_panel');
+  const ordered = [...indicators].sort((a, b) => b.zIndex - a.zIndex); // topmost first
+
+  const handleSavePreset = () => {
+    try {
+      savePreset(presetName, presetCategory, `${indicators.length} indicators`);
+      setPresetName('');
+    } catch (error) {
+      console.error('Error saving indicator preset:', error);
+    }
+  };
+
+  const selectedPreset = presets.find(preset => preset.id === selectedPresetId);
+
+  if (!data || data.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <Layers className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">No data available for indicators</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('indicator-workspace flex gap-4', className)}>
+      <div className="flex-1 space-y-2 min-w-0">
+        <IndicatorPane
+          data={data}
+          indicators={overlays}
+          width={width}
+          height={height}
+          showPrice
+          visibleRange={visibleRange}
+          onVisibleRangeChange={onVisibleRangeChange}
+          priceScale={priceScale}
+        />
+        {panels.map(indicator => (
+          <div key={indicator.id} className="border-t border-border">
+            <IndicatorPane
+              data={data}
+              indicators={[indicator]}
+              width={width}
+              height={panelHeight}
+              showPrice={false}
+              visibleRange={visibleRange}
+              onVisibleRangeChange={onVisibleRangeChange}
+            />
+          </div>
+        ))}
+      </div>
+
+      <Card className="w-80 p-4 space-y-4 shrink-0">
+        {/* Add */}
+        <div className="flex items-center gap-2">
+          <select
+            className={cn(selectClassName, 'flex-1')}
+            value={typeToAdd}
+            onChange={event => setTypeToAdd(event.target.value as RegisteredIndicatorType)}
+          >
+            {Object.values(INDICATOR_REGISTRY).map(definition => (
+              <option key={definition.type} value={definition.type}>{definition.name}</option>
+            ))}
+          </select>
+          <Button size="sm" variant="outline" onClick={() => setEditingId(addIndicator(typeToAdd).id)}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Instances, topmost first */}
+        <div className="space-y-2">
+          {ordered.length === 0 && <p className="text-xs text-muted-foreground">No indicators yet</p>}
+          {ordered.map((indicator, position) => {
+            const definition = getIndicatorDefinition(indicator.type);
+            const canSwitch = definition.displayTypes.length > 1;
+            return (
+              <div key={indicator.id} className="rounded-md border border-border p-2 space-y-1">
+                <div className="flex items-center gap-1">
+                  <span className={cn('text-xs font-medium flex-1 truncate', !indicator.visible && 'text-muted-foreground')}>
+                    {describeIndicator(indicator)}
+                  </span>
+                  <button
+                    className="p-1 hover:bg-accent rounded disabled:opacity-40"
+                    title={indicator.displayType === 'overlay' ? 'Move to separate panel' : 'Overlay on price'}
+                    disabled={!canSwitch}
+                    onClick={() =>
+                      updateIndicator(indicator.id, {
+                        displayType: indicator.displayType === 'overlay' ? 'separate_panel' : 'overlay'
+                      })
+                    }
+                  >
+                    {indicator.displayType === 'overlay' ? <Layers className="w-3 h-3" /> : <PanelBottom className="w-3 h-3" />}
+                  </button>
+                  <button className="p-1 hover:bg-accent rounded" title="Toggle visibility" onClick={() => updateIndicator(indicator.id, { visible: !indicator.visible })}>
+                    {indicator.visible ? <Eye className="w-3 h-3" /> : <EyeOff className="w-3 h-3" />}
+                  </button>
+                  <button className="p-1 hover:bg-accent rounded disabled:opacity-40" title="Bring forward" disabled={position === 0} onClick={() => moveIndicator(indicator.id, 'up')}>
+                    <ChevronUp className="w-3 h-3" />
+                  </button>
+                  <button className="p-1 hover:bg-accent rounded disabled:opacity-40" title="Send backward" disabled={position === ordered.length - 1} onClick={() => moveIndicator(indicator.id, 'down')}>
+                    <ChevronDown className="w-3 h-3" />
+                  </button>
+                  <button className="p-1 hover:bg-accent rounded" title="Settings" onClick={() => setEditingId(editingId === indicator.id ? null : indicator.id)}>
+                    <Settings2 className="w-3 h-3" />
+                  </button>
+                  <button className="p-1 hover:bg-accent rounded text-red-500" title="Remove" onClick={() => removeIndicator(indicator.id)}>
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                {editingId === indicator.id && (
+                  <IndicatorEditor indicator={indicator} onChange={changes => updateIndicator(indicator.id, changes)} />
+                )}
+              </div>
+            );
+          })}
+          {ordered.length > 0 && (
+            <Button size="sm" variant="ghost" className="w-full" onClick={clearIndicators}>
+              Clear all
+            </Button>
+          )}
+        </div>
+
+        {/* Presets */}
+        <div className="space-y-2 pt-3 border-t border-border">
+          <h4 className="text-sm font-semibold">Presets</h4>
+          <div className="flex items-center gap-2">
+            <select
+              className={cn(selectClassName, 'flex-1')}
+              value={selectedPresetId}
+              onChange={event => setSelectedPresetId(event.target.value)}
+            >
+              <option value="">Select preset…</option>
+              {PRESET_CATEGORIES.map(category => (
+                <optgroup key={category} label={category}>
+                  {presets.filter(preset => preset.category === category).map(preset => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </optgroup>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" disabled={!selectedPreset} onClick={() => selectedPreset && loadPreset(selectedPreset.id)}>
+              <FolderOpen className="w-4 h-4" />
+            </Button>
+            {selectedPreset && !selectedPreset.id.startsWith('builtin_') && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => {
+                  deletePreset(selectedPreset.id);
+                  setSelectedPresetId('');
+                }}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+          {selectedPreset && (
+            <div className="flex items-center gap-2">
+              <Badge variant="secondary" size="sm">{selectedPreset.category}</Badge>
+              <span className="text-xs text-muted-foreground truncate">{selectedPreset.description}</span>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              placeholder="Preset name"
+              className={cn(selectClassName, 'flex-1 min-w-0')}
+              value={presetName}
+              onChange={event => setPresetName(event.target.value)}
+            />
+            <select
+              className={selectClassName}
+              value={presetCategory}
+              onChange={event => setPresetCategory(event.target.value as IndicatorPreset['category'])}
+            >
+              {PRESET_CATEGORIES.map(category => <option key={category} value={category}>{category}</option>)}
+            </select>
+            <Button size="sm" variant="outline" disabled={!presetName.trim() || indicators.length === 0} onClick={handleSavePreset}>
+              <Save className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default IndicatorWorkspace;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { SimulationBand } from '../../types/stock';
+import { cn } from '../../utils/cn';
+
+interface MonteCarloFanChartProps {
+  bands: SimulationBand[];
+  startValue: number;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const PADDING = { top: 16, right: 24, bottom: 36, left: 64 };
+
+const formatValue = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD', maximumFractionDigits: value >= 1000 ? 0 : 2 });
+
+// 🚀 Percentile fan of simulated values: 5–95% and 25–75% bands around the median path
+const MonteCarloFanChart: React.FC<MonteCarloFanChartProps> = ({
+  bands,
+  startValue,
+  width = 640,
+  height = 300,
+  className
+}) => {
+  const [hoveredStep, setHoveredStep] = useState<number | null>(null);
+  if (bands.length < 2) return null;
+
+  const horizon = bands[bands.length - 1].step;
+  const minY = Math.min(startValue, ...bands.map(band => band.p5));
+  const maxY = Math.max(startValue, ...bands.map(band => band.p95));
+  const padY = (maxY - minY) * 0.05 || startValue * 0.05;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const scaleX = (step: number) => PADDING.left + (step / horizon) * plotWidth;
+  const scaleY = (value: number) => PADDING.top + (1 - (value - minY + padY) / (maxY - minY + 2 * padY)) * plotHeight;
+
+  const area = (upper: keyof SimulationBand, lower: keyof SimulationBand) =>
+    [
+      ...bands.map((band, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(band.step)} ${scaleY(band[upper])}`),
+      ...[...bands].reverse().map(band => `L ${scaleX(band.step)} ${scaleY(band[lower])}`),
+      'Z'
+    ].join(' ');
+  const medianPath = bands.map((band, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(band.step)} ${scaleY(band.p50)}`).join(' ');
+
+  const yTicks = Array.from({ length: 5 }, (_, i) => minY - padY + ((maxY - minY + 2 * padY) * i) / 4);
+  const xTicks = Array.from({ length: 5 }, (_, i) => Math.round((horizon * i) / 4));
+
+  const handleMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * width;
+    const step = Math.round(((x - PADDING.left) / plotWidth) * horizon);
+    setHoveredStep(step >= 0 && step <= horizon ? step : null);
+  };
+
+  const hovered = hoveredStep !== null ? bands.find(band => band.step === hoveredStep) : undefined;
+
+  return (
+    <div className={cn('relative', className)}>
+      <svg
+        width="100%"
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="xMidYMid meet"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setHoveredStep(null)}
+      >
+        {/* Grid and axes */}
+        {yTicks.map(value => (
+          <g key={`y-${value}`}>
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={scaleY(value)} y2={scaleY(value)} stroke="hsl(var(--border))" strokeDasharray="2,4" />
+            <text x={PADDING.left - 6} y={scaleY(value)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="hsl(var(--muted-foreground))">
+              {formatValue(value)}
+            </text>
+          </g>
+        ))}
+        {xTicks.map(step => (
+          <text key={`x-${step}`} x={scaleX(step)} y={height - PADDING.bottom + 14} textAnchor="middle" fontSize="10" fill="hsl(var(--muted-foreground))">
+            {step}
+          </text>
+        ))}
+        <text x={PADDING.left + plotWidth / 2} y={height - 4} textAnchor="middle" fontSize="11" fill="hsl(var(--muted-foreground))">
+          Trading days ahead
+        </text>
+
+        {/* Bands */}
+        <path d={area('p95', 'p5')} fill="#3b82f6" opacity={0.15} />
+        <path d={area('p75', 'p25')} fill="#3b82f6" opacity={0.3} />
+        <path d={medianPath} fill="none" stroke="#1d4ed8" strokeWidth={2} />
+        <line
+          x1={PADDING.left}
+          x2={width - PADDING.right}
+          y1={scaleY(startValue)}
+          y2={scaleY(startValue)}
+          stroke="#ef4444"
+          strokeWidth={1}
+          strokeDasharray="4,4"
+        />
+
+        {hovered && (
+          <line x1={scaleX(hovered.step)} x2={scaleX(hovered.step)} y1={PADDING.top} y2={height - PADDING.bottom} stroke="hsl(var(--muted-foreground))" strokeWidth={1} />
+        )}
+      </svg>
+
+      {hovered && (
+        <div
+          className="absolute pointer-events-none px-2 py-1 text-xs bg-popover text-popover-foreground border rounded shadow-sm whitespace-nowrap"
+          style={{ left: `${(scaleX(hovered.step) / width) * 100}%`, top: `${(PADDING.top / height) * 100}%`, transform: 'translateX(-50%)' }}
+        >
+          <div className="font-medium">Day {hovered.step}</div>
+          <div>95%: {formatValue(hovered.p95)}</div>
+          <div>75%: {formatValue(hovered.p75)}</div>
+          <div>Median: {formatValue(hovered.p50)}</div>
+          <div>25%: {formatValue(hovered.p25)}</div>
+          <div>5%: {formatValue(hovered.p5)}</div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-blue-500/15" />5–95%</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-3 bg-blue-500/30" />25–75%</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-blue-700" />Median</span>
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-red-500" />Start value</span>
+      </div>
+    </div>
+  );
+};
+
+export default MonteCarloFanChart;
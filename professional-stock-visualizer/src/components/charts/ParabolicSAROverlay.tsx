@@ -0,0 +1,33 @@
+import React from 'react';
+import type { ParabolicSARIndicator } from '../../types/indicators';
+
+interface ParabolicSAROverlayProps {
+  points: ParabolicSARIndicator['data'];
+  style: ParabolicSARIndicator['style'];
+  scaleX: (index: number) => number;
+  scaleY: (price: number) => number;
+  isVisible: (index: number) => boolean;
+}
+
+// 🚀 SAR dots below price in an uptrend and above it in a downtrend; flips are ringed
+const ParabolicSAROverlay: React.FC<ParabolicSAROverlayProps> = ({ points, style, scaleX, scaleY, isVisible }) => (
+  <g className="parabolic-sar-overlay pointer-events-none">
+    {points.map((point, index) => {
+      if (point.sar === null || !isVisible(index)) return null;
+      const color = point.trend === 'up' ? style.upColor : style.downColor;
+      const cx = scaleX(index);
+      const cy = scaleY(point.sar);
+
+      return (
+        <g key={index}>
+          <circle cx={cx} cy={cy} r={style.size} fill={color} opacity={0.9} />
+          {point.reversal && (
+            <circle cx={cx} cy={cy} r={style.size + 3} fill="none" stroke={color} strokeWidth="1.5" />
+          )}
+        </g>
+      );
+    })}
+  </g>
+);
+
+export default ParabolicSAROverlay;
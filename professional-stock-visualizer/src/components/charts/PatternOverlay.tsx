@@ -0,0 +1,100 @@
+import React from 'react';
+import type { ChartDataPoint, ChartPattern } from '../../types/chart';
+import { formatPrice } from '../../utils/chartHelpers';
+
+interface PatternOverlayProps {
+  patterns: ChartPattern[];
+  data: ChartDataPoint[];
+  width: number;
+  scaleX: (index: number) => number;
+  scaleY: (price: number) => number;
+}
+
+const PATTERN_LABELS: Record<ChartPattern['type'], string> = {
+  'triangle': 'Triangle',
+  'channel': 'Channel',
+  'flag': 'Flag',
+  'pennant': 'Pennant',
+  'head-shoulders': 'H&S',
+  'double-top': 'Double Top',
+  'double-bottom': 'Double Bottom',
+  'cup-handle': 'Cup & Handle',
+};
+
+// Patterns drawn as two bounding lines rather than a zig-zag through every swing
+const BOUNDED_PATTERNS: ChartPattern['type'][] = ['triangle', 'channel', 'flag', 'pennant'];
+
+// 🚀 SVG layer drawing detected chart patterns with their target and stop levels
+const PatternOverlay: React.FC<PatternOverlayProps> = ({ patterns, data, width, scaleX, scaleY }) => {
+  const indexByTime = new Map(data.map((point, index) => [point.time, index]));
+
+  return (
+    <g className="pattern-overlay pointer-events-none">
+      {patterns.map(pattern => {
+        const points = pattern.points
+          .map(point => ({ ...point, index: indexByTime.get(point.time) }))
+          .filter((point): point is typeof point & { index: number } => point.index !== undefined);
+        if (points.length < 2) return null;
+
+        const color = pattern.bullish ? '#22c55e' : '#ef4444';
+        const toPath = (list: typeof points) =>
+          list.map((point, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(point.index)} ${scaleY(point.price)}`).join(' ');
+
+        const swings = points.filter(point => point.role !== 'breakout');
+        const breakout = points.find(point => point.role === 'breakout');
+        const lastIndex = points[points.length - 1].index;
+        const levelStart = scaleX(lastIndex);
+        const levelEnd = Math.min(width, levelStart + Math.max(40, width * 0.08));
+        const labelPoint = swings.reduce((top, point) => (scaleY(point.price) < scaleY(top.price) ? point : top), swings[0]);
+
+        return (
+          <g key={pattern.id} className="chart-pattern">
+            {BOUNDED_PATTERNS.includes(pattern.type) ? (
+              <>
+                <path d={toPath(swings.filter(point => point.role === 'peak'))} fill="none" stroke={color} strokeWidth="1.5" opacity={0.8} />
+                <path d={toPath(swings.filter(point => point.role === 'trough'))} fill="none" stroke={color} strokeWidth="1.5" opacity={0.8} />
+              </>
+            ) : (
+              <path d={toPath(swings)} fill="none" stroke={color} strokeWidth="1.5" opacity={0.8} />
+            )}
+
+            {swings.map((point, i) => (
+              <circle key={i} cx={scaleX(point.index)} cy={scaleY(point.price)} r={3} fill={color} opacity={0.9} />
+            ))}
+
+            {breakout && (
+              <path
+                d={`M ${scaleX(breakout.index) - 5} ${scaleY(breakout.price)} L ${scaleX(breakout.index) + 5} ${scaleY(breakout.price)} L ${scaleX(breakout.index)} ${scaleY(breakout.price) + (pattern.bullish ? -8 : 8)} Z`}
+                fill={color}
+              />
+            )}
+
+            {pattern.target !== undefined && (
+              <g className="pattern-target">
+                <line x1={levelStart} y1={scaleY(pattern.target)} x2={levelEnd} y2={scaleY(pattern.target)} stroke={color} strokeWidth="1" strokeDasharray="4,3" />
+                <text x={levelEnd} y={scaleY(pattern.target) - 3} textAnchor="end" fontSize="9" fill={color}>
+                  T ${formatPrice(pattern.target)}
+                </text>
+              </g>
+            )}
+
+            {pattern.stopLoss !== undefined && (
+              <g className="pattern-stop">
+                <line x1={levelStart} y1={scaleY(pattern.stopLoss)} x2={levelEnd} y2={scaleY(pattern.stopLoss)} stroke="hsl(var(--muted-foreground))" strokeWidth="1" strokeDasharray="1,3" />
+                <text x={levelEnd} y={scaleY(pattern.stopLoss) + 10} textAnchor="end" fontSize="9" fill="hsl(var(--muted-foreground))">
+                  SL ${formatPrice(pattern.stopLoss)}
+                </text>
+              </g>
+            )}
+
+            <text x={scaleX(labelPoint.index)} y={scaleY(labelPoint.price) - 8} textAnchor="middle" fontSize="10" fontWeight="600" fill={color}>
+              {PATTERN_LABELS[pattern.type]} {Math.round(pattern.confidence * 100)}%
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default PatternOverlay;
@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+import type { ChartDataPoint } from '../../types/chart';
+import type { PivotPointsIndicator } from '../../types/indicators';
+import { formatPrice } from '../../utils/chartHelpers';
+
+interface PivotPointsOverlayProps {
+  data: ChartDataPoint[];
+  levels: PivotPointsIndicator['data'];
+  params: PivotPointsIndicator['params'];
+  style: PivotPointsIndicator['style'];
+  scaleX: (index: number) => number;
+  scaleY: (price: number) => number;
+  isVisible: (index: number) => boolean;
+}
+
+type PivotLevel = Omit<PivotPointsIndicator['data'][number], 'time'>;
+type PivotKey = keyof PivotLevel;
+
+// 🚀 Pivot levels as step lines: each period holds the levels computed from the one before it
+const PivotPointsOverlay: React.FC<PivotPointsOverlayProps> = ({ data, levels, params, style, scaleX, scaleY, isVisible }) => {
+  // Bar span covered by each period's levels
+  const periods = useMemo(() => {
+    const indexByTime = new Map(data.map((point, index) => [point.time, index]));
+    const starts = levels.map(level => indexByTime.get(level.time) ?? -1);
+    return levels
+      .map((level, i) => ({ level, start: starts[i], end: i + 1 < levels.length ? starts[i + 1] : data.length }))
+      .filter(period => period.start >= 0);
+  }, [data, levels]);
+
+  const series: Array<{ label: string; color: string; get: (level: PivotLevel) => number; midpoint?: boolean }> = [
+    { label: 'P', color: style.pivotColor, get: level => level.pivot }
+  ];
+
+  if (params.showLevels) {
+    (['r1', 'r2', 'r3'] as PivotKey[]).forEach((key, i) => {
+      series.push({ label: key.toUpperCase(), color: style.resistanceColors[i] ?? style.resistanceColors[0], get: level => level[key] });
+    });
+    (['s1', 's2', 's3'] as PivotKey[]).forEach((key, i) => {
+      series.push({ label: key.toUpperCase(), color: style.supportColors[i] ?? style.supportColors[0], get: level => level[key] });
+    });
+  }
+
+  if (params.showMidpoints) {
+    const pairs: Array<[PivotKey, PivotKey]> = params.showLevels
+      ? [['pivot', 'r1'], ['r1', 'r2'], ['r2', 'r3'], ['pivot', 's1'], ['s1', 's2'], ['s2', 's3']]
+      : [['pivot', 'r1'], ['pivot', 's1']];
+    pairs.forEach(([a, b]) => {
+      const label = `M${a === 'pivot' ? '' : a.toUpperCase()}${b.toUpperCase()}`;
+      series.push({ label, color: style.pivotColor, get: level => (level[a] + level[b]) / 2, midpoint: true });
+    });
+  }
+
+  const buildStepPath = (get: (level: PivotLevel) => number) => {
+    let previousEnd: number | null = null;
+    return periods
+      .map(({ level, start, end }) => {
+        if (!isVisible(start) && !isVisible(end - 1)) {
+          previousEnd = null;
+          return null;
+        }
+        const x1 = scaleX(start - 0.5);
+        const x2 = scaleX(end - 0.5);
+        const y = scaleY(get(level));
+        // Joined to the previous period so the line steps rather than breaks
+        const command: string = `${previousEnd === start ? 'L' : 'M'} ${x1} ${y} H ${x2}`;
+        previousEnd = end;
+        return command;
+      })
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  const lastVisible = [...periods].reverse().find(({ start, end }) => isVisible(start) || isVisible(end - 1));
+
+  return (
+    <g className="pivot-points-overlay pointer-events-none">
+      {series.map(item => (
+        <path
+          key={item.label}
+          d={buildStepPath(item.get)}
+          stroke={item.color}
+          strokeWidth={item.midpoint ? style.width * 0.6 : style.width}
+          strokeDasharray={item.midpoint ? '2,3' : style.lineStyle === 'dashed' ? '6,3' : undefined}
+          fill="none"
+          opacity={item.midpoint ? 0.5 : 0.8}
+        />
+      ))}
+
+      {lastVisible && series.filter(item => !item.midpoint).map(item => (
+        <text
+          key={item.label}
+          x={Math.max(scaleX(lastVisible.start - 0.5), 0) + 4}
+          y={scaleY(item.get(lastVisible.level)) - 3}
+          fontSize="9"
+          fill={item.color}
+        >
+          {item.label} {formatPrice(item.get(lastVisible.level))}
+        </text>
+      ))}
+    </g>
+  );
+};
+
+export default PivotPointsOverlay;
@@ -0,0 +1,30 @@
+import React from 'react';
+import type { SupportResistanceLevel } from '../../types/chart';
+import { formatPrice } from '../../utils/chartHelpers';
+
+interface SupportResistanceOverlayProps {
+  levels: SupportResistanceLevel[];
+  width: number;
+  scaleY: (price: number) => number;
+}
+
+// 🚀 Horizontal support/resistance levels; stronger levels are drawn bolder
+const SupportResistanceOverlay: React.FC<SupportResistanceOverlayProps> = ({ levels, width, scaleY }) => (
+  <g className="support-resistance-overlay pointer-events-none">
+    {levels.map(level => {
+      const y = scaleY(level.price);
+      const color = level.type === 'support' ? '#22c55e' : '#ef4444';
+
+      return (
+        <g key={level.id} opacity={0.4 + level.strength * 0.5}>
+          <line x1={0} y1={y} x2={width} y2={y} stroke={color} strokeWidth={1 + level.strength} strokeDasharray="8,4" />
+          <text x={4} y={y - 3} fontSize="9" fill={color}>
+            {level.type === 'support' ? 'S' : 'R'} ${formatPrice(level.price)} · {level.touches}×
+          </text>
+        </g>
+      );
+    })}
+  </g>
+);
+
+export default SupportResistanceOverlay;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useId, useRef } from 'react';
 import { 
   BarChart3, 
   TrendingUp, 
@@ -9,16 +9,49 @@ import {
   ZoomIn,
   ZoomOut,
   RotateCcw,
-  Target
+  Target,
+  TrendingUpDown,
+  Crosshair,
+  ChartCandlestick,
+  ChartNoAxesColumn,
+  AreaChart,
+  Layers,
+  Cloud,
+  CircleDot,
+  Rows3,
+  Anchor
 } from 'lucide-react';
-import type { ChartDataPoint, ChartSettings, ChartType, Timeframe } from '../../types/chart';
+import type { ChartDataPoint, ChartPattern, ChartSettings, ChartType, SupportResistanceLevel, Timeframe, TrendLine, VisibleRange } from '../../types/chart';
 import { useChartData } from '../../hooks/useChartData';
 import { useTimeframe } from '../../hooks/useTimeframe';
+import { useChartViewport } from '../../hooks/useChartViewport';
 import { ProfessionalTabs } from '../ui/Tabs';
 import Button from '../ui/Button';
 import Badge from '../ui/Badge';
 import { cn } from '../../utils/cn';
-import { formatPrice, formatVolume } from '../../utils/chartHelpers';
+import { formatPrice, formatVolume, detectChartPatterns, detectTrendLines, detectSupportResistance, zoomVisibleRange, getVisibleIndexRange, calculateHeikinAshi, createPriceScale, type PriceScaleMode } from '../../utils/chartHelpers';
+import PatternOverlay from './PatternOverlay';
+import TrendLineOverlay from './TrendLineOverlay';
+import DrawingLayer, { type ChartDrawingControls, type DrawingTool } from './DrawingLayer';
+import DrawingToolbar from './DrawingToolbar';
+import ChartCrosshair from './ChartCrosshair';
+import SupportResistanceOverlay from './SupportResistanceOverlay';
+import IchimokuOverlay from './IchimokuOverlay';
+import ParabolicSAROverlay from './ParabolicSAROverlay';
+import PivotPointsOverlay from './PivotPointsOverlay';
+import VWAPOverlay from './VWAPOverlay';
+import { useChartDrawings } from '../../hooks/useChartDrawings';
+import { calculateIchimoku, calculateParabolicSAR, calculatePivotPoints, calculateAnchoredVWAP } from '../../utils/technicalIndicators';
+import type { IchimokuIndicator, ParabolicSARIndicator, PivotPointsIndicator, VWAPIndicator } from '../../types/indicators';
+import {
+  buildChartCsv,
+  buildExportFilename,
+  calculateExportIndicators,
+  exportChartCsv,
+  exportChartPng,
+  exportChartSvg,
+  type ChartExportFormat
+} from '../../utils/chartExport';
 
 interface TradingChartProps {
   symbol: string;
@@ -28,14 +61,36 @@ interface TradingChartProps {
   className?: string;
   interactive?: boolean; // 🚀 FIXED: Add interactive prop
   onChartReady?: (chart: any) => void;
+  visibleRange?: VisibleRange | null; // Controlled visible range, shared with other panes
+  onVisibleRangeChange?: (range: VisibleRange | null) => void;
+  priceScale?: PriceScaleMode; // Controlled price scale, shared with other price panes
+  onPriceScaleChange?: (scale: PriceScaleMode) => void;
 }
 
-interface CandlestickProps {
+// Zoom and crosshair settings every pane receives from TradingChart
+interface ChartViewportProps {
+  visibleRange?: VisibleRange | null;
+  onVisibleRangeChange?: (range: VisibleRange | null) => void;
+  showCrosshair?: boolean;
+  priceScale?: PriceScaleMode;
+}
+
+interface CandlestickProps extends ChartViewportProps {
   data: ChartDataPoint[];
+  barStyle?: 'candles' | 'hollow' | 'ohlc';
   width: number;
   height: number;
   showVolume: boolean;
   interactive?: boolean;
+  patterns?: ChartPattern[];
+  trendLines?: TrendLine[];
+  supportResistance?: SupportResistanceLevel[];
+  ichimoku?: Pick<IchimokuIndicator, 'data' | 'params' | 'style'>;
+  parabolicSAR?: Pick<ParabolicSARIndicator, 'data' | 'style'>;
+  pivotPoints?: Pick<PivotPointsIndicator, 'data' | 'params' | 'style'>;
+  vwap?: Pick<VWAPIndicator, 'data' | 'params' | 'style'>;
+  onPickBar?: (time: string) => void; // Set while the chart is waiting for a bar to be clicked
+  drawings?: ChartDrawingControls;
 }
 
 interface LineChartProps {
@@ -56,10 +111,48 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
   width, 
   height, 
   showVolume, 
-  interactive = true 
+  barStyle = 'candles',
+  interactive = true,
+  patterns = [],
+  trendLines = [],
+  supportResistance = [],
+  ichimoku,
+  parabolicSAR,
+  pivotPoints,
+  vwap,
+  onPickBar,
+  drawings,
+  visibleRange,
+  onVisibleRangeChange,
+  showCrosshair = true,
+  priceScale = 'normal'
 }) => {
   const [hoveredCandle, setHoveredCandle] = useState<number | null>(null);
   const [selectedCandle, setSelectedCandle] = useState<number | null>(null);
+  const clipId = `price-clip-${useId().replace(/[^a-zA-Z0-9-]/g, '')}`;
+
+  // Filter valid data
+  const validData = useMemo(() => (data ?? []).filter(d => 
+    d && 
+    typeof d.open === 'number' && 
+    typeof d.high === 'number' && 
+    typeof d.low === 'number' && 
+    typeof d.close === 'number' &&
+    !isNaN(d.open) && !isNaN(d.high) && !isNaN(d.low) && !isNaN(d.close) &&
+    isFinite(d.open) && isFinite(d.high) && isFinite(d.low) && isFinite(d.close)
+  ), [data]);
+
+  // Leave room on the right for the projected cloud, capped so a deep zoom isn't mostly empty space
+  const visibleBars = getVisibleIndexRange(validData, visibleRange ?? null);
+  const cloudPadding = ichimoku ? Math.min(ichimoku.params.displacement, Math.ceil((visibleBars.end - visibleBars.start) * 0.25)) : 0;
+
+  const { start, end, scaleX, invertX, isVisible, pointer, isPanning, svgRef, viewportHandlers } = useChartViewport({
+    data: validData,
+    width,
+    visibleRange,
+    onVisibleRangeChange,
+    rightPadding: cloudPadding
+  });
 
   if (!data?.length || width <= 0 || height <= 0) {
     return (
@@ -72,17 +165,6 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
     );
   }
 
-  // Filter valid data
-  const validData = data.filter(d => 
-    d && 
-    typeof d.open === 'number' && 
-    typeof d.high === 'number' && 
-    typeof d.low === 'number' && 
-    typeof d.close === 'number' &&
-    !isNaN(d.open) && !isNaN(d.high) && !isNaN(d.low) && !isNaN(d.close) &&
-    isFinite(d.open) && isFinite(d.high) && isFinite(d.low) && isFinite(d.close)
-  );
-
   if (!validData.length) {
     return (
       <div className="flex items-center justify-center" style={{ width, height }}>
@@ -98,31 +180,46 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
   const chartHeight = showVolume ? height * 0.7 : height;
   const volumeHeight = showVolume ? height * 0.3 : 0;
   
-  // Get price range
-  const prices = validData.flatMap(d => [d.high, d.low]);
-  const minPrice = Math.min(...prices);
-  const maxPrice = Math.max(...prices);
-  const priceRange = maxPrice - minPrice;
-  const padding = priceRange * 0.1;
+  // Get price range (auto-fit to the bars in view)
+  const visibleData = validData.slice(Math.floor(start), Math.ceil(end) + 1);
+  const prices = visibleData.flatMap(d => [d.high, d.low]);
+  if (ichimoku) {
+    ichimoku.data.forEach((point, index) => {
+      if (!isVisible(index)) return;
+      [point.conversionLine, point.baseLine, point.leadingSpan1, point.leadingSpan2].forEach(value => {
+        if (value !== null) prices.push(value);
+      });
+    });
+  }
+  vwap?.data.forEach((point, index) => {
+    if (point.value !== null && index >= Math.floor(start) && index <= Math.ceil(end)) prices.push(point.value);
+  });
+  parabolicSAR?.data.forEach((point, index) => {
+    if (point.sar !== null && index >= Math.floor(start) && index <= Math.ceil(end)) prices.push(point.sar);
+  });
+  const priceAxis = createPriceScale(Math.min(...prices), Math.max(...prices), chartHeight, priceScale);
 
   // Get volume range
-  const volumes = validData.map(d => d.volume || 0).filter(v => v > 0);
+  const volumes = visibleData.map(d => d.volume || 0).filter(v => v > 0);
   const maxVolume = volumes.length > 0 ? Math.max(...volumes) : 0;
 
-  // Scale functions
-  const scaleY = (price: number) => {
-    if (!isFinite(price)) return chartHeight / 2;
-    return chartHeight - ((price - minPrice + padding) / (priceRange + 2 * padding)) * chartHeight;
-  };
-  
-  const scaleX = (index: number) => (index / Math.max(1, validData.length - 1)) * width;
+  // Scale functions; invertY lets the drawing layer and crosshair turn mouse positions into prices
+  const { scale: scaleY, invert: invertY } = priceAxis;
   
   const scaleVolume = (volume: number) => {
     if (!volume || !maxVolume || !isFinite(volume)) return volumeHeight;
     return volumeHeight - (volume / maxVolume) * volumeHeight;
   };
 
-  const candleWidth = Math.max(2, Math.min(20, width / validData.length * 0.8));
+  const candleWidth = Math.max(2, Math.min(20, width / Math.max(1, end - start + 1) * 0.8));
+
+  // 🚀 Crosshair labels: price in the price area, volume in the volume area
+  const crosshairIndex = pointer ? Math.max(0, Math.min(validData.length - 1, Math.round(invertX(pointer.x)))) : null;
+  const crosshairValue = pointer
+    ? pointer.y <= chartHeight
+      ? `$${formatPrice(invertY(pointer.y))}`
+      : formatVolume(maxVolume * (1 - (pointer.y - chartHeight) / Math.max(1, volumeHeight)))
+    : undefined;
 
   // 🚀 Interactive handlers
   const handleCandleHover = (index: number) => {
@@ -161,11 +258,16 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
       )}
 
       <svg 
+        ref={svgRef}
         width={width} 
         height={height} 
-        className="candlestick-chart cursor-crosshair"
+        className={cn("candlestick-chart", isPanning ? "cursor-grabbing" : "cursor-crosshair")}
         style={{ background: 'transparent' }}
-        onMouseLeave={() => interactive && setHoveredCandle(null)}
+        {...viewportHandlers}
+        onMouseLeave={() => {
+          viewportHandlers.onMouseLeave();
+          if (interactive) setHoveredCandle(null);
+        }}
       >
         {/* Grid */}
         <defs>
@@ -178,12 +280,23 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
               opacity="0.3"
             />
           </pattern>
+          <clipPath id={clipId}>
+            <rect x={0} y={0} width={width} height={chartHeight} />
+          </clipPath>
         </defs>
         <rect width={width} height={height} fill="url(#candlestickGrid)" />
 
+        {/* Ichimoku is drawn first so the cloud sits behind the candles */}
+        {ichimoku && (
+          <g clipPath={`url(#${clipId})`}>
+            <IchimokuOverlay points={ichimoku.data} style={ichimoku.style} scaleX={scaleX} scaleY={scaleY} isVisible={isVisible} />
+          </g>
+        )}
+
         {/* Price Chart Area */}
         <g className="price-area">
           {validData.map((candle, index) => {
+            if (!isVisible(index)) return null;
             const x = scaleX(index);
             const isGreen = candle.close >= candle.open;
             const bodyTop = scaleY(Math.max(candle.open, candle.close));
@@ -191,6 +304,32 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
             const bodyHeight = Math.max(1, bodyBottom - bodyTop);
             const isHovered = hoveredCandle === index;
             const isSelected = selectedCandle === index;
+            // Hollow candles take their colour from the previous close and their fill from open vs close
+            const isUp = barStyle === 'hollow' && index > 0 ? candle.close >= validData[index - 1].close : isGreen;
+            const color = isUp ? '#22c55e' : '#ef4444';
+
+            if (barStyle === 'ohlc') {
+              return (
+                <g key={index} className="ohlc-bar">
+                  <line x1={x} y1={scaleY(candle.high)} x2={x} y2={scaleY(candle.low)} stroke={color} strokeWidth={isHovered || isSelected ? 2 : 1.25} />
+                  <line x1={x - candleWidth / 2} y1={scaleY(candle.open)} x2={x} y2={scaleY(candle.open)} stroke={color} strokeWidth={isHovered || isSelected ? 2 : 1.25} />
+                  <line x1={x} y1={scaleY(candle.close)} x2={x + candleWidth / 2} y2={scaleY(candle.close)} stroke={color} strokeWidth={isHovered || isSelected ? 2 : 1.25} />
+
+                  {interactive && (
+                    <rect
+                      x={x - candleWidth}
+                      y={0}
+                      width={candleWidth * 2}
+                      height={chartHeight}
+                      fill="transparent"
+                      className="cursor-pointer"
+                      onMouseEnter={() => handleCandleHover(index)}
+                      onClick={() => handleCandleClick(index)}
+                    />
+                  )}
+                </g>
+              );
+            }
 
             return (
               <g key={index} className="candlestick">
@@ -200,7 +339,7 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
                   y1={scaleY(candle.high)}
                   x2={x}
                   y2={scaleY(candle.low)}
-                  stroke={isGreen ? '#22c55e' : '#ef4444'}
+                  stroke={color}
                   strokeWidth={isHovered || isSelected ? "2" : "1"}
                   opacity={isHovered || isSelected ? 1 : 0.8}
                 />
@@ -211,9 +350,9 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
                   y={bodyTop}
                   width={candleWidth}
                   height={bodyHeight}
-                  fill={isGreen ? '#22c55e' : '#ef4444'}
-                  stroke={isGreen ? '#16a34a' : '#dc2626'}
-                  strokeWidth={isHovered || isSelected ? "1.5" : "0.5"}
+                  fill={barStyle === 'hollow' && isGreen ? 'hsl(var(--background))' : color}
+                  stroke={isUp ? '#16a34a' : '#dc2626'}
+                  strokeWidth={isHovered || isSelected ? "1.5" : barStyle === 'hollow' ? "1" : "0.5"}
                   opacity={isHovered || isSelected ? 1 : 0.8}
                   className="transition-all duration-150 cursor-pointer"
                   onMouseEnter={() => handleCandleHover(index)}
@@ -238,11 +377,89 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
           })}
         </g>
 
+        <g clipPath={`url(#${clipId})`}>
+          {/* Anchored VWAP and its bands */}
+          {vwap && (
+            <VWAPOverlay
+              points={vwap.data}
+              params={vwap.params}
+              style={vwap.style}
+              scaleX={scaleX}
+              scaleY={scaleY}
+              isVisible={isVisible}
+              height={chartHeight}
+            />
+          )}
+
+          {/* Pivot levels */}
+          {pivotPoints && (
+            <PivotPointsOverlay
+              data={validData}
+              levels={pivotPoints.data}
+              params={pivotPoints.params}
+              style={pivotPoints.style}
+              scaleX={scaleX}
+              scaleY={scaleY}
+              isVisible={isVisible}
+            />
+          )}
+
+          {/* Parabolic SAR dots */}
+          {parabolicSAR && (
+            <ParabolicSAROverlay points={parabolicSAR.data} style={parabolicSAR.style} scaleX={scaleX} scaleY={scaleY} isVisible={isVisible} />
+          )}
+
+          {/* Support and resistance levels */}
+          {supportResistance.length > 0 && (
+            <SupportResistanceOverlay levels={supportResistance} width={width} scaleY={scaleY} />
+          )}
+
+          {/* Detected trend lines */}
+          {trendLines.length > 0 && (
+            <TrendLineOverlay trendLines={trendLines} data={validData} scaleX={scaleX} scaleY={scaleY} />
+          )}
+
+          {/* Detected chart patterns */}
+          {patterns.length > 0 && (
+            <PatternOverlay patterns={patterns} data={validData} width={width} scaleX={scaleX} scaleY={scaleY} />
+          )}
+        </g>
+
+        {/* User drawings */}
+        {drawings && (
+          <DrawingLayer
+            {...drawings}
+            data={validData}
+            width={width}
+            height={chartHeight}
+            scaleX={scaleX}
+            scaleY={scaleY}
+            invertX={invertX}
+            invertY={invertY}
+          />
+        )}
+
+        {/* Bar picker (e.g. VWAP anchor); sits above the drawings and blocks panning */}
+        {onPickBar && (
+          <rect
+            width={width}
+            height={chartHeight}
+            fill="transparent"
+            className="cursor-copy"
+            onMouseDown={(event) => event.stopPropagation()}
+            onClick={(event) => {
+              const rect = event.currentTarget.getBoundingClientRect();
+              const index = Math.max(0, Math.min(validData.length - 1, Math.round(invertX(event.clientX - rect.left))));
+              onPickBar(validData[index].time);
+            }}
+          />
+        )}
+
         {/* Volume Chart Area */}
         {showVolume && maxVolume > 0 && (
           <g className="volume-area" transform={`translate(0, ${chartHeight})`}>
             {validData.map((candle, index) => {
-              if (!candle.volume || candle.volume <= 0) return null;
+              if (!isVisible(index) || !candle.volume || candle.volume <= 0) return null;
               
               const x = scaleX(index);
               const volumeBarHeight = volumeHeight - scaleVolume(candle.volume);
@@ -269,7 +486,7 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
 
         {/* Price Labels */}
         <g className="price-labels">
-          {[minPrice, (minPrice + maxPrice) / 2, maxPrice].map((price, index) => (
+          {priceAxis.ticks.map((price, index) => (
             <g key={index}>
               <line
                 x1={0}
@@ -321,7 +538,18 @@ const CandlestickChart: React.FC<CandlestickProps> = ({
         )}
 
         {/* 🚀 Crosshair for interactivity */}
-        {interactive && hoveredCandle !== null && (
+        {showCrosshair && pointer && !isPanning && crosshairIndex !== null && (
+          <ChartCrosshair
+            x={pointer.x}
+            y={pointer.y}
+            width={width}
+            height={height}
+            valueLabel={crosshairValue}
+            timeLabel={validData[crosshairIndex].time}
+          />
+        )}
+
+        {!showCrosshair && interactive && hoveredCandle !== null && (
           <g className="crosshair">
             <line
               x1={scaleX(hoveredCandle)}
@@ -368,10 +596,23 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
   data, 
   width, 
   height, 
-  interactive = true 
+  variant = 'line',
+  interactive = true,
+  patterns = [],
+  drawings,
+  visibleRange,
+  onVisibleRangeChange,
+  showCrosshair = true,
+  priceScale = 'normal'
 }) => {
   const [hoveredPoint, setHoveredPoint] = useState<number | null>(null);
   const [selectedPoint, setSelectedPoint] = useState<number | null>(null);
+  const { start, end, scaleX, invertX, isVisible, pointer, isPanning, svgRef, viewportHandlers } = useChartViewport({
+    data: data ?? [],
+    width,
+    visibleRange,
+    onVisibleRangeChange
+  });
 
   if (!data?.length || width <= 0 || height <= 0) {
     return (
@@ -384,7 +625,10 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
     );
   }
 
-  const prices = data.map(d => d.close).filter(price => !isNaN(price) && isFinite(price));
+  const prices = data
+    .slice(Math.floor(start), Math.ceil(end) + 1)
+    .map(d => d.close)
+    .filter(price => !isNaN(price) && isFinite(price));
   
   if (!prices.length) {
     return (
@@ -397,24 +641,19 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
     );
   }
 
-  const minPrice = Math.min(...prices);
-  const maxPrice = Math.max(...prices);
-  const priceRange = maxPrice - minPrice;
-  const padding = priceRange * 0.1;
-
-  const scaleY = (price: number) => {
-    if (!isFinite(price)) return height / 2;
-    return height - ((price - minPrice + padding) / (priceRange + 2 * padding)) * height;
-  };
-  
-  const scaleX = (index: number) => (index / Math.max(1, data.length - 1)) * width;
+  const priceAxis = createPriceScale(Math.min(...prices), Math.max(...prices), height, priceScale);
+  const { scale: scaleY, invert: invertY } = priceAxis;
 
-  const pathData = data.map((point, index) => {
-    const x = scaleX(index);
+  const firstIndex = Math.max(0, Math.floor(start) - 1);
+  const lastIndex = Math.min(data.length - 1, Math.ceil(end) + 1);
+  const pathData = data.slice(firstIndex, lastIndex + 1).map((point, i) => {
+    const x = scaleX(firstIndex + i);
     const y = scaleY(point.close);
-    return `${index === 0 ? 'M' : 'L'} ${x} ${y}`;
+    return `${i === 0 ? 'M' : 'L'} ${x} ${y}`;
   }).join(' ');
 
+  const crosshairIndex = pointer ? Math.max(0, Math.min(data.length - 1, Math.round(invertX(pointer.x)))) : null;
+
   // 🚀 Interactive handlers
   const handlePointHover = (index: number) => {
     if (interactive) setHoveredPoint(index);
@@ -444,11 +683,16 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
       )}
 
       <svg 
+        ref={svgRef}
         width={width} 
         height={height} 
-        className="line-chart cursor-crosshair"
+        className={cn("line-chart", isPanning ? "cursor-grabbing" : "cursor-crosshair")}
         style={{ background: 'transparent' }}
-        onMouseLeave={() => interactive && setHoveredPoint(null)}
+        {...viewportHandlers}
+        onMouseLeave={() => {
+          viewportHandlers.onMouseLeave();
+          if (interactive) setHoveredPoint(null);
+        }}
       >
         {/* Grid */}
         <defs>
@@ -462,7 +706,7 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
             />
           </pattern>
           <linearGradient id="lineGradient" x1="0%" y1="0%" x2="0%" y2="100%">
-            <stop offset="0%" stopColor="#3b82f6" stopOpacity={0.3} />
+            <stop offset="0%" stopColor="#3b82f6" stopOpacity={variant === 'area' ? 0.45 : 0.3} />
             <stop offset="100%" stopColor="#3b82f6" stopOpacity={0} />
           </linearGradient>
         </defs>
@@ -471,9 +715,9 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
 
         {/* Fill area */}
         <path
-          d={`${pathData} L ${width} ${height} L 0 ${height} Z`}
+          d={`${pathData} L ${scaleX(lastIndex)} ${height} L ${scaleX(firstIndex)} ${height} Z`}
           fill="url(#lineGradient)"
-          opacity={0.3}
+          opacity={variant === 'area' ? 1 : 0.3}
         />
 
         {/* Price line */}
@@ -485,8 +729,14 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
           opacity={0.8}
         />
 
+        {/* Detected chart patterns */}
+        {patterns.length > 0 && (
+          <PatternOverlay patterns={patterns} data={data} width={width} scaleX={scaleX} scaleY={scaleY} />
+        )}
+
         {/* 🚀 Interactive data points */}
         {interactive && data.map((point, index) => {
+          if (!isVisible(index)) return null;
           const x = scaleX(index);
           const y = scaleY(point.close);
           const isHovered = hoveredPoint === index;
@@ -506,8 +756,8 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
                 onClick={() => handlePointClick(index)}
               />
               
-              {/* Data point */}
-              <circle
+              {/* Data point (area charts only mark the hovered point) */}
+              {(variant === 'line' || isHovered || isSelected) && <circle
                 cx={x}
                 cy={y}
                 r={isHovered || isSelected ? 4 : 2}
@@ -516,13 +766,24 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
                 strokeWidth={isHovered || isSelected ? 2 : 1}
                 opacity={isHovered || isSelected ? 1 : 0.7}
                 className="transition-all duration-150 pointer-events-none"
-              />
+              />}
             </g>
           );
         })}
 
         {/* 🚀 Crosshair */}
-        {interactive && hoveredPoint !== null && (
+        {showCrosshair && pointer && !isPanning && crosshairIndex !== null && (
+          <ChartCrosshair
+            x={pointer.x}
+            y={pointer.y}
+            width={width}
+            height={height}
+            valueLabel={`$${formatPrice(invertY(pointer.y))}`}
+            timeLabel={data[crosshairIndex].time}
+          />
+        )}
+
+        {!showCrosshair && interactive && hoveredPoint !== null && (
           <line
             x1={scaleX(hoveredPoint)}
             y1={0}
@@ -535,12 +796,26 @@ const LineChart: React.FC<LineChartProps & { interactive?: boolean }> = ({
           />
         )}
 
+        {/* User drawings */}
+        {drawings && (
+          <DrawingLayer
+            {...drawings}
+            data={data}
+            width={width}
+            height={height}
+            scaleX={scaleX}
+            scaleY={scaleY}
+            invertX={invertX}
+            invertY={invertY}
+          />
+        )}
+
         {/* Price labels */}
-        {[minPrice, maxPrice].map((price, index) => (
+        {priceAxis.ticks.map((price, index) => (
           <text
             key={index}
             x={width - 5}
-            y={scaleY(price) + (index === 0 ? 15 : -5)}
+            y={scaleY(price) - 5}
             textAnchor="end"
             fontSize="10"
             fill="hsl(var(--muted-foreground))"
@@ -558,10 +833,19 @@ const VolumeOnlyChart: React.FC<VolumeChartProps & { interactive?: boolean }> =
   data, 
   width, 
   height, 
-  interactive = true 
+  interactive = true,
+  visibleRange,
+  onVisibleRangeChange,
+  showCrosshair = true
 }) => {
   const [hoveredBar, setHoveredBar] = useState<number | null>(null);
   const [selectedBar, setSelectedBar] = useState<number | null>(null);
+  const { start, end, scaleX, invertX, isVisible, pointer, isPanning, svgRef, viewportHandlers } = useChartViewport({
+    data: data ?? [],
+    width,
+    visibleRange,
+    onVisibleRangeChange
+  });
 
   if (!data?.length || width <= 0 || height <= 0) {
     return (
@@ -574,7 +858,10 @@ const VolumeOnlyChart: React.FC<VolumeChartProps & { interactive?: boolean }> =
     );
   }
 
-  const volumes = data.map(d => d.volume).filter(vol => !isNaN(vol) && isFinite(vol) && vol > 0);
+  const volumes = data
+    .slice(Math.floor(start), Math.ceil(end) + 1)
+    .map(d => d.volume)
+    .filter(vol => !isNaN(vol) && isFinite(vol) && vol > 0);
   
   if (!volumes.length) {
     return (
@@ -593,8 +880,8 @@ const VolumeOnlyChart: React.FC<VolumeChartProps & { interactive?: boolean }> =
     return height - (volume / maxVolume) * height;
   };
   
-  const scaleX = (index: number) => (index / Math.max(1, data.length - 1)) * width;
-  const barWidth = Math.max(1, Math.min(20, width / data.length * 0.8));
+  const barWidth = Math.max(1, Math.min(20, width / Math.max(1, end - start + 1) * 0.8));
+  const crosshairIndex = pointer ? Math.max(0, Math.min(data.length - 1, Math.round(invertX(pointer.x)))) : null;
 
   // 🚀 Interactive handlers
   const handleBarHover = (index: number) => {
@@ -624,11 +911,16 @@ const VolumeOnlyChart: React.FC<VolumeChartProps & { interactive?: boolean }> =
       )}
 
       <svg 
+        ref={svgRef}
         width={width} 
         height={height} 
-        className="volume-chart cursor-crosshair"
+        className={cn("volume-chart", isPanning ? "cursor-grabbing" : "cursor-crosshair")}
         style={{ background: 'transparent' }}
-        onMouseLeave={() => interactive && setHoveredBar(null)}
+        {...viewportHandlers}
+        onMouseLeave={() => {
+          viewportHandlers.onMouseLeave();
+          if (interactive) setHoveredBar(null);
+        }}
       >
         {/* Grid */}
         <defs>
@@ -646,7 +938,7 @@ const VolumeOnlyChart: React.FC<VolumeChartProps & { interactive?: boolean }> =
 
         {/* Volume bars */}
         {data.map((point, index) => {
-          if (!point.volume || !isFinite(point.volume) || point.volume <= 0) return null;
+          if (!isVisible(index) || !point.volume || !isFinite(point.volume) || point.volume <= 0) return null;
           
           const x = scaleX(index);
           const barHeight = height - scaleY(point.volume);
@@ -689,7 +981,18 @@ const VolumeOnlyChart: React.FC<VolumeChartProps & { interactive?: boolean }> =
         })}
 
         {/* 🚀 Crosshair */}
-        {interactive && hoveredBar !== null && (
+        {showCrosshair && pointer && !isPanning && crosshairIndex !== null && (
+          <ChartCrosshair
+            x={pointer.x}
+            y={pointer.y}
+            width={width}
+            height={height}
+            valueLabel={formatVolume(maxVolume * (1 - pointer.y / height))}
+            timeLabel={data[crosshairIndex].time}
+          />
+        )}
+
+        {!showCrosshair && interactive && hoveredBar !== null && (
           <line
             x1={scaleX(hoveredBar)}
             y1={0}
@@ -718,15 +1021,18 @@ const VolumeOnlyChart: React.FC<VolumeChartProps & { interactive?: boolean }> =
 };
 
 // Update the LineChartProps interface
-interface LineChartProps {
+interface LineChartProps extends ChartViewportProps {
   data: ChartDataPoint[];
   width: number;
   height: number;
+  variant?: 'line' | 'area';
   interactive?: boolean; // 🚀 ADDED: Interactive prop
+  patterns?: ChartPattern[];
+  drawings?: ChartDrawingControls;
 }
 
 // Update the VolumeChartProps interface
-interface VolumeChartProps {
+interface VolumeChartProps extends ChartViewportProps {
   data: ChartDataPoint[];
   width: number;
   height: number;
@@ -735,6 +1041,57 @@ interface VolumeChartProps {
 
 // (removed duplicate chartTabs definition; use the one inside TradingChart component)
 
+// Price chart styles offered in the header; hollow candles are a candlestick style rather than a chart type
+const CHART_TYPE_OPTIONS: Array<{
+  id: string;
+  label: string;
+  icon: React.ReactNode;
+  type: ChartType;
+  candleStyle: ChartSettings['candleStyle'];
+}> = [
+  { id: 'candlestick', label: 'Candlestick', icon: <BarChart3 className="w-4 h-4" />, type: 'candlestick', candleStyle: 'traditional' },
+  { id: 'hollow', label: 'Hollow Candles', icon: <BarChart3 className="w-4 h-4" />, type: 'candlestick', candleStyle: 'hollow' },
+  { id: 'heikin-ashi', label: 'Heikin-Ashi', icon: <ChartCandlestick className="w-4 h-4" />, type: 'heikin-ashi', candleStyle: 'heikin-ashi' },
+  { id: 'ohlc', label: 'OHLC Bars', icon: <ChartNoAxesColumn className="w-4 h-4" />, type: 'ohlc', candleStyle: 'traditional' },
+  { id: 'line', label: 'Line', icon: <TrendingUp className="w-4 h-4" />, type: 'line', candleStyle: 'traditional' },
+  { id: 'area', label: 'Area', icon: <AreaChart className="w-4 h-4" />, type: 'area', candleStyle: 'traditional' },
+];
+
+// Standard 9/26/52 Ichimoku with a 26-bar displacement
+const ICHIMOKU_SETTINGS: Pick<IchimokuIndicator, 'params' | 'style'> = {
+  params: { conversionPeriod: 9, basePeriod: 26, laggingSpan2Period: 52, displacement: 26 },
+  style: {
+    conversionLineColor: '#3b82f6',
+    baseLineColor: '#ef4444',
+    leadingSpan1Color: '#22c55e',
+    leadingSpan2Color: '#f97316',
+    laggingSpanColor: '#a855f7',
+    cloudUpColor: '#22c55e',
+    cloudDownColor: '#ef4444',
+    width: 1.5
+  }
+};
+
+const PARABOLIC_SAR_SETTINGS: Pick<ParabolicSARIndicator, 'params' | 'style'> = {
+  params: { step: 0.02, maxStep: 0.2 },
+  style: { upColor: '#22c55e', downColor: '#ef4444', size: 2 }
+};
+
+const PIVOT_POINTS_STYLE: PivotPointsIndicator['style'] = {
+  pivotColor: '#f59e0b',
+  resistanceColors: ['#f87171', '#ef4444', '#b91c1c'],
+  supportColors: ['#4ade80', '#22c55e', '#15803d'],
+  width: 1,
+  lineStyle: 'dashed'
+};
+
+const VWAP_STYLE: VWAPIndicator['style'] = {
+  color: '#06b6d4',
+  width: 1.5,
+  opacity: 0.9,
+  bandColor: '#06b6d4'
+};
+
 // Update the main TradingChart component to remove the empty chart container
 const TradingChart: React.FC<TradingChartProps> = ({
   symbol,
@@ -744,14 +1101,63 @@ const TradingChart: React.FC<TradingChartProps> = ({
   className,
   interactive = true,
   onChartReady,
+  visibleRange: controlledRange,
+  onVisibleRangeChange,
+  priceScale: controlledPriceScale,
+  onPriceScaleChange,
 }) => {
   const [isFullscreen, setIsFullscreen] = useState(false);
+
+  // 🚀 Visible range shared by every pane; controlled when the parent passes one in
+  const [localRange, setLocalRange] = useState<VisibleRange | null>(null);
+  const visibleRange = controlledRange !== undefined ? controlledRange : localRange;
+  const handleVisibleRangeChange = useCallback((range: VisibleRange | null) => {
+    setLocalRange(range);
+    onVisibleRangeChange?.(range);
+  }, [onVisibleRangeChange]);
   const [chartSettings, setChartSettings] = useState<Partial<ChartSettings>>({
     showVolume,
     showGrid: true,
     showCrosshair: true,
+    showPatterns: false,
+    showTrendLines: false,
+    showSupportResistance: false,
+    showIchimoku: false,
+    showParabolicSAR: false,
+    showPivotPoints: false,
+    showVWAP: false,
+    priceScale: controlledPriceScale ?? 'normal',
+    type: 'candlestick',
+    candleStyle: 'traditional',
     theme: 'professional'
   });
+  const [activeTab, setActiveTab] = useState('price');
+  const [pivotParams, setPivotParams] = useState<PivotPointsIndicator['params']>({
+    timeframe: 'daily',
+    method: 'classic',
+    showLevels: true,
+    showMidpoints: false
+  });
+  const [vwapParams, setVwapParams] = useState<VWAPIndicator['params']>({ anchorType: 'month', bandMultipliers: [1, 2] });
+  const [isPickingAnchor, setIsPickingAnchor] = useState(false);
+  const priceScale = controlledPriceScale ?? chartSettings.priceScale ?? 'normal';
+
+  const togglePriceScale = useCallback(() => {
+    const next: PriceScaleMode = priceScale === 'logarithmic' ? 'normal' : 'logarithmic';
+    setChartSettings(prev => ({ ...prev, priceScale: next }));
+    onPriceScaleChange?.(next);
+  }, [priceScale, onPriceScaleChange]);
+
+  const activeChartType = CHART_TYPE_OPTIONS.find(option =>
+    option.type === chartSettings.type && (option.type !== 'candlestick' || option.candleStyle === chartSettings.candleStyle)
+  ) ?? CHART_TYPE_OPTIONS[0];
+
+  const selectChartType = useCallback((id: string) => {
+    const option = CHART_TYPE_OPTIONS.find(candidate => candidate.id === id);
+    if (!option) return;
+    setChartSettings(prev => ({ ...prev, type: option.type, candleStyle: option.candleStyle }));
+    setActiveTab('price');
+  }, []);
 
   // Use our custom hooks with error handling
   const { 
@@ -760,7 +1166,8 @@ const TradingChart: React.FC<TradingChartProps> = ({
     error, 
     refreshData, 
     lastUpdated,
-    dataQuality 
+    dataQuality,
+    setTimeframe: setDataTimeframe
   } = useChartData({ 
     symbol, 
     initialTimeframe: '1Y',
@@ -768,6 +1175,12 @@ const TradingChart: React.FC<TradingChartProps> = ({
     refreshInterval: 30 
   });
 
+  // Keep the loaded data in step with the selected timeframe and start it fully zoomed out
+  const handleTimeframeChange = useCallback((newTimeframe: Timeframe) => {
+    setDataTimeframe(newTimeframe);
+    handleVisibleRangeChange(null);
+  }, [setDataTimeframe, handleVisibleRangeChange]);
+
   const { 
     timeframe, 
     setTimeframe, 
@@ -776,9 +1189,88 @@ const TradingChart: React.FC<TradingChartProps> = ({
     isRealTime,
     marketStatus 
   } = useTimeframe({
-    initialTimeframe: '1Y'
+    initialTimeframe: '1Y',
+    onTimeframeChange: handleTimeframeChange
   });
 
+  // 🚀 Drawing tools: annotations persist per symbol and timeframe
+  const [activeTool, setActiveTool] = useState<DrawingTool>('select');
+  const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
+  const [drawColor, setDrawColor] = useState('#3b82f6');
+  const {
+    annotations,
+    addAnnotation,
+    updateAnnotation,
+    removeAnnotation,
+    clearAnnotations
+  } = useChartDrawings(symbol, timeframe);
+
+  const selectedAnnotation = annotations.find(annotation => annotation.id === selectedAnnotationId) ?? null;
+
+  const drawings = useMemo<ChartDrawingControls>(() => ({
+    annotations,
+    activeTool,
+    selectedId: selectedAnnotationId,
+    color: drawColor,
+    onSelect: setSelectedAnnotationId,
+    onCreate: (annotation) => {
+      const created = addAnnotation(annotation);
+      setSelectedAnnotationId(created.id);
+      setActiveTool('select');
+    },
+    onUpdate: updateAnnotation
+  }), [annotations, activeTool, selectedAnnotationId, drawColor, addAnnotation, updateAnnotation]);
+
+  // 🚀 Keyboard shortcuts: Escape leaves the current tool, Delete removes the selection
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (event.key === 'Escape') {
+        setIsPickingAnchor(false);
+        setActiveTool('select');
+        setSelectedAnnotationId(null);
+      } else if ((event.key === 'Delete' || event.key === 'Backspace') && selectedAnnotationId) {
+        removeAnnotation(selectedAnnotationId);
+        setSelectedAnnotationId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedAnnotationId, removeAnnotation]);
+
+  // 🚀 Custom VWAP anchors (earnings days and the like) are remembered per symbol
+  const vwapAnchorKey = `vwapAnchor:${symbol.toUpperCase()}`;
+
+  useEffect(() => {
+    try {
+      const saved = localStorage.getItem(vwapAnchorKey);
+      setVwapParams(prev => saved
+        ? { ...prev, anchorType: 'custom', customAnchor: saved }
+        : { ...prev, anchorType: prev.anchorType === 'custom' ? 'month' : prev.anchorType, customAnchor: undefined });
+    } catch (error) {
+      console.error('Error loading VWAP anchor:', error);
+    }
+  }, [vwapAnchorKey]);
+
+  const pickVwapAnchor = useCallback((time: string) => {
+    setVwapParams(prev => ({ ...prev, anchorType: 'custom', customAnchor: time }));
+    setIsPickingAnchor(false);
+    try {
+      localStorage.setItem(vwapAnchorKey, time);
+    } catch (error) {
+      console.error('Error saving VWAP anchor:', error);
+    }
+  }, [vwapAnchorKey]);
+
+  const selectVwapAnchorType = useCallback((anchorType: VWAPIndicator['params']['anchorType']) => {
+    setVwapParams(prev => ({ ...prev, anchorType }));
+    // Custom without a saved anchor waits for a click on the chart
+    setIsPickingAnchor(anchorType === 'custom' && !vwapParams.customAnchor);
+  }, [vwapParams.customAnchor]);
+
   // 🚀 SIMPLIFIED: Chart dimensions without ref dependency
   const [dimensions, setDimensions] = useState({ width: 800, height: height });
 
@@ -802,6 +1294,76 @@ const TradingChart: React.FC<TradingChartProps> = ({
     };
   }, [height, isFullscreen]);
 
+  // 🚀 Pattern detection only runs while the overlay is switched on
+  const patterns = useMemo(() => {
+    if (!chartSettings.showPatterns || !chartData?.data?.length) return [];
+    return detectChartPatterns(chartData.data);
+  }, [chartData, chartSettings.showPatterns]);
+
+  const supportResistance = useMemo(() => {
+    if (!chartSettings.showSupportResistance || !chartData?.data?.length) return [];
+    return detectSupportResistance(chartData.data).slice(0, 8);
+  }, [chartData, chartSettings.showSupportResistance]);
+
+  const trendLines = useMemo(() => {
+    if (!chartSettings.showTrendLines || !chartData?.data?.length) return [];
+    return detectTrendLines(chartData.data);
+  }, [chartData, chartSettings.showTrendLines]);
+
+  const ichimoku = useMemo(() => {
+    if (!chartSettings.showIchimoku || !chartData?.data?.length) return undefined;
+    const { conversionPeriod, basePeriod, laggingSpan2Period, displacement } = ICHIMOKU_SETTINGS.params;
+    return {
+      ...ICHIMOKU_SETTINGS,
+      data: calculateIchimoku(chartData.data, conversionPeriod, basePeriod, laggingSpan2Period, displacement)
+    };
+  }, [chartData, chartSettings.showIchimoku]);
+
+  const parabolicSAR = useMemo(() => {
+    if (!chartSettings.showParabolicSAR || !chartData?.data?.length) return undefined;
+    const { step, maxStep } = PARABOLIC_SAR_SETTINGS.params;
+    const data = chartData.data;
+    return {
+      ...PARABOLIC_SAR_SETTINGS,
+      data: calculateParabolicSAR(data, step, maxStep).map((point, index) => ({ time: data[index].time, ...point }))
+    };
+  }, [chartData, chartSettings.showParabolicSAR]);
+
+  const pivotPoints = useMemo(() => {
+    if (!chartSettings.showPivotPoints || !chartData?.data?.length) return undefined;
+    return {
+      params: pivotParams,
+      style: PIVOT_POINTS_STYLE,
+      data: calculatePivotPoints(chartData.data, pivotParams.timeframe, pivotParams.method)
+    };
+  }, [chartData, chartSettings.showPivotPoints, pivotParams]);
+
+  const vwap = useMemo(() => {
+    if (!chartSettings.showVWAP || !chartData?.data?.length) return undefined;
+    const data = chartData.data;
+    return {
+      params: vwapParams,
+      style: VWAP_STYLE,
+      data: calculateAnchoredVWAP(data, vwapParams.anchorType, vwapParams.customAnchor)
+        .map((point, index) => ({ time: data[index].time, ...point }))
+    };
+  }, [chartData, chartSettings.showVWAP, vwapParams]);
+
+  // 🚀 Zoom buttons work around the centre of the current view
+  const zoomBy = useCallback((factor: number) => {
+    const data = chartData?.data ?? [];
+    if (data.length < 2) return;
+    const { start, end } = getVisibleIndexRange(data, visibleRange);
+    handleVisibleRangeChange(zoomVisibleRange(data, visibleRange, (start + end) / 2, factor));
+  }, [chartData, visibleRange, handleVisibleRangeChange]);
+
+  const viewport = useMemo(() => ({
+    visibleRange,
+    onVisibleRangeChange: handleVisibleRangeChange,
+    showCrosshair: chartSettings.showCrosshair ?? true,
+    priceScale
+  }), [visibleRange, handleVisibleRangeChange, chartSettings.showCrosshair, priceScale]);
+
   // 🚀 FIXED: Chart tabs configuration
   const chartTabs = useMemo(() => {
     const hasData = chartData?.data && Array.isArray(chartData.data) && chartData.data.length > 0;
@@ -810,47 +1372,48 @@ const TradingChart: React.FC<TradingChartProps> = ({
 
     return [
       {
-        id: 'candlestick',
-        label: 'Candlestick',
-        icon: <BarChart3 className="w-4 h-4" />,
+        id: 'price',
+        label: activeChartType.label,
+        icon: activeChartType.icon,
         content: hasData ? (
           // 🚀 FIXED: Direct chart rendering without extra containers
-          <CandlestickChart
-            data={chartData.data}
-            width={chartWidth}
-            height={chartHeight}
-            showVolume={chartSettings.showVolume || false}
-            interactive={interactive}
-          />
+          chartSettings.type === 'line' || chartSettings.type === 'area' ? (
+            <LineChart
+              data={chartData.data}
+              width={chartWidth}
+              height={chartHeight}
+              variant={chartSettings.type}
+              interactive={interactive}
+              patterns={patterns}
+              drawings={drawings}
+              {...viewport}
+            />
+          ) : (
+            <CandlestickChart
+              data={chartSettings.type === 'heikin-ashi' ? calculateHeikinAshi(chartData.data) : chartData.data}
+              width={chartWidth}
+              height={chartHeight}
+              showVolume={chartSettings.showVolume || false}
+              barStyle={chartSettings.type === 'ohlc' ? 'ohlc' : chartSettings.candleStyle === 'hollow' ? 'hollow' : 'candles'}
+              interactive={interactive}
+              patterns={patterns}
+              trendLines={trendLines}
+              ichimoku={ichimoku}
+              parabolicSAR={parabolicSAR}
+              pivotPoints={pivotPoints}
+              vwap={vwap}
+              onPickBar={isPickingAnchor ? pickVwapAnchor : undefined}
+              supportResistance={supportResistance}
+              drawings={drawings}
+              {...viewport}
+            />
+          )
         ) : (
           <div className="flex items-center justify-center" style={{ height: `${height}px` }}>
             <div className="text-center">
               <BarChart3 className="w-12 h-12 mx-auto mb-4 text-muted-foreground animate-pulse" />
               <p className="text-muted-foreground">
-                {isLoading ? 'Loading candlestick chart...' : 'No candlestick data available'}
-              </p>
-            </div>
-          </div>
-        )
-      },
-      {
-        id: 'line',
-        label: 'Line',
-        icon: <TrendingUp className="w-4 h-4" />,
-        content: hasData ? (
-          // 🚀 FIXED: Direct chart rendering
-          <LineChart
-            data={chartData.data}
-            width={chartWidth}
-            height={chartHeight}
-            interactive={interactive}
-          />
-        ) : (
-          <div className="flex items-center justify-center" style={{ height: `${height}px` }}>
-            <div className="text-center">
-              <TrendingUp className="w-12 h-12 mx-auto mb-4 text-muted-foreground animate-pulse" />
-              <p className="text-muted-foreground">
-                {isLoading ? 'Loading line chart...' : 'No line chart data available'}
+                {isLoading ? 'Loading price chart...' : 'No price data available'}
               </p>
             </div>
           </div>
@@ -867,6 +1430,7 @@ const TradingChart: React.FC<TradingChartProps> = ({
             width={chartWidth}
             height={chartHeight}
             interactive={interactive}
+            {...viewport}
           />
         ) : (
           <div className="flex items-center justify-center" style={{ height: `${height}px` }}>
@@ -880,18 +1444,60 @@ const TradingChart: React.FC<TradingChartProps> = ({
         )
       }
     ];
-  }, [chartData, dimensions, chartSettings.showVolume, height, interactive, isLoading]);
+  }, [chartData, dimensions, chartSettings.showVolume, chartSettings.type, chartSettings.candleStyle, activeChartType, patterns, trendLines, supportResistance, ichimoku, parabolicSAR, pivotPoints, vwap, isPickingAnchor, pickVwapAnchor, drawings, viewport, height, interactive, isLoading]);
 
   // Handle fullscreen toggle
   const toggleFullscreen = useCallback(() => {
     setIsFullscreen(!isFullscreen);
   }, [isFullscreen]);
 
-  // Handle chart export
-  const exportChart = useCallback(() => {
-    console.log('Exporting chart...', { symbol, data: chartData });
-    // Add actual export logic here
-  }, [symbol, chartData]);
+  // 🚀 Export the current view as SVG, PNG (with a header and legend) or CSV
+  const chartContentRef = useRef<HTMLDivElement>(null);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+
+  const exportChart = useCallback(async (format: ChartExportFormat) => {
+    setShowExportMenu(false);
+    const data = chartData?.data ?? [];
+    const filename = buildExportFilename(symbol, timeframe, format);
+
+    try {
+      if (format === 'csv') {
+        const { start, end } = getVisibleIndexRange(data, visibleRange);
+        exportChartCsv(buildChartCsv(data, calculateExportIndicators(data), Math.floor(start), Math.ceil(end)), filename);
+        return;
+      }
+
+      const svg = chartContentRef.current?.querySelector<SVGSVGElement>('svg.candlestick-chart, svg.line-chart, svg.volume-chart');
+      if (!svg) throw new Error('No chart is currently rendered');
+
+      if (format === 'svg') {
+        exportChartSvg(svg, filename);
+        return;
+      }
+
+      const last = data[data.length - 1];
+      const legend = [
+        activeTab === 'volume' ? 'Volume' : activeChartType.label,
+        priceScale === 'logarithmic' ? 'Log scale' : null,
+        patterns.length > 0 ? `${patterns.length} pattern${patterns.length === 1 ? '' : 's'}` : null,
+        trendLines.length > 0 ? `${trendLines.length} trend line${trendLines.length === 1 ? '' : 's'}` : null,
+        supportResistance.length > 0 ? `${supportResistance.length} S/R level${supportResistance.length === 1 ? '' : 's'}` : null,
+        ichimoku ? `Ichimoku (${Object.values(ichimoku.params).join(', ')})` : null,
+        parabolicSAR ? `SAR (${parabolicSAR.params.step}, ${parabolicSAR.params.maxStep})` : null,
+        pivotPoints ? `${pivotPoints.params.timeframe} ${pivotPoints.params.method} pivots` : null,
+        vwap ? `VWAP (${vwap.params.anchorType === 'custom' ? `from ${vwap.params.customAnchor ?? '—'}` : vwap.params.anchorType}, ±${vwap.params.bandMultipliers.join('/')}σ)` : null,
+        annotations.length > 0 ? `${annotations.length} drawing${annotations.length === 1 ? '' : 's'}` : null,
+      ].filter((item): item is string => item !== null);
+
+      await exportChartPng(svg, {
+        title: `${symbol} · ${timeframe}${last ? ` · $${formatPrice(last.close)}` : ''}`,
+        subtitle: `${dateRange?.label ?? ''} · exported ${new Date().toLocaleString()}`,
+        legend
+      }, filename);
+    } catch (error) {
+      console.error('Error exporting chart:', error);
+    }
+  }, [chartData, symbol, timeframe, visibleRange, activeTab, activeChartType, priceScale, patterns, trendLines, supportResistance, ichimoku, parabolicSAR, pivotPoints, vwap, annotations, dateRange]);
 
   // Error state
   if (error) {
@@ -937,6 +1543,12 @@ const TradingChart: React.FC<TradingChartProps> = ({
             </div>
           )}
 
+          {chartSettings.showPatterns && (
+            <Badge variant="secondary" size="sm" title={patterns.map(p => p.description).join('\n')}>
+              {patterns.length} pattern{patterns.length === 1 ? '' : 's'}
+            </Badge>
+          )}
+
           {dataQuality?.dataCompleteness && dataQuality.dataCompleteness < 1 && (
             <Badge variant="warning" size="sm">
               {Math.round(dataQuality.dataCompleteness * 100)}% Complete
@@ -946,6 +1558,18 @@ const TradingChart: React.FC<TradingChartProps> = ({
 
         {showControls && (
           <div className="flex items-center gap-2">
+            {/* Chart Type Selector */}
+            <select
+              value={activeChartType.id}
+              onChange={(e) => selectChartType(e.target.value)}
+              className="h-8 mr-2 px-2 text-xs rounded-md border border-border bg-background"
+              title="Chart type"
+            >
+              {CHART_TYPE_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.label}</option>
+              ))}
+            </select>
+
             {/* Timeframe Selector */}
             <div className="flex items-center gap-1 mr-4">
               {timeframeOptions?.slice(0, 6).map((option) => (
@@ -961,13 +1585,192 @@ const TradingChart: React.FC<TradingChartProps> = ({
               ))}
             </div>
 
+            <Button
+              variant={chartSettings.showPatterns ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setChartSettings(prev => ({ ...prev, showPatterns: !prev.showPatterns }))}
+              title="Detect chart patterns"
+            >
+              <Target className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant={chartSettings.showTrendLines ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setChartSettings(prev => ({ ...prev, showTrendLines: !prev.showTrendLines }))}
+              title="Detect trend lines"
+            >
+              <TrendingUpDown className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant={chartSettings.showSupportResistance ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setChartSettings(prev => ({ ...prev, showSupportResistance: !prev.showSupportResistance }))}
+              title="Support and resistance levels"
+            >
+              <Layers className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant={chartSettings.showIchimoku ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setChartSettings(prev => ({ ...prev, showIchimoku: !prev.showIchimoku }))}
+              title="Ichimoku cloud"
+            >
+              <Cloud className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant={chartSettings.showParabolicSAR ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setChartSettings(prev => ({ ...prev, showParabolicSAR: !prev.showParabolicSAR }))}
+              title="Parabolic SAR"
+            >
+              <CircleDot className="w-4 h-4" />
+            </Button>
+
+            <Button
+              variant={chartSettings.showPivotPoints ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setChartSettings(prev => ({ ...prev, showPivotPoints: !prev.showPivotPoints }))}
+              title="Pivot points"
+            >
+              <Rows3 className="w-4 h-4" />
+            </Button>
+
+            {chartSettings.showPivotPoints && (
+              <>
+                <select
+                  value={pivotParams.timeframe}
+                  onChange={(e) => setPivotParams(prev => ({ ...prev, timeframe: e.target.value as PivotPointsIndicator['params']['timeframe'] }))}
+                  className="h-8 px-2 text-xs rounded-md border border-border bg-background"
+                  title="Pivot period"
+                >
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                </select>
+                <select
+                  value={pivotParams.method}
+                  onChange={(e) => setPivotParams(prev => ({ ...prev, method: e.target.value as PivotPointsIndicator['params']['method'] }))}
+                  className="h-8 px-2 text-xs rounded-md border border-border bg-background"
+                  title="Pivot formula"
+                >
+                  <option value="classic">Classic</option>
+                  <option value="fibonacci">Fibonacci</option>
+                  <option value="camarilla">Camarilla</option>
+                  <option value="woodie">Woodie</option>
+                </select>
+                <Button
+                  variant={pivotParams.showMidpoints ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setPivotParams(prev => ({ ...prev, showMidpoints: !prev.showMidpoints }))}
+                  className="h-8 px-2 text-xs"
+                  title="Pivot midpoints"
+                >
+                  MID
+                </Button>
+              </>
+            )}
+
+            <Button
+              variant={chartSettings.showVWAP ? "default" : "ghost"}
+              size="sm"
+              onClick={() => {
+                setChartSettings(prev => ({ ...prev, showVWAP: !prev.showVWAP }));
+                setIsPickingAnchor(false);
+              }}
+              className="h-8 px-2 text-xs"
+              title="Anchored VWAP with standard-deviation bands"
+            >
+              VWAP
+            </Button>
+
+            {chartSettings.showVWAP && (
+              <>
+                <select
+                  value={vwapParams.anchorType}
+                  onChange={(e) => selectVwapAnchorType(e.target.value as VWAPIndicator['params']['anchorType'])}
+                  className="h-8 px-2 text-xs rounded-md border border-border bg-background"
+                  title="VWAP anchor"
+                >
+                  <option value="session">Session</option>
+                  <option value="week">Week</option>
+                  <option value="month">Month</option>
+                  <option value="custom">Custom</option>
+                </select>
+                <Button
+                  variant={isPickingAnchor ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setIsPickingAnchor(prev => !prev)}
+                  title={isPickingAnchor ? "Click a bar to anchor VWAP (Esc to cancel)" : "Anchor VWAP on a bar"}
+                >
+                  <Anchor className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+
+            <Button
+              variant={priceScale === 'logarithmic' ? "default" : "ghost"}
+              size="sm"
+              onClick={togglePriceScale}
+              className="h-8 px-2 text-xs"
+              title="Logarithmic price scale"
+            >
+              LOG
+            </Button>
+
+            <Button
+              variant={chartSettings.showCrosshair ? "default" : "ghost"}
+              size="sm"
+              onClick={() => setChartSettings(prev => ({ ...prev, showCrosshair: !prev.showCrosshair }))}
+              title="Crosshair"
+            >
+              <Crosshair className="w-4 h-4" />
+            </Button>
+
+            <Button variant="ghost" size="sm" onClick={() => zoomBy(0.7)} title="Zoom in (or scroll over the chart)">
+              <ZoomIn className="w-4 h-4" />
+            </Button>
+
+            <Button variant="ghost" size="sm" onClick={() => zoomBy(1 / 0.7)} disabled={!visibleRange} title="Zoom out">
+              <ZoomOut className="w-4 h-4" />
+            </Button>
+
+            {visibleRange && (
+              <Button variant="ghost" size="sm" onClick={() => handleVisibleRangeChange(null)} className="h-8 px-2 text-xs" title="Show the whole timeframe">
+                Reset
+              </Button>
+            )}
+
             <Button variant="ghost" size="sm" onClick={refreshData} disabled={isLoading}>
               <RotateCcw className={cn("w-4 h-4", isLoading && "animate-spin")} />
             </Button>
 
-            <Button variant="ghost" size="sm" onClick={exportChart}>
-              <Download className="w-4 h-4" />
-            </Button>
+            <div className="relative">
+              <Button variant="ghost" size="sm" onClick={() => setShowExportMenu(open => !open)} title="Export chart">
+                <Download className="w-4 h-4" />
+              </Button>
+
+              {showExportMenu && (
+                <div className="absolute right-0 top-9 z-20 w-40 rounded-md border border-border bg-popover p-1 shadow-lg">
+                  {([
+                    { format: 'png', label: 'PNG image' },
+                    { format: 'svg', label: 'SVG vector' },
+                    { format: 'csv', label: 'CSV (visible range)' },
+                  ] as const).map(option => (
+                    <button
+                      key={option.format}
+                      onClick={() => exportChart(option.format)}
+                      className="w-full rounded px-2 py-1.5 text-left text-xs hover:bg-accent"
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
 
             <Button variant="ghost" size="sm" onClick={toggleFullscreen}>
               <Maximize2 className="w-4 h-4" />
@@ -976,8 +1779,28 @@ const TradingChart: React.FC<TradingChartProps> = ({
         )}
       </div>
 
+      {showControls && (
+        <DrawingToolbar
+          activeTool={activeTool}
+          onToolChange={setActiveTool}
+          color={drawColor}
+          onColorChange={setDrawColor}
+          selected={selectedAnnotation}
+          onUpdateSelected={(changes) => selectedAnnotation && updateAnnotation(selectedAnnotation.id, changes)}
+          onDeleteSelected={() => {
+            if (selectedAnnotation) removeAnnotation(selectedAnnotation.id);
+            setSelectedAnnotationId(null);
+          }}
+          onClear={() => {
+            clearAnnotations();
+            setSelectedAnnotationId(null);
+          }}
+          annotationCount={annotations.length}
+        />
+      )}
+
       {/* Chart Content - 🚀 STREAMLINED: No extra containers */}
-      <div className="relative bg-transparent">
+      <div ref={chartContentRef} className="relative bg-transparent">
         {isLoading && (
           <div className="absolute inset-0 bg-background/80 backdrop-blur-sm flex items-center justify-center z-10">
             <div className="flex items-center gap-3">
@@ -990,7 +1813,8 @@ const TradingChart: React.FC<TradingChartProps> = ({
         {/* 🚀 FIXED: Direct chart tabs rendering - NO extra containers */}
         <ProfessionalTabs
           tabs={chartTabs}
-          defaultTab="candlestick"
+          activeTab={activeTab}
+          onTabChange={setActiveTab}
           variant="professional"
         />
 
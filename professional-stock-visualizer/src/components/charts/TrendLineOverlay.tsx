@@ -0,0 +1,75 @@
+import React from 'react';
+import type { ChartDataPoint, TrendLine } from '../../types/chart';
+
+interface TrendLineOverlayProps {
+  trendLines: TrendLine[];
+  data: ChartDataPoint[];
+  scaleX: (index: number) => number;
+  scaleY: (price: number) => number;
+}
+
+const TREND_COLORS: Record<TrendLine['type'], string> = {
+  uptrend: '#22c55e',
+  downtrend: '#ef4444',
+  sideways: '#f59e0b',
+};
+
+// 🚀 SVG layer for detected trend lines; extended lines run to the last bar, broken ones stop at the break
+const TrendLineOverlay: React.FC<TrendLineOverlayProps> = ({ trendLines, data, scaleX, scaleY }) => {
+  const indexByTime = new Map(data.map((point, index) => [point.time, index]));
+
+  return (
+    <g className="trendline-overlay pointer-events-none">
+      {trendLines.map(line => {
+        const anchor = line.points[0];
+        const startIndex = anchor ? indexByTime.get(anchor.time) : undefined;
+        if (startIndex === undefined) return null;
+
+        const lastTouchIndex = indexByTime.get(line.points[line.points.length - 1].time) ?? startIndex;
+        const brokenIndex = line.brokenAt ? indexByTime.get(line.brokenAt) : undefined;
+        const endIndex = brokenIndex ?? (line.extended ? data.length - 1 : lastTouchIndex);
+        const priceAt = (index: number) => anchor.price + line.slope * (index - startIndex);
+        const color = TREND_COLORS[line.type];
+
+        return (
+          <g key={line.id} className="trendline" opacity={line.active ? 0.9 : 0.45}>
+            <line
+              x1={scaleX(startIndex)}
+              y1={scaleY(priceAt(startIndex))}
+              x2={scaleX(endIndex)}
+              y2={scaleY(priceAt(endIndex))}
+              stroke={color}
+              strokeWidth={line.active ? 1.5 : 1}
+              strokeDasharray={line.active ? undefined : '6,4'}
+            />
+
+            {line.points.map((point, i) => {
+              const index = indexByTime.get(point.time);
+              return index === undefined ? null : (
+                <circle key={i} cx={scaleX(index)} cy={scaleY(point.price)} r={2.5} fill={color} />
+              );
+            })}
+
+            {brokenIndex !== undefined && (
+              <text x={scaleX(brokenIndex)} y={scaleY(priceAt(brokenIndex)) - 6} textAnchor="middle" fontSize="10" fill={color}>
+                ✕
+              </text>
+            )}
+
+            <text
+              x={scaleX(endIndex) - 4}
+              y={scaleY(priceAt(endIndex)) - 6}
+              textAnchor="end"
+              fontSize="9"
+              fill={color}
+            >
+              {line.strength}× · R² {line.r2.toFixed(2)}
+            </text>
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+export default TrendLineOverlay;
@@ -0,0 +1,98 @@
+import React from 'react';
+import type { VWAPIndicator } from '../../types/indicators';
+
+interface VWAPOverlayProps {
+  points: VWAPIndicator['data'];
+  params: VWAPIndicator['params'];
+  style: VWAPIndicator['style'];
+  scaleX: (index: number) => number;
+  scaleY: (price: number) => number;
+  isVisible: (index: number) => boolean;
+  height: number;
+}
+
+// 🚀 VWAP with ±σ bands; each anchor starts a fresh segment
+const VWAPOverlay: React.FC<VWAPOverlayProps> = ({ points, params, style, scaleX, scaleY, isVisible, height }) => {
+  const buildPath = (offset: number) => {
+    let pen = 'M';
+    return points
+      .map((point, index) => {
+        if (point.value === null || point.stdDev === null || !isVisible(index)) {
+          pen = 'M';
+          return null;
+        }
+        const command = `${point.isAnchor ? 'M' : pen} ${scaleX(index)} ${scaleY(point.value + offset * point.stdDev)}`;
+        pen = 'L';
+        return command;
+      })
+      .filter(Boolean)
+      .join(' ');
+  };
+
+  // Shaded area inside the innermost band, one polygon per anchored segment
+  const innerMultiplier = params.bandMultipliers.length > 0 ? Math.min(...params.bandMultipliers) : 0;
+  const bandFills: string[] = [];
+  let upper: string[] = [];
+  let lower: string[] = [];
+  const flush = () => {
+    if (upper.length > 1) bandFills.push(`M ${upper.join(' L ')} L ${lower.reverse().join(' L ')} Z`);
+    upper = [];
+    lower = [];
+  };
+  if (innerMultiplier > 0) {
+    points.forEach((point, index) => {
+      if (point.value === null || point.stdDev === null || !isVisible(index) || point.isAnchor) flush();
+      if (point.value === null || point.stdDev === null || !isVisible(index)) return;
+      const x = scaleX(index);
+      upper.push(`${x} ${scaleY(point.value + innerMultiplier * point.stdDev)}`);
+      lower.push(`${x} ${scaleY(point.value - innerMultiplier * point.stdDev)}`);
+    });
+    flush();
+  }
+
+  const customAnchorIndex = params.anchorType === 'custom' ? points.findIndex(point => point.isAnchor) : -1;
+
+  return (
+    <g className="vwap-overlay pointer-events-none">
+      {bandFills.map((path, index) => (
+        <path key={index} d={path} fill={style.bandColor} opacity={0.08} />
+      ))}
+
+      {params.bandMultipliers.flatMap(multiplier => [multiplier, -multiplier]).map(offset => (
+        <path
+          key={offset}
+          d={buildPath(offset)}
+          stroke={style.bandColor}
+          strokeWidth={1}
+          strokeDasharray="4,3"
+          fill="none"
+          opacity={style.opacity * 0.7}
+        />
+      ))}
+
+      <path d={buildPath(0)} stroke={style.color} strokeWidth={style.width} fill="none" opacity={style.opacity} />
+
+      {/* Custom anchor marker */}
+      {customAnchorIndex >= 0 && isVisible(customAnchorIndex) && (
+        <g>
+          <line
+            x1={scaleX(customAnchorIndex)}
+            y1={0}
+            x2={scaleX(customAnchorIndex)}
+            y2={height}
+            stroke={style.color}
+            strokeWidth="1"
+            strokeDasharray="2,4"
+            opacity={0.6}
+          />
+          <path
+            d={`M ${scaleX(customAnchorIndex)} ${height - 10} l -5 8 h 10 Z`}
+            fill={style.color}
+          />
+        </g>
+      )}
+    </g>
+  );
+};
+
+export default VWAPOverlay;
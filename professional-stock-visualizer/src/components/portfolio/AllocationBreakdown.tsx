@@ -0,0 +1,54 @@
+import React from 'react';
+import { cn } from '../../utils/cn';
+
+interface AllocationBreakdownProps {
+  title: string;
+  items: { label: string; weight: number; value: number }[];
+  className?: string;
+}
+
+const ALLOCATION_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16'];
+
+// 🚀 Stacked allocation bar with a weight per row
+const AllocationBreakdown: React.FC<AllocationBreakdownProps> = ({ title, items, className }) => {
+  const colorOf = (index: number) => ALLOCATION_COLORS[index % ALLOCATION_COLORS.length];
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <h4 className="text-sm font-semibold">{title}</h4>
+
+      {items.length === 0 ? (
+        <p className="text-xs text-muted-foreground">Nothing allocated yet</p>
+      ) : (
+        <>
+          <div className="flex h-3 w-full overflow-hidden rounded-full bg-muted">
+            {items.map((item, index) => (
+              <div
+                key={item.label}
+                style={{ width: `${item.weight * 100}%`, backgroundColor: colorOf(index) }}
+                title={`${item.label}: ${(item.weight * 100).toFixed(1)}%`}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-1">
+            {items.map((item, index) => (
+              <div key={item.label} className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: colorOf(index) }} />
+                  <span>{item.label}</span>
+                </div>
+                <div className="flex gap-3 text-muted-foreground">
+                  <span>${item.value.toLocaleString('en-US', { maximumFractionDigits: 0 })}</span>
+                  <span className="w-14 text-right font-medium text-foreground">{(item.weight * 100).toFixed(1)}%</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AllocationBreakdown;
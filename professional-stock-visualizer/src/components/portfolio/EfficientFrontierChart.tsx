@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import type { EfficientFrontier, OptimizedPortfolio } from '../../types/stock';
+import { cn } from '../../utils/cn';
+
+interface EfficientFrontierChartProps {
+  frontier: EfficientFrontier;
+  current?: OptimizedPortfolio | null;
+  selected?: OptimizedPortfolio | null;
+  onSelect?: (portfolio: OptimizedPortfolio) => void;
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+const PADDING = { top: 16, right: 24, bottom: 36, left: 52 };
+
+const MARKERS = [
+  { key: 'minVariance', label: 'Min Variance', color: '#10b981' },
+  { key: 'maxSharpe', label: 'Max Sharpe', color: '#f59e0b' },
+  { key: 'riskParity', label: 'Risk Parity', color: '#8b5cf6' }
+] as const;
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+// 🚀 Risk/return scatter of the assets with the efficient frontier and its named portfolios
+const EfficientFrontierChart: React.FC<EfficientFrontierChartProps> = ({
+  frontier,
+  current,
+  selected,
+  onSelect,
+  width = 640,
+  height = 320,
+  className
+}) => {
+  const [hovered, setHovered] = useState<{ x: number; y: number; label: string } | null>(null);
+
+  const portfolios = [
+    ...frontier.points,
+    frontier.minVariance,
+    frontier.maxSharpe,
+    frontier.riskParity,
+    ...(current ? [current] : [])
+  ];
+  const volatilities = [...frontier.assets.map(asset => asset.volatility), ...portfolios.map(p => p.volatility)];
+  const returns = [...frontier.assets.map(asset => asset.expectedReturn), ...portfolios.map(p => p.expectedReturn)];
+
+  const minX = 0;
+  const maxX = Math.max(...volatilities) * 1.1 || 1;
+  const returnPadding = (Math.max(...returns) - Math.min(...returns)) * 0.1 || 0.01;
+  const minY = Math.min(0, Math.min(...returns) - returnPadding);
+  const maxY = Math.max(...returns) + returnPadding;
+
+  const plotWidth = width - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const scaleX = (value: number) => PADDING.left + ((value - minX) / (maxX - minX)) * plotWidth;
+  const scaleY = (value: number) => PADDING.top + (1 - (value - minY) / (maxY - minY)) * plotHeight;
+
+  const ticks = (min: number, max: number) => Array.from({ length: 5 }, (_, i) => min + ((max - min) * i) / 4);
+  const frontierPath = frontier.points
+    .map((point, i) => `${i === 0 ? 'M' : 'L'} ${scaleX(point.volatility)} ${scaleY(point.expectedReturn)}`)
+    .join(' ');
+
+  const describe = (portfolio: OptimizedPortfolio, name: string) =>
+    `${name}: return ${formatPercent(portfolio.expectedReturn)}, vol ${formatPercent(portfolio.volatility)}, Sharpe ${portfolio.sharpeRatio.toFixed(2)}`;
+
+  return (
+    <div className={cn('relative', className)}>
+      <svg width="100%" viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" onMouseLeave={() => setHovered(null)}>
+        {/* Grid and axes */}
+        {ticks(minY, maxY).map(value => (
+          <g key={`y-${value}`}>
+            <line x1={PADDING.left} x2={width - PADDING.right} y1={scaleY(value)} y2={scaleY(value)} stroke="hsl(var(--border))" strokeDasharray="2,4" />
+            <text x={PADDING.left - 6} y={scaleY(value)} textAnchor="end" dominantBaseline="middle" fontSize="10" fill="hsl(var(--muted-foreground))">
+              {formatPercent(value)}
+            </text>
+          </g>
+        ))}
+        {ticks(minX, maxX).map(value => (
+          <text key={`x-${value}`} x={scaleX(value)} y={height - PADDING.bottom + 14} textAnchor="middle" fontSize="10" fill="hsl(var(--muted-foreground))">
+            {formatPercent(value)}
+          </text>
+        ))}
+        <text x={PADDING.left + plotWidth / 2} y={height - 4} textAnchor="middle" fontSize="11" fill="hsl(var(--muted-foreground))">
+          Volatility (annualized)
+        </text>
+        <text
+          x={12}
+          y={PADDING.top + plotHeight / 2}
+          textAnchor="middle"
+          fontSize="11"
+          fill="hsl(var(--muted-foreground))"
+          transform={`rotate(-90 12 ${PADDING.top + plotHeight / 2})`}
+        >
+          Expected Return
+        </text>
+
+        {/* Frontier */}
+        <path d={frontierPath} fill="none" stroke="#3b82f6" strokeWidth={2} />
+        {frontier.points.map((point, i) => (
+          <circle
+            key={`frontier-${i}`}
+            cx={scaleX(point.volatility)}
+            cy={scaleY(point.expectedReturn)}
+            r={selected === point ? 5 : 3}
+            fill={selected === point ? '#1d4ed8' : '#3b82f6'}
+            className={onSelect ? 'cursor-pointer' : undefined}
+            onClick={() => onSelect?.(point)}
+            onMouseEnter={() => setHovered({ x: scaleX(point.volatility), y: scaleY(point.expectedReturn), label: describe(point, 'Frontier') })}
+          />
+        ))}
+
+        {/* Individual assets */}
+        {frontier.assets.map(asset => (
+          <g key={asset.symbol}>
+            <circle cx={scaleX(asset.volatility)} cy={scaleY(asset.expectedReturn)} r={4} fill="hsl(var(--muted-foreground))" opacity={0.7} />
+            <text x={scaleX(asset.volatility) + 6} y={scaleY(asset.expectedReturn) - 6} fontSize="10" fill="hsl(var(--foreground))">
+              {asset.symbol}
+            </text>
+          </g>
+        ))}
+
+        {/* Named portfolios */}
+        {MARKERS.map(({ key, label, color }) => {
+          const portfolio = frontier[key];
+          return (
+            <rect
+              key={key}
+              x={scaleX(portfolio.volatility) - 6}
+              y={scaleY(portfolio.expectedReturn) - 6}
+              width={12}
+              height={12}
+              fill={color}
+              stroke={selected === portfolio ? 'hsl(var(--foreground))' : 'white'}
+              strokeWidth={2}
+              transform={`rotate(45 ${scaleX(portfolio.volatility)} ${scaleY(portfolio.expectedReturn)})`}
+              className={onSelect ? 'cursor-pointer' : undefined}
+              onClick={() => onSelect?.(portfolio)}
+              onMouseEnter={() => setHovered({ x: scaleX(portfolio.volatility), y: scaleY(portfolio.expectedReturn), label: describe(portfolio, label) })}
+            />
+          );
+        })}
+        {current && (
+          <circle
+            cx={scaleX(current.volatility)}
+            cy={scaleY(current.expectedReturn)}
+            r={7}
+            fill="none"
+            stroke="#ef4444"
+            strokeWidth={2.5}
+            onMouseEnter={() => setHovered({ x: scaleX(current.volatility), y: scaleY(current.expectedReturn), label: describe(current, 'Current') })}
+          />
+        )}
+      </svg>
+
+      {hovered && (
+        <div
+          className="absolute pointer-events-none px-2 py-1 text-xs bg-popover text-popover-foreground border rounded shadow-sm whitespace-nowrap"
+          style={{ left: `${(hovered.x / width) * 100}%`, top: `${(hovered.y / height) * 100}%`, transform: 'translate(-50%, -130%)' }}
+        >
+          {hovered.label}
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-blue-500" />Efficient frontier</span>
+        {MARKERS.map(({ key, label, color }) => (
+          <span key={key} className="flex items-center gap-1">
+            <span className="w-2.5 h-2.5 rotate-45" style={{ backgroundColor: color }} />
+            {label}
+          </span>
+        ))}
+        {current && <span className="flex items-center gap-1"><span className="w-2.5 h-2.5 rounded-full border-2 border-red-500" />Current</span>}
+      </div>
+    </div>
+  );
+};
+
+export default EfficientFrontierChart;
@@ -0,0 +1,264 @@
+import React, { useMemo, useState } from 'react';
+import { Target, Loader2 } from 'lucide-react';
+import type { EfficientFrontier, OptimizationConstraints, OptimizedPortfolio, PortfolioPosition } from '../../types/stock';
+import type { PortfolioMarketData } from '../../utils/portfolioAnalytics';
+import { PortfolioOptimizer, type OptimizerAsset } from '../../utils/portfolioOptimizer';
+import { QuantAnalytics } from '../../utils/quantAnalytics';
+import EfficientFrontierChart from './EfficientFrontierChart';
+import Button from '../ui/Button';
+import { cn } from '../../utils/cn';
+
+interface PortfolioOptimizerPanelProps {
+  positions: PortfolioPosition[];
+  marketData: Record<string, PortfolioMarketData>;
+  className?: string;
+}
+
+type TargetKey = 'maxSharpe' | 'minVariance' | 'riskParity' | 'custom';
+
+const TARGETS: { key: Exclude<TargetKey, 'custom'>; label: string }[] = [
+  { key: 'maxSharpe', label: 'Max Sharpe' },
+  { key: 'minVariance', label: 'Min Variance' },
+  { key: 'riskParity', label: 'Risk Parity' }
+];
+
+const inputClassName = 'w-20 px-2 py-1 bg-background border border-input rounded text-xs';
+
+// 🚀 Optimize the held symbols under weight and sector limits and propose rebalancing trades
+const PortfolioOptimizerPanel: React.FC<PortfolioOptimizerPanelProps> = ({ positions, marketData, className }) => {
+  const [longOnly, setLongOnly] = useState(true);
+  const [maxWeight, setMaxWeight] = useState(40);
+  const [sectorCaps, setSectorCaps] = useState<Record<string, number>>({});
+  const [minTradeValue, setMinTradeValue] = useState(50);
+  const [frontier, setFrontier] = useState<EfficientFrontier | null>(null);
+  const [target, setTarget] = useState<{ key: TargetKey; portfolio: OptimizedPortfolio } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isOptimizing, setIsOptimizing] = useState(false);
+
+  const assets = useMemo<OptimizerAsset[]>(() =>
+    positions
+      .filter(position => (marketData[position.symbol]?.closes.length ?? 0) > 2)
+      .map(position => ({
+        symbol: position.symbol,
+        sector: marketData[position.symbol].sector,
+        returns: QuantAnalytics.calculateReturns(marketData[position.symbol].closes)
+      })),
+  [positions, marketData]);
+
+  // Holdings without history stay out of the rebalance rather than being sold off
+  const optimizable = useMemo(() => {
+    const included = positions.filter(position => assets.some(asset => asset.symbol === position.symbol));
+    const total = included.reduce((sum, position) => sum + position.totalValue, 0);
+    return included.map(position => ({ ...position, weight: total !== 0 ? position.totalValue / total : 0 }));
+  }, [positions, assets]);
+
+  const sectors = useMemo(() => Array.from(new Set(assets.map(asset => asset.sector ?? 'Unknown'))), [assets]);
+
+  // Below this, even filling every holding to the cap cannot invest the whole portfolio
+  const minimumMaxWeight = assets.length > 0 ? Math.ceil(1000 / assets.length) / 10 : 100;
+  const maxWeightError = maxWeight < minimumMaxWeight
+    ? `Max weight must be at least ${minimumMaxWeight}% to fully invest across ${assets.length} holdings`
+    : null;
+
+  const current = useMemo(() => {
+    if (!frontier || assets.length < 2) return null;
+    try {
+      return PortfolioOptimizer.evaluatePortfolio(assets, Object.fromEntries(optimizable.map(position => [position.symbol, position.weight])));
+    } catch {
+      return null;
+    }
+  }, [frontier, assets, optimizable]);
+
+  const trades = useMemo(
+    () => (target ? PortfolioOptimizer.proposeTrades(optimizable, target.portfolio.weights, { minTradeValue }) : []),
+    [target, optimizable, minTradeValue]
+  );
+
+  const optimize = () => {
+    if (maxWeightError) return;
+
+    const constraints: OptimizationConstraints = {
+      longOnly,
+      maxWeight: maxWeight / 100,
+      sectorCaps: Object.fromEntries(
+        Object.entries(sectorCaps).filter(([sector]) => sectors.includes(sector)).map(([sector, cap]) => [sector, cap / 100])
+      )
+    };
+
+    setIsOptimizing(true);
+    // Let the spinner paint before the synchronous solve
+    setTimeout(() => {
+      try {
+        const result = PortfolioOptimizer.calculateEfficientFrontier(assets, constraints);
+        setFrontier(result);
+        setTarget({ key: 'maxSharpe', portfolio: result.maxSharpe });
+        setError(null);
+      } catch (error) {
+        console.error('Error optimizing portfolio:', error);
+        setFrontier(null);
+        setTarget(null);
+        setError(error instanceof Error ? error.message : 'Optimization failed');
+      } finally {
+        setIsOptimizing(false);
+      }
+    }, 0);
+  };
+
+  const selectTarget = (key: Exclude<TargetKey, 'custom'>) => {
+    if (frontier) setTarget({ key, portfolio: frontier[key] });
+  };
+
+  if (assets.length < 2) {
+    return (
+      <p className={cn('text-sm text-muted-foreground', className)}>
+        Hold at least two symbols with price history to run the optimizer.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('space-y-4', className)}>
+      {/* Constraints */}
+      <div className="flex flex-wrap items-end gap-4 text-xs">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={longOnly} onChange={(e) => setLongOnly(e.target.checked)} />
+          Long only
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-muted-foreground">Max weight %</span>
+          <input
+            type="number"
+            min={minimumMaxWeight}
+            max="100"
+            value={maxWeight}
+            onChange={(e) => setMaxWeight(parseFloat(e.target.value) || 0)}
+            className={inputClassName}
+          />
+        </label>
+        {sectors.map(sector => (
+          <label key={sector} className="flex flex-col gap-1">
+            <span className="text-muted-foreground">{sector} cap %</span>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              placeholder="None"
+              value={sectorCaps[sector] ?? ''}
+              onChange={(e) => {
+                const value = e.target.value;
+                setSectorCaps(prev => {
+                  const next = { ...prev };
+                  if (value === '') {
+                    delete next[sector];
+                  } else {
+                    next[sector] = parseFloat(value);
+                  }
+                  return next;
+                });
+              }}
+              className={inputClassName}
+            />
+          </label>
+        ))}
+        <Button size="sm" onClick={optimize} disabled={isOptimizing || maxWeightError !== null}>
+          {isOptimizing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Target className="w-4 h-4 mr-1" />}
+          Optimize
+        </Button>
+      </div>
+
+      {maxWeightError && <p className="text-xs text-red-600">{maxWeightError}</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {frontier && (
+        <>
+          <EfficientFrontierChart
+            frontier={frontier}
+            current={current}
+            selected={target?.portfolio}
+            onSelect={portfolio => {
+              const named = TARGETS.find(({ key }) => frontier[key] === portfolio);
+              setTarget({ key: named?.key ?? 'custom', portfolio });
+            }}
+          />
+
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-muted-foreground">Target:</span>
+            {TARGETS.map(({ key, label }) => (
+              <Button key={key} size="sm" variant={target?.key === key ? 'primary' : 'outline'} onClick={() => selectTarget(key)}>
+                {label}
+              </Button>
+            ))}
+            {target?.key === 'custom' && <span className="text-xs font-medium">Frontier point</span>}
+          </div>
+
+          {target && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <h4 className="text-sm font-semibold mb-2">
+                  Target Weights
+                  <span className="ml-2 text-xs font-normal text-muted-foreground">
+                    return {(target.portfolio.expectedReturn * 100).toFixed(1)}% · vol {(target.portfolio.volatility * 100).toFixed(1)}% · Sharpe {target.portfolio.sharpeRatio.toFixed(2)}
+                  </span>
+                </h4>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b border-border text-xs text-muted-foreground">
+                      <th className="text-left py-1 font-medium">Symbol</th>
+                      <th className="text-right py-1 font-medium">Current</th>
+                      <th className="text-right py-1 font-medium">Target</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {optimizable.map(position => (
+                      <tr key={position.symbol} className="border-b border-border/50">
+                        <td className="py-1 font-semibold">{position.symbol}</td>
+                        <td className="text-right py-1">{(position.weight * 100).toFixed(1)}%</td>
+                        <td className="text-right py-1">{((target.portfolio.weights[position.symbol] ?? 0) * 100).toFixed(1)}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="text-sm font-semibold">Proposed Trades</h4>
+                  <label className="flex items-center gap-1 text-xs text-muted-foreground">
+                    Min $
+                    <input
+                      type="number"
+                      min="0"
+                      value={minTradeValue}
+                      onChange={(e) => setMinTradeValue(parseFloat(e.target.value) || 0)}
+                      className={inputClassName}
+                    />
+                  </label>
+                </div>
+                {trades.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Already at target weights.</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {trades.map(trade => (
+                        <tr key={trade.symbol} className="border-b border-border/50">
+                          <td className={cn('py-1 font-medium uppercase text-xs', trade.side === 'buy' ? 'text-green-600' : 'text-red-600')}>
+                            {trade.side}
+                          </td>
+                          <td className="py-1 font-semibold">{trade.symbol}</td>
+                          <td className="text-right py-1">{trade.quantity}</td>
+                          <td className="text-right py-1">${trade.value.toLocaleString('en-US', { maximumFractionDigits: 0 })}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioOptimizerPanel;
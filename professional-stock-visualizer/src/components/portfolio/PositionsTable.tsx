@@ -0,0 +1,79 @@
+import React from 'react';
+import type { PortfolioPosition } from '../../types/stock';
+import type { PortfolioMarketData } from '../../utils/portfolioAnalytics';
+import type { LedgerPosition } from '../../utils/transactionLedger';
+import { cn } from '../../utils/cn';
+
+interface PositionsTableProps {
+  positions: PortfolioPosition[];
+  marketData: Record<string, PortfolioMarketData>;
+  livePrices: Record<string, number>;
+  ledgerPositions: Record<string, LedgerPosition>;
+  className?: string;
+}
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+// 🚀 Marked-to-market positions with unrealized and realized P&L
+const PositionsTable: React.FC<PositionsTableProps> = ({ positions, marketData, livePrices, ledgerPositions, className }) => {
+  if (positions.length === 0) {
+    return (
+      <div className={cn('text-center py-8 text-sm text-muted-foreground', className)}>
+        No open positions. Record a buy to start tracking your portfolio.
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('overflow-x-auto', className)}>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-border text-xs text-muted-foreground">
+            <th className="text-left py-2 font-medium">Symbol</th>
+            <th className="text-right py-2 font-medium">Qty</th>
+            <th className="text-right py-2 font-medium">Avg Price</th>
+            <th className="text-right py-2 font-medium">Price</th>
+            <th className="text-right py-2 font-medium">Value</th>
+            <th className="text-right py-2 font-medium">Unrealized</th>
+            <th className="text-right py-2 font-medium">Realized</th>
+            <th className="text-right py-2 font-medium">Weight</th>
+          </tr>
+        </thead>
+        <tbody>
+          {positions.map(position => {
+            const gain = position.unrealizedPnL >= 0;
+            const realized = ledgerPositions[position.symbol]?.realizedPnL ?? 0;
+            return (
+              <tr key={position.symbol} className="border-b border-border/50">
+                <td className="py-2">
+                  <div className="font-semibold">{position.symbol}</div>
+                  <div className="text-xs text-muted-foreground">{marketData[position.symbol]?.name ?? 'Loading...'}</div>
+                </td>
+                <td className="text-right py-2">{position.quantity}</td>
+                <td className="text-right py-2">{formatCurrency(position.avgPrice)}</td>
+                <td className="text-right py-2">
+                  {formatCurrency(position.currentPrice)}
+                  {position.symbol in livePrices && (
+                    <span className="ml-1 inline-block h-1.5 w-1.5 rounded-full bg-green-500 animate-pulse" title="Live" />
+                  )}
+                </td>
+                <td className="text-right py-2 font-medium">{formatCurrency(position.totalValue)}</td>
+                <td className={cn('text-right py-2', gain ? 'text-green-600' : 'text-red-600')}>
+                  <div>{gain ? '+' : ''}{formatCurrency(position.unrealizedPnL)}</div>
+                  <div className="text-xs">{gain ? '+' : ''}{position.unrealizedPnLPercent.toFixed(2)}%</div>
+                </td>
+                <td className={cn('text-right py-2', realized >= 0 ? 'text-green-600' : 'text-red-600')}>
+                  {realized >= 0 ? '+' : ''}{formatCurrency(realized)}
+                </td>
+                <td className="text-right py-2">{(position.weight * 100).toFixed(1)}%</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default PositionsTable;
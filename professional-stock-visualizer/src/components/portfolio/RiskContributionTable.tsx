@@ -0,0 +1,104 @@
+import React from 'react';
+import type { PortfolioRiskDecomposition } from '../../types/stock';
+import { cn } from '../../utils/cn';
+
+interface RiskContributionTableProps {
+  decomposition: PortfolioRiskDecomposition;
+  className?: string;
+}
+
+// Blue for negative, red for positive correlation
+const correlationColor = (value: number) =>
+  value >= 0 ? `rgba(239, 68, 68, ${Math.min(1, value) * 0.8})` : `rgba(59, 130, 246, ${Math.min(1, -value) * 0.8})`;
+
+// 🚀 Which holdings drive portfolio VaR, plus the correlations behind it
+const RiskContributionTable: React.FC<RiskContributionTableProps> = ({ decomposition, className }) => {
+  const { positions, correlationMatrix } = decomposition;
+  if (positions.length === 0) {
+    return <p className={cn('text-sm text-muted-foreground', className)}>Risk contributions appear once price history loads.</p>;
+  }
+
+  const ranked = [...positions].sort((a, b) => b.componentVaR - a.componentVaR);
+  const maxContribution = Math.max(...positions.map(position => Math.abs(position.contribution)), 0.01);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-border text-xs text-muted-foreground">
+              <th className="text-left py-2 font-medium">Symbol</th>
+              <th className="text-right py-2 font-medium">Weight</th>
+              <th className="text-right py-2 font-medium">Volatility</th>
+              <th className="text-right py-2 font-medium" title="Change in 95% VaR per unit of weight">Marginal VaR</th>
+              <th className="text-right py-2 font-medium" title="Weight × marginal VaR; these sum to portfolio VaR">Component VaR</th>
+              <th className="text-left py-2 pl-4 font-medium w-1/3">Share of Risk</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.map(position => {
+              // Risk share above weight means the holding adds more risk than capital
+              const outsized = position.contribution > position.weight * 1.25;
+              return (
+                <tr key={position.symbol} className="border-b border-border/50">
+                  <td className="py-2 font-semibold">{position.symbol}</td>
+                  <td className="text-right py-2">{(position.weight * 100).toFixed(1)}%</td>
+                  <td className="text-right py-2">{(position.volatility * 100).toFixed(1)}%</td>
+                  <td className="text-right py-2">{(position.marginalVaR * 100).toFixed(2)}%</td>
+                  <td className="text-right py-2">{(position.componentVaR * 100).toFixed(3)}%</td>
+                  <td className="py-2 pl-4">
+                    <div className="flex items-center gap-2">
+                      <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+                        <div
+                          className={cn('h-full rounded-full', position.contribution < 0 ? 'bg-blue-500' : outsized ? 'bg-red-500' : 'bg-green-500')}
+                          style={{ width: `${(Math.abs(position.contribution) / maxContribution) * 100}%` }}
+                        />
+                      </div>
+                      <span className={cn('w-14 text-right text-xs font-medium', outsized && 'text-red-600')}>
+                        {(position.contribution * 100).toFixed(1)}%
+                      </span>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-semibold mb-2">Correlation Matrix</h4>
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {positions.map(position => (
+                  <th key={position.symbol} className="px-2 py-1 font-medium text-muted-foreground">{position.symbol}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {correlationMatrix.map((row, i) => (
+                <tr key={positions[i].symbol}>
+                  <th className="px-2 py-1 text-left font-medium text-muted-foreground">{positions[i].symbol}</th>
+                  {row.map((value, j) => (
+                    <td
+                      key={positions[j].symbol}
+                      className="px-2 py-1 text-center tabular-nums"
+                      style={{ backgroundColor: correlationColor(value) }}
+                    >
+                      {value.toFixed(2)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskContributionTable;
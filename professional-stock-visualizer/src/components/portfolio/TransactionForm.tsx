@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import type { PortfolioTransaction, TransactionType } from '../../types/stock';
+import { TRANSACTION_TYPES } from '../../utils/transactionLedger';
+import Button from '../ui/Button';
+import { cn } from '../../utils/cn';
+
+interface TransactionFormProps {
+  onAddTransaction: (transaction: Omit<PortfolioTransaction, 'id'>) => void;
+  className?: string;
+}
+
+const inputClassName = 'w-full px-3 py-2 bg-background border border-input rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-ring';
+
+// What the quantity and price fields mean for each transaction type
+const FIELD_LABELS: Record<TransactionType, { quantity: string; price: string | null }> = {
+  buy: { quantity: 'Quantity', price: 'Price' },
+  sell: { quantity: 'Quantity', price: 'Price' },
+  dividend: { quantity: 'Shares', price: 'Per Share' },
+  split: { quantity: 'Ratio', price: null },
+  fee: { quantity: 'Quantity', price: null }
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// 🚀 Record a buy, sell, dividend, split or fee
+const TransactionForm: React.FC<TransactionFormProps> = ({ onAddTransaction, className }) => {
+  const [type, setType] = useState<TransactionType>('buy');
+  const [date, setDate] = useState(today);
+  const [symbol, setSymbol] = useState('');
+  const [quantity, setQuantity] = useState('');
+  const [price, setPrice] = useState('');
+  const [fees, setFees] = useState('');
+  const [notes, setNotes] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const labels = FIELD_LABELS[type];
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    try {
+      onAddTransaction({
+        date,
+        symbol,
+        type,
+        quantity: type === 'fee' ? 0 : parseFloat(quantity),
+        price: labels.price ? parseFloat(price) : 0,
+        fees: fees ? parseFloat(fees) : 0,
+        notes: notes.trim() || undefined
+      });
+      setQuantity('');
+      setPrice('');
+      setFees('');
+      setNotes('');
+      setError(null);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not add transaction');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className={cn('space-y-3', className)}>
+      <div className="flex gap-1">
+        {TRANSACTION_TYPES.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setType(option)}
+            className={cn(
+              'flex-1 px-2 py-1 text-xs font-medium rounded-md capitalize transition-colors',
+              type === option ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground hover:bg-muted/80'
+            )}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-muted-foreground mb-1">Date</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={inputClassName} />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-muted-foreground mb-1">Symbol</label>
+          <input
+            type="text"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+            placeholder="AAPL"
+            maxLength={6}
+            className={inputClassName}
+          />
+        </div>
+        {type !== 'fee' && (
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground mb-1">{labels.quantity}</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              placeholder={type === 'split' ? '2' : '10'}
+              className={inputClassName}
+            />
+          </div>
+        )}
+        {labels.price && (
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground mb-1">{labels.price}</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="150.00"
+              className={inputClassName}
+            />
+          </div>
+        )}
+        {type !== 'split' && (
+          <div>
+            <label className="block text-xs font-medium text-muted-foreground mb-1">{type === 'fee' ? 'Amount' : 'Fees'}</label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={fees}
+              onChange={(e) => setFees(e.target.value)}
+              placeholder="0.00"
+              className={inputClassName}
+            />
+          </div>
+        )}
+        <div className={cn(type === 'split' || type === 'fee' ? 'col-span-1' : 'col-span-2')}>
+          <label className="block text-xs font-medium text-muted-foreground mb-1">Notes</label>
+          <input type="text" value={notes} onChange={(e) => setNotes(e.target.value)} className={inputClassName} />
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <Button type="submit" size="sm" className="w-full" disabled={!symbol || !date}>
+        <Plus className="w-4 h-4 mr-1" />
+        Add Transaction
+      </Button>
+    </form>
+  );
+};
+
+export default TransactionForm;
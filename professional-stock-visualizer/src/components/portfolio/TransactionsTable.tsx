@@ -0,0 +1,163 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload, Trash2 } from 'lucide-react';
+import type { PortfolioTransaction } from '../../types/stock';
+import { downloadBlob } from '../../utils/chartExport';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+import { cn } from '../../utils/cn';
+
+interface TransactionsTableProps {
+  transactions: PortfolioTransaction[];
+  onRemove: (id: string) => void;
+  onImportCsv: (csv: string, mode: 'append' | 'replace') => number;
+  onExportCsv: () => string;
+  className?: string;
+}
+
+const TYPE_VARIANTS: Record<PortfolioTransaction['type'], 'success' | 'danger' | 'warning' | 'secondary' | 'outline'> = {
+  buy: 'success',
+  sell: 'danger',
+  dividend: 'warning',
+  split: 'outline',
+  fee: 'secondary'
+};
+
+// Amount column: cash out for buys and fees, cash in for sells and dividends
+const describeAmount = (transaction: PortfolioTransaction) => {
+  const { type, quantity, price, fees } = transaction;
+  switch (type) {
+    case 'buy': return -(quantity * price + fees);
+    case 'sell': return quantity * price - fees;
+    case 'dividend': return quantity * price - fees;
+    case 'fee': return -fees;
+    case 'split': return null;
+  }
+};
+
+// 🚀 Ledger in date order with CSV import/export
+const TransactionsTable: React.FC<TransactionsTableProps> = ({
+  transactions,
+  onRemove,
+  onImportCsv,
+  onExportCsv,
+  className
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMode, setImportMode] = useState<'append' | 'replace'>('append');
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null);
+
+  const ordered = [...transactions].sort((a, b) => b.date.localeCompare(a.date));
+
+  const handleExport = () => {
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([onExportCsv()], { type: 'text/csv;charset=utf-8' }), `portfolio_transactions_${date}.csv`);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = onImportCsv(await file.text(), importMode);
+      setStatus({ message: `Imported ${count} transactions from ${file.name}`, isError: false });
+    } catch (error) {
+      console.error('Error importing transactions:', error);
+      setStatus({ message: error instanceof Error ? error.message : 'Could not import transactions', isError: true });
+    }
+  };
+
+  const handleRemove = (id: string) => {
+    try {
+      onRemove(id);
+      setStatus(null);
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : 'Could not remove transaction', isError: true });
+    }
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={importMode}
+          onChange={(e) => setImportMode(e.target.value as 'append' | 'replace')}
+          className="px-2 py-1 bg-background border border-input rounded text-xs"
+          title="How imported transactions combine with the current ledger"
+        >
+          <option value="append">Append</option>
+          <option value="replace">Replace</option>
+        </select>
+        <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="w-4 h-4 mr-1" />
+          Import CSV
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleExport} disabled={transactions.length === 0}>
+          <Download className="w-4 h-4 mr-1" />
+          Export CSV
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+      </div>
+
+      {status && (
+        <p className={cn('text-xs', status.isError ? 'text-red-600' : 'text-green-600')}>{status.message}</p>
+      )}
+
+      {ordered.length === 0 ? (
+        <div className="text-center py-6 text-sm text-muted-foreground">
+          No transactions yet. Record a trade or import a CSV with date, symbol, type, quantity, price, fees and notes columns.
+        </div>
+      ) : (
+        <div className="overflow-x-auto max-h-96">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-border text-xs text-muted-foreground">
+                <th className="text-left py-2 font-medium">Date</th>
+                <th className="text-left py-2 font-medium">Type</th>
+                <th className="text-left py-2 font-medium">Symbol</th>
+                <th className="text-right py-2 font-medium">Qty</th>
+                <th className="text-right py-2 font-medium">Price</th>
+                <th className="text-right py-2 font-medium">Fees</th>
+                <th className="text-right py-2 font-medium">Amount</th>
+                <th className="py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {ordered.map(transaction => {
+                const amount = describeAmount(transaction);
+                return (
+                  <tr key={transaction.id} className="border-b border-border/50" title={transaction.notes}>
+                    <td className="py-2">{transaction.date}</td>
+                    <td className="py-2">
+                      <Badge variant={TYPE_VARIANTS[transaction.type]} size="sm" className="capitalize">
+                        {transaction.type}
+                      </Badge>
+                    </td>
+                    <td className="py-2 font-semibold">{transaction.symbol}</td>
+                    <td className="text-right py-2">
+                      {transaction.type === 'split' ? `${transaction.quantity}:1` : transaction.type === 'fee' ? '' : transaction.quantity}
+                    </td>
+                    <td className="text-right py-2">
+                      {transaction.type === 'split' || transaction.type === 'fee' ? '' : `$${transaction.price.toFixed(2)}`}
+                    </td>
+                    <td className="text-right py-2">{transaction.fees ? `$${transaction.fees.toFixed(2)}` : ''}</td>
+                    <td className={cn('text-right py-2', amount !== null && (amount >= 0 ? 'text-green-600' : 'text-red-600'))}>
+                      {amount === null ? '' : `${amount >= 0 ? '+' : '-'}$${Math.abs(amount).toFixed(2)}`}
+                    </td>
+                    <td className="text-right py-2">
+                      <Button size="sm" variant="ghost" onClick={() => handleRemove(transaction.id)} title="Delete transaction">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionsTable;
@@ -1,7 +1,14 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { PriceAlert, TechnicalAlert, NewsAlert, AlertNotification, AlertState } from '../types/alerts';
-import { checkPriceAlert, checkTechnicalAlert, createAlertNotification } from '../utils/alertTriggers';
+import { checkPriceAlert, checkTechnicalAlert, createAlertNotification, generateAlertSuggestions } from '../utils/alertTriggers';
 import { useRealTimeData } from './useRealTimeData';
+import { useMarketDataProvider } from './useMarketDataProvider';
+import { generateSignals, generateLatestSignals, calculateSignalConsensus, SIGNAL_LOOKBACK_BARS } from '../utils/indicatorSignals';
+import { evaluateFormulaLatest } from '../utils/formulaEngine';
+import { createTickIndicators } from '../utils/incrementalIndicators';
+import { convertToChartData } from '../utils/chartHelpers';
+import type { ChartDataPoint } from '../types/chart';
+import type { IndicatorSignal } from '../types/indicators';
 import { notificationService } from '../services/notificationService';
 
 export interface UseAlertsHook {
@@ -17,6 +24,7 @@ export interface UseAlertsHook {
   clearAllNotifications: () => void;
   testAlert: () => void;
   updateSettings: (settings: Partial<AlertState['settings']>) => void;
+  getAlertSuggestions: (symbol: string) => Partial<PriceAlert>[];
 }
 
 export const useAlerts = (symbols: string[] = []): UseAlertsHook => {
@@ -34,10 +42,15 @@ export const useAlerts = (symbols: string[] = []): UseAlertsHook => {
   });
 
   const checkIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const priceHistoryRef = useRef<{ [symbol: string]: number[] }>({});
+  // Streaming calculators per symbol, seeded with the chart's daily bars so each tick costs O(1)
+  const streamingIndicatorsRef = useRef<{ [symbol: string]: ReturnType<typeof createTickIndicators> }>({});
+  const requestedHistoryRef = useRef<Set<string>>(new Set());
+  // Newest-bar signals per symbol, recomputed only when a new tick arrives
+  const latestSignalsRef = useRef<{ [symbol: string]: IndicatorSignal[] }>({});
 
   // Get real-time data for monitoring
   const { realTimePrices,subscribe } = useRealTimeData(symbols);
+  const { provider } = useMarketDataProvider();
 
   // 🚀 Load alerts from localStorage on mount
   useEffect(() => {
@@ -79,22 +92,65 @@ export const useAlerts = (symbols: string[] = []): UseAlertsHook => {
     localStorage.setItem('smartAlerts', JSON.stringify(alerts));
   }, [alerts]);
 
+  // 🔁 A new provider means new history: start every symbol over
+  useEffect(() => {
+    streamingIndicatorsRef.current = {};
+    requestedHistoryRef.current = new Set();
+  }, [provider]);
+
+  // 🚀 Seed each symbol's indicators with the same daily bars the charts load
+  useEffect(() => {
+    const indicators = streamingIndicatorsRef.current;
+
+    Object.keys(realTimePrices).forEach(symbol => {
+      if (requestedHistoryRef.current.has(symbol)) return;
+      requestedHistoryRef.current.add(symbol);
+
+      provider.getHistoricalBars(symbol.toUpperCase())
+        .then(prices => {
+          // Dropped if the provider changed while loading
+          if (streamingIndicatorsRef.current !== indicators) return;
+          if (!indicators[symbol]) indicators[symbol] = createTickIndicators();
+          indicators[symbol].seed(convertToChartData(prices));
+        })
+        .catch(error => console.error(`Failed to load ${symbol} history for alerts:`, error));
+    });
+  }, [realTimePrices, provider]);
+
+  // 🚀 Latest value of every formula used by this symbol's active alerts
+  const evaluateAlertFormulas = useCallback((symbol: string, bars: ChartDataPoint[]) => {
+    const formulas = new Set(
+      alerts.technicalAlerts
+        .filter(alert => alert.symbol === symbol && alert.isActive && alert.parameters.formula)
+        .map(alert => alert.parameters.formula!)
+    );
+    if (formulas.size === 0) return undefined;
+
+    const values: Record<string, number | null> = {};
+    formulas.forEach(formula => {
+      values[formula] = evaluateFormulaLatest(formula, bars);
+    });
+    return values;
+  }, [alerts.technicalAlerts]);
+
   // 🚀 Monitor price changes and check alerts
   useEffect(() => {
     if (!realTimePrices) return;
 
     Object.values(realTimePrices).forEach((realTimePrice) => {
-    const { symbol, price } = realTimePrice;
+    const { symbol, price, timestamp } = realTimePrice;
 
-    // Update price history
-    if (!priceHistoryRef.current[symbol]) {
-      priceHistoryRef.current[symbol] = [];
+    if (!streamingIndicatorsRef.current[symbol]) {
+      streamingIndicatorsRef.current[symbol] = createTickIndicators();
     }
-    priceHistoryRef.current[symbol].push(price);
-
-    // Keep only last 100 prices
-    if (priceHistoryRef.current[symbol].length > 100) {
-      priceHistoryRef.current[symbol] = priceHistoryRef.current[symbol].slice(-100);
+    // The live price revises today's bar, so RSI, MACD and ADX match the chart's last value.
+    // Until the history loads these stay null and indicator alerts wait.
+    const indicators = streamingIndicatorsRef.current[symbol];
+    const { isNew, rsi, macd, adx } = indicators.tick(price, timestamp);
+    const bars = indicators.bars();
+    // The effect also re-runs when alerts change; a tick it has already seen keeps its signals
+    if (isNew || !latestSignalsRef.current[symbol]) {
+      latestSignalsRef.current[symbol] = generateLatestSignals(bars);
     }
 
     // ✅ Check price alerts
@@ -120,7 +176,16 @@ export const useAlerts = (symbols: string[] = []): UseAlertsHook => {
 
     // ✅ Check technical alerts
     const technicalData = {
-      rsi: calculateSimpleRSI(priceHistoryRef.current[symbol]),
+      rsi: rsi ?? undefined,
+      // MACD alerts wait until the signal line has finished seeding
+      macd: macd.macd !== null && macd.signal !== null && macd.histogram !== null
+        ? { macd: macd.macd, signal: macd.signal, histogram: macd.histogram }
+        : undefined,
+      adx: adx.adx !== null && adx.plusDI !== null && adx.minusDI !== null
+        ? { adx: adx.adx, plusDI: adx.plusDI, minusDI: adx.minusDI }
+        : undefined,
+      signals: latestSignalsRef.current[symbol],
+      formulas: evaluateAlertFormulas(symbol, bars),
       volume: realTimePrice.volume,
       averageVolume: realTimePrice.volume * 0.8 // Simplified
     };
@@ -145,28 +210,7 @@ export const useAlerts = (symbols: string[] = []): UseAlertsHook => {
       }
     });
   });
-}, [realTimePrices, alerts.priceAlerts, alerts.technicalAlerts]);
-
-  // 🚀 Simple RSI calculation
-  const calculateSimpleRSI = (prices: number[]): number => {
-    if (prices.length < 15) return 50;
-
-    const changes = [];
-    for (let i = 1; i < prices.length; i++) {
-      changes.push(prices[i] - prices[i - 1]);
-    }
-
-    const gains = changes.filter(change => change > 0);
-    const losses = changes.filter(change => change < 0).map(loss => Math.abs(loss));
-
-    const avgGain = gains.length > 0 ? gains.reduce((a, b) => a + b, 0) / gains.length : 0;
-    const avgLoss = losses.length > 0 ? losses.reduce((a, b) => a + b, 0) / losses.length : 0;
-
-    if (avgLoss === 0) return 100;
-    
-    const rs = avgGain / avgLoss;
-    return 100 - (100 / (1 + rs));
-  };
+}, [realTimePrices, alerts.priceAlerts, alerts.technicalAlerts, evaluateAlertFormulas]);
 
   // 🚀 Add price alert
   const addPriceAlert = useCallback((alertData: Omit<PriceAlert, 'id' | 'createdAt' | 'isTriggered'>) => {
@@ -359,6 +403,17 @@ export const useAlerts = (symbols: string[] = []): UseAlertsHook => {
     };
   }, []);
 
+  // 🚀 Alert ideas from the recent indicator signals on a symbol's daily bars
+  const getAlertSuggestions = useCallback((symbol: string) => {
+    // Only the bars the detectors and the 10-bar consensus lookback reach
+    const bars = streamingIndicatorsRef.current[symbol]?.bars().slice(-(SIGNAL_LOOKBACK_BARS + 10)) ?? [];
+    const realTimePrice = realTimePrices?.[symbol];
+    if (!realTimePrice || bars.length < 3) return [];
+
+    const consensus = calculateSignalConsensus(generateSignals(bars), bars);
+    return generateAlertSuggestions(symbol, realTimePrice, { consensus });
+  }, [realTimePrices]);
+
   return {
     alerts,
     addPriceAlert,
@@ -371,6 +426,7 @@ export const useAlerts = (symbols: string[] = []): UseAlertsHook => {
     markNotificationAsRead,
     clearAllNotifications,
     testAlert,
-    updateSettings
+    updateSettings,
+    getAlertSuggestions
   };
 };
\ No newline at end of file
@@ -7,7 +7,7 @@ import {
   aggregateOHLC 
 } from '../utils/chartHelpers';
 import { getIntervalForTimeframe, getStartDateForTimeframe } from '../utils/timeframeUtils';
-import { generateMockStockData } from '../utils/mockData';
+import { useMarketDataProvider } from './useMarketDataProvider';
 
 interface UseChartDataProps {
   symbol: string;
@@ -43,6 +43,7 @@ export const useChartData = ({
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const { provider } = useMarketDataProvider();
 
   // Process chart data based on timeframe
   const chartData = useMemo((): ProcessedChartData | null => {
@@ -109,17 +110,12 @@ export const useChartData = ({
     setError(null);
     
     try {
-      // In a real app, this would be an API call
-      // For now, we'll use mock data generation
-      const stockData = generateMockStockData(targetSymbol);
-      const convertedData = convertToChartData(stockData.prices);
+      const prices = await provider.getHistoricalBars(targetSymbol.toUpperCase());
+      const convertedData = convertToChartData(prices);
       
       setRawData(convertedData);
       setLastUpdated(new Date());
       
-      // Simulate network delay for realistic UX
-      await new Promise(resolve => setTimeout(resolve, 800));
-      
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to fetch chart data';
       setError(errorMessage);
@@ -127,7 +123,7 @@ export const useChartData = ({
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [provider]);
 
   // Refresh data function
   const refreshData = useCallback(async () => {
@@ -0,0 +1,85 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { ChartAnnotation, Timeframe } from '../types/chart';
+
+interface UseChartDrawingsReturn {
+  annotations: ChartAnnotation[];
+  addAnnotation: (annotation: Omit<ChartAnnotation, 'id'>) => ChartAnnotation;
+  updateAnnotation: (id: string, changes: Partial<Omit<ChartAnnotation, 'id'>>) => void;
+  removeAnnotation: (id: string) => void;
+  clearAnnotations: () => void;
+}
+
+const getStorageKey = (symbol: string, timeframe: Timeframe) =>
+  `chartDrawings:${symbol.toUpperCase()}:${timeframe}`;
+
+const loadAnnotations = (key: string): ChartAnnotation[] => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error('Error loading chart drawings:', error);
+    return [];
+  }
+};
+
+// Drawings for one symbol/timeframe pair, persisted to localStorage.
+// Coordinates are stored as time/price so they survive zooming and chart type switches.
+export const useChartDrawings = (symbol: string, timeframe: Timeframe): UseChartDrawingsReturn => {
+  const storageKey = getStorageKey(symbol, timeframe);
+
+  // Annotations are kept together with the key they belong to, so switching
+  // symbol or timeframe never writes one chart's drawings under another key
+  const [state, setState] = useState(() => ({ key: storageKey, annotations: loadAnnotations(storageKey) }));
+
+  // 🚀 Load drawings when the symbol or timeframe changes
+  useEffect(() => {
+    setState({ key: storageKey, annotations: loadAnnotations(storageKey) });
+  }, [storageKey]);
+
+  // 🚀 Save drawings whenever they change
+  useEffect(() => {
+    try {
+      if (state.annotations.length > 0) {
+        localStorage.setItem(state.key, JSON.stringify(state.annotations));
+      } else {
+        localStorage.removeItem(state.key);
+      }
+    } catch (error) {
+      console.error('Error saving chart drawings:', error);
+    }
+  }, [state]);
+
+  const addAnnotation = useCallback((annotation: Omit<ChartAnnotation, 'id'>) => {
+    const created: ChartAnnotation = {
+      ...annotation,
+      id: `${annotation.type}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+    };
+    setState(prev => ({ ...prev, annotations: [...prev.annotations, created] }));
+    return created;
+  }, []);
+
+  const updateAnnotation = useCallback((id: string, changes: Partial<Omit<ChartAnnotation, 'id'>>) => {
+    setState(prev => ({
+      ...prev,
+      annotations: prev.annotations.map(annotation =>
+        annotation.id === id ? { ...annotation, ...changes } : annotation
+      ),
+    }));
+  }, []);
+
+  const removeAnnotation = useCallback((id: string) => {
+    setState(prev => ({ ...prev, annotations: prev.annotations.filter(annotation => annotation.id !== id) }));
+  }, []);
+
+  const clearAnnotations = useCallback(() => {
+    setState(prev => ({ ...prev, annotations: [] }));
+  }, []);
+
+  return {
+    annotations: state.annotations,
+    addAnnotation,
+    updateAnnotation,
+    removeAnnotation,
+    clearAnnotations
+  };
+};
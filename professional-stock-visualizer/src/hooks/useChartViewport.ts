@@ -0,0 +1,115 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type React from 'react';
+import type { ChartDataPoint, VisibleRange } from '../types/chart';
+import { getVisibleIndexRange, panVisibleRange, zoomVisibleRange } from '../utils/chartHelpers';
+
+interface UseChartViewportProps {
+  data: ChartDataPoint[];
+  width: number;
+  visibleRange?: VisibleRange | null;
+  onVisibleRangeChange?: (range: VisibleRange | null) => void;
+  rightPadding?: number; // Empty bars kept after the last bar, for series projected into the future
+}
+
+interface UseChartViewportReturn {
+  start: number;
+  end: number;
+  scaleX: (index: number) => number;
+  invertX: (x: number) => number;
+  isVisible: (index: number) => boolean;
+  pointer: { x: number; y: number } | null;
+  isPanning: boolean;
+  svgRef: React.RefObject<SVGSVGElement | null>;
+  viewportHandlers: {
+    onMouseDown: (event: React.MouseEvent<SVGSVGElement>) => void;
+    onMouseMove: (event: React.MouseEvent<SVGSVGElement>) => void;
+    onMouseUp: () => void;
+    onMouseLeave: () => void;
+  };
+}
+
+const WHEEL_ZOOM_STEP = 1.15;
+
+// Maps the visible range onto the chart width and turns wheel/drag gestures into range changes.
+// Every pane of a chart calls this with the same range so they zoom and pan together.
+export const useChartViewport = ({
+  data,
+  width,
+  visibleRange = null,
+  onVisibleRangeChange,
+  rightPadding = 0
+}: UseChartViewportProps): UseChartViewportReturn => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const panOrigin = useRef<{ x: number; range: VisibleRange | null } | null>(null);
+  const [pointer, setPointer] = useState<{ x: number; y: number } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+
+  const { start, end } = getVisibleIndexRange(data, visibleRange);
+  const padding = end >= data.length - 1 ? rightPadding : 0;
+  const span = Math.max(1, end - start + padding);
+
+  const scaleX = useCallback((index: number) => ((index - start) / span) * width, [start, span, width]);
+  const invertX = useCallback((x: number) => start + (x / width) * span, [start, span, width]);
+  const isVisible = useCallback((index: number) => index >= Math.floor(start) - 1 && index <= Math.ceil(end + padding) + 1, [start, end, padding]);
+
+  // 🚀 Wheel zoom needs a non-passive listener so the page doesn't scroll underneath
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg || !onVisibleRangeChange || data.length < 2) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const anchorIndex = invertX(event.clientX - rect.left);
+      const factor = event.deltaY > 0 ? WHEEL_ZOOM_STEP : 1 / WHEEL_ZOOM_STEP;
+      onVisibleRangeChange(zoomVisibleRange(data, visibleRange, anchorIndex, factor));
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [data, visibleRange, onVisibleRangeChange, invertX]);
+
+  const getLocalPoint = (event: React.MouseEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const endPan = () => {
+    panOrigin.current = null;
+    setIsPanning(false);
+  };
+
+  // 🚀 Drag to pan; only meaningful once zoomed in
+  const onMouseDown = (event: React.MouseEvent<SVGSVGElement>) => {
+    if (event.button !== 0 || !visibleRange || !onVisibleRangeChange) return;
+    panOrigin.current = { x: getLocalPoint(event).x, range: visibleRange };
+    setIsPanning(true);
+  };
+
+  const onMouseMove = (event: React.MouseEvent<SVGSVGElement>) => {
+    const point = getLocalPoint(event);
+    setPointer(point);
+
+    if (panOrigin.current && onVisibleRangeChange) {
+      const deltaBars = -((point.x - panOrigin.current.x) / width) * span;
+      onVisibleRangeChange(panVisibleRange(data, panOrigin.current.range, deltaBars));
+    }
+  };
+
+  const onMouseLeave = () => {
+    setPointer(null);
+    endPan();
+  };
+
+  return {
+    start,
+    end,
+    scaleX,
+    invertX,
+    isVisible,
+    pointer,
+    isPanning,
+    svgRef,
+    viewportHandlers: { onMouseDown, onMouseMove, onMouseUp: endPan, onMouseLeave }
+  };
+};
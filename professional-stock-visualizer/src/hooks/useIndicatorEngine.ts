@@ -0,0 +1,177 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ChartDataPoint } from '../types/chart';
+import type { AnyIndicator, IndicatorPreset } from '../types/indicators';
+import {
+  BUILT_IN_PRESETS,
+  computeIndicator,
+  createIndicator,
+  updateIndicatorSettings,
+  type IndicatorDisplayType,
+  type RegisteredIndicatorType
+} from '../utils/indicatorRegistry';
+
+interface IndicatorChanges {
+  name?: string;
+  params?: Record<string, unknown>;
+  style?: Record<string, unknown>;
+  displayType?: IndicatorDisplayType;
+  visible?: boolean;
+  enabled?: boolean;
+}
+
+interface UseIndicatorEngineReturn {
+  indicators: AnyIndicator[];
+  computed: AnyIndicator[]; // enabled instances with data, ordered by zIndex
+  presets: IndicatorPreset[];
+  addIndicator: (type: RegisteredIndicatorType, displayType?: IndicatorDisplayType) => AnyIndicator;
+  updateIndicator: (id: string, changes: IndicatorChanges) => void;
+  removeIndicator: (id: string) => void;
+  moveIndicator: (id: string, direction: 'up' | 'down') => void;
+  clearIndicators: () => void;
+  savePreset: (name: string, category: IndicatorPreset['category'], description?: string) => IndicatorPreset;
+  loadPreset: (id: string) => void;
+  deletePreset: (id: string) => void;
+}
+
+const WORKSPACE_STORAGE_KEY = 'indicatorWorkspace';
+const PRESETS_STORAGE_KEY = 'indicatorPresets';
+
+const loadFromStorage = <T,>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (error) {
+    console.error('Error loading indicator settings:', error);
+    return fallback;
+  }
+};
+
+// Data is recalculated on every render pass, so it is never persisted
+const stripData = (indicators: AnyIndicator[]) =>
+  indicators.map((indicator): AnyIndicator => ({ ...indicator, data: [] }));
+
+// Keeps zIndex contiguous in list order
+const reindex = (indicators: AnyIndicator[]) =>
+  indicators.map((indicator, index) => (indicator.zIndex === index ? indicator : { ...indicator, zIndex: index }));
+
+// 🚀 Any number of indicator instances, each with its own params and style, plus named presets.
+// defaultTypes seed the workspace until a layout has been saved.
+export const useIndicatorEngine = (
+  data: ChartDataPoint[],
+  defaultTypes: RegisteredIndicatorType[] = []
+): UseIndicatorEngineReturn => {
+  const [indicators, setIndicators] = useState<AnyIndicator[]>(
+    () =>
+      loadFromStorage<AnyIndicator[] | null>(WORKSPACE_STORAGE_KEY, null) ??
+      reindex(defaultTypes.map(type => createIndicator(type)))
+  );
+  const [userPresets, setUserPresets] = useState<IndicatorPreset[]>(() => loadFromStorage(PRESETS_STORAGE_KEY, []));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(WORKSPACE_STORAGE_KEY, JSON.stringify(stripData(indicators)));
+    } catch (error) {
+      console.error('Error saving indicator workspace:', error);
+    }
+  }, [indicators]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(userPresets));
+    } catch (error) {
+      console.error('Error saving indicator presets:', error);
+    }
+  }, [userPresets]);
+
+  const computed = useMemo(
+    () =>
+      [...indicators]
+        .filter(indicator => indicator.enabled)
+        .sort((a, b) => a.zIndex - b.zIndex)
+        .map(indicator => computeIndicator(indicator, data)),
+    [indicators, data]
+  );
+
+  const presets = useMemo(() => [...BUILT_IN_PRESETS, ...userPresets], [userPresets]);
+
+  const addIndicator = useCallback((type: RegisteredIndicatorType, displayType?: IndicatorDisplayType) => {
+    const created = createIndicator(type, { displayType });
+    setIndicators(prev => reindex([...prev, created]));
+    return created;
+  }, []);
+
+  const updateIndicator = useCallback((id: string, { params, style, ...changes }: IndicatorChanges) => {
+    setIndicators(prev =>
+      prev.map(indicator =>
+        indicator.id === id ? { ...updateIndicatorSettings(indicator, { params, style }), ...changes } : indicator
+      )
+    );
+  }, []);
+
+  const removeIndicator = useCallback((id: string) => {
+    setIndicators(prev => reindex(prev.filter(indicator => indicator.id !== id)));
+  }, []);
+
+  // 'up' draws the instance later, i.e. on top of its neighbour
+  const moveIndicator = useCallback((id: string, direction: 'up' | 'down') => {
+    setIndicators(prev => {
+      const ordered = [...prev].sort((a, b) => a.zIndex - b.zIndex);
+      const index = ordered.findIndex(indicator => indicator.id === id);
+      const target = direction === 'up' ? index + 1 : index - 1;
+      if (index < 0 || target < 0 || target >= ordered.length) return prev;
+      [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+      return reindex(ordered);
+    });
+  }, []);
+
+  const clearIndicators = useCallback(() => setIndicators([]), []);
+
+  const savePreset = useCallback((name: string, category: IndicatorPreset['category'], description = '') => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new Error('Preset name is required');
+
+    const preset: IndicatorPreset = {
+      id: `preset_${Date.now()}`,
+      name: trimmed,
+      description,
+      category,
+      indicators: stripData(indicators)
+    };
+    // Saving under an existing name replaces that preset
+    setUserPresets(prev => [...prev.filter(existing => existing.name !== trimmed), preset]);
+    return preset;
+  }, [indicators]);
+
+  const loadPreset = useCallback((id: string) => {
+    const preset = presets.find(candidate => candidate.id === id);
+    if (!preset) return;
+    // Fresh ids so a preset can be loaded more than once without clashes
+    setIndicators(
+      reindex(
+        preset.indicators.map((indicator, index): AnyIndicator => ({
+          ...indicator,
+          id: `${indicator.type}_${Date.now()}_${index}`,
+          data: []
+        }))
+      )
+    );
+  }, [presets]);
+
+  const deletePreset = useCallback((id: string) => {
+    setUserPresets(prev => prev.filter(preset => preset.id !== id));
+  }, []);
+
+  return {
+    indicators,
+    computed,
+    presets,
+    addIndicator,
+    updateIndicator,
+    removeIndicator,
+    moveIndicator,
+    clearIndicators,
+    savePreset,
+    loadPreset,
+    deletePreset
+  };
+};
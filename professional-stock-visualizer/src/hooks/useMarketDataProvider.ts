@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { MarketDataProvider } from '../types/marketData';
+import { marketDataService } from '../services/marketDataService';
+
+interface UseMarketDataProviderReturn {
+  provider: MarketDataProvider;
+  providers: MarketDataProvider[];
+  setProvider: (id: string) => void;
+}
+
+// Tracks the active market data provider and re-renders when it is switched
+export const useMarketDataProvider = (): UseMarketDataProviderReturn => {
+  const [provider, setProviderState] = useState<MarketDataProvider>(() => marketDataService.getActiveProvider());
+
+  useEffect(() => {
+    // Catch a switch that happened between render and subscription
+    setProviderState(marketDataService.getActiveProvider());
+    return marketDataService.subscribe(setProviderState);
+  }, []);
+
+  const setProvider = useCallback((id: string) => {
+    marketDataService.setActiveProvider(id);
+  }, []);
+
+  return {
+    provider,
+    providers: marketDataService.getProviders(),
+    setProvider
+  };
+};
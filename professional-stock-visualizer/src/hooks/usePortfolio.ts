@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { CostBasisMethod, PortfolioAnalytics, PortfolioHolding, PortfolioTransaction } from '../types/stock';
+import { marketDataService } from '../services/marketDataService';
+import { calculatePortfolioAnalytics, type PortfolioMarketData } from '../utils/portfolioAnalytics';
+import {
+  applyLedger,
+  createTransactionId,
+  ledgerToHoldings,
+  parseTransactionsCsv,
+  transactionsToCsv,
+  validateTransaction,
+  type LedgerSummary
+} from '../utils/transactionLedger';
+import { useMarketDataProvider } from './useMarketDataProvider';
+import { useRealTimeData } from './useRealTimeData';
+
+interface UsePortfolioReturn {
+  transactions: PortfolioTransaction[];
+  costBasisMethod: CostBasisMethod;
+  ledger: LedgerSummary;
+  holdings: PortfolioHolding[];
+  analytics: PortfolioAnalytics;
+  marketData: Record<string, PortfolioMarketData>;
+  isLoading: boolean;
+  error: string | null;
+  livePrices: Record<string, number>; // symbols with a streamed (or simulated) price
+  isLive: boolean;
+  isSimulated: boolean; // live prices are a local walk from the last close, not a feed
+  addTransaction: (transaction: Omit<PortfolioTransaction, 'id'>) => void;
+  removeTransaction: (id: string) => void;
+  clearTransactions: () => void;
+  setCostBasisMethod: (method: CostBasisMethod) => void;
+  importCsv: (csv: string, mode?: 'append' | 'replace') => number;
+  exportCsv: () => string;
+}
+
+const TRANSACTIONS_STORAGE_KEY = 'portfolioTransactions';
+const COST_BASIS_STORAGE_KEY = 'portfolioCostBasisMethod';
+const LEGACY_HOLDINGS_STORAGE_KEY = 'portfolioHoldings';
+
+// Holdings saved before the ledger existed become opening buys dated today
+const loadTransactions = (): PortfolioTransaction[] => {
+  try {
+    const saved = localStorage.getItem(TRANSACTIONS_STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+
+    const legacy = localStorage.getItem(LEGACY_HOLDINGS_STORAGE_KEY);
+    if (!legacy) return [];
+
+    const date = new Date().toISOString().slice(0, 10);
+    const holdings: PortfolioHolding[] = JSON.parse(legacy);
+    return holdings.map(holding => ({
+      id: createTransactionId(),
+      date,
+      symbol: holding.symbol,
+      type: 'buy',
+      quantity: holding.quantity,
+      price: holding.avgPrice,
+      fees: 0,
+      notes: 'Opening position'
+    }));
+  } catch (error) {
+    console.error('Error loading portfolio transactions:', error);
+    return [];
+  }
+};
+
+const loadCostBasisMethod = (): CostBasisMethod => {
+  const saved = localStorage.getItem(COST_BASIS_STORAGE_KEY);
+  return saved === 'lifo' || saved === 'average' ? saved : 'fifo';
+};
+
+// 🚀 Locally persisted trade ledger, marked to market with live prices
+export const usePortfolio = (): UsePortfolioReturn => {
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>(loadTransactions);
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(loadCostBasisMethod);
+  const [marketData, setMarketData] = useState<Record<string, PortfolioMarketData>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { provider } = useMarketDataProvider();
+  const { realTimePrices, isConnected, isSimulated, subscribe, unsubscribe, anchorPrice } = useRealTimeData();
+  // Symbols whose simulated walk has been restarted at their loaded close
+  const [anchoredSymbols, setAnchoredSymbols] = useState<Set<string>>(new Set());
+
+  const pendingRef = useRef<Set<string>>(new Set());
+  const failedRef = useRef<Set<string>>(new Set());
+  const providerRef = useRef(provider);
+  const subscribedRef = useRef<Set<string>>(new Set());
+
+  // Transactions are validated on entry, so a replay only fails on an oversold position
+  const { ledger, ledgerError } = useMemo(() => {
+    try {
+      return { ledger: applyLedger(transactions, costBasisMethod), ledgerError: null };
+    } catch (error) {
+      return {
+        ledger: applyLedger([], costBasisMethod),
+        ledgerError: error instanceof Error ? error.message : 'Could not apply the transaction ledger'
+      };
+    }
+  }, [transactions, costBasisMethod]);
+
+  const holdings = useMemo(() => ledgerToHoldings(ledger), [ledger]);
+  const symbols = useMemo(() => holdings.map(holding => holding.symbol), [holdings]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(TRANSACTIONS_STORAGE_KEY, JSON.stringify(transactions));
+      localStorage.removeItem(LEGACY_HOLDINGS_STORAGE_KEY);
+    } catch (error) {
+      console.error('Error saving portfolio transactions:', error);
+    }
+  }, [transactions]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(COST_BASIS_STORAGE_KEY, costBasisMethod);
+    } catch (error) {
+      console.error('Error saving cost basis method:', error);
+    }
+  }, [costBasisMethod]);
+
+  // 🔁 History and sectors come from the active provider; reload everything when it changes
+  useEffect(() => {
+    providerRef.current = provider;
+    pendingRef.current = new Set();
+    failedRef.current = new Set();
+    setMarketData({});
+  }, [provider]);
+
+  useEffect(() => {
+    const missing = symbols.filter(symbol =>
+      !marketData[symbol] && !pendingRef.current.has(symbol) && !failedRef.current.has(symbol)
+    );
+    if (missing.length === 0) return;
+
+    const source = provider;
+    missing.forEach(symbol => pendingRef.current.add(symbol));
+    setIsLoading(true);
+
+    const loadMissing = async () => {
+      const results = await Promise.allSettled(missing.map(symbol => marketDataService.loadStockData(symbol, source)));
+      if (providerRef.current !== source) return;
+
+      const loaded: Record<string, PortfolioMarketData> = {};
+      const failed: string[] = [];
+      results.forEach((result, index) => {
+        const symbol = missing[index];
+        pendingRef.current.delete(symbol);
+        if (result.status === 'fulfilled') {
+          const { name, sector, currentPrice, prices } = result.value;
+          loaded[symbol] = { name, sector, currentPrice, closes: prices.map(price => price.close) };
+        } else {
+          console.error(`Error loading portfolio data for ${symbol}:`, result.reason);
+          failedRef.current.add(symbol);
+          failed.push(symbol);
+        }
+      });
+
+      setMarketData(prev => ({ ...prev, ...loaded }));
+      setError(failed.length > 0 ? `Could not load market data for ${failed.join(', ')}` : null);
+      setIsLoading(pendingRef.current.size > 0);
+    };
+
+    loadMissing();
+  }, [symbols, marketData, provider]);
+
+  // 🔁 Stream prices for exactly the symbols held
+  useEffect(() => {
+    const current = subscribedRef.current;
+    symbols.forEach(symbol => {
+      if (!current.has(symbol)) subscribe(symbol);
+    });
+    current.forEach(symbol => {
+      if (!symbols.includes(symbol)) unsubscribe(symbol);
+    });
+    subscribedRef.current = new Set(symbols);
+  }, [symbols, subscribe, unsubscribe]);
+
+  // 🔁 Without a feed, simulated ticks walk from each holding's last loaded close
+  useEffect(() => {
+    if (!isSimulated) return;
+    const loaded = symbols.filter(symbol => marketData[symbol]);
+    loaded.forEach(symbol => anchorPrice(symbol, marketData[symbol].currentPrice));
+    setAnchoredSymbols(prev => (loaded.length === prev.size && loaded.every(symbol => prev.has(symbol)) ? prev : new Set(loaded)));
+  }, [symbols, marketData, isSimulated, anchorPrice]);
+
+  // A simulated price is only a mark once its walk has been anchored to the holding's own close
+  const livePrices = useMemo(() => {
+    const prices: Record<string, number> = {};
+    symbols.forEach(symbol => {
+      const live = realTimePrices[symbol];
+      if (live && (!isSimulated || anchoredSymbols.has(symbol))) prices[symbol] = live.price;
+    });
+    return prices;
+  }, [symbols, realTimePrices, isSimulated, anchoredSymbols]);
+
+  const analytics = useMemo(
+    () => calculatePortfolioAnalytics(holdings, marketData, livePrices),
+    [holdings, marketData, livePrices]
+  );
+
+  // Throws when the transaction is malformed or would sell more than is held
+  const addTransaction = useCallback((transaction: Omit<PortfolioTransaction, 'id'>) => {
+    const entry = { ...transaction, symbol: transaction.symbol.trim().toUpperCase(), id: createTransactionId() };
+    validateTransaction(entry);
+    const next = [...transactions, entry];
+    applyLedger(next, costBasisMethod);
+    setTransactions(next);
+  }, [transactions, costBasisMethod]);
+
+  // Throws when removing it would leave a later sell short
+  const removeTransaction = useCallback((id: string) => {
+    const next = transactions.filter(transaction => transaction.id !== id);
+    applyLedger(next, costBasisMethod);
+    setTransactions(next);
+  }, [transactions, costBasisMethod]);
+
+  const clearTransactions = useCallback(() => {
+    setTransactions([]);
+  }, []);
+
+  // Returns the number of imported transactions; throws without changing the ledger on bad input
+  const importCsv = useCallback((csv: string, mode: 'append' | 'replace' = 'append') => {
+    const imported = parseTransactionsCsv(csv);
+    const next = mode === 'replace' ? imported : [...transactions, ...imported];
+    applyLedger(next, costBasisMethod);
+    setTransactions(next);
+    return imported.length;
+  }, [transactions, costBasisMethod]);
+
+  const exportCsv = useCallback(() => transactionsToCsv(transactions), [transactions]);
+
+  return {
+    transactions,
+    costBasisMethod,
+    ledger,
+    holdings,
+    analytics,
+    marketData,
+    isLoading,
+    error: ledgerError ?? error,
+    livePrices,
+    isLive: isConnected && Object.keys(livePrices).length > 0,
+    isSimulated,
+    addTransaction,
+    removeTransaction,
+    clearTransactions,
+    setCostBasisMethod,
+    importCsv,
+    exportCsv
+  };
+};
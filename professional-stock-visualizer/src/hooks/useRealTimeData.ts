@@ -1,6 +1,8 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { websocketService } from '../services/websocketService';
+import type { StreamMarketMessage } from '../types/streaming';
 
-interface RealTimePrice {
+export interface RealTimePrice {
   symbol: string;
   price: number;
   change: number;
@@ -18,13 +20,55 @@ interface RealTimeDataHook {
   realTimePrices: Record<string, RealTimePrice>;
   isConnected: boolean;
   connectionStatus: 'connecting' | 'connected' | 'disconnected' | 'error';
+  isSimulated: boolean; // prices are a local random walk, not quotes from a feed
   reconnectAttempts: number;
   lastUpdate: Date | null;
   subscribe: (symbol: string) => void;
   unsubscribe: (symbol: string) => void;
+  anchorPrice: (symbol: string, price: number) => void; // simulated mode only: restart the walk at a known quote
   forceReconnect: () => void;
 }
 
+// Stream from the WebSocket server when one is configured, otherwise simulate ticks locally
+const STREAMING_ENABLED = Boolean(import.meta.env.VITE_WEBSOCKET_URL);
+
+// 🔁 Fold a quote or trade message into the latest known price for its symbol
+const applyStreamMessage = (existing: RealTimePrice | undefined, message: StreamMarketMessage): RealTimePrice => {
+  if (message.type === 'quote') {
+    return {
+      symbol: message.symbol,
+      price: message.price,
+      change: message.change,
+      changePercent: message.changePercent,
+      volume: message.volume,
+      timestamp: message.timestamp,
+      bid: message.bid,
+      ask: message.ask,
+      high: message.high,
+      low: message.low,
+      open: message.open
+    };
+  }
+
+  // Trades only carry price and size; derive the rest from the last quote
+  const previousClose = existing ? existing.price - existing.change : message.price;
+  const change = message.price - previousClose;
+
+  return {
+    symbol: message.symbol,
+    price: message.price,
+    change: parseFloat(change.toFixed(2)),
+    changePercent: previousClose !== 0 ? parseFloat(((change / previousClose) * 100).toFixed(2)) : 0,
+    volume: (existing?.volume ?? 0) + message.size,
+    timestamp: message.timestamp,
+    bid: existing?.bid ?? message.price,
+    ask: existing?.ask ?? message.price,
+    high: existing ? Math.max(existing.high, message.price) : message.price,
+    low: existing ? Math.min(existing.low, message.price) : message.price,
+    open: existing?.open ?? message.price
+  };
+};
+
 export const useRealTimeData = (initialSymbols: string[] = []): RealTimeDataHook => {
   const [isConnected, setIsConnected] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'connecting' | 'connected' | 'disconnected' | 'error'>('disconnected');
@@ -33,11 +77,12 @@ export const useRealTimeData = (initialSymbols: string[] = []): RealTimeDataHook
   const [subscribedSymbols, setSubscribedSymbols] = useState<Set<string>>(new Set());
   const [realTimePrices, setRealTimePrices] = useState<Record<string, RealTimePrice>>({});
 
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const simulationIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const subscribedSymbolsRef = useRef<Set<string>>(new Set());
+  const streamSymbolsRef = useRef<Set<string>>(new Set());
+  const anchorsRef = useRef<Record<string, number>>({});
+  // Callers usually pass a fresh array literal; only the symbols from the first render seed the subscription
+  const initialSymbolsRef = useRef(initialSymbols);
 
   // 🔁 Keep subscribedSymbolsRef in sync with state
   useEffect(() => {
@@ -52,7 +97,7 @@ export const useRealTimeData = (initialSymbols: string[] = []): RealTimeDataHook
 
       for (const symbol of symbols) {
         const existing = prev[symbol];
-        const base = existing?.price || 150 + Math.random() * 100;
+        const base = existing?.price || anchorsRef.current[symbol] || 150 + Math.random() * 100;
         const changePercent = (Math.random() - 0.5) * 2;
         const change = base * (changePercent / 100);
         const price = parseFloat((base + change).toFixed(2));
@@ -108,50 +153,28 @@ export const useRealTimeData = (initialSymbols: string[] = []): RealTimeDataHook
     console.log('✅ Price simulation stopped');
   }, []);
 
-  const connectToRealTimeData = useCallback(() => {
-    console.log('📡 Attempting to connect to real-time data feed...');
-    let isDevelopment = true;
-    try {
-      isDevelopment = import.meta.env?.DEV ||
-                      import.meta.env?.MODE === 'development' ||
-                      window.location.hostname === 'localhost';
-    } catch (error) {
-      console.warn('Could not access environment variables, defaulting to development mode');
-      isDevelopment = true;
-    }
+  const handleStreamMessage = useCallback((message: StreamMarketMessage) => {
+    setRealTimePrices(prev => ({
+      ...prev,
+      [message.symbol]: applyStreamMessage(prev[message.symbol], message)
+    }));
+    setLastUpdate(new Date());
+  }, []);
 
-    if (isDevelopment) {
-      console.log('🔧 Development mode: Using simulated data');
-      startSimulation();
+  const connectToRealTimeData = useCallback(() => {
+    if (STREAMING_ENABLED) {
+      console.log(`📡 Connecting to real-time data feed at ${websocketService.url}...`);
+      websocketService.connect();
       return;
     }
 
-    console.log('🔧 Production mode: Implement real WebSocket connection');
-    startSimulation(); // Replace with real connection logic
+    console.log('🔧 No VITE_WEBSOCKET_URL configured: Using simulated data');
+    startSimulation();
   }, [startSimulation]);
 
-  const scheduleReconnect = useCallback(() => {
-    const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
-    console.log(`📡 Scheduling reconnect in ${delay}ms (attempt ${reconnectAttempts + 1})`);
-    setReconnectAttempts(prev => prev + 1);
-
-    reconnectTimeoutRef.current = setTimeout(() => {
-      connectToRealTimeData();
-    }, delay);
-  }, [reconnectAttempts, connectToRealTimeData]);
-
   const subscribe = useCallback((symbol: string) => {
     console.log(`📡 Subscribing to ${symbol}`);
     setSubscribedSymbols(prev => new Set([...prev, symbol.toUpperCase()]));
-
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      const subscribeMessage = JSON.stringify({
-        method: 'SUBSCRIBE',
-        params: [`${symbol.toLowerCase()}@ticker`],
-        id: Date.now()
-      });
-      wsRef.current.send(subscribeMessage);
-    }
   }, []);
 
   const unsubscribe = useCallback((symbol: string) => {
@@ -161,53 +184,94 @@ export const useRealTimeData = (initialSymbols: string[] = []): RealTimeDataHook
       newSet.delete(symbol.toUpperCase());
       return newSet;
     });
+  }, []);
 
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
-      const unsubscribeMessage = JSON.stringify({
-        method: 'UNSUBSCRIBE',
-        params: [`${symbol.toLowerCase()}@ticker`],
-        id: Date.now()
-      });
-      wsRef.current.send(unsubscribeMessage);
-    }
+  // 🔁 Start a symbol's simulated walk from a known price (e.g. its last loaded close) instead of a random one
+  const anchorPrice = useCallback((symbol: string, price: number) => {
+    if (STREAMING_ENABLED || !(price > 0)) return;
+
+    const key = symbol.toUpperCase();
+    if (anchorsRef.current[key] === price) return;
+    anchorsRef.current[key] = price;
+
+    setRealTimePrices(prev => ({
+      ...prev,
+      [key]: {
+        symbol: key,
+        price,
+        change: 0,
+        changePercent: 0,
+        volume: prev[key]?.volume ?? Math.floor(Math.random() * 9e6 + 1e6),
+        timestamp: Date.now(),
+        bid: parseFloat((price - 0.01).toFixed(2)),
+        ask: parseFloat((price + 0.01).toFixed(2)),
+        high: price,
+        low: price,
+        open: price
+      }
+    }));
   }, []);
 
   const forceReconnect = useCallback(() => {
     console.log('📡 Force reconnecting...');
-    stopSimulation();
-
-    if (wsRef.current) {
-      wsRef.current.close();
-    }
 
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
+    if (STREAMING_ENABLED) {
+      websocketService.reconnect();
+      return;
     }
 
+    stopSimulation();
     setReconnectAttempts(0);
     connectToRealTimeData();
   }, [connectToRealTimeData, stopSimulation]);
 
+  // 🔁 Mirror connection state from the shared socket
   useEffect(() => {
-    setSubscribedSymbols(new Set(initialSymbols.map(s => s.toUpperCase())));
+    if (!STREAMING_ENABLED) return;
+
+    return websocketService.onStatusChange(({ state, reconnectAttempts }) => {
+      setConnectionStatus(state);
+      setIsConnected(state === 'connected');
+      setReconnectAttempts(reconnectAttempts);
+    });
+  }, []);
+
+  // 🔁 Keep the socket's per-symbol subscriptions in sync with this hook's symbols
+  useEffect(() => {
+    if (!STREAMING_ENABLED) return;
+
+    const current = streamSymbolsRef.current;
+    subscribedSymbols.forEach(symbol => {
+      if (!current.has(symbol)) websocketService.subscribe(symbol, handleStreamMessage);
+    });
+    current.forEach(symbol => {
+      if (!subscribedSymbols.has(symbol)) websocketService.unsubscribe(symbol, handleStreamMessage);
+    });
+    streamSymbolsRef.current = new Set(subscribedSymbols);
+  }, [subscribedSymbols, handleStreamMessage]);
+
+  useEffect(() => {
+    setSubscribedSymbols(new Set(initialSymbolsRef.current.map(s => s.toUpperCase())));
     connectToRealTimeData();
 
     return () => {
       stopSimulation();
-      if (heartbeatIntervalRef.current) clearInterval(heartbeatIntervalRef.current);
-      if (reconnectTimeoutRef.current) clearTimeout(reconnectTimeoutRef.current);
-      if (wsRef.current) wsRef.current.close(1000, 'Component unmounting');
+      // The socket is shared between hooks; only release this hook's channels
+      streamSymbolsRef.current.forEach(symbol => websocketService.unsubscribe(symbol, handleStreamMessage));
+      streamSymbolsRef.current = new Set();
     };
-  }, []);
+  }, [connectToRealTimeData, stopSimulation, handleStreamMessage]);
 
   return {
     realTimePrices,
     isConnected,
     connectionStatus,
+    isSimulated: !STREAMING_ENABLED,
     reconnectAttempts,
     lastUpdate,
     subscribe,
     unsubscribe,
+    anchorPrice,
     forceReconnect
   };
 };
@@ -0,0 +1,243 @@
+// pages/PortfolioPage.tsx
+import React, { useMemo } from 'react';
+import { Briefcase, Loader2, AlertCircle, Activity, Shield } from 'lucide-react';
+import { usePortfolio } from '../hooks/usePortfolio';
+import TransactionForm from '../components/portfolio/TransactionForm';
+import TransactionsTable from '../components/portfolio/TransactionsTable';
+import PositionsTable from '../components/portfolio/PositionsTable';
+import AllocationBreakdown from '../components/portfolio/AllocationBreakdown';
+import RiskContributionTable from '../components/portfolio/RiskContributionTable';
+import PortfolioOptimizerPanel from '../components/portfolio/PortfolioOptimizerPanel';
+import MonteCarloPanel from '../components/MonteCarloPanel';
+import Card from '../components/ui/Card';
+import Badge from '../components/ui/Badge';
+import Button from '../components/ui/Button';
+import { COST_BASIS_METHODS } from '../utils/transactionLedger';
+import { QuantAnalytics } from '../utils/quantAnalytics';
+import type { CostBasisMethod } from '../types/stock';
+import { cn } from '../utils/cn';
+
+const formatCurrency = (value: number) =>
+  value.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const formatPercentage = (value: number, decimals: number = 2): string => {
+  if (isNaN(value) || !isFinite(value)) return 'N/A';
+  return `${(value * 100).toFixed(decimals)}%`;
+};
+
+const formatRatio = (value: number, decimals: number = 2): string => {
+  if (isNaN(value) || !isFinite(value)) return 'N/A';
+  return value.toFixed(decimals);
+};
+
+const PortfolioPage: React.FC = () => {
+  const {
+    transactions,
+    costBasisMethod,
+    ledger,
+    analytics,
+    marketData,
+    livePrices,
+    isLoading,
+    error,
+    isLive,
+    isSimulated,
+    addTransaction,
+    removeTransaction,
+    clearTransactions,
+    setCostBasisMethod,
+    importCsv,
+    exportCsv
+  } = usePortfolio();
+
+  const { portfolioRisk } = analytics;
+  const gain = analytics.totalPnL >= 0;
+  const realizedGain = ledger.realizedPnL >= 0;
+
+  // Simulate the holdings that have price history, at their current value
+  const simulation = useMemo(() => {
+    const priced = analytics.positions.filter(position => (marketData[position.symbol]?.closes.length ?? 0) > 2);
+    return {
+      assets: priced.map(position => ({
+        symbol: position.symbol,
+        weight: position.totalValue,
+        returns: QuantAnalytics.calculateReturns(marketData[position.symbol].closes)
+      })),
+      startValue: priced.reduce((sum, position) => sum + position.totalValue, 0)
+    };
+  }, [analytics.positions, marketData]);
+
+  const riskRows = [
+    { label: 'VaR (95%, 1d)', value: formatPercentage(portfolioRisk.var95) },
+    { label: 'VaR (99%, 1d)', value: formatPercentage(portfolioRisk.var99) },
+    { label: 'Volatility', value: formatPercentage(portfolioRisk.volatility) },
+    { label: 'Max Drawdown', value: formatPercentage(portfolioRisk.maxDrawdown) },
+    { label: 'Sharpe Ratio', value: formatRatio(portfolioRisk.sharpeRatio) },
+    { label: 'Sortino Ratio', value: formatRatio(portfolioRisk.sortinoRatio) },
+    { label: 'Calmar Ratio', value: formatRatio(portfolioRisk.calmarRatio) },
+    { label: 'Diversification', value: formatRatio(analytics.diversificationRatio) }
+  ];
+
+  return (
+    <div className="container mx-auto p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Briefcase className="w-6 h-6 text-primary" />
+          <h1 className="text-2xl font-bold">Portfolio</h1>
+          {isLive && isSimulated ? (
+            <Badge variant="warning" size="sm" title="No live feed configured: prices walk randomly from the last close">
+              <Activity className="w-3 h-3 mr-1" />
+              Simulated
+            </Badge>
+          ) : isLive ? (
+            <Badge variant="success" size="sm">
+              <Activity className="w-3 h-3 mr-1" />
+              Live
+            </Badge>
+          ) : (
+            <Badge variant="secondary" size="sm">Last Close</Badge>
+          )}
+          {isLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={costBasisMethod}
+            onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+            className="px-2 py-1 bg-background border border-input rounded text-xs"
+            title="Lot method used for cost basis and realized P&L"
+          >
+            {COST_BASIS_METHODS.map(method => (
+              <option key={method.value} value={method.value}>{method.label}</option>
+            ))}
+          </select>
+          {transactions.length > 0 && (
+            <Button size="sm" variant="outline" onClick={clearTransactions}>
+              Clear All
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <Card className="border-red-200 bg-red-50 p-4">
+          <div className="flex items-center gap-3 text-red-700 text-sm">
+            <AlertCircle className="h-5 w-5" />
+            {error}
+          </div>
+        </Card>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <Card className="p-4 text-center">
+          <div className="text-2xl font-bold">{formatCurrency(analytics.totalValue)}</div>
+          <div className="text-sm text-muted-foreground">Market Value</div>
+        </Card>
+        <Card className="p-4 text-center">
+          <div className="text-2xl font-bold">{formatCurrency(analytics.totalCost)}</div>
+          <div className="text-sm text-muted-foreground">Cost Basis</div>
+        </Card>
+        <Card className="p-4 text-center">
+          <div className={cn('text-2xl font-bold', gain ? 'text-green-600' : 'text-red-600')}>
+            {gain ? '+' : ''}{formatCurrency(analytics.totalPnL)}
+          </div>
+          <div className="text-sm text-muted-foreground">Unrealized P&L</div>
+        </Card>
+        <Card className="p-4 text-center">
+          <div className={cn('text-2xl font-bold', gain ? 'text-green-600' : 'text-red-600')}>
+            {gain ? '+' : ''}{analytics.totalPnLPercent.toFixed(2)}%
+          </div>
+          <div className="text-sm text-muted-foreground">Return</div>
+        </Card>
+        <Card className="p-4 text-center">
+          <div className={cn('text-2xl font-bold', realizedGain ? 'text-green-600' : 'text-red-600')}>
+            {realizedGain ? '+' : ''}{formatCurrency(ledger.realizedPnL)}
+          </div>
+          <div className="text-sm text-muted-foreground">Realized P&L</div>
+        </Card>
+        <Card className="p-4 text-center">
+          <div className="text-2xl font-bold">{formatCurrency(ledger.dividends)}</div>
+          <div className="text-sm text-muted-foreground">Dividends · Fees {formatCurrency(ledger.fees)}</div>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card className="p-4">
+            <h3 className="font-semibold mb-3">Record Transaction</h3>
+            <TransactionForm onAddTransaction={addTransaction} />
+          </Card>
+
+          <Card className="p-4 space-y-6">
+            <AllocationBreakdown
+              title="By Symbol"
+              items={analytics.assetAllocation.map(({ symbol, weight, value }) => ({ label: symbol, weight, value }))}
+            />
+            <AllocationBreakdown
+              title="By Sector"
+              items={analytics.sectorAllocation.map(({ sector, weight, value }) => ({ label: sector, weight, value }))}
+            />
+          </Card>
+        </div>
+
+        <div className="lg:col-span-2 space-y-6">
+          <Card className="p-4">
+            <h3 className="font-semibold mb-3">Positions</h3>
+            <PositionsTable
+              positions={analytics.positions}
+              marketData={marketData}
+              livePrices={livePrices}
+              ledgerPositions={ledger.positions}
+            />
+          </Card>
+
+          <Card className="p-4">
+            <h3 className="font-semibold mb-3">Transactions</h3>
+            <TransactionsTable
+              transactions={transactions}
+              onRemove={removeTransaction}
+              onImportCsv={importCsv}
+              onExportCsv={exportCsv}
+            />
+          </Card>
+
+          <Card className="p-4">
+            <div className="flex items-center gap-2 mb-3">
+              <Shield className="w-5 h-5 text-primary" />
+              <h3 className="font-semibold">Portfolio Risk</h3>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {riskRows.map(row => (
+                <div key={row.label} className="p-3 bg-muted/20 rounded-lg">
+                  <div className="text-xs text-muted-foreground">{row.label}</div>
+                  <div className="text-lg font-semibold">{row.value}</div>
+                </div>
+              ))}
+            </div>
+          </Card>
+
+          <Card className="p-4">
+            <h3 className="font-semibold mb-3">Risk Contribution</h3>
+            <RiskContributionTable decomposition={analytics.riskDecomposition} />
+          </Card>
+
+          <Card className="p-4">
+            <h3 className="font-semibold mb-3">Optimizer</h3>
+            <PortfolioOptimizerPanel positions={analytics.positions} marketData={marketData} />
+          </Card>
+
+          <Card className="p-4">
+            <h3 className="font-semibold mb-3">Monte Carlo Simulation</h3>
+            {simulation.assets.length > 0 ? (
+              <MonteCarloPanel assets={simulation.assets} startValue={simulation.startValue} />
+            ) : (
+              <p className="text-sm text-muted-foreground">Simulations appear once price history loads.</p>
+            )}
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PortfolioPage;
@@ -0,0 +1,132 @@
+import type { StockData } from '../types/stock';
+import type { MarketDataProvider } from '../types/marketData';
+import { MockDataProvider } from './providers/mockDataProvider';
+import { RestDataProvider } from './providers/restDataProvider';
+import { setMockDataSeed } from '../utils/mockData';
+import { readMockSeedSetting } from '../utils/mockSeed';
+
+type ProviderListener = (provider: MarketDataProvider) => void;
+
+const STORAGE_KEY = 'marketDataProvider';
+
+class MarketDataService {
+  private providers = new Map<string, MarketDataProvider>();
+  private activeId: string | null = null;
+  private listeners = new Set<ProviderListener>();
+
+  // 🚀 Register a provider (replaces any provider with the same id)
+  register(provider: MarketDataProvider, makeActive: boolean = false): void {
+    this.providers.set(provider.id, provider);
+    if (makeActive || this.activeId === null) {
+      this.setActiveProvider(provider.id);
+    }
+  }
+
+  // 🚀 Remove a provider, falling back to the first remaining one
+  unregister(id: string): void {
+    this.providers.delete(id);
+    if (this.activeId === id) {
+      const fallback = this.providers.keys().next().value;
+      this.activeId = null;
+      if (fallback) this.setActiveProvider(fallback);
+    }
+  }
+
+  // 🚀 Switch the source every consumer reads from
+  setActiveProvider(id: string): void {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      throw new Error(`Unknown market data provider: ${id}`);
+    }
+    if (this.activeId === id) return;
+
+    this.activeId = id;
+    try {
+      localStorage.setItem(STORAGE_KEY, id);
+    } catch (error) {
+      console.warn('Could not persist market data provider selection:', error);
+    }
+    this.listeners.forEach(listener => listener(provider));
+  }
+
+  getActiveProvider(): MarketDataProvider {
+    const provider = this.activeId ? this.providers.get(this.activeId) : undefined;
+    if (!provider) {
+      throw new Error('No market data provider registered');
+    }
+    return provider;
+  }
+
+  getProviders(): MarketDataProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  // 🚀 Listen for provider switches; returns an unsubscribe function
+  subscribe(listener: ProviderListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // 🚀 Assemble a full StockData snapshot from bars, quote and metadata
+  async loadStockData(symbol: string, provider: MarketDataProvider = this.getActiveProvider()): Promise<StockData> {
+    const upperSymbol = symbol.toUpperCase();
+    const [prices, quote, metadata] = await Promise.all([
+      provider.getHistoricalBars(upperSymbol),
+      provider.getQuote(upperSymbol),
+      provider.getSymbolMetadata(upperSymbol),
+    ]);
+
+    if (prices.length === 0) {
+      throw new Error(`${provider.name} returned no price history for ${upperSymbol}`);
+    }
+
+    const lastYear = prices.slice(-252);
+    const recent = prices.slice(-20);
+
+    return {
+      symbol: upperSymbol,
+      name: metadata.name,
+      sector: metadata.sector,
+      currentPrice: quote.price,
+      change: quote.change,
+      changePercent: quote.changePercent,
+      prices,
+      fundamentals: metadata.fundamentals,
+      marketCap: metadata.marketCap ?? metadata.fundamentals?.marketCap ?? 0,
+      volume: quote.volume,
+      avgVolume: recent.reduce((sum, p) => sum + p.volume, 0) / recent.length,
+      high52Week: Math.max(...lastYear.map(p => p.high)),
+      low52Week: Math.min(...lastYear.map(p => p.low)),
+    };
+  }
+}
+
+// 🚀 Singleton instance, configured from VITE_MARKET_DATA_* env vars
+export const marketDataService = new MarketDataService();
+
+setMockDataSeed(readMockSeedSetting());
+marketDataService.register(new MockDataProvider());
+
+const restBaseUrl = import.meta.env.VITE_MARKET_DATA_URL;
+if (restBaseUrl) {
+  marketDataService.register(new RestDataProvider({
+    baseUrl: restBaseUrl,
+    barsPath: import.meta.env.VITE_MARKET_DATA_BARS_PATH || undefined,
+  }));
+}
+
+const preferredProvider = (() => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+})() || import.meta.env.VITE_MARKET_DATA_PROVIDER;
+
+if (preferredProvider && marketDataService.getProviders().some(p => p.id === preferredProvider)) {
+  marketDataService.setActiveProvider(preferredProvider);
+}
+
+export default MarketDataService;
@@ -0,0 +1,78 @@
+import type { StockData, PriceData } from '../../types/stock';
+import type { MarketDataProvider, MarketQuote, SymbolMetadata, HistoricalBarsRequest } from '../../types/marketData';
+import { generateMockStockData, getMockDataSeed } from '../../utils/mockData';
+import { filterBarsByRange } from './providerUtils';
+
+// Wraps the synthetic generator so every consumer sees the same series for a symbol
+export class MockDataProvider implements MarketDataProvider {
+  readonly id = 'mock';
+  readonly name: string;
+  readonly description: string;
+  readonly seed: number | null;
+
+  private cache = new Map<string, StockData>();
+
+  // Defaults to the global mock seed, so a seeded page load yields the same series every time
+  constructor(seed: number | null = getMockDataSeed()) {
+    this.seed = seed;
+    this.name = seed === null ? 'Mock Generator' : `Mock Generator (seed ${seed})`;
+    this.description = 'Synthetic prices with volatility clustering, earnings gaps and sector betas' +
+      (seed === null ? '' : ' (deterministic)');
+  }
+
+  private getStock(symbol: string): StockData {
+    const key = symbol.toUpperCase();
+    let stock = this.cache.get(key);
+    if (!stock) {
+      stock = generateMockStockData(key, this.seed);
+      this.cache.set(key, stock);
+    }
+    return stock;
+  }
+
+  async getHistoricalBars(symbol: string, request?: HistoricalBarsRequest): Promise<PriceData[]> {
+    return filterBarsByRange(this.getStock(symbol).prices, request);
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote> {
+    const stock = this.getStock(symbol);
+    const latest = stock.prices[stock.prices.length - 1];
+
+    return {
+      symbol: stock.symbol,
+      price: stock.currentPrice,
+      change: stock.change,
+      changePercent: stock.changePercent,
+      volume: stock.volume,
+      open: latest.open,
+      high: latest.high,
+      low: latest.low,
+      bid: stock.currentPrice - 0.01,
+      ask: stock.currentPrice + 0.01,
+      timestamp: Date.now(),
+    };
+  }
+
+  async getSymbolMetadata(symbol: string): Promise<SymbolMetadata> {
+    const stock = this.getStock(symbol);
+
+    return {
+      symbol: stock.symbol,
+      name: stock.name,
+      sector: stock.sector,
+      exchange: 'NASDAQ',
+      currency: 'USD',
+      marketCap: stock.marketCap,
+      fundamentals: stock.fundamentals,
+    };
+  }
+
+  // Drop cached series so the next request regenerates them
+  reset(symbol?: string): void {
+    if (symbol) {
+      this.cache.delete(symbol.toUpperCase());
+    } else {
+      this.cache.clear();
+    }
+  }
+}
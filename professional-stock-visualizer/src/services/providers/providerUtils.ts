@@ -0,0 +1,66 @@
+import type { PriceData } from '../../types/stock';
+import type { MarketQuote, HistoricalBarsRequest } from '../../types/marketData';
+
+// Restrict bars to the requested [from, to] date window
+export const filterBarsByRange = (bars: PriceData[], request?: HistoricalBarsRequest): PriceData[] => {
+  if (!request?.from && !request?.to) return bars;
+
+  const from = request.from ? new Date(request.from).getTime() : -Infinity;
+  const to = request.to ? new Date(request.to).getTime() : Infinity;
+
+  return bars.filter(bar => {
+    const time = new Date(bar.time).getTime();
+    return time >= from && time <= to;
+  });
+};
+
+// Derive a quote from the last two bars when a source has no quote endpoint
+export const buildQuoteFromBars = (symbol: string, bars: PriceData[]): MarketQuote => {
+  if (bars.length === 0) {
+    throw new Error(`No price history available for ${symbol}`);
+  }
+
+  const latest = bars[bars.length - 1];
+  const previous = bars.length > 1 ? bars[bars.length - 2] : latest;
+  const change = latest.close - previous.close;
+
+  return {
+    symbol,
+    price: latest.close,
+    change,
+    changePercent: previous.close !== 0 ? (change / previous.close) * 100 : 0,
+    volume: latest.volume,
+    open: latest.open,
+    high: latest.high,
+    low: latest.low,
+    timestamp: new Date(latest.time).getTime(),
+  };
+};
+
+// Validate and coerce loosely-typed JSON rows into sorted PriceData bars
+export const normalizeBars = (rows: unknown, source: string): PriceData[] => {
+  if (!Array.isArray(rows)) {
+    throw new Error(`${source}: expected an array of bars`);
+  }
+
+  const bars = rows.map((row, index) => {
+    const bar = row as Record<string, unknown>;
+    const time = bar.time ?? bar.date;
+    const parsed: PriceData = {
+      time: typeof time === 'number' ? new Date(time).toISOString().split('T')[0] : String(time),
+      open: Number(bar.open),
+      high: Number(bar.high),
+      low: Number(bar.low),
+      close: Number(bar.close),
+      volume: Number(bar.volume ?? 0),
+    };
+
+    if (!time || [parsed.open, parsed.high, parsed.low, parsed.close].some(v => !isFinite(v))) {
+      throw new Error(`${source}: invalid bar at index ${index}`);
+    }
+
+    return parsed;
+  });
+
+  return bars.sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+};
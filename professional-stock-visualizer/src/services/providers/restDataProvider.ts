@@ -0,0 +1,116 @@
+import type { PriceData } from '../../types/stock';
+import type { MarketDataProvider, MarketQuote, SymbolMetadata, HistoricalBarsRequest } from '../../types/marketData';
+import { filterBarsByRange, buildQuoteFromBars, normalizeBars } from './providerUtils';
+
+export interface RestDataProviderConfig {
+  id?: string;
+  name?: string;
+  baseUrl: string;
+  // Path templates; `{symbol}` is substituted. Without a dedicated quote or
+  // metadata path, both are derived from the bars document.
+  barsPath?: string;
+  quotePath?: string;
+  metadataPath?: string;
+  headers?: Record<string, string>;
+  cacheTtlMs?: number; // how long a fetched document is reused (default 60s)
+}
+
+/**
+ * Reads historical data from a REST endpoint or a folder of static JSON files.
+ *
+ * The default layout is one file per symbol (e.g. `public/data/AAPL.json`):
+ *   { "symbol": "AAPL", "name": "Apple Inc.", "sector": "Technology", "prices": [{ time, open, high, low, close, volume }] }
+ * A bare array of bars is also accepted.
+ */
+export class RestDataProvider implements MarketDataProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+
+  private config: Required<Pick<RestDataProviderConfig, 'baseUrl' | 'barsPath'>> & RestDataProviderConfig;
+  private documentCache = new Map<string, { request: Promise<unknown>; expiry: number }>();
+
+  constructor(config: RestDataProviderConfig) {
+    this.config = {
+      ...config,
+      // Defaults go after the spread so keys passed as undefined still fall back
+      barsPath: config.barsPath ?? '/{symbol}.json',
+      cacheTtlMs: config.cacheTtlMs ?? 60000,
+      baseUrl: config.baseUrl.replace(/\/$/, ''),
+    };
+    this.id = config.id || 'rest';
+    this.name = config.name || 'Local REST / JSON';
+    this.description = `Historical data from ${this.config.baseUrl}`;
+  }
+
+  async getHistoricalBars(symbol: string, request?: HistoricalBarsRequest): Promise<PriceData[]> {
+    const document = await this.fetchJson(this.config.barsPath, symbol);
+    const rows = Array.isArray(document) ? document : (document as Record<string, unknown>)?.prices ?? (document as Record<string, unknown>)?.bars;
+    return filterBarsByRange(normalizeBars(rows, `${this.name} (${symbol})`), request);
+  }
+
+  async getQuote(symbol: string): Promise<MarketQuote> {
+    if (this.config.quotePath) {
+      const quote = await this.fetchJson(this.config.quotePath, symbol) as Partial<MarketQuote>;
+      if (typeof quote?.price !== 'number') {
+        throw new Error(`${this.name}: quote for ${symbol} has no price`);
+      }
+      return {
+        symbol: symbol.toUpperCase(),
+        change: 0,
+        changePercent: 0,
+        volume: 0,
+        open: quote.price,
+        high: quote.price,
+        low: quote.price,
+        timestamp: Date.now(),
+        ...quote,
+      } as MarketQuote;
+    }
+
+    return buildQuoteFromBars(symbol.toUpperCase(), await this.getHistoricalBars(symbol));
+  }
+
+  async getSymbolMetadata(symbol: string): Promise<SymbolMetadata> {
+    const path = this.config.metadataPath || this.config.barsPath;
+    const document = await this.fetchJson(path, symbol);
+    const meta = (Array.isArray(document) ? {} : document ?? {}) as Partial<SymbolMetadata>;
+
+    return {
+      symbol: symbol.toUpperCase(),
+      name: meta.name || `${symbol.toUpperCase()} Corporation`,
+      sector: meta.sector || 'Unknown',
+      exchange: meta.exchange,
+      currency: meta.currency,
+      marketCap: meta.marketCap,
+      fundamentals: meta.fundamentals,
+    };
+  }
+
+  // Forget cached documents (e.g. after the files on disk were refreshed)
+  clearCache(): void {
+    this.documentCache.clear();
+  }
+
+  private fetchJson(pathTemplate: string, symbol: string): Promise<unknown> {
+    const url = `${this.config.baseUrl}${pathTemplate.replace('{symbol}', encodeURIComponent(symbol.toUpperCase()))}`;
+
+    const cached = this.documentCache.get(url);
+    if (cached && Date.now() < cached.expiry) {
+      return cached.request;
+    }
+
+    const request = fetch(url, { headers: { Accept: 'application/json', ...this.config.headers } })
+      .then(response => {
+        if (!response.ok) {
+          throw new Error(`${this.name}: ${response.status} ${response.statusText} for ${symbol}`);
+        }
+        return response.json();
+      });
+    // Failed requests should be retried on the next call
+    request.catch(() => this.documentCache.delete(url));
+    this.documentCache.set(url, { request, expiry: Date.now() + (this.config.cacheTtlMs ?? 60000) });
+
+    return request;
+  }
+}
@@ -1,29 +1,50 @@
+import type {
+  StreamClientMessage,
+  StreamConnectionState,
+  StreamMarketMessage,
+  StreamServerMessage,
+} from '../types/streaming';
+
 interface WebSocketConfig {
   url: string;
   reconnectInterval: number;
   maxReconnectAttempts: number;
   heartbeatInterval: number;
+  heartbeatTimeout: number; // close the socket if no pong arrives within this window
 }
 
 interface SubscriptionCallback {
-  (data: any): void;
+  (message: StreamMarketMessage): void;
+}
+
+interface ConnectionStatus {
+  state: StreamConnectionState;
+  reconnectAttempts: number;
+}
+
+interface StatusCallback {
+  (status: ConnectionStatus): void;
 }
 
 class WebSocketService {
   private ws: WebSocket | null = null;
   private config: WebSocketConfig;
   private subscriptions = new Map<string, Set<SubscriptionCallback>>();
+  private statusListeners = new Set<StatusCallback>();
+  private state: StreamConnectionState = 'disconnected';
   private reconnectAttempts = 0;
-  private reconnectTimeout: NodeJS.Timeout | null = null;
-  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatInterval: ReturnType<typeof setInterval> | null = null;
+  private pongTimeout: ReturnType<typeof setTimeout> | null = null;
   private isConnecting = false;
 
   constructor(config: Partial<WebSocketConfig> = {}) {
     this.config = {
-      url: config.url || 'wss://stream.binance.com:9443/ws',
-      reconnectInterval: config.reconnectInterval || 5000,
+      url: config.url || import.meta.env.VITE_WEBSOCKET_URL || 'ws://localhost:8787',
+      reconnectInterval: config.reconnectInterval || 1000,
       maxReconnectAttempts: config.maxReconnectAttempts || 10,
-      heartbeatInterval: config.heartbeatInterval || 30000,
+      heartbeatInterval: config.heartbeatInterval || 15000,
+      heartbeatTimeout: config.heartbeatTimeout || 5000,
       ...config
     };
   }
@@ -34,50 +55,72 @@ class WebSocketService {
       return;
     }
 
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
     this.isConnecting = true;
+    this.setState('connecting');
 
     try {
-      this.ws = new WebSocket(this.config.url);
+      const ws = new WebSocket(this.config.url);
+      this.ws = ws;
 
-      this.ws.onopen = () => {
+      ws.onopen = () => {
         console.log('🎉 WebSocket connected successfully');
         this.isConnecting = false;
         this.reconnectAttempts = 0;
+        this.setState('connected');
         this.startHeartbeat();
+
+        // Restore every channel that was requested while offline
+        const symbols = Array.from(this.subscriptions.keys());
+        if (symbols.length > 0) {
+          this.send({ type: 'subscribe', symbols });
+        }
       };
 
-      this.ws.onmessage = (event) => {
+      ws.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
-          this.handleMessage(data);
+          const message = JSON.parse(event.data) as StreamServerMessage;
+          this.handleMessage(message);
         } catch (error) {
           console.error('📡 Error parsing WebSocket message:', error);
         }
       };
 
-      this.ws.onerror = (error) => {
+      ws.onerror = (error) => {
         console.error('📡 WebSocket error:', error);
         this.isConnecting = false;
+        this.setState('error');
       };
 
-      this.ws.onclose = (event) => {
+      ws.onclose = (event) => {
+        // Ignore late events from a socket that was already replaced
+        if (this.ws !== ws) return;
+
         console.log('📡 WebSocket closed:', event.code, event.reason);
+        this.ws = null;
         this.isConnecting = false;
         this.stopHeartbeat();
-        
+
         if (event.code !== 1000 && this.reconnectAttempts < this.config.maxReconnectAttempts) {
           this.scheduleReconnect();
+        } else {
+          this.setState(event.code === 1000 ? 'disconnected' : 'error');
         }
       };
 
     } catch (error) {
       console.error('📡 Failed to create WebSocket connection:', error);
       this.isConnecting = false;
+      this.setState('error');
       this.scheduleReconnect();
     }
   }
 
-  // 🚀 Disconnect WebSocket
+  // 🚀 Disconnect WebSocket (subscriptions are kept for the next connect)
   disconnect(): void {
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -85,67 +128,93 @@ class WebSocketService {
     }
 
     this.stopHeartbeat();
+    this.isConnecting = false;
 
     if (this.ws) {
-      this.ws.close(1000, 'Manual disconnect');
+      const ws = this.ws;
       this.ws = null;
+      ws.close(1000, 'Manual disconnect');
     }
 
-    this.subscriptions.clear();
+    this.setState('disconnected');
+  }
+
+  // 🚀 Drop the current socket and reconnect immediately
+  reconnect(): void {
+    this.disconnect();
+    this.reconnectAttempts = 0;
+    this.connect();
   }
 
-  // 🚀 Subscribe to data stream
-  subscribe(channel: string, callback: SubscriptionCallback): void {
-    if (!this.subscriptions.has(channel)) {
+  // 🚀 Subscribe to a symbol's quote/trade stream
+  subscribe(symbol: string, callback: SubscriptionCallback): void {
+    const channel = symbol.toUpperCase();
+    const isNewChannel = !this.subscriptions.has(channel);
+
+    if (isNewChannel) {
       this.subscriptions.set(channel, new Set());
     }
 
     this.subscriptions.get(channel)!.add(callback);
 
-    // Send subscription message if connected
-    if (this.ws?.readyState === WebSocket.OPEN) {
-      this.ws.send(JSON.stringify({
-        method: 'SUBSCRIBE',
-        params: [channel],
-        id: Date.now()
-      }));
+    if (isNewChannel) {
+      this.send({ type: 'subscribe', symbols: [channel] });
     }
   }
 
-  // 🚀 Unsubscribe from data stream
-  unsubscribe(channel: string, callback: SubscriptionCallback): void {
+  // 🚀 Unsubscribe from a symbol's stream
+  unsubscribe(symbol: string, callback: SubscriptionCallback): void {
+    const channel = symbol.toUpperCase();
     const channelCallbacks = this.subscriptions.get(channel);
     if (channelCallbacks) {
       channelCallbacks.delete(callback);
-      
+
       if (channelCallbacks.size === 0) {
         this.subscriptions.delete(channel);
-        
-        // Send unsubscription message if connected
-        if (this.ws?.readyState === WebSocket.OPEN) {
-          this.ws.send(JSON.stringify({
-            method: 'UNSUBSCRIBE',
-            params: [channel],
-            id: Date.now()
-          }));
-        }
+        this.send({ type: 'unsubscribe', symbols: [channel] });
       }
     }
   }
 
+  // 🚀 Listen for connection state changes; returns an unsubscribe function
+  onStatusChange(callback: StatusCallback): () => void {
+    this.statusListeners.add(callback);
+    callback(this.status);
+    return () => {
+      this.statusListeners.delete(callback);
+    };
+  }
+
   // 🚀 Handle incoming messages
-  private handleMessage(data: any): void {
-    if (data.stream) {
-      const callbacks = this.subscriptions.get(data.stream);
-      if (callbacks) {
-        callbacks.forEach(callback => {
+  private handleMessage(message: StreamServerMessage): void {
+    switch (message.type) {
+      case 'quote':
+      case 'trade': {
+        const callbacks = this.subscriptions.get(message.symbol.toUpperCase());
+        callbacks?.forEach(callback => {
           try {
-            callback(data);
+            callback(message);
           } catch (error) {
             console.error('📡 Error in subscription callback:', error);
           }
         });
+        break;
       }
+      case 'pong':
+        if (this.pongTimeout) {
+          clearTimeout(this.pongTimeout);
+          this.pongTimeout = null;
+        }
+        break;
+      case 'error':
+        console.warn('📡 Stream server error:', message.message);
+        break;
+    }
+  }
+
+  private send(message: StreamClientMessage): void {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
     }
   }
 
@@ -160,19 +229,31 @@ class WebSocketService {
       30000
     );
 
-    console.log(`📡 Scheduling reconnect in ${delay}ms (attempt ${this.reconnectAttempts + 1})`);
+    this.reconnectAttempts++;
+    this.setState('connecting');
+    console.log(`📡 Scheduling reconnect in ${delay}ms (attempt ${this.reconnectAttempts})`);
 
     this.reconnectTimeout = setTimeout(() => {
-      this.reconnectAttempts++;
+      this.reconnectTimeout = null;
       this.connect();
     }, delay);
   }
 
   // 🚀 Start heartbeat
   private startHeartbeat(): void {
+    this.stopHeartbeat();
     this.heartbeatInterval = setInterval(() => {
-      if (this.ws?.readyState === WebSocket.OPEN) {
-        this.ws.send(JSON.stringify({ method: 'ping' }));
+      if (this.ws?.readyState !== WebSocket.OPEN) return;
+
+      this.send({ type: 'ping', timestamp: Date.now() });
+
+      // A silent server is treated as a dropped connection
+      if (!this.pongTimeout) {
+        this.pongTimeout = setTimeout(() => {
+          this.pongTimeout = null;
+          console.warn('📡 Heartbeat timed out, reconnecting...');
+          this.ws?.close(4000, 'Heartbeat timeout');
+        }, this.config.heartbeatTimeout);
       }
     }, this.config.heartbeatInterval);
   }
@@ -183,6 +264,16 @@ class WebSocketService {
       clearInterval(this.heartbeatInterval);
       this.heartbeatInterval = null;
     }
+    if (this.pongTimeout) {
+      clearTimeout(this.pongTimeout);
+      this.pongTimeout = null;
+    }
+  }
+
+  private setState(state: StreamConnectionState): void {
+    this.state = state;
+    const status = this.status;
+    this.statusListeners.forEach(listener => listener(status));
   }
 
   // 🚀 Get connection status
@@ -190,19 +281,19 @@ class WebSocketService {
     return this.ws?.readyState === WebSocket.OPEN;
   }
 
-  get connectionState(): string {
-    if (!this.ws) return 'disconnected';
-    
-    switch (this.ws.readyState) {
-      case WebSocket.CONNECTING: return 'connecting';
-      case WebSocket.OPEN: return 'connected';
-      case WebSocket.CLOSING: return 'closing';
-      case WebSocket.CLOSED: return 'disconnected';
-      default: return 'unknown';
-    }
+  get connectionState(): StreamConnectionState {
+    return this.state;
+  }
+
+  get status(): ConnectionStatus {
+    return { state: this.state, reconnectAttempts: this.reconnectAttempts };
+  }
+
+  get url(): string {
+    return this.config.url;
   }
 }
 
 // 🚀 Singleton instance
 export const websocketService = new WebSocketService();
-export default WebSocketService;
\ No newline at end of file
+export default WebSocketService;
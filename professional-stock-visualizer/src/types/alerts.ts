@@ -29,9 +29,13 @@ export interface PriceAlert {
 export interface TechnicalAlert {
   id: string;
   symbol: string;
-  type: 'rsi_overbought' | 'rsi_oversold' | 'macd_crossover' | 'support_break' | 'resistance_break' | 'volume_breakout';
+  type: 'rsi_overbought' | 'rsi_oversold' | 'macd_crossover' | 'support_break' | 'resistance_break' | 'volume_breakout' | 'adx_strong_trend' | 'adx_weak_trend' | 'sar_reversal' | 'formula_above' | 'formula_below';
   parameters: {
     rsiLevel?: number;
+    adxLevel?: number;
+    signalDirection?: 'buy' | 'sell'; // Only react to signals in this direction
+    formula?: string; // Custom series in the formula language
+    threshold?: number; // Level the formula value is compared against
     supportLevel?: number;
     resistanceLevel?: number;
     volumeMultiplier?: number;
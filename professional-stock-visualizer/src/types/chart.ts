@@ -61,6 +61,7 @@ export interface TrendLine {
   extended: boolean;
   r2: number; // R-squared correlation coefficient
   active: boolean; // Whether the trend is still valid
+  brokenAt?: string; // Time of the close that broke the line (when inactive)
 }
 
 export interface ChartSettings {
@@ -74,6 +75,10 @@ export interface ChartSettings {
   candleStyle: 'traditional' | 'hollow' | 'heikin-ashi';
   volumeStyle: 'bars' | 'area' | 'profile';
   showSupportResistance: boolean;
+  showIchimoku: boolean;
+  showParabolicSAR: boolean;
+  showPivotPoints: boolean;
+  showVWAP: boolean;
   showTrendLines: boolean;
   showPatterns: boolean;
 }
@@ -110,6 +115,12 @@ export interface FibonacciRetracement {
   direction: 'uptrend' | 'downtrend';
 }
 
+// Visible window of a chart as timestamps, so panes built on different series can share it
+export interface VisibleRange {
+  from: number;
+  to: number;
+}
+
 export interface ChartEvent {
   type: 'click' | 'hover' | 'zoom' | 'pan' | 'crosshair';
   data: {
@@ -1,9 +1,9 @@
 export type IndicatorType = 
   | 'sma' | 'ema' | 'wma' | 'bollinger' | 'rsi' | 'macd' | 'stochastic' 
   | 'williams_r' | 'cci' | 'atr' | 'adx' | 'obv' | 'vwap' | 'pivot_points'
-  | 'ichimoku' | 'parabolic_sar' | 'fibonacci';
+  | 'ichimoku' | 'parabolic_sar' | 'fibonacci' | 'formula';
 
-export type IndicatorCategory = 'trend' | 'momentum' | 'volume' | 'volatility' | 'support_resistance';
+export type IndicatorCategory = 'trend' | 'momentum' | 'volume' | 'volatility' | 'support_resistance' | 'custom';
 
 export interface BaseIndicator {
   id: string;
@@ -124,14 +124,21 @@ export interface VWAPIndicator extends BaseIndicator {
   type: 'vwap';
   params: {
     anchorType: 'session' | 'week' | 'month' | 'custom';
-    customAnchor?: string;
+    customAnchor?: string; // bar time the custom VWAP starts from
+    bandMultipliers: number[]; // standard deviations drawn either side of VWAP
   };
   style: {
     color: string;
     width: number;
     opacity: number;
+    bandColor: string;
   };
-  data: Array<{ time: string; value: number | null }>;
+  data: Array<{
+    time: string;
+    value: number | null;
+    stdDev: number | null;
+    isAnchor: boolean; // accumulation restarts on this bar
+  }>;
 }
 
 export interface IchimokuIndicator extends BaseIndicator {
@@ -162,6 +169,26 @@ export interface IchimokuIndicator extends BaseIndicator {
   }>;
 }
 
+export interface ParabolicSARIndicator extends BaseIndicator {
+  type: 'parabolic_sar';
+  displayType: 'overlay';
+  params: {
+    step: number; // acceleration factor increment
+    maxStep: number; // acceleration factor cap
+  };
+  style: {
+    upColor: string;
+    downColor: string;
+    size: number;
+  };
+  data: Array<{
+    time: string;
+    sar: number | null;
+    trend: 'up' | 'down' | null;
+    reversal: boolean;
+  }>;
+}
+
 export interface ATRIndicator extends BaseIndicator {
   type: 'atr';
   displayType: 'separate_panel';
@@ -175,6 +202,28 @@ export interface ATRIndicator extends BaseIndicator {
   data: Array<{ time: string; value: number | null }>;
 }
 
+export interface ADXIndicator extends BaseIndicator {
+  type: 'adx';
+  displayType: 'separate_panel';
+  params: {
+    period: number;
+    weakTrend: number; // ADX below this is treated as no trend
+    strongTrend: number;
+  };
+  style: {
+    adxColor: string;
+    plusDIColor: string;
+    minusDIColor: string;
+    width: number;
+  };
+  data: Array<{
+    time: string;
+    adx: number | null;
+    plusDI: number | null;
+    minusDI: number | null;
+  }>;
+}
+
 export interface VolumeIndicator extends BaseIndicator {
   type: 'obv';
   displayType: 'separate_panel';
@@ -199,6 +248,7 @@ export interface PivotPointsIndicator extends BaseIndicator {
   type: 'pivot_points';
   params: {
     timeframe: 'daily' | 'weekly' | 'monthly';
+    method: 'classic' | 'fibonacci' | 'camarilla' | 'woodie';
     showLevels: boolean;
     showMidpoints: boolean;
   };
@@ -221,17 +271,55 @@ export interface PivotPointsIndicator extends BaseIndicator {
   }>;
 }
 
-export type AnyIndicator = 
-  | MovingAverageIndicator
-  | BollingerBandsIndicator
-  | RSIIndicator
-  | MACDIndicator
-  | StochasticIndicator
-  | VWAPIndicator
-  | IchimokuIndicator
-  | ATRIndicator
-  | VolumeIndicator
-  | PivotPointsIndicator;
+// User-defined series written in the formula language, e.g. "(close - sma(close, 50)) / atr(14)"
+export interface FormulaIndicator extends BaseIndicator {
+  type: 'formula';
+  params: {
+    formula: string;
+  };
+  style: {
+    color: string;
+    width: number;
+    opacity: number;
+  };
+  data: Array<{
+    time: string;
+    value: number | null;
+  }>;
+}
+
+// Every indicator interface keyed by the type it is created as
+export interface IndicatorTypeMap {
+  sma: MovingAverageIndicator;
+  ema: MovingAverageIndicator;
+  wma: MovingAverageIndicator;
+  bollinger: BollingerBandsIndicator;
+  rsi: RSIIndicator;
+  macd: MACDIndicator;
+  stochastic: StochasticIndicator;
+  vwap: VWAPIndicator;
+  ichimoku: IchimokuIndicator;
+  parabolic_sar: ParabolicSARIndicator;
+  atr: ATRIndicator;
+  adx: ADXIndicator;
+  obv: VolumeIndicator;
+  pivot_points: PivotPointsIndicator;
+  formula: FormulaIndicator;
+}
+
+// An instance of the given type(s). Written as a mapped type indexed by K so generic code
+// over K sees type, params, style and data of the same indicator, e.g. calculate(indicator.params).
+export type IndicatorOfType<K extends keyof IndicatorTypeMap> = {
+  [P in K]: Omit<BaseIndicator, 'type'> & {
+    type: P;
+    params: IndicatorTypeMap[P]['params'];
+    style: IndicatorTypeMap[P]['style'];
+    data: IndicatorTypeMap[P]['data'];
+  };
+}[K];
+
+// Discriminated on type: one member per indicator type
+export type AnyIndicator = IndicatorOfType<keyof IndicatorTypeMap>;
 
 export interface IndicatorPreset {
   id: string;
@@ -251,6 +339,16 @@ export interface IndicatorSignal {
   confidence: number;
 }
 
+// Signals of the last few bars folded into one score
+export interface SignalConsensus {
+  score: number; // -1 (all sell) to 1 (all buy)
+  direction: 'buy' | 'sell' | 'neutral';
+  buyCount: number;
+  sellCount: number;
+  neutralCount: number;
+  signals: IndicatorSignal[]; // the signals that were counted, newest first
+}
+
 export interface IndicatorAlert {
   id: string;
   indicatorId: string;
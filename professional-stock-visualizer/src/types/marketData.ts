@@ -0,0 +1,40 @@
+import type { PriceData, FundamentalData } from './stock';
+
+export interface MarketQuote {
+  symbol: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  open: number;
+  high: number;
+  low: number;
+  bid?: number;
+  ask?: number;
+  timestamp: number;
+}
+
+export interface SymbolMetadata {
+  symbol: string;
+  name: string;
+  sector: string;
+  exchange?: string;
+  currency?: string;
+  marketCap?: number;
+  fundamentals?: FundamentalData;
+}
+
+export interface HistoricalBarsRequest {
+  from?: string; // ISO date (inclusive)
+  to?: string;   // ISO date (inclusive)
+}
+
+// Contract every market data source implements (mock generator, REST API, JSON files...)
+export interface MarketDataProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly description?: string;
+  getHistoricalBars(symbol: string, request?: HistoricalBarsRequest): Promise<PriceData[]>;
+  getQuote(symbol: string): Promise<MarketQuote>;
+  getSymbolMetadata(symbol: string): Promise<SymbolMetadata>;
+}
@@ -69,6 +69,46 @@ export interface TechnicalIndicator {
   params?: Record<string, number>;
 }
 
+// A holding derived from the transaction ledger; everything else comes from market data
+export interface PortfolioHolding {
+  symbol: string;
+  quantity: number;
+  avgPrice: number;
+}
+
+export type TransactionType = 'buy' | 'sell' | 'dividend' | 'split' | 'fee';
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average';
+
+export interface PortfolioTransaction {
+  id: string;
+  date: string;      // ISO date (YYYY-MM-DD)
+  symbol: string;
+  type: TransactionType;
+  quantity: number;  // shares; for dividends the shares paid on, for splits the ratio (2 = 2-for-1)
+  price: number;     // per share; for dividends the dividend per share
+  fees: number;      // commission; the whole amount for standalone fees
+  notes?: string;
+}
+
+// Shares bought together, carrying their cost per share (fees included)
+export interface TaxLot {
+  symbol: string;
+  quantity: number;
+  costPerShare: number;
+  acquiredDate: string;
+}
+
+export interface RealizedGain {
+  transactionId: string;
+  symbol: string;
+  date: string;
+  acquiredDate: string;
+  quantity: number;
+  proceeds: number;
+  costBasis: number;
+  gain: number;
+}
+
 export interface PortfolioPosition {
   symbol: string;
   quantity: number;
@@ -80,6 +120,91 @@ export interface PortfolioPosition {
   weight: number;
 }
 
+// One holding's share of parametric portfolio VaR (95%, daily)
+export interface PositionRiskContribution {
+  symbol: string;
+  weight: number;
+  volatility: number;    // annualized
+  marginalVaR: number;   // VaR change per unit of weight
+  componentVaR: number;  // weight × marginal VaR; components sum to portfolio VaR
+  contribution: number;  // componentVaR / portfolio VaR
+}
+
+export interface PortfolioRiskDecomposition {
+  volatility: number;    // annualized, from the covariance matrix
+  var95: number;
+  var99: number;
+  diversificationRatio: number; // weighted average volatility / portfolio volatility
+  positions: PositionRiskContribution[];
+  correlationMatrix: number[][];
+}
+
+export interface OptimizationConstraints {
+  longOnly: boolean;
+  maxWeight: number;                   // per holding; also the short limit when longOnly is false
+  sectorCaps?: Record<string, number>; // max combined weight per sector
+  riskFreeRate?: number;
+}
+
+export interface OptimizedPortfolio {
+  weights: Record<string, number>;
+  expectedReturn: number; // annualized
+  volatility: number;     // annualized
+  sharpeRatio: number;
+}
+
+export interface EfficientFrontier {
+  assets: { symbol: string; expectedReturn: number; volatility: number }[];
+  points: OptimizedPortfolio[]; // ordered by volatility
+  minVariance: OptimizedPortfolio;
+  maxSharpe: OptimizedPortfolio;
+  riskParity: OptimizedPortfolio;
+}
+
+export interface RebalanceTrade {
+  symbol: string;
+  side: 'buy' | 'sell';
+  quantity: number;
+  value: number;
+  currentWeight: number;
+  targetWeight: number;
+}
+
+export type SimulationMethod = 'gbm' | 'bootstrap';
+
+export interface MonteCarloOptions {
+  method: SimulationMethod;
+  paths: number;
+  horizon: number;      // trading days
+  seed?: number | null; // null/undefined = unseeded
+}
+
+export interface SimulationBand {
+  step: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  method: SimulationMethod;
+  paths: number;
+  horizon: number;
+  seed: number | null;
+  startValue: number;
+  drift: number;             // daily log-return mean
+  volatility: number;        // daily log-return standard deviation
+  bands: SimulationBand[];   // one per step, 0..horizon
+  expectedValue: number;     // mean terminal value
+  probabilityOfLoss: number; // share of paths ending below startValue
+  var95: number;             // as a fraction of startValue
+  var99: number;
+  cvar95: number;
+  cvar99: number;
+}
+
 export interface PortfolioAnalytics {
   totalValue: number;
   totalCost: number;
@@ -92,6 +217,12 @@ export interface PortfolioAnalytics {
     weight: number;
     value: number;
   }[];
+  sectorAllocation: {
+    sector: string;
+    weight: number;
+    value: number;
+  }[];
+  riskDecomposition: PortfolioRiskDecomposition;
   diversificationRatio: number;
   sharpeRatio: number;
 }
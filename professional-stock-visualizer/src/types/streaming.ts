@@ -0,0 +1,78 @@
+/**
+ * Wire format for the live quote stream (JSON text frames).
+ *
+ * Client → server:
+ *   { "type": "subscribe",   "symbols": ["AAPL", "MSFT"] }
+ *   { "type": "unsubscribe", "symbols": ["MSFT"] }
+ *   { "type": "ping", "timestamp": 1700000000000 }
+ *
+ * Server → client:
+ *   { "type": "quote", "symbol": "AAPL", "price": 189.42, "bid": 189.41, "ask": 189.43, ... }
+ *   { "type": "trade", "symbol": "AAPL", "price": 189.42, "size": 300, "side": "buy", "timestamp": ... }
+ *   { "type": "subscribed", "symbols": ["AAPL"] }
+ *   { "type": "pong", "timestamp": 1700000000000 }
+ *   { "type": "error", "message": "Unknown message type" }
+ *
+ * Symbols are always upper-case; timestamps are epoch milliseconds.
+ */
+
+export interface StreamSubscribeMessage {
+  type: 'subscribe' | 'unsubscribe';
+  symbols: string[];
+}
+
+export interface StreamPingMessage {
+  type: 'ping';
+  timestamp: number;
+}
+
+export type StreamClientMessage = StreamSubscribeMessage | StreamPingMessage;
+
+export interface StreamQuoteMessage {
+  type: 'quote';
+  symbol: string;
+  price: number;
+  bid: number;
+  ask: number;
+  open: number;
+  high: number;
+  low: number;
+  volume: number;       // cumulative session volume
+  change: number;       // vs previous close
+  changePercent: number;
+  timestamp: number;
+}
+
+export interface StreamTradeMessage {
+  type: 'trade';
+  symbol: string;
+  price: number;
+  size: number;
+  side: 'buy' | 'sell';
+  timestamp: number;
+}
+
+export interface StreamSubscribedMessage {
+  type: 'subscribed';
+  symbols: string[];
+}
+
+export interface StreamPongMessage {
+  type: 'pong';
+  timestamp: number;
+}
+
+export interface StreamErrorMessage {
+  type: 'error';
+  message: string;
+}
+
+export type StreamMarketMessage = StreamQuoteMessage | StreamTradeMessage;
+
+export type StreamServerMessage =
+  | StreamMarketMessage
+  | StreamSubscribedMessage
+  | StreamPongMessage
+  | StreamErrorMessage;
+
+export type StreamConnectionState = 'connecting' | 'connected' | 'disconnected' | 'error';
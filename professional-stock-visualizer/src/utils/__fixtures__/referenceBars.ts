@@ -0,0 +1,74 @@
+import type { ChartDataPoint } from '../../types/chart';
+
+// 40 daily bars whose closes start with Wilder's classic RSI worksheet (44.34, 44.09, …).
+// Golden RSI values in the indicator tests were computed from these with an independent
+// implementation and checked against the published worksheet.
+const ROWS: [open: number, high: number, low: number, close: number, volume: number][] = [
+  [44.2, 44.69, 43.92, 44.34, 1200000],
+  [44.34, 44.56, 43.69, 44.09, 1350000],
+  [44.09, 44.63, 43.92, 44.15, 980000],
+  [44.15, 44.3, 43.25, 43.61, 1610000],
+  [43.61, 44.63, 43.36, 44.33, 1420000],
+  [44.33, 45.24, 44.21, 44.83, 1100000],
+  [44.83, 45.37, 44.38, 45.1, 1530000],
+  [45.1, 45.61, 44.79, 45.42, 1280000],
+  [45.42, 46.36, 45.2, 45.84, 1700000],
+  [45.84, 46.41, 45.46, 46.08, 1460000],
+  [46.08, 46.43, 45.61, 45.89, 1200000],
+  [45.89, 46.25, 45.49, 46.03, 1350000],
+  [46.03, 46.51, 45.44, 45.61, 980000],
+  [45.61, 46.43, 45.25, 46.28, 1610000],
+  [46.28, 46.58, 46.03, 46.28, 1420000],
+  [46.28, 46.69, 45.88, 46.0, 1100000],
+  [46.0, 46.3, 45.55, 46.03, 1530000],
+  [46.03, 46.6, 45.72, 46.41, 1280000],
+  [46.41, 46.93, 46.0, 46.22, 1700000],
+  [46.22, 46.55, 45.26, 45.64, 1460000],
+  [45.64, 46.56, 45.36, 46.21, 1200000],
+  [46.21, 46.47, 45.81, 46.25, 1350000],
+  [46.25, 46.73, 45.54, 45.71, 980000],
+  [45.71, 46.6, 45.35, 46.45, 1610000],
+  [46.45, 46.75, 45.53, 45.78, 1420000],
+  [45.78, 46.19, 45.23, 45.35, 1100000],
+  [45.35, 45.62, 43.58, 44.03, 1530000],
+  [44.03, 44.37, 43.72, 44.18, 1280000],
+  [44.18, 44.74, 43.96, 44.22, 1700000],
+  [44.22, 44.9, 43.84, 44.57, 1460000],
+  [44.57, 44.92, 43.14, 43.42, 1200000],
+  [43.42, 43.64, 42.26, 42.66, 1350000],
+  [42.66, 43.61, 42.49, 43.13, 980000],
+  [43.13, 43.65, 42.77, 43.5, 1610000],
+  [43.5, 44.22, 43.25, 43.92, 1420000],
+  [43.92, 44.72, 43.8, 44.31, 1100000],
+  [44.31, 44.58, 43.57, 44.02, 1530000],
+  [44.02, 44.21, 43.46, 43.77, 1280000],
+  [43.77, 44.92, 43.55, 44.4, 1700000],
+  [44.4, 45.18, 44.02, 44.85, 1460000],
+];
+
+const START = Date.UTC(2024, 0, 2);
+const DAY = 24 * 60 * 60 * 1000;
+
+export const REFERENCE_BARS: ChartDataPoint[] = ROWS.map(([open, high, low, close, volume], index) => ({
+  time: new Date(START + index * DAY).toISOString().slice(0, 10),
+  timestamp: START + index * DAY,
+  open,
+  high,
+  low,
+  close,
+  volume
+}));
+
+export const REFERENCE_CLOSES = REFERENCE_BARS.map(bar => bar.close);
+
+// Flat daily bars (open = high = low = close) for tests that only care about closes
+export const barsFromCloses = (closes: number[]): ChartDataPoint[] =>
+  closes.map((close, index) => ({
+    time: new Date(START + index * DAY).toISOString().slice(0, 10),
+    timestamp: START + index * DAY,
+    open: close,
+    high: close,
+    low: close,
+    close,
+    volume: 1000000
+  }));
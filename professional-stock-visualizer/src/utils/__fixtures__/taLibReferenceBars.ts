@@ -0,0 +1,274 @@
+import type { ChartDataPoint } from '../../types/chart';
+
+// The 252 daily bars of TA-Lib's regression suite (ta_regtest/test_data.c, the *_daily_ref_0 series).
+// TA-Lib publishes expected outputs for these bars alongside its functions, and the MACD and ATR
+// tests check against those published values.
+const ROWS: [open: number, high: number, low: number, close: number, volume: number][] = [
+  [92.5, 93.25, 90.75, 91.5, 4077500],
+  [91.5, 94.94, 91.405, 94.815, 4955900],
+  [95.155, 96.375, 94.25, 94.375, 4775300],
+  [93.97, 96.19, 93.5, 95.095, 4155300],
+  [95.5, 96, 92.815, 93.78, 4593100],
+  [94.5, 94.72, 93.5, 94.625, 3631300],
+  [95, 95, 92, 92.53, 3382800],
+  [91.5, 93.72, 89.75, 92.75, 4954200],
+  [91.815, 92.47, 89.44, 90.315, 4500000],
+  [91.125, 92.75, 90.625, 92.47, 3397500],
+  [93.875, 96.25, 92.75, 96.125, 4204500],
+  [97.5, 99.625, 96.315, 97.25, 6321400],
+  [98.815, 99.125, 96.03, 98.5, 10203600],
+  [92, 92.75, 88.815, 89.875, 19043900],
+  [91.125, 91.315, 86.75, 91, 11692000],
+  [91.875, 93.25, 90.94, 92.815, 9553300],
+  [93.405, 93.405, 88.905, 89.155, 8920300],
+  [89.75, 90.655, 88.78, 89.345, 5970900],
+  [89.345, 91.97, 89.25, 91.625, 5062300],
+  [92.25, 92.25, 89.75, 89.875, 3705600],
+  [89.78, 90.345, 87.5, 88.375, 5865600],
+  [87.94, 88.5, 86.53, 87.625, 5603000],
+  [87.595, 88.25, 84.625, 84.78, 5811900],
+  [85.22, 85.5, 82.28, 83, 8483800],
+  [83.5, 84.44, 81.565, 83.5, 5995200],
+  [83.5, 84.75, 80.875, 81.375, 5408800],
+  [81.25, 84.44, 81.25, 84.44, 5430500],
+  [85.125, 89.405, 84.065, 89.25, 6283800],
+  [88.125, 88.125, 85.595, 86.375, 5834800],
+  [87.5, 89.125, 85.97, 86.25, 4515500],
+  [85.25, 87.155, 84.405, 85.25, 4493300],
+  [86, 87.25, 85.095, 87.125, 4346100],
+  [87.19, 87.375, 85.5, 85.815, 3700300],
+  [86.125, 88.97, 85.53, 88.97, 4600200],
+  [89, 90, 87.875, 88.47, 4557200],
+  [88.625, 89.845, 86.565, 86.875, 4323600],
+  [86, 86.97, 84.655, 86.815, 5237500],
+  [85.5, 85.94, 83.25, 84.875, 7404100],
+  [84.75, 84.75, 82.565, 84.19, 4798400],
+  [85.25, 85.47, 83.44, 83.875, 4372800],
+  [84.25, 84.47, 82.53, 83.375, 3872300],
+  [86.75, 88.5, 85.065, 85.5, 10750800],
+  [86.94, 89.47, 86.875, 89.19, 5804800],
+  [89.315, 90, 88.53, 89.44, 3785500],
+  [89.94, 92.44, 89.28, 91.095, 5014800],
+  [90.815, 91.44, 90.125, 90.75, 3507700],
+  [91.19, 92.97, 90.75, 91.44, 4298800],
+  [91.345, 91.72, 89, 89, 4842500],
+  [89.595, 91.155, 88.565, 91, 3952200],
+  [91, 91.75, 90.095, 90.5, 3304700],
+  [89.75, 90, 89, 89.03, 3462000],
+  [88.75, 88.875, 86.47, 88.815, 7253900],
+  [88.315, 89, 84, 84.28, 9753100],
+  [84.345, 85.25, 83.315, 83.5, 5953000],
+  [83.5, 83.815, 82, 82.69, 5011700],
+  [84, 85.25, 83.25, 84.75, 5910800],
+  [86, 86.625, 84.75, 85.655, 4916900],
+  [85.53, 87.94, 85.28, 86.19, 4135000],
+  [87.5, 89.375, 87.19, 88.94, 4054200],
+  [88.5, 90.625, 88.44, 89.28, 3735300],
+  [90, 90.75, 88.25, 88.625, 2921900],
+  [88.655, 88.845, 87.345, 88.5, 2658400],
+  [89.5, 91.97, 89.28, 91.97, 4624400],
+  [91.565, 93.375, 91.095, 91.5, 4372200],
+  [92, 93.815, 89.53, 93.25, 5831600],
+  [93, 94.03, 91.155, 93.5, 4268600],
+  [92.815, 94.03, 92, 93.155, 3059200],
+  [91.75, 91.815, 90.53, 91.72, 4495500],
+  [92, 92, 89.97, 90, 3425000],
+  [91.375, 91.94, 88.815, 89.69, 3630800],
+  [89.75, 89.75, 86.75, 88.875, 4168100],
+  [88.75, 88.75, 85.065, 85.19, 5966900],
+  [85.44, 86.155, 82.03, 83.375, 7692800],
+  [83.5, 84.875, 81.5, 84.875, 7362500],
+  [84.875, 85.94, 82.565, 85.94, 6581300],
+  [98.625, 99.375, 96.345, 97.25, 19587700],
+  [96.69, 103.28, 96.47, 99.875, 10378600],
+  [102.375, 105.375, 101.155, 104.94, 9334700],
+  [106, 107.625, 104.25, 106, 10467200],
+  [104.625, 105.25, 101.75, 102.5, 5671400],
+  [102.5, 104.5, 101.72, 102.405, 5645000],
+  [104.25, 105.5, 101.72, 104.595, 4518600],
+  [104, 106.125, 103.155, 106.125, 4519500],
+  [106.125, 107.94, 105.69, 106, 5569700],
+  [106.065, 106.25, 103.655, 106.065, 4239700],
+  [105.94, 107, 104, 104.625, 4175300],
+  [105.625, 108.75, 105.53, 108.625, 4995300],
+  [108.625, 110.94, 108.53, 109.315, 4776600],
+  [110.25, 110.94, 108.75, 110.5, 4190000],
+  [110.565, 114.22, 107.75, 112.75, 6035300],
+  [117, 123, 117, 123, 12168900],
+  [120.75, 121.75, 118, 119.625, 9040800],
+  [118, 119.815, 116, 118.75, 5780300],
+  [119.125, 120.315, 118.5, 119.25, 4320800],
+  [119.125, 119.375, 116.53, 117.94, 3899100],
+  [117.815, 118.19, 116.25, 116.44, 3221400],
+  [116.375, 116.69, 114.595, 115.19, 3455500],
+  [115.155, 115.345, 110.875, 111.875, 4304200],
+  [111.25, 113, 110.5, 110.595, 4703900],
+  [111.5, 118.315, 110.72, 118.125, 8316300],
+  [116.69, 116.87, 112.62, 116, 10553900],
+  [116, 116.75, 114.19, 116, 6384800],
+  [113.62, 113.87, 111.19, 112, 7163300],
+  [111.75, 114.62, 109.44, 113.75, 7007800],
+  [114.56, 115.31, 111.56, 112.94, 5114100],
+  [113.62, 116, 112.44, 116, 5263800],
+  [118.12, 121.69, 117.5, 120.5, 6666100],
+  [119.87, 119.87, 116.06, 116.62, 7398400],
+  [116.62, 120.87, 116.56, 117, 5575000],
+  [115.87, 116.75, 113.31, 115.25, 4852300],
+  [115.06, 116.5, 112.56, 114.31, 4298100],
+  [115.87, 116, 114, 115.5, 4900500],
+  [117.5, 118.31, 114.75, 115.87, 4887700],
+  [119.87, 121.5, 118.87, 120.69, 6964800],
+  [119.25, 122, 119, 120.19, 4679200],
+  [120.19, 121.44, 119.75, 120.75, 9165000],
+  [122.87, 125.75, 122.62, 124.75, 6469800],
+  [123.87, 127.75, 123, 123.37, 6792000],
+  [122.25, 124.19, 121.75, 122.94, 4423800],
+  [123.12, 124.44, 121.56, 122.56, 5231900],
+  [123.31, 125.75, 123.12, 123.12, 4565600],
+  [124, 124.69, 122.19, 122.56, 6235200],
+  [123, 125.31, 122.75, 124.62, 5225900],
+  [124.81, 132, 124.37, 129.25, 8261400],
+  [130, 131.31, 128, 131, 5912500],
+  [130.88, 132.25, 129.5, 132.25, 3545600],
+  [132.5, 133.88, 130.81, 131, 5714500],
+  [131, 133.5, 130.63, 132.81, 6653900],
+  [132.5, 135.5, 132.13, 134, 6094500],
+  [134, 137.44, 133.88, 137.38, 4799200],
+  [137.44, 138.69, 135.38, 137.81, 5050800],
+  [135.75, 139.19, 135.75, 137.88, 5648900],
+  [138.31, 138.5, 136.19, 137.25, 4726300],
+  [138, 138.13, 134.5, 136.31, 5585600],
+  [136.38, 137.5, 135.38, 136.25, 5124800],
+  [136.5, 138.88, 133.69, 134.63, 7630200],
+  [132, 132.13, 126.06, 128.25, 14311600],
+  [127.5, 129.75, 126.87, 129, 8793600],
+  [127.62, 128.5, 123.5, 123.87, 8874200],
+  [124, 125.44, 122.62, 124.81, 6966600],
+  [123.62, 125.12, 122.75, 123, 5525500],
+  [125, 126.5, 123.56, 126.25, 6515500],
+  [126.37, 128.69, 125.81, 128.38, 5291900],
+  [126.25, 126.62, 124.62, 125.37, 5711700],
+  [125.94, 126.69, 124.37, 125.69, 4327700],
+  [124, 126, 121.81, 122.25, 4568000],
+  [122.75, 123.12, 118.19, 119.37, 6859200],
+  [120, 121.87, 118.06, 118.5, 5757500],
+  [120, 124, 117.56, 123.19, 7367000],
+  [122, 127, 121, 123.5, 6144100],
+  [123.62, 124.44, 121.12, 122.19, 4052700],
+  [121.5, 122.5, 118.94, 119.31, 5849700],
+  [120.12, 123.75, 119.81, 123.31, 5544700],
+  [123.75, 123.81, 121, 121.12, 5032200],
+  [122.75, 124.5, 122, 123.37, 4400600],
+  [125, 127.87, 124.5, 127.37, 4894100],
+  [128.5, 128.56, 126.56, 128.5, 5140000],
+  [128.38, 129.63, 123.5, 123.87, 6610900],
+  [123.87, 124.87, 121.25, 122.94, 7585200],
+  [124.37, 124.37, 121.06, 121.75, 5963100],
+  [122.75, 124.87, 122.31, 124.44, 6045500],
+  [123.37, 123.62, 121, 122, 8443300],
+  [122, 124.06, 120.87, 122.37, 6464700],
+  [122.62, 125.87, 122.06, 122.94, 6248300],
+  [125, 125.19, 122.75, 124, 4357200],
+  [124.25, 125.62, 122.69, 123.19, 4774700],
+  [124.37, 126, 122.87, 124.56, 6216900],
+  [125.62, 128.5, 125.5, 127.25, 6266900],
+  [126.5, 126.75, 124.25, 125.87, 5584800],
+  [128.38, 129.75, 128, 128.86, 5284500],
+  [128.88, 132.69, 128.38, 132, 7554500],
+  [131.5, 133.94, 130.69, 130.75, 7209500],
+  [132.5, 136.5, 131.63, 134.75, 8424800],
+  [137.5, 137.69, 134.38, 135, 5094500],
+  [134.63, 135.56, 132, 132.38, 4443600],
+  [132, 133.56, 131.94, 133.31, 4591100],
+  [134, 135, 131.94, 131.94, 5658400],
+  [132, 132.38, 129.56, 130, 6094100],
+  [131.38, 131.44, 123.75, 125.37, 14862200],
+  [126.5, 130.88, 126, 130.13, 7544700],
+  [128.75, 129.63, 126.25, 127.12, 6985600],
+  [127.19, 127.25, 124.37, 125.19, 8093000],
+  [127.5, 127.81, 121.44, 122, 7590000],
+  [120.5, 125, 120.44, 125, 7451300],
+  [126.62, 126.81, 121.37, 123, 7078000],
+  [123, 124.75, 121.69, 123.5, 7105300],
+  [122.06, 122.81, 120, 120.06, 8778800],
+  [121, 122.25, 119.62, 121, 6643900],
+  [121, 121.06, 115.5, 117.75, 10563900],
+  [118, 120, 116.75, 119.87, 7043100],
+  [122, 123.25, 119.06, 122, 6438900],
+  [122.25, 122.75, 119.06, 119.19, 8057700],
+  [119.12, 119.19, 115.06, 116.37, 14240000],
+  [115, 115.06, 111.06, 113.5, 17872300],
+  [113.5, 116.69, 113.12, 114.25, 7831100],
+  [114, 114.87, 110, 110, 8277700],
+  [110.81, 110.87, 105, 105.06, 15017800],
+  [106.5, 107.25, 104.69, 107, 14183300],
+  [106.44, 108.87, 103.87, 107.87, 13921100],
+  [108, 109, 104.69, 107, 9683000],
+  [107, 108.5, 105.44, 107.12, 9187300],
+  [108.62, 113.06, 107, 107, 11380500],
+  [93, 93, 89, 91, 69447300],
+  [93.75, 94.62, 92.5, 93.94, 26673600],
+  [94.25, 95.12, 92.12, 93.87, 13768400],
+  [94.87, 96, 94.62, 95.5, 11371600],
+  [95.5, 95.56, 92.81, 93, 9872200],
+  [94.5, 95.31, 94.25, 94.94, 9450500],
+  [97, 99, 96.25, 98.25, 11083300],
+  [98.5, 98.81, 96.37, 96.75, 9552800],
+  [96.75, 96.81, 93.69, 94.81, 11108400],
+  [95.87, 95.94, 93.5, 94.37, 10374200],
+  [94.44, 94.44, 90, 91.56, 16701900],
+  [92.75, 92.94, 90.19, 90.25, 13741900],
+  [90.5, 93.94, 90.5, 93.94, 8523600],
+  [95.06, 95.5, 92.12, 93.62, 9551900],
+  [94.62, 97.06, 94.12, 97, 8680500],
+  [97.5, 97.5, 94.87, 95, 7151700],
+  [96, 96.25, 93, 95.87, 9673100],
+  [96, 96.37, 93.87, 94.06, 6264700],
+  [94.62, 95, 93, 94.62, 8541600],
+  [94.87, 94.87, 92.62, 93.75, 8358000],
+  [94, 98.25, 93.56, 98, 18720800],
+  [99, 105.12, 98.37, 103.94, 19683100],
+  [105.5, 108.44, 104.44, 107.87, 13682500],
+  [108.81, 109.87, 106, 106.06, 10668100],
+  [105, 105, 101.81, 104.5, 9710600],
+  [105.94, 106, 104.12, 105, 3113100],
+  [104.94, 104.94, 103.37, 104.19, 5682000],
+  [103.69, 104.5, 102.12, 103.06, 5763600],
+  [102.56, 104.44, 102.25, 103.42, 5340000],
+  [103.44, 106.31, 103.37, 105.27, 6220800],
+  [109.81, 112.87, 107.94, 111.87, 14680500],
+  [113, 116.5, 112.5, 116, 9933000],
+  [117, 119.19, 115.44, 116.62, 11329500],
+  [116.25, 121, 115.5, 118.28, 8145300],
+  [120.5, 122.12, 112.25, 113.37, 16644700],
+  [111.62, 111.94, 107.56, 109, 12593800],
+  [108.12, 112.75, 106.56, 109.7, 7138100],
+  [110.19, 110.19, 106.87, 109.25, 7442300],
+  [107.75, 107.94, 104.5, 107, 9442300],
+  [108, 109.69, 105.75, 109.19, 7123600],
+  [110.69, 111.06, 108.62, 110, 7680600],
+  [109.06, 110.44, 107.75, 109.2, 4839800],
+  [108.5, 110.12, 108.06, 110.12, 4775500],
+  [109.87, 110.31, 108, 108, 4008800],
+  [109.12, 110.44, 108.19, 108.62, 4533600],
+  [109.69, 110, 108.12, 109.75, 3741100],
+  [109.56, 110.75, 109.06, 109.81, 4084800],
+  [110.44, 110.5, 108.75, 109, 2685200],
+  [109.69, 110.5, 108.56, 108.75, 3438000],
+  [109.19, 109.5, 106.62, 107.87, 2870500],
+];
+
+const START = Date.UTC(2024, 0, 2);
+const DAY = 24 * 60 * 60 * 1000;
+
+export const TA_LIB_BARS: ChartDataPoint[] = ROWS.map(([open, high, low, close, volume], index) => ({
+  time: new Date(START + index * DAY).toISOString().slice(0, 10),
+  timestamp: START + index * DAY,
+  open,
+  high,
+  low,
+  close,
+  volume
+}));
+
+export const TA_LIB_CLOSES = TA_LIB_BARS.map(bar => bar.close);
@@ -1,4 +1,5 @@
 import type { PriceAlert, TechnicalAlert, AlertNotification } from '../types/alerts';
+import type { IndicatorSignal, SignalConsensus } from '../types/indicators';
 import { notificationService } from '../services/notificationService';
 
 interface PriceData {
@@ -15,6 +16,10 @@ interface PriceData {
 interface TechnicalData {
   rsi?: number;
   macd?: { macd: number; signal: number; histogram: number };
+  adx?: { adx: number; plusDI: number; minusDI: number };
+  signals?: IndicatorSignal[]; // Indicator signals raised on the latest bar
+  consensus?: SignalConsensus; // Weighted vote of the recent signals
+  formulas?: Record<string, number | null>; // Latest value of each alert formula, keyed by formula
   volume?: number;
   averageVolume?: number;
   supportLevel?: number;
@@ -97,6 +102,35 @@ export const checkTechnicalAlert = (alert: TechnicalAlert, technicalData: Techni
         shouldTrigger = ratio >= (parameters.volumeMultiplier ?? 2);
       }
       break;
+
+    case 'adx_strong_trend':
+      if (technicalData.adx) {
+        shouldTrigger = technicalData.adx.adx > (parameters.adxLevel ?? 25);
+      }
+      break;
+
+    case 'adx_weak_trend':
+      if (technicalData.adx) {
+        shouldTrigger = technicalData.adx.adx < (parameters.adxLevel ?? 20);
+      }
+      break;
+
+    case 'sar_reversal':
+      shouldTrigger = (technicalData.signals ?? []).some(signal =>
+        signal.indicator === 'parabolic_sar' &&
+        (!parameters.signalDirection || parameters.signalDirection === signal.type)
+      );
+      break;
+
+    case 'formula_above':
+    case 'formula_below': {
+      const value = parameters.formula ? technicalData.formulas?.[parameters.formula] : undefined;
+      if (value !== undefined && value !== null) {
+        const threshold = parameters.threshold ?? 0;
+        shouldTrigger = type === 'formula_above' ? value > threshold : value < threshold;
+      }
+      break;
+    }
   }
 
   if (shouldTrigger) {
@@ -200,39 +234,6 @@ export const createAlertNotification = (
   };
 };
 
-// 🚀 Calculate RSI (simplified)
-export const calculateRSI = (prices: number[], period = 14): number => {
-  if (prices.length < period + 1) return 50;
-
-  let gains = 0;
-  let losses = 0;
-
-  // Calculate initial average gain and loss
-  for (let i = 1; i <= period; i++) {
-    const change = prices[i] - prices[i - 1];
-    if (change > 0) gains += change;
-    else losses += Math.abs(change);
-  }
-
-  let avgGain = gains / period;
-  let avgLoss = losses / period;
-
-  // Calculate RSI using Wilder's smoothing
-  for (let i = period + 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1];
-    const gain = change > 0 ? change : 0;
-    const loss = change < 0 ? Math.abs(change) : 0;
-
-    avgGain = (avgGain * (period - 1) + gain) / period;
-    avgLoss = (avgLoss * (period - 1) + loss) / period;
-  }
-
-  if (avgLoss === 0) return 100;
-  
-  const rs = avgGain / avgLoss;
-  return 100 - (100 / (1 + rs));
-};
-
 // 🚀 Detect support and resistance levels
 export const detectSupportResistance = (prices: number[], window = 20): {
   support: number[];
@@ -307,6 +308,38 @@ export const generateAlertSuggestions = (symbol: string, priceData: PriceData, t
     priority: 'medium'
   });
 
+  // Signal follow-through: confirm a confident recent signal with a 2% move in its direction
+  const seen = new Set<string>();
+  (technicalData.consensus?.signals ?? [])
+    .filter(signal => signal.type !== 'neutral' && signal.confidence >= 0.6)
+    .forEach(signal => {
+      const key = `${signal.indicator}:${signal.type}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const bullish = signal.type === 'buy';
+      suggestions.push({
+        symbol,
+        type: bullish ? 'price_above' : 'price_below',
+        condition: { value: signal.price * (bullish ? 1.02 : 0.98), operator: bullish ? 'greater_than' : 'less_than' },
+        message: `${symbol} followed through on: ${signal.message}`,
+        priority: signal.confidence >= 0.8 ? 'high' : 'medium'
+      });
+    });
+
+  // Consensus suggestion: alert if price moves against a strong consensus
+  const consensus = technicalData.consensus;
+  if (consensus && Math.abs(consensus.score) >= 0.5) {
+    const bullish = consensus.direction === 'buy';
+    suggestions.push({
+      symbol,
+      type: bullish ? 'price_below' : 'price_above',
+      condition: { value: currentPrice * (bullish ? 0.97 : 1.03), operator: bullish ? 'less_than' : 'greater_than' },
+      message: `${symbol} moved 3% against the ${bullish ? 'bullish' : 'bearish'} indicator consensus`,
+      priority: 'high'
+    });
+  }
+
   // Volume spike suggestion
   if (technicalData.averageVolume) {
     suggestions.push({
@@ -0,0 +1,198 @@
+import type { ChartDataPoint } from '../types/chart';
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateRSI,
+  calculateMACD,
+  calculateBollingerBands,
+  getPriceData
+} from './technicalIndicators';
+
+export type ChartExportFormat = 'png' | 'svg' | 'csv';
+
+export interface ChartExportHeader {
+  title: string;
+  subtitle?: string;
+  legend?: string[];
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Filesystem-safe name like "AAPL_1Y_2025-01-03.png"
+export const buildExportFilename = (symbol: string, timeframe: string, extension: string): string => {
+  const date = new Date().toISOString().slice(0, 10);
+  return `${symbol.toUpperCase()}_${timeframe}_${date}.${extension}`.replace(/[^a-zA-Z0-9._-]/g, '_');
+};
+
+export const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// CSS custom properties (hsl(var(--border)) etc.) don't resolve once the SVG leaves the page,
+// so they are replaced with the values currently in effect
+const resolveCssVariables = (markup: string): string => {
+  const styles = getComputedStyle(document.documentElement);
+  return markup.replace(/var\((--[\w-]+)\)/g, (match, name: string) => styles.getPropertyValue(name).trim() || match);
+};
+
+// Standalone SVG markup for a rendered chart, with interaction-only elements left out
+export const serializeChartSvg = (svg: SVGSVGElement, background?: string): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const { width, height } = svg.getBoundingClientRect();
+
+  clone.setAttribute('xmlns', SVG_NS);
+  clone.setAttribute('width', String(Math.round(width)));
+  clone.setAttribute('height', String(Math.round(height)));
+  clone.querySelectorAll('.chart-crosshair').forEach(node => node.remove());
+
+  if (background) {
+    const rect = document.createElementNS(SVG_NS, 'rect');
+    rect.setAttribute('width', '100%');
+    rect.setAttribute('height', '100%');
+    rect.setAttribute('fill', background);
+    clone.insertBefore(rect, clone.firstChild);
+  }
+
+  const font = getComputedStyle(svg).fontFamily;
+  if (font) clone.setAttribute('font-family', font);
+
+  return resolveCssVariables(new XMLSerializer().serializeToString(clone));
+};
+
+export const exportChartSvg = (svg: SVGSVGElement, filename: string): void => {
+  const markup = serializeChartSvg(svg);
+  downloadBlob(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }), filename);
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to rasterize chart SVG'));
+    image.src = src;
+  });
+
+// 🚀 Rasterize the chart with a header strip (title, subtitle, legend) drawn above it
+export const exportChartPng = async (
+  svg: SVGSVGElement,
+  header: ChartExportHeader,
+  filename: string,
+  pixelRatio: number = 2
+): Promise<void> => {
+  const styles = getComputedStyle(document.body);
+  const background = styles.backgroundColor && styles.backgroundColor !== 'rgba(0, 0, 0, 0)' ? styles.backgroundColor : '#ffffff';
+  const foreground = styles.color || '#0f172a';
+  const font = styles.fontFamily || 'sans-serif';
+
+  const markup = serializeChartSvg(svg, background);
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml;charset=utf-8' }));
+
+  try {
+    const image = await loadImage(url);
+    const { width, height } = svg.getBoundingClientRect();
+    const legend = header.legend ?? [];
+    const headerHeight = 28 + (header.subtitle ? 18 : 0) + (legend.length > 0 ? 20 : 0) + 8;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * pixelRatio);
+    canvas.height = Math.round((height + headerHeight) * pixelRatio);
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas 2D context is not available');
+
+    context.scale(pixelRatio, pixelRatio);
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height + headerHeight);
+
+    context.fillStyle = foreground;
+    context.font = `600 16px ${font}`;
+    context.fillText(header.title, 12, 24);
+
+    let y = 24;
+    if (header.subtitle) {
+      y += 18;
+      context.font = `12px ${font}`;
+      context.globalAlpha = 0.7;
+      context.fillText(header.subtitle, 12, y);
+      context.globalAlpha = 1;
+    }
+
+    if (legend.length > 0) {
+      y += 20;
+      context.font = `11px ${font}`;
+      context.fillText(legend.join('   •   '), 12, y);
+    }
+
+    context.drawImage(image, 0, headerHeight, width, height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('PNG encoding failed');
+    downloadBlob(blob, filename);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const formatCsvValue = (value: number | string | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return isFinite(value) ? String(Number(value.toFixed(6))) : '';
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+// Standard indicator columns computed over the full series so the visible rows keep their warm-up
+export const calculateExportIndicators = (data: ChartDataPoint[]): Record<string, (number | null)[]> => {
+  const closes = getPriceData(data, 'close');
+  const macd = calculateMACD(closes);
+  const bands = calculateBollingerBands(closes, 20, 2);
+
+  return {
+    sma_20: calculateSMA(closes, 20),
+    sma_50: calculateSMA(closes, 50),
+    ema_20: calculateEMA(closes, 20),
+    rsi_14: calculateRSI(closes, 14),
+    macd: macd.map(point => point.macd),
+    macd_signal: macd.map(point => point.signal),
+    macd_histogram: macd.map(point => point.histogram),
+    bb_upper: bands.map(point => point.upper),
+    bb_middle: bands.map(point => point.middle),
+    bb_lower: bands.map(point => point.lower),
+  };
+};
+
+// OHLCV rows for [startIndex, endIndex] plus one column per indicator series (aligned to data)
+export const buildChartCsv = (
+  data: ChartDataPoint[],
+  indicators: Record<string, (number | null)[]> = {},
+  startIndex: number = 0,
+  endIndex: number = data.length - 1
+): string => {
+  const indicatorNames = Object.keys(indicators);
+  const header = ['time', 'open', 'high', 'low', 'close', 'volume', ...indicatorNames];
+  const rows: string[] = [header.join(',')];
+
+  for (let i = Math.max(0, startIndex); i <= Math.min(data.length - 1, endIndex); i++) {
+    const point = data[i];
+    rows.push([
+      point.time,
+      point.open,
+      point.high,
+      point.low,
+      point.close,
+      point.volume,
+      ...indicatorNames.map(name => indicators[name][i]),
+    ].map(formatCsvValue).join(','));
+  }
+
+  return rows.join('\n');
+};
+
+export const exportChartCsv = (csv: string, filename: string): void => {
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), filename);
+};
@@ -1,4 +1,4 @@
-import type { ChartDataPoint, ProcessedChartData, Timeframe, VolumeProfileData, SupportResistanceLevel } from '../types/chart';
+import type { ChartDataPoint, ChartSettings, ProcessedChartData, Timeframe, VolumeProfileData, SupportResistanceLevel, ChartPattern, TrendLine, FibonacciRetracement, VisibleRange } from '../types/chart';
 import type { PriceData } from '../types/stock';
 
 // Convert PriceData to ChartDataPoint format
@@ -9,12 +9,12 @@ export const convertToChartData = (priceData: PriceData[]): ChartDataPoint[] =>
   }));
 };
 
-// Filter data based on timeframe
+// Filter data based on timeframe (measured back from the latest bar, so historical series work too)
 export const filterDataByTimeframe = (
   data: ChartDataPoint[], 
   timeframe: Timeframe
 ): ProcessedChartData => {
-  const now = new Date();
+  const now = data.length > 0 ? new Date(data[data.length - 1].timestamp) : new Date();
   let startDate: Date;
   
   switch (timeframe) {
@@ -257,21 +257,43 @@ export const formatVolume = (volume: number): string => {
   return volume.toString();
 };
 
-// Calculate OHLC from intraday data (for different timeframes)
+export type CalendarPeriod = 'daily' | 'weekly' | 'monthly';
+
+// Start (UTC) of the calendar day, Monday-based week or month containing the timestamp
+export const getPeriodStart = (timestamp: number, period: CalendarPeriod): number => {
+  const date = new Date(timestamp);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  switch (period) {
+    case 'monthly':
+      return Date.UTC(year, month, 1);
+    case 'weekly':
+      return Date.UTC(year, month, day - ((date.getUTCDay() + 6) % 7));
+    default:
+      return Date.UTC(year, month, day);
+  }
+};
+
+// Calculate OHLC from intraday data (for different timeframes). Fixed-length intervals are given
+// in minutes; calendar periods (weeks, months) roll up on their real boundaries.
 export const aggregateOHLC = (
   data: ChartDataPoint[], 
-  intervalMinutes: number
+  interval: number | CalendarPeriod
 ): ChartDataPoint[] => {
   if (data.length === 0) return [];
   
   const aggregated: ChartDataPoint[] = [];
-  const intervalMs = intervalMinutes * 60 * 1000;
+  const getBucket = typeof interval === 'number'
+    ? (timestamp: number) => Math.floor(timestamp / (interval * 60 * 1000)) * interval * 60 * 1000
+    : (timestamp: number) => getPeriodStart(timestamp, interval);
   
-  let currentInterval = Math.floor(data[0].timestamp / intervalMs) * intervalMs;
+  let currentInterval = getBucket(data[0].timestamp);
   let intervalData: ChartDataPoint[] = [];
   
   for (const point of data) {
-    const pointInterval = Math.floor(point.timestamp / intervalMs) * intervalMs;
+    const pointInterval = getBucket(point.timestamp);
     
     if (pointInterval === currentInterval) {
       intervalData.push(point);
@@ -314,43 +336,706 @@ const createOHLCFromPoints = (points: ChartDataPoint[], timestamp: number): Char
   };
 };
 
-// Calculate Average True Range (ATR) for volatility
-export const calculateATR = (data: ChartDataPoint[], period: number = 14): number[] => {
-  if (data.length < period + 1) return [];
-  
-  const trueRanges: number[] = [];
-  
-  // Calculate True Range for each period
-  for (let i = 1; i < data.length; i++) {
-    const current = data[i];
-    const previous = data[i - 1];
-    
-    const tr1 = current.high - current.low;
-    const tr2 = Math.abs(current.high - previous.close);
-    const tr3 = Math.abs(current.low - previous.close);
-    
-    trueRanges.push(Math.max(tr1, tr2, tr3));
+// Heikin-Ashi candles: averaged bars that smooth out noise while keeping the original timestamps
+export const calculateHeikinAshi = (data: ChartDataPoint[]): ChartDataPoint[] => {
+  const result: ChartDataPoint[] = [];
+
+  data.forEach((point, index) => {
+    const close = (point.open + point.high + point.low + point.close) / 4;
+    const open = index === 0
+      ? (point.open + point.close) / 2
+      : (result[index - 1].open + result[index - 1].close) / 2;
+
+    result.push({
+      ...point,
+      open,
+      close,
+      high: Math.max(point.high, open, close),
+      low: Math.min(point.low, open, close),
+    });
+  });
+
+  return result;
+};
+
+// Swing high/low used by the pattern and trend line detectors
+export interface SwingPoint {
+  index: number;
+  time: string;
+  price: number;
+  type: 'peak' | 'trough';
+}
+
+export interface PatternDetectionOptions {
+  swingWindow?: number;  // bars on each side a swing must dominate (default 3)
+  tolerance?: number;    // relative price tolerance for "equal" highs/lows (default 3%)
+  maxPatterns?: number;  // cap on returned patterns, highest confidence first (default 8)
+}
+
+// Find alternating swing highs and lows; consecutive swings of the same kind keep the extreme one
+export const findSwingPoints = (data: ChartDataPoint[], window: number = 3): SwingPoint[] => {
+  const swings: SwingPoint[] = [];
+
+  for (let i = window; i < data.length - window; i++) {
+    let isPeak = true;
+    let isTrough = true;
+
+    for (let j = i - window; j <= i + window; j++) {
+      if (j === i) continue;
+      if (data[j].high >= data[i].high) isPeak = false;
+      if (data[j].low <= data[i].low) isTrough = false;
+    }
+
+    const candidates: SwingPoint[] = [];
+    if (isPeak) candidates.push({ index: i, time: data[i].time, price: data[i].high, type: 'peak' });
+    if (isTrough) candidates.push({ index: i, time: data[i].time, price: data[i].low, type: 'trough' });
+
+    for (const swing of candidates) {
+      const last = swings[swings.length - 1];
+      if (last && last.type === swing.type) {
+        const moreExtreme = swing.type === 'peak' ? swing.price > last.price : swing.price < last.price;
+        if (moreExtreme) swings[swings.length - 1] = swing;
+      } else {
+        swings.push(swing);
+      }
+    }
   }
-  
-  // Calculate ATR using simple moving average
-  const atr: number[] = [];
-  for (let i = period - 1; i < trueRanges.length; i++) {
-    const avgTR = trueRanges.slice(i - period + 1, i + 1).reduce((sum, tr) => sum + tr, 0) / period;
-    atr.push(avgTR);
+
+  return swings;
+};
+
+// Least-squares line through (index, price) points
+const fitLine = (points: Array<{ index: number; price: number }>) => {
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.index, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.price, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+
+  points.forEach(p => {
+    sxx += (p.index - meanX) ** 2;
+    sxy += (p.index - meanX) * (p.price - meanY);
+    syy += (p.price - meanY) ** 2;
+  });
+
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const intercept = meanY - slope * meanX;
+  const r2 = sxx === 0 || syy === 0 ? 1 : (sxy * sxy) / (sxx * syy);
+
+  return { slope, intercept, r2, at: (index: number) => intercept + slope * index };
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const toPatternPoint = (swing: SwingPoint) => ({ time: swing.time, price: swing.price, role: swing.type });
+
+// First bar after `from` whose close crosses the level in the given direction
+const findBreakout = (
+  data: ChartDataPoint[],
+  from: number,
+  direction: 'up' | 'down',
+  level: (index: number) => number,
+  maxBars: number = 30
+): number | null => {
+  for (let i = from + 1; i < Math.min(data.length, from + 1 + maxBars); i++) {
+    const crossed = direction === 'up' ? data[i].close > level(i) : data[i].close < level(i);
+    if (crossed) return i;
   }
-  
-  return atr;
-};
-
-// Detect chart patterns (basic implementation)
-export const detectChartPatterns = (data: ChartDataPoint[]): any[] => {
-  // Placeholder for pattern detection algorithms
-  // This would include complex algorithms for detecting:
-  // - Triangles, channels, flags, pennants
-  // - Head and shoulders, double tops/bottoms
-  // - Cup and handle patterns
-  // Implementation would be quite extensive, so returning empty array for now
-  return [];
+  return null;
+};
+
+const buildPattern = (
+  data: ChartDataPoint[],
+  type: ChartPattern['type'],
+  swings: SwingPoint[],
+  breakoutIndex: number | null,
+  details: Pick<ChartPattern, 'confidence' | 'description' | 'bullish' | 'target' | 'stopLoss'>
+): ChartPattern => {
+  const points: ChartPattern['points'] = swings.map(toPatternPoint);
+  if (breakoutIndex !== null) {
+    points.push({ time: data[breakoutIndex].time, price: data[breakoutIndex].close, role: 'breakout' });
+  }
+  const startDate = points[0].time;
+  const endDate = points[points.length - 1].time;
+
+  return {
+    id: `${type}-${startDate}-${endDate}`,
+    type,
+    startDate,
+    endDate,
+    points,
+    ...details,
+    confidence: clamp01(details.confidence),
+  };
+};
+
+// Double top (peak-trough-peak) and double bottom (trough-peak-trough)
+const detectDoubles = (data: ChartDataPoint[], swings: SwingPoint[], tolerance: number): ChartPattern[] => {
+  const patterns: ChartPattern[] = [];
+
+  for (let i = 0; i + 2 < swings.length; i++) {
+    const [first, middle, second] = swings.slice(i, i + 3);
+    const isTop = first.type === 'peak';
+    const level = (first.price + second.price) / 2;
+    const similarity = Math.abs(first.price - second.price) / level;
+    const depth = Math.abs(level - middle.price) / level;
+
+    if (similarity > tolerance || depth < tolerance || second.index - first.index < 5) continue;
+
+    const breakout = findBreakout(data, second.index, isTop ? 'down' : 'up', () => middle.price);
+    const height = Math.abs(level - middle.price);
+
+    patterns.push(buildPattern(data, isTop ? 'double-top' : 'double-bottom', [first, middle, second], breakout, {
+      bullish: !isTop,
+      confidence: 0.4 + (1 - similarity / tolerance) * 0.2 + Math.min(depth / (tolerance * 4), 1) * 0.2 + (breakout !== null ? 0.2 : 0),
+      target: isTop ? middle.price - height : middle.price + height,
+      stopLoss: isTop ? Math.max(first.price, second.price) : Math.min(first.price, second.price),
+      description: isTop
+        ? `Two highs near $${formatPrice(level)} with support at $${formatPrice(middle.price)}${breakout !== null ? ' (broken)' : ''}`
+        : `Two lows near $${formatPrice(level)} with resistance at $${formatPrice(middle.price)}${breakout !== null ? ' (broken)' : ''}`,
+    }));
+  }
+
+  return patterns;
+};
+
+// Head and shoulders (and the inverse): shoulder, neckline, head, neckline, shoulder
+const detectHeadAndShoulders = (data: ChartDataPoint[], swings: SwingPoint[], tolerance: number): ChartPattern[] => {
+  const patterns: ChartPattern[] = [];
+
+  for (let i = 0; i + 4 < swings.length; i++) {
+    const [left, neck1, head, neck2, right] = swings.slice(i, i + 5);
+    const inverse = left.type === 'trough';
+    const headProminence = inverse
+      ? (Math.min(left.price, right.price) - head.price) / head.price
+      : (head.price - Math.max(left.price, right.price)) / head.price;
+    const shoulderSymmetry = Math.abs(left.price - right.price) / ((left.price + right.price) / 2);
+    if (headProminence < tolerance / 2 || shoulderSymmetry > tolerance * 2) continue;
+
+    const neckline = fitLine([neck1, neck2]);
+    const breakout = findBreakout(data, right.index, inverse ? 'up' : 'down', neckline.at);
+    const height = Math.abs(head.price - neckline.at(head.index));
+    const breakLevel = neckline.at(breakout ?? right.index);
+
+    patterns.push(buildPattern(data, 'head-shoulders', [left, neck1, head, neck2, right], breakout, {
+      bullish: inverse,
+      confidence: 0.45 + Math.min(headProminence / (tolerance * 3), 1) * 0.15 + (1 - shoulderSymmetry / (tolerance * 2)) * 0.2 + (breakout !== null ? 0.2 : 0),
+      target: inverse ? breakLevel + height : breakLevel - height,
+      stopLoss: right.price,
+      description: `${inverse ? 'Inverse head and shoulders' : 'Head and shoulders'} with neckline near $${formatPrice(breakLevel)}${breakout !== null ? ' (broken)' : ''}`,
+    }));
+  }
+
+  return patterns;
+};
+
+// Triangles (converging bounds) and channels (parallel bounds) over the last few swings
+const detectTrianglesAndChannels = (data: ChartDataPoint[], swings: SwingPoint[], tolerance: number): ChartPattern[] => {
+  const patterns: ChartPattern[] = [];
+
+  for (let size = 6; size >= 4; size--) {
+    for (let i = 0; i + size <= swings.length; i++) {
+      const group = swings.slice(i, i + size);
+      const peaks = group.filter(s => s.type === 'peak');
+      const troughs = group.filter(s => s.type === 'trough');
+      if (peaks.length < 2 || troughs.length < 2) continue;
+
+      const upper = fitLine(peaks);
+      const lower = fitLine(troughs);
+      const start = group[0].index;
+      const end = group[group.length - 1].index;
+      const widthStart = upper.at(start) - lower.at(start);
+      const widthEnd = upper.at(end) - lower.at(end);
+      if (end - start < 10 || widthStart <= 0 || widthEnd <= 0) continue;
+
+      const midPrice = (upper.at(end) + lower.at(end)) / 2;
+      const flatSlope = (tolerance * midPrice) / (end - start);
+      // Two-point lines always fit perfectly, so only trust r² once a side has three touches
+      const fit = peaks.length + troughs.length >= 5 ? (upper.r2 + lower.r2) / 2 : 0.5;
+
+      // Share of closes that respect the bounds (with a little slack)
+      const slack = tolerance * midPrice * 0.5;
+      const inside = data.slice(start, end + 1).filter((d, k) =>
+        d.close <= upper.at(start + k) + slack && d.close >= lower.at(start + k) - slack
+      ).length / (end - start + 1);
+      if (inside < 0.85) continue;
+
+      const convergence = widthEnd / widthStart;
+      const upperFlat = Math.abs(upper.slope) <= flatSlope;
+      const lowerFlat = Math.abs(lower.slope) <= flatSlope;
+
+      if (convergence >= 0.15 && convergence <= 0.6 && upper.slope <= flatSlope && lower.slope >= -flatSlope) {
+        // Converging: ascending (flat top), descending (flat bottom) or symmetrical
+        const kind = upperFlat && !lowerFlat ? 'Ascending' : lowerFlat && !upperFlat ? 'Descending' : 'Symmetrical';
+        const priorTrend = data[start].close - data[Math.max(0, start - 20)].close;
+        const bullish = kind === 'Ascending' || (kind === 'Symmetrical' && priorTrend >= 0);
+        const breakout = findBreakout(data, end, bullish ? 'up' : 'down', bullish ? upper.at : lower.at, 15);
+
+        patterns.push(buildPattern(data, 'triangle', group, breakout, {
+          bullish,
+          confidence: 0.25 + fit * 0.25 + (inside - 0.85) * 1.5 + (1 - Math.abs(convergence - 0.35) * 2) * 0.1 + (breakout !== null ? 0.2 : 0),
+          target: bullish ? upper.at(end) + widthStart : lower.at(end) - widthStart,
+          stopLoss: bullish ? lower.at(end) : upper.at(end),
+          description: `${kind} triangle narrowing from $${formatPrice(widthStart)} to $${formatPrice(widthEnd)}${breakout !== null ? ' (broken)' : ''}`,
+        }));
+      } else if (group.length >= 5 && Math.abs(convergence - 1) <= 0.25 && fit >= 0.6) {
+        const averageSlope = (upper.slope + lower.slope) / 2;
+        const slopeDirection = Math.abs(averageSlope) <= flatSlope ? 0 : Math.sign(averageSlope);
+        const bullish = slopeDirection >= 0;
+
+        patterns.push(buildPattern(data, 'channel', group, null, {
+          bullish,
+          confidence: 0.2 + fit * 0.3 + (inside - 0.85) * 1.5 + (1 - Math.abs(convergence - 1) * 4) * 0.1,
+          target: bullish ? upper.at(end) : lower.at(end),
+          stopLoss: bullish ? lower.at(end) : upper.at(end),
+          description: `${slopeDirection > 0 ? 'Rising' : slopeDirection < 0 ? 'Falling' : 'Horizontal'} channel about $${formatPrice(widthEnd)} wide`,
+        }));
+      }
+    }
+  }
+
+  return patterns;
+};
+
+// Flags and pennants: a sharp pole followed by a short, shallow consolidation
+const detectFlagsAndPennants = (data: ChartDataPoint[], swings: SwingPoint[], tolerance: number): ChartPattern[] => {
+  const patterns: ChartPattern[] = [];
+  const minPoleMove = Math.max(0.06, tolerance * 2);
+
+  swings.forEach(poleEnd => {
+    const bullish = poleEnd.type === 'peak';
+    const poleStartIndex = (() => {
+      let best = poleEnd.index;
+      for (let i = Math.max(0, poleEnd.index - 10); i < poleEnd.index; i++) {
+        const better = bullish ? data[i].low < data[best].low : data[i].high > data[best].high;
+        if (better) best = i;
+      }
+      return best;
+    })();
+    const poleStartPrice = bullish ? data[poleStartIndex].low : data[poleStartIndex].high;
+    const poleHeight = Math.abs(poleEnd.price - poleStartPrice);
+    if (poleStartIndex === poleEnd.index || poleHeight / poleStartPrice < minPoleMove) return;
+
+    // Consolidation runs until price escapes beyond the pole end; give up after 20 bars
+    let consolidationEnd = poleEnd.index;
+    let breakout: number | null = null;
+    for (let i = poleEnd.index + 1; i < Math.min(data.length, poleEnd.index + 21); i++) {
+      const escaped = bullish ? data[i].close > poleEnd.price : data[i].close < poleEnd.price;
+      if (escaped) {
+        breakout = i;
+        break;
+      }
+      consolidationEnd = i;
+    }
+    const bars = consolidationEnd - poleEnd.index;
+    const stillForming = consolidationEnd === data.length - 1;
+    if (bars < 4 || (breakout === null && !stillForming)) return;
+
+    const body = data.slice(poleEnd.index + 1, consolidationEnd + 1);
+    const extreme = bullish ? Math.min(...body.map(d => d.low)) : Math.max(...body.map(d => d.high));
+    const extremeIndex = poleEnd.index + 1 + body.findIndex(d => (bullish ? d.low : d.high) === extreme);
+    const retracement = Math.abs(poleEnd.price - extreme) / poleHeight;
+    if (retracement > 0.5) return;
+
+    const upper = fitLine(body.map((d, k) => ({ index: poleEnd.index + 1 + k, price: d.high })));
+    const lower = fitLine(body.map((d, k) => ({ index: poleEnd.index + 1 + k, price: d.low })));
+    const converging = upper.slope < 0 && lower.slope > 0;
+    const counterTrend = bullish ? upper.slope <= 0 && lower.slope <= 0 : upper.slope >= 0 && lower.slope >= 0;
+    if (!converging && !counterTrend) return;
+
+    const type = converging ? 'pennant' : 'flag';
+    const breakoutPrice = bullish ? upper.at(consolidationEnd) : lower.at(consolidationEnd);
+    const start: SwingPoint = { index: poleStartIndex, time: data[poleStartIndex].time, price: poleStartPrice, type: bullish ? 'trough' : 'peak' };
+    const pullback: SwingPoint = { index: extremeIndex, time: data[extremeIndex].time, price: extreme, type: bullish ? 'trough' : 'peak' };
+
+    patterns.push(buildPattern(data, type, [start, poleEnd, pullback], breakout, {
+      bullish,
+      confidence: 0.35 + Math.min(poleHeight / poleStartPrice / (minPoleMove * 2), 1) * 0.25 + (1 - retracement * 2) * 0.2 + (breakout !== null ? 0.2 : 0),
+      target: bullish ? breakoutPrice + poleHeight : breakoutPrice - poleHeight,
+      stopLoss: extreme,
+      description: `${bullish ? 'Bull' : 'Bear'} ${type} after a ${((poleHeight / poleStartPrice) * 100).toFixed(1)}% pole, ${bars} bars of consolidation`,
+    }));
+  });
+
+  return patterns;
+};
+
+// Cup and handle: rounded base between two similar rims, then a shallow handle pullback
+const detectCupAndHandle = (data: ChartDataPoint[], swings: SwingPoint[], tolerance: number): ChartPattern[] => {
+  const patterns: ChartPattern[] = [];
+
+  for (let i = 0; i + 3 < swings.length; i++) {
+    const [leftRim, bottom, rightRim, handle] = swings.slice(i, i + 4);
+    if (leftRim.type !== 'peak') continue;
+
+    const rim = (leftRim.price + rightRim.price) / 2;
+    const depth = rim - bottom.price;
+    const cupWidth = rightRim.index - leftRim.index;
+    const rimSimilarity = Math.abs(leftRim.price - rightRim.price) / rim;
+    const handleDepth = rightRim.price - handle.price;
+
+    if (cupWidth < 15 || rimSimilarity > tolerance * 1.5) continue;
+    if (depth / rim < 0.08 || depth / rim > 0.5) continue;
+    if (handleDepth <= 0 || handleDepth > depth / 3 || handle.index - rightRim.index > cupWidth / 2) continue;
+
+    // A "U" keeps a good share of bars near the bottom; a "V" does not
+    const bottomZone = bottom.price + depth / 3;
+    const cup = data.slice(leftRim.index, rightRim.index + 1);
+    const roundness = cup.filter(d => d.close <= bottomZone).length / cup.length;
+    if (roundness < 0.2) continue;
+
+    const breakout = findBreakout(data, handle.index, 'up', () => rightRim.price, 20);
+
+    patterns.push(buildPattern(data, 'cup-handle', [leftRim, bottom, rightRim, handle], breakout, {
+      bullish: true,
+      confidence: 0.35 + Math.min(roundness, 0.5) * 0.4 + (1 - rimSimilarity / (tolerance * 1.5)) * 0.15 + (breakout !== null ? 0.2 : 0),
+      target: rightRim.price + depth,
+      stopLoss: handle.price,
+      description: `${cupWidth}-bar cup ${((depth / rim) * 100).toFixed(1)}% deep with handle low at $${formatPrice(handle.price)}`,
+    }));
+  }
+
+  return patterns;
+};
+
+// Detect classic chart patterns from swing highs/lows, strongest non-overlapping ones first
+export const detectChartPatterns = (
+  data: ChartDataPoint[],
+  options: PatternDetectionOptions = {}
+): ChartPattern[] => {
+  const { swingWindow = 3, tolerance = 0.03, maxPatterns = 8 } = options;
+  if (data.length < swingWindow * 2 + 10) return [];
+
+  const swings = findSwingPoints(data, swingWindow);
+  if (swings.length < 3) return [];
+
+  const candidates = [
+    ...detectDoubles(data, swings, tolerance),
+    ...detectHeadAndShoulders(data, swings, tolerance),
+    ...detectTrianglesAndChannels(data, swings, tolerance),
+    ...detectFlagsAndPennants(data, swings, tolerance),
+    ...detectCupAndHandle(data, swings, tolerance),
+  ].sort((a, b) => b.confidence - a.confidence);
+
+  // Keep the best pattern of each type for any stretch of the chart
+  const indexOf = new Map(data.map((d, index) => [d.time, index]));
+  const selected: ChartPattern[] = [];
+
+  for (const pattern of candidates) {
+    const start = indexOf.get(pattern.startDate) ?? 0;
+    const end = indexOf.get(pattern.endDate) ?? 0;
+    const overlaps = selected.some(existing => {
+      if (existing.type !== pattern.type) return false;
+      const overlap = Math.min(end, indexOf.get(existing.endDate) ?? 0) - Math.max(start, indexOf.get(existing.startDate) ?? 0);
+      return overlap > 0.5 * Math.min(end - start, (indexOf.get(existing.endDate) ?? 0) - (indexOf.get(existing.startDate) ?? 0));
+    });
+
+    if (!overlaps) selected.push(pattern);
+    if (selected.length >= maxPatterns) break;
+  }
+
+  return selected.sort((a, b) => (indexOf.get(a.startDate) ?? 0) - (indexOf.get(b.startDate) ?? 0));
+};
+
+export interface TrendLineOptions {
+  swingWindow?: number;  // pivot strength, bars on each side (default 3)
+  tolerance?: number;    // relative distance that still counts as a touch or a break (default 1%)
+  minTouches?: number;   // pivots a line must touch (default 3)
+  maxLines?: number;     // cap on returned lines, best score first (default 6)
+  lookbackPivots?: number; // only anchor lines on the most recent pivots (default 12 per side)
+}
+
+// Fit support lines through pivot lows and resistance lines through pivot highs.
+// Slope is in price per bar; lines are scored by touches and R² and marked broken
+// once a close goes through them by more than the tolerance.
+export const detectTrendLines = (data: ChartDataPoint[], options: TrendLineOptions = {}): TrendLine[] => {
+  const { swingWindow = 3, tolerance = 0.01, minTouches = 3, maxLines = 6, lookbackPivots = 12 } = options;
+  if (data.length < swingWindow * 2 + 10) return [];
+
+  const swings = findSwingPoints(data, swingWindow);
+  const candidates: Array<{ line: TrendLine; side: 'support' | 'resistance'; score: number; endIndex: number }> = [];
+
+  (['trough', 'peak'] as const).forEach(side => {
+    const isSupport = side === 'trough';
+    const pivots = swings.filter(s => s.type === side).slice(-lookbackPivots);
+
+    for (let a = 0; a < pivots.length - 1; a++) {
+      for (let b = a + 1; b < pivots.length; b++) {
+        const first = pivots[a];
+        const second = pivots[b];
+        const slope = (second.price - first.price) / (second.index - first.index);
+        const lineAt = (index: number) => first.price + slope * (index - first.index);
+
+        // Price must respect the line between the two anchors
+        let respected = true;
+        for (let i = first.index + 1; i < second.index && respected; i++) {
+          const level = lineAt(i);
+          respected = isSupport ? data[i].close >= level * (1 - tolerance) : data[i].close <= level * (1 + tolerance);
+        }
+        if (!respected) continue;
+
+        // Walk forward until a close breaks through
+        let breakIndex: number | null = null;
+        for (let i = second.index + 1; i < data.length; i++) {
+          const level = lineAt(i);
+          const broken = isSupport ? data[i].close < level * (1 - tolerance) : data[i].close > level * (1 + tolerance);
+          if (broken) {
+            breakIndex = i;
+            break;
+          }
+        }
+        const endIndex = breakIndex ?? data.length - 1;
+
+        const touches = pivots.filter(p =>
+          p.index >= first.index && p.index <= endIndex && Math.abs(p.price - lineAt(p.index)) / lineAt(p.index) <= tolerance
+        );
+        if (touches.length < minTouches || lineAt(endIndex) <= 0) continue;
+
+        // Refit through every touch for the final slope and R²
+        const fitted = fitLine(touches);
+        const midPrice = fitted.at((first.index + endIndex) / 2);
+        const relativeSlope = fitted.slope / midPrice;
+
+        const kind = isSupport ? 'support' : 'resistance';
+        const line: TrendLine = {
+          id: `trend-${kind}-${touches[0].time}-${touches[touches.length - 1].time}`,
+          points: touches.map(t => ({ time: t.time, price: fitted.at(t.index) })),
+          slope: fitted.slope,
+          strength: touches.length,
+          type: Math.abs(relativeSlope) < 0.0005 ? 'sideways' : relativeSlope > 0 ? 'uptrend' : 'downtrend',
+          extended: breakIndex === null,
+          r2: touches.length > 2 ? fitted.r2 : 1,
+          active: breakIndex === null,
+          brokenAt: breakIndex !== null ? data[breakIndex].time : undefined,
+        };
+
+        candidates.push({
+          line,
+          side: kind,
+          score: touches.length + line.r2 + (line.active ? 1 : 0) + (endIndex - first.index) / data.length,
+          endIndex,
+        });
+      }
+    }
+  });
+
+  // Drop near-duplicates: lines of the same kind that end at almost the same price
+  const indexOf = new Map(data.map((d, index) => [d.time, index]));
+  const projectAt = (line: TrendLine, index: number) =>
+    line.points[0].price + line.slope * (index - (indexOf.get(line.points[0].time) ?? 0));
+
+  const selected: typeof candidates = [];
+  candidates.sort((a, b) => b.score - a.score).forEach(candidate => {
+    const duplicate = selected.some(existing => {
+      const at = Math.min(existing.endIndex, candidate.endIndex);
+      const existingPrice = projectAt(existing.line, at);
+      return existing.side === candidate.side &&
+        Math.abs(existingPrice - projectAt(candidate.line, at)) / existingPrice <= tolerance * 2;
+    });
+    if (!duplicate && selected.length < maxLines) selected.push(candidate);
+  });
+
+  return selected.map(candidate => candidate.line);
+};
+
+// Fractional bar index for a timestamp; times outside the series are extrapolated
+// from the average bar spacing so drawings keep their place across timeframes
+export const getTimeIndex = (data: ChartDataPoint[], time: string | number): number => {
+  if (data.length === 0) return 0;
+  const target = typeof time === 'number' ? time : new Date(time).getTime();
+  const last = data.length - 1;
+  if (last === 0) return 0;
+
+  const spacing = (data[last].timestamp - data[0].timestamp) / last || 1;
+  if (target <= data[0].timestamp) return (target - data[0].timestamp) / spacing;
+  if (target >= data[last].timestamp) return last + (target - data[last].timestamp) / spacing;
+
+  let low = 0;
+  let high = last;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (data[mid].timestamp <= target) low = mid;
+    else high = mid;
+  }
+
+  const span = data[high].timestamp - data[low].timestamp;
+  return low + (span > 0 ? (target - data[low].timestamp) / span : 0);
+};
+
+export type PriceScaleMode = ChartSettings['priceScale'];
+
+export interface PriceScale {
+  mode: PriceScaleMode;
+  scale: (price: number) => number;
+  invert: (y: number) => number;
+  ticks: number[];
+}
+
+const niceStep = (roughStep: number): number => {
+  const magnitude = Math.pow(10, Math.floor(Math.log10(roughStep)));
+  const normalized = roughStep / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3 ? 2 : normalized < 7 ? 5 : 10) * magnitude;
+};
+
+const roundTick = (value: number) => Number(value.toPrecision(12));
+
+// Axis ticks at round prices: 1-2-5 steps per decade on a log scale, evenly spaced "nice" steps otherwise
+export const generatePriceTicks = (
+  min: number,
+  max: number,
+  mode: PriceScaleMode = 'normal',
+  targetCount: number = 5
+): number[] => {
+  if (!isFinite(min) || !isFinite(max) || max <= min) return isFinite(min) ? [min] : [];
+
+  // Log ticks only pay off once the range spans a few multiples; below that linear ticks read better
+  if (mode === 'logarithmic' && min > 0 && max / min >= 3) {
+    const ticks: number[] = [];
+    for (let exponent = Math.floor(Math.log10(min)); exponent <= Math.ceil(Math.log10(max)); exponent++) {
+      [1, 2, 5].forEach(multiple => {
+        const value = roundTick(multiple * Math.pow(10, exponent));
+        if (value >= min && value <= max) ticks.push(value);
+      });
+    }
+
+    if (ticks.length >= 2) {
+      const stride = Math.ceil(ticks.length / (targetCount + 2));
+      return ticks.filter((_, index) => index % stride === 0);
+    }
+  }
+
+  const step = niceStep((max - min) / targetCount);
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max; value += step) {
+    ticks.push(roundTick(value));
+  }
+  return ticks;
+};
+
+// Maps prices onto a pixel height, linearly or logarithmically, with padding above and below.
+// Log mode needs positive prices and falls back to linear otherwise.
+export const createPriceScale = (
+  minPrice: number,
+  maxPrice: number,
+  height: number,
+  mode: PriceScaleMode = 'normal',
+  paddingRatio: number = 0.1
+): PriceScale => {
+  const isLog = mode === 'logarithmic' && minPrice > 0;
+  const toDomain = isLog ? Math.log : (price: number) => price;
+  const fromDomain = isLog ? Math.exp : (value: number) => value;
+
+  const low = toDomain(minPrice);
+  const range = toDomain(maxPrice) - low || Math.abs(low) * 0.1 || 1;
+  const domainMin = low - range * paddingRatio;
+  const domainSpan = range * (1 + 2 * paddingRatio);
+
+  const scale = (price: number) => {
+    if (!isFinite(price)) return height / 2;
+    if (isLog && price <= 0) return height;
+    return height - ((toDomain(price) - domainMin) / domainSpan) * height;
+  };
+
+  const invert = (y: number) => fromDomain(domainMin + ((height - y) / height) * domainSpan);
+
+  return {
+    mode: isLog ? 'logarithmic' : 'normal',
+    scale,
+    invert,
+    ticks: generatePriceTicks(invert(height), invert(0), isLog ? 'logarithmic' : 'normal'),
+  };
+};
+
+// Timestamp at a fractional bar index (inverse of getTimeIndex)
+export const getTimeAtIndex = (data: ChartDataPoint[], index: number): number => {
+  if (data.length === 0) return 0;
+  const last = data.length - 1;
+  if (last === 0) return data[0].timestamp;
+
+  const spacing = (data[last].timestamp - data[0].timestamp) / last || 1;
+  if (index <= 0) return data[0].timestamp + index * spacing;
+  if (index >= last) return data[last].timestamp + (index - last) * spacing;
+
+  const low = Math.floor(index);
+  return data[low].timestamp + (index - low) * (data[low + 1].timestamp - data[low].timestamp);
+};
+
+export const MIN_VISIBLE_BARS = 10;
+
+// Fractional start/end bar indices covered by a visible range; null shows the whole series
+export const getVisibleIndexRange = (
+  data: ChartDataPoint[],
+  range: VisibleRange | null
+): { start: number; end: number } => {
+  const last = Math.max(0, data.length - 1);
+  if (!range || data.length < 2) return { start: 0, end: last };
+
+  const start = Math.max(0, getTimeIndex(data, range.from));
+  const end = Math.min(last, getTimeIndex(data, range.to));
+
+  // A range that misses this series entirely falls back to the full view
+  return end - start >= 1 ? { start, end } : { start: 0, end: last };
+};
+
+const toVisibleRange = (data: ChartDataPoint[], start: number, end: number): VisibleRange | null => {
+  const last = data.length - 1;
+  const span = Math.min(last, Math.max(Math.min(MIN_VISIBLE_BARS, last), end - start));
+  const clampedStart = Math.max(0, Math.min(last - span, start));
+
+  if (clampedStart <= 0 && span >= last) return null;
+  return { from: getTimeAtIndex(data, clampedStart), to: getTimeAtIndex(data, clampedStart + span) };
+};
+
+// Zoom around a bar index; factor < 1 zooms in, > 1 zooms out
+export const zoomVisibleRange = (
+  data: ChartDataPoint[],
+  range: VisibleRange | null,
+  anchorIndex: number,
+  factor: number
+): VisibleRange | null => {
+  if (data.length < 2) return null;
+  const { start, end } = getVisibleIndexRange(data, range);
+  const span = end - start;
+  const nextSpan = span * factor;
+  const anchorRatio = span > 0 ? (anchorIndex - start) / span : 0.5;
+  const nextStart = anchorIndex - anchorRatio * nextSpan;
+
+  return toVisibleRange(data, nextStart, nextStart + nextSpan);
+};
+
+// Shift the visible window by a number of bars, stopping at either end of the series
+export const panVisibleRange = (
+  data: ChartDataPoint[],
+  range: VisibleRange | null,
+  deltaBars: number
+): VisibleRange | null => {
+  if (!range || data.length < 2) return range;
+  const { start, end } = getVisibleIndexRange(data, range);
+  return toVisibleRange(data, start + deltaBars, end + deltaBars);
+};
+
+export const FIBONACCI_RATIOS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1, 1.618];
+
+// Retracement levels between two swing points (0% at the end point, 100% back at the start)
+export const calculateFibonacciRetracement = (
+  startPoint: { time: string; price: number },
+  endPoint: { time: string; price: number },
+  id: string = `fib-${startPoint.time}-${endPoint.time}`
+): FibonacciRetracement => {
+  const move = endPoint.price - startPoint.price;
+
+  return {
+    id,
+    startPoint,
+    endPoint,
+    levels: FIBONACCI_RATIOS.map(percentage => ({
+      percentage,
+      price: endPoint.price - move * percentage,
+      label: `${(percentage * 100).toFixed(1)}%`,
+    })),
+    direction: move >= 0 ? 'uptrend' : 'downtrend',
+  };
 };
 
 // Generate realistic price levels for demo
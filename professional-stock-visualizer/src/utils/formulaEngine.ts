@@ -0,0 +1,333 @@
+import type { ChartDataPoint } from '../types/chart';
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateWMA,
+  calculateRSI,
+  calculateATRIndicator,
+  calculateStandardDeviation,
+  calculateHighest,
+  calculateLowest,
+  getPriceData
+} from './technicalIndicators';
+
+// Small expression language over bar fields, e.g. "(close - sma(close, 50)) / atr(14)".
+// Formulas compile to one value per bar; warm-up bars and undefined results are null.
+
+export interface FormulaError {
+  message: string;
+  position: number; // 0-based character offset into the formula
+}
+
+export interface FormulaValidation {
+  valid: boolean;
+  error?: FormulaError;
+}
+
+type Series = (number | null)[];
+type ArgKind = 'series' | 'period';
+
+interface FormulaFunction {
+  signatures: ArgKind[][];
+  description: string;
+  evaluate: (args: Array<Series | number>, data: ChartDataPoint[]) => Series;
+}
+
+type FormulaNode =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'field'; name: string; position: number }
+  | { kind: 'unary'; operand: FormulaNode; position: number }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: FormulaNode; right: FormulaNode; position: number }
+  | { kind: 'call'; name: string; args: FormulaNode[]; signature: ArgKind[]; position: number };
+
+interface Token {
+  type: 'number' | 'identifier' | 'operator' | 'lparen' | 'rparen' | 'comma' | 'end';
+  text: string;
+  position: number;
+}
+
+class FormulaSyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+export const FORMULA_FIELDS = ['open', 'high', 'low', 'close', 'volume', 'hl2', 'hlc3', 'ohlc4'];
+
+// Runs a calculation over a derived series: it starts at the first value and
+// carries the last value across later gaps, which stay null in the output
+const applyToSeries = (values: Series, calculate: (input: number[]) => Series): Series => {
+  const first = values.findIndex(value => value !== null);
+  if (first < 0) return values.map(() => null);
+
+  let last = values[first] as number;
+  const filled = values.slice(first).map(value => (last = value ?? last));
+  const result = calculate(filled);
+  return values.map((value, index) => (index < first || value === null ? null : result[index - first]));
+};
+
+const windowed = (calculate: (input: number[], period: number) => Series): FormulaFunction['evaluate'] =>
+  ([series, period]) => applyToSeries(series as Series, input => calculate(input, period as number));
+
+// 🚀 Functions map onto the technicalIndicators exports
+export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
+  sma: { signatures: [['series', 'period']], description: 'Simple moving average', evaluate: windowed(calculateSMA) },
+  ema: { signatures: [['series', 'period']], description: 'Exponential moving average', evaluate: windowed(calculateEMA) },
+  wma: { signatures: [['series', 'period']], description: 'Weighted moving average', evaluate: windowed(calculateWMA) },
+  stdev: { signatures: [['series', 'period']], description: 'Rolling standard deviation', evaluate: windowed(calculateStandardDeviation) },
+  highest: { signatures: [['series', 'period']], description: 'Highest value over the period', evaluate: windowed(calculateHighest) },
+  lowest: { signatures: [['series', 'period']], description: 'Lowest value over the period', evaluate: windowed(calculateLowest) },
+  rsi: {
+    signatures: [['period'], ['series', 'period']],
+    description: 'Relative strength index, of close unless a series is given',
+    evaluate: (args, data) =>
+      args.length === 1
+        ? calculateRSI(getPriceData(data, 'close'), args[0] as number)
+        : applyToSeries(args[0] as Series, input => calculateRSI(input, args[1] as number))
+  },
+  atr: {
+    signatures: [['period']],
+    description: 'Average true range',
+    evaluate: ([period], data) => calculateATRIndicator(data, period as number)
+  },
+  abs: {
+    signatures: [['series']],
+    description: 'Absolute value',
+    evaluate: ([series]) => (series as Series).map(value => (value === null ? null : Math.abs(value)))
+  },
+  min: {
+    signatures: [['series', 'series']],
+    description: 'Smaller of two series',
+    evaluate: ([a, b]) => combine(a as Series, b as Series, Math.min)
+  },
+  max: {
+    signatures: [['series', 'series']],
+    description: 'Larger of two series',
+    evaluate: ([a, b]) => combine(a as Series, b as Series, Math.max)
+  }
+};
+
+const combine = (a: Series, b: Series, operation: (x: number, y: number) => number | null): Series =>
+  a.map((x, index) => {
+    const y = b[index];
+    if (x === null || y === null) return null;
+    const value = operation(x, y);
+    return value === null || !isFinite(value) ? null : value;
+  });
+
+const tokenize = (formula: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = formula.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!match) throw new FormulaSyntaxError(`Invalid number`, i);
+      tokens.push({ type: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (/[A-Za-z_]/.test(char)) {
+      const match = formula.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ type: 'identifier', text: match[0].toLowerCase(), position: i });
+      i += match[0].length;
+    } else if ('+-*/^'.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position: i++ });
+    } else if (char === '(') {
+      tokens.push({ type: 'lparen', text: char, position: i++ });
+    } else if (char === ')') {
+      tokens.push({ type: 'rparen', text: char, position: i++ });
+    } else if (char === ',') {
+      tokens.push({ type: 'comma', text: char, position: i++ });
+    } else {
+      throw new FormulaSyntaxError(`Unexpected character '${char}'`, i);
+    }
+  }
+
+  tokens.push({ type: 'end', text: '', position: formula.length });
+  return tokens;
+};
+
+// Recursive descent: additive > multiplicative > unary minus > power (right-associative) > primary
+const parse = (formula: string): FormulaNode => {
+  const tokens = tokenize(formula);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+  const describe = (token: Token) => (token.type === 'end' ? 'end of formula' : `'${token.text}'`);
+
+  const expect = (type: Token['type'], label: string) => {
+    const token = peek();
+    if (token.type !== type) throw new FormulaSyntaxError(`Expected ${label} but found ${describe(token)}`, token.position);
+    return next();
+  };
+
+  const parseAdditive = (): FormulaNode => {
+    let left = parseMultiplicative();
+    while (peek().type === 'operator' && (peek().text === '+' || peek().text === '-')) {
+      const operator = next();
+      left = { kind: 'binary', operator: operator.text as '+' | '-', left, right: parseMultiplicative(), position: operator.position };
+    }
+    return left;
+  };
+
+  const parseMultiplicative = (): FormulaNode => {
+    let left = parseUnary();
+    while (peek().type === 'operator' && (peek().text === '*' || peek().text === '/')) {
+      const operator = next();
+      left = { kind: 'binary', operator: operator.text as '*' | '/', left, right: parseUnary(), position: operator.position };
+    }
+    return left;
+  };
+
+  const parseUnary = (): FormulaNode => {
+    if (peek().type === 'operator' && (peek().text === '-' || peek().text === '+')) {
+      const operator = next();
+      const operand = parseUnary();
+      return operator.text === '-' ? { kind: 'unary', operand, position: operator.position } : operand;
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): FormulaNode => {
+    const base = parsePrimary();
+    if (peek().type === 'operator' && peek().text === '^') {
+      const operator = next();
+      return { kind: 'binary', operator: '^', left: base, right: parseUnary(), position: operator.position };
+    }
+    return base;
+  };
+
+  const parseCall = (name: Token): FormulaNode => {
+    const definition = FORMULA_FUNCTIONS[name.text];
+    if (!definition) throw new FormulaSyntaxError(`Unknown function '${name.text}'`, name.position);
+
+    const open = expect('lparen', "'('");
+    const args: FormulaNode[] = [];
+    if (peek().type !== 'rparen') {
+      args.push(parseAdditive());
+      while (peek().type === 'comma') {
+        next();
+        args.push(parseAdditive());
+      }
+    }
+    const close = expect('rparen', "',' or ')'");
+
+    const signature = definition.signatures.find(candidate => candidate.length === args.length);
+    if (!signature) {
+      const usage = definition.signatures.map(candidate => `${name.text}(${candidate.join(', ')})`).join(' or ');
+      throw new FormulaSyntaxError(`Wrong number of arguments, expected ${usage}`, args.length > 0 ? close.position : open.position);
+    }
+
+    signature.forEach((kind, position) => {
+      const arg = args[position];
+      if (kind === 'period' && (arg.kind !== 'number' || !Number.isInteger(arg.value) || arg.value < 1)) {
+        throw new FormulaSyntaxError(`Period must be a positive whole number`, arg.position);
+      }
+    });
+
+    return { kind: 'call', name: name.text, args, signature, position: name.position };
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: parseFloat(token.text), position: token.position };
+      case 'identifier':
+        if (peek().type === 'lparen') return parseCall(token);
+        if (FORMULA_FUNCTIONS[token.text]) throw new FormulaSyntaxError(`Function '${token.text}' needs arguments`, token.position);
+        if (!FORMULA_FIELDS.includes(token.text)) throw new FormulaSyntaxError(`Unknown field '${token.text}'`, token.position);
+        return { kind: 'field', name: token.text, position: token.position };
+      case 'lparen': {
+        const inner = parseAdditive();
+        expect('rparen', "')'");
+        return inner;
+      }
+      default:
+        throw new FormulaSyntaxError(`Expected a number, field or function but found ${describe(token)}`, token.position);
+    }
+  };
+
+  if (peek().type === 'end') throw new FormulaSyntaxError('Formula is empty', 0);
+  const root = parseAdditive();
+  if (peek().type !== 'end') throw new FormulaSyntaxError(`Unexpected ${describe(peek())}`, peek().position);
+  return root;
+};
+
+const evaluateNode = (node: FormulaNode, data: ChartDataPoint[]): Series => {
+  switch (node.kind) {
+    case 'number':
+      return data.map(() => node.value);
+    case 'field':
+      return node.name === 'volume' ? data.map(point => point.volume) : getPriceData(data, node.name);
+    case 'unary':
+      return evaluateNode(node.operand, data).map(value => (value === null ? null : -value));
+    case 'binary': {
+      const left = evaluateNode(node.left, data);
+      const right = evaluateNode(node.right, data);
+      switch (node.operator) {
+        case '+': return combine(left, right, (a, b) => a + b);
+        case '-': return combine(left, right, (a, b) => a - b);
+        case '*': return combine(left, right, (a, b) => a * b);
+        case '/': return combine(left, right, (a, b) => (b === 0 ? null : a / b));
+        case '^': return combine(left, right, Math.pow);
+      }
+      break;
+    }
+    case 'call': {
+      const args = node.args.map((arg, index) =>
+        node.signature[index] === 'period' ? (arg as { value: number }).value : evaluateNode(arg, data)
+      );
+      return FORMULA_FUNCTIONS[node.name].evaluate(args, data);
+    }
+  }
+  return data.map(() => null);
+};
+
+// 🚀 Checks a formula without evaluating it; the error carries the offending position
+export const validateFormula = (formula: string): FormulaValidation => {
+  try {
+    parse(formula);
+    return { valid: true };
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      return { valid: false, error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+};
+
+// Human-readable error, e.g. "Unknown field 'clsoe' at position 8"
+export const formatFormulaError = (error: FormulaError) => `${error.message} at position ${error.position + 1}`;
+
+// 🚀 Evaluates a formula over the bars; throws with the error position when it does not parse
+export const evaluateFormula = (formula: string, data: ChartDataPoint[]): (number | null)[] => {
+  let root: FormulaNode;
+  try {
+    root = parse(formula);
+  } catch (error) {
+    if (error instanceof FormulaSyntaxError) {
+      throw new Error(`Invalid formula: ${formatFormulaError({ message: error.message, position: error.position })}`);
+    }
+    throw error;
+  }
+  return data.length > 0 ? evaluateNode(root, data) : [];
+};
+
+// Latest value of a formula, or null while it is still warming up or invalid
+export const evaluateFormulaLatest = (formula: string, data: ChartDataPoint[]): number | null => {
+  try {
+    const values = evaluateFormula(formula, data);
+    return values.length > 0 ? values[values.length - 1] : null;
+  } catch (error) {
+    console.error('Error evaluating formula:', error);
+    return null;
+  }
+};
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { ChartDataPoint } from '../types/chart';
+import {
+  calculateADX,
+  calculateATRIndicator,
+  calculateAnchoredVWAP,
+  calculateBollingerBands,
+  calculateEMA,
+  calculateMACD,
+  calculateOBV,
+  calculateRSI,
+  calculateSMA
+} from './technicalIndicators';
+import {
+  createADXCalculator,
+  createATRCalculator,
+  createBollingerCalculator,
+  createEMACalculator,
+  createMACDCalculator,
+  createOBVCalculator,
+  createRSICalculator,
+  createSMACalculator,
+  createVWAPCalculator,
+  type IncrementalIndicator
+} from './incrementalIndicators';
+import { REFERENCE_BARS, REFERENCE_CLOSES } from './__fixtures__/referenceBars';
+import { TA_LIB_BARS } from './__fixtures__/taLibReferenceBars';
+
+// Every index must agree with the batch series, nulls included
+const expectSameSeries = (streamed: (number | null)[], batch: (number | null)[]) => {
+  expect(streamed).toHaveLength(batch.length);
+  streamed.forEach((value, index) => {
+    if (batch[index] === null) {
+      expect(value, `index ${index}`).toBeNull();
+    } else {
+      expect(value, `index ${index}`).toBeCloseTo(batch[index]!, 9);
+    }
+  });
+};
+
+// A forming bar that is revised before it closes: first a stale tick, then the final value
+const withRevisions = <TInput, TOutput>(
+  calculator: IncrementalIndicator<TInput, TOutput>,
+  inputs: TInput[],
+  stale: (input: TInput) => TInput
+) =>
+  inputs.map(input => {
+    calculator.append(stale(input));
+    return calculator.updateLast(input);
+  });
+
+const staleClose = (close: number) => close * 1.03;
+const staleBar = (bar: ChartDataPoint): ChartDataPoint => ({ ...bar, high: bar.high + 1, close: bar.low, volume: bar.volume * 2 });
+
+describe('incremental calculators match the batch functions', () => {
+  it('SMA', () => {
+    expectSameSeries(createSMACalculator(10).appendMany(REFERENCE_CLOSES), calculateSMA(REFERENCE_CLOSES, 10));
+  });
+
+  it('EMA', () => {
+    expectSameSeries(createEMACalculator(10).appendMany(REFERENCE_CLOSES), calculateEMA(REFERENCE_CLOSES, 10));
+  });
+
+  it('RSI', () => {
+    expectSameSeries(createRSICalculator(14).appendMany(REFERENCE_CLOSES), calculateRSI(REFERENCE_CLOSES, 14));
+  });
+
+  it('MACD', () => {
+    const streamed = createMACDCalculator(12, 26, 9).appendMany(REFERENCE_CLOSES);
+    const batch = calculateMACD(REFERENCE_CLOSES, 12, 26, 9);
+    expectSameSeries(streamed.map(point => point.macd), batch.map(point => point.macd));
+    expectSameSeries(streamed.map(point => point.signal), batch.map(point => point.signal));
+    expectSameSeries(streamed.map(point => point.histogram), batch.map(point => point.histogram));
+  });
+
+  it('Bollinger Bands', () => {
+    const streamed = createBollingerCalculator(20, 2).appendMany(REFERENCE_CLOSES);
+    const batch = calculateBollingerBands(REFERENCE_CLOSES, 20, 2);
+    expectSameSeries(streamed.map(band => band.upper), batch.map(band => band.upper));
+    expectSameSeries(streamed.map(band => band.middle), batch.map(band => band.middle));
+    expectSameSeries(streamed.map(band => band.lower), batch.map(band => band.lower));
+  });
+
+  it('ATR', () => {
+    expectSameSeries(createATRCalculator(14).appendMany(REFERENCE_BARS), calculateATRIndicator(REFERENCE_BARS, 14));
+  });
+
+  it.each([
+    ['reference', REFERENCE_BARS],
+    ['TA-Lib', TA_LIB_BARS]
+  ] as const)('ADX on the %s bars', (_, bars) => {
+    const streamed = createADXCalculator(14).appendMany(bars);
+    const batch = calculateADX(bars, 14);
+    expectSameSeries(streamed.map(point => point.adx), batch.map(point => point.adx));
+    expectSameSeries(streamed.map(point => point.plusDI), batch.map(point => point.plusDI));
+    expectSameSeries(streamed.map(point => point.minusDI), batch.map(point => point.minusDI));
+  });
+
+  it('OBV', () => {
+    expectSameSeries(createOBVCalculator().appendMany(REFERENCE_BARS), calculateOBV(REFERENCE_BARS));
+  });
+
+  it.each([
+    [undefined, undefined],
+    ['session', undefined],
+    ['week', undefined],
+    ['month', undefined],
+    ['custom', '2024-01-20']
+  ] as const)('VWAP anchored to %s', (anchorType, customAnchor) => {
+    const streamed = createVWAPCalculator(anchorType, customAnchor).appendMany(REFERENCE_BARS);
+    const batch = calculateAnchoredVWAP(REFERENCE_BARS, anchorType, customAnchor);
+    expectSameSeries(streamed.map(point => point.value), batch.map(point => point.value));
+    expectSameSeries(streamed.map(point => point.stdDev), batch.map(point => point.stdDev));
+    expect(streamed.map(point => point.isAnchor)).toEqual(batch.map(point => point.isAnchor));
+  });
+});
+
+describe('updateLast', () => {
+  it('revises the forming bar without folding the stale value into closed state', () => {
+    expectSameSeries(withRevisions(createRSICalculator(14), REFERENCE_CLOSES, staleClose), calculateRSI(REFERENCE_CLOSES, 14));
+    expectSameSeries(withRevisions(createEMACalculator(10), REFERENCE_CLOSES, staleClose), calculateEMA(REFERENCE_CLOSES, 10));
+    expectSameSeries(withRevisions(createATRCalculator(14), REFERENCE_BARS, staleBar), calculateATRIndicator(REFERENCE_BARS, 14));
+    expectSameSeries(withRevisions(createOBVCalculator(), REFERENCE_BARS, staleBar), calculateOBV(REFERENCE_BARS));
+    expectSameSeries(
+      withRevisions(createADXCalculator(14), REFERENCE_BARS, staleBar).map(point => point.adx),
+      calculateADX(REFERENCE_BARS, 14).map(point => point.adx)
+    );
+  });
+
+  it('starts the series when nothing has been appended yet', () => {
+    const sma = createSMACalculator(1);
+    expect(sma.updateLast(42)).toBe(42);
+    expect(sma.length()).toBe(1);
+  });
+});
+
+describe('reset', () => {
+  it('replays the series from scratch', () => {
+    const macd = createMACDCalculator();
+    macd.appendMany(REFERENCE_CLOSES.slice(0, 20));
+    macd.reset();
+
+    expect(macd.length()).toBe(0);
+    expect(macd.current()).toBeNull();
+    const replayed = macd.appendMany(REFERENCE_CLOSES);
+    expectSameSeries(replayed.map(point => point.macd), calculateMACD(REFERENCE_CLOSES).map(point => point.macd));
+  });
+});
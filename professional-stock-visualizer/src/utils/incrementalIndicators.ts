@@ -0,0 +1,542 @@
+import type { ChartDataPoint } from '../types/chart';
+import type { VWAPIndicator } from '../types/indicators';
+import { getPeriodStart, type CalendarPeriod } from './chartHelpers';
+
+// Streaming counterparts of the batch functions in technicalIndicators.ts.
+// Each calculator keeps the state of every closed bar plus the bar still forming:
+// append() closes the forming bar and starts a new one, updateLast() revises the
+// forming bar. Both are O(1) and return the same values the batch functions give
+// at that index.
+
+export interface IncrementalIndicator<TInput, TOutput> {
+  append: (input: TInput) => TOutput;
+  updateLast: (input: TInput) => TOutput;
+  appendMany: (inputs: TInput[]) => TOutput[];
+  current: () => TOutput | null; // value of the forming bar, null before the first input
+  length: () => number;
+  reset: () => void;
+}
+
+// compute() derives the forming bar's value from the closed state; commit() folds a bar into it
+interface IndicatorModel<TInput, TOutput> {
+  compute: (input: TInput) => TOutput;
+  commit: (input: TInput) => void;
+  reset: () => void;
+}
+
+const createIncremental = <TInput, TOutput>(model: IndicatorModel<TInput, TOutput>): IncrementalIndicator<TInput, TOutput> => {
+  let pending: { input: TInput; output: TOutput } | null = null;
+  let closedBars = 0;
+
+  const updateLast = (input: TInput) => {
+    pending = { input, output: model.compute(input) };
+    return pending.output;
+  };
+
+  const append = (input: TInput) => {
+    if (pending) {
+      model.commit(pending.input);
+      closedBars++;
+    }
+    return updateLast(input);
+  };
+
+  return {
+    append,
+    updateLast: input => (pending ? updateLast(input) : append(input)),
+    appendMany: inputs => inputs.map(append),
+    current: () => pending?.output ?? null,
+    length: () => closedBars + (pending ? 1 : 0),
+    reset: () => {
+      pending = null;
+      closedBars = 0;
+      model.reset();
+    }
+  };
+};
+
+// Last `size` closed values with their running sum and sum of squares
+const createRollingWindow = (size: number) => {
+  let values: number[] = new Array(Math.max(0, size));
+  let head = 0;
+  let count = 0;
+  let sum = 0;
+  let sumSquares = 0;
+
+  return {
+    push: (value: number) => {
+      if (size <= 0) return;
+      if (count === size) {
+        const evicted = values[head];
+        sum -= evicted;
+        sumSquares -= evicted * evicted;
+      } else {
+        count++;
+      }
+      values[head] = value;
+      head = (head + 1) % size;
+      sum += value;
+      sumSquares += value * value;
+    },
+    sum: () => sum,
+    sumSquares: () => sumSquares,
+    reset: () => {
+      values = new Array(Math.max(0, size));
+      head = 0;
+      count = 0;
+      sum = 0;
+      sumSquares = 0;
+    }
+  };
+};
+
+const smaModel = (period: number): IndicatorModel<number, number | null> => {
+  const window = createRollingWindow(period - 1);
+  let count = 0;
+
+  return {
+    compute: value => (count + 1 < period ? null : (window.sum() + value) / period),
+    commit: value => {
+      window.push(value);
+      count++;
+    },
+    reset: () => {
+      window.reset();
+      count = 0;
+    }
+  };
+};
+
+// Seeds with the running mean like calculateEMA, then smooths with 2 / (period + 1)
+const emaModel = (period: number): IndicatorModel<number, number> => {
+  const multiplier = 2 / (period + 1);
+  let count = 0;
+  let sum = 0;
+  let previous = 0;
+
+  const compute = (value: number) => {
+    if (count === 0) return value;
+    if (count < period - 1) return (sum + value) / (count + 1);
+    return value * multiplier + previous * (1 - multiplier);
+  };
+
+  return {
+    compute,
+    commit: value => {
+      previous = compute(value);
+      sum += value;
+      count++;
+    },
+    reset: () => {
+      count = 0;
+      sum = 0;
+      previous = 0;
+    }
+  };
+};
+
+// EMA seeded with the SMA of the `period` values ending at input `seedIndex`, like technicalIndicators' seededEMA
+const seededEmaModel = (period: number, seedIndex: number): IndicatorModel<number, number | null> => {
+  const multiplier = 2 / (period + 1);
+  const window = createRollingWindow(period - 1);
+  let count = 0;
+  let previous = 0;
+
+  const compute = (value: number) => {
+    if (count < seedIndex || seedIndex < period - 1) return null;
+    if (count === seedIndex) return (window.sum() + value) / period;
+    return value * multiplier + previous * (1 - multiplier);
+  };
+
+  return {
+    compute,
+    commit: value => {
+      previous = compute(value) ?? 0;
+      window.push(value);
+      count++;
+    },
+    reset: () => {
+      window.reset();
+      count = 0;
+      previous = 0;
+    }
+  };
+};
+
+const rsiModel = (period: number): IndicatorModel<number, number | null> => {
+  let count = 0;
+  let previousClose = 0;
+  let gainSum = 0;
+  let lossSum = 0;
+  let averageGain = 0;
+  let averageLoss = 0;
+
+  // Wilder averages including the forming bar's change, or null during warm-up
+  const averagesWith = (value: number) => {
+    if (count === 0) return null;
+    const change = value - previousClose;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+
+    if (count < period) return { gain, loss, averages: null };
+    if (count === period) return { gain, loss, averages: { gain: (gainSum + gain) / period, loss: (lossSum + loss) / period } };
+    return {
+      gain,
+      loss,
+      averages: {
+        gain: (averageGain * (period - 1) + gain) / period,
+        loss: (averageLoss * (period - 1) + loss) / period
+      }
+    };
+  };
+
+  return {
+    compute: value => {
+      const averages = averagesWith(value)?.averages;
+      if (!averages) return null;
+      return averages.loss === 0 ? 100 : 100 - 100 / (1 + averages.gain / averages.loss);
+    },
+    commit: value => {
+      const step = averagesWith(value);
+      if (step) {
+        gainSum += step.gain;
+        lossSum += step.loss;
+        if (step.averages) {
+          averageGain = step.averages.gain;
+          averageLoss = step.averages.loss;
+        }
+      }
+      previousClose = value;
+      count++;
+    },
+    reset: () => {
+      count = 0;
+      previousClose = 0;
+      gainSum = 0;
+      lossSum = 0;
+      averageGain = 0;
+      averageLoss = 0;
+    }
+  };
+};
+
+const trueRangeOf = (bar: ChartDataPoint, previousClose: number) =>
+  Math.max(bar.high - bar.low, Math.abs(bar.high - previousClose), Math.abs(bar.low - previousClose));
+
+// 🚀 Simple moving average
+export const createSMACalculator = (period: number) => createIncremental(smaModel(period));
+
+// 🚀 Exponential moving average
+export const createEMACalculator = (period: number) => createIncremental(emaModel(period));
+
+// 🚀 Wilder RSI
+export const createRSICalculator = (period: number = 14) => createIncremental(rsiModel(period));
+
+// 🚀 MACD line, signal and histogram (TA-Lib seeding, like calculateMACD)
+export const createMACDCalculator = (fastPeriod: number = 12, slowPeriod: number = 26, signalPeriod: number = 9) => {
+  const start = Math.max(fastPeriod, slowPeriod) - 1;
+  const fast = seededEmaModel(fastPeriod, start);
+  const slow = seededEmaModel(slowPeriod, start);
+  const signal = seededEmaModel(signalPeriod, signalPeriod - 1);
+
+  const macdOf = (value: number) => {
+    const fastValue = fast.compute(value);
+    const slowValue = slow.compute(value);
+    return fastValue === null || slowValue === null ? null : fastValue - slowValue;
+  };
+
+  return createIncremental<number, { macd: number | null; signal: number | null; histogram: number | null }>({
+    compute: value => {
+      const macd = macdOf(value);
+      const signalValue = macd === null ? null : signal.compute(macd);
+      return { macd, signal: signalValue, histogram: macd !== null && signalValue !== null ? macd - signalValue : null };
+    },
+    commit: value => {
+      const macd = macdOf(value);
+      if (macd !== null) signal.commit(macd);
+      fast.commit(value);
+      slow.commit(value);
+    },
+    reset: () => {
+      fast.reset();
+      slow.reset();
+      signal.reset();
+    }
+  });
+};
+
+// 🚀 RSI, MACD and ADX on a symbol's daily bars, with live ticks revising the bar still forming.
+// useAlerts seeds it with the bars the charts draw, so alerts fire on the values users see.
+export const createTickIndicators = (rsiPeriod: number = 14, adxPeriod: number = 14) => {
+  const rsi = createRSICalculator(rsiPeriod);
+  const macd = createMACDCalculator();
+  const adx = createADXCalculator(adxPeriod);
+
+  let bars: ChartDataPoint[] = [];
+  let lastTimestamp: number | null = null;
+
+  return {
+    // Replace everything seen so far with a loaded history; its last bar becomes the forming bar
+    seed: (history: ChartDataPoint[]) => {
+      rsi.reset();
+      macd.reset();
+      adx.reset();
+      bars = [...history];
+      lastTimestamp = null;
+      history.forEach(bar => {
+        rsi.append(bar.close);
+        macd.append(bar.close);
+        adx.append(bar);
+      });
+    },
+    // A tick on the last bar's day revises that bar; the first tick of a later day opens a new one.
+    // isNew is false for a tick already seen (same timestamp), so callers can skip re-reads.
+    tick: (price: number, timestamp: number) => {
+      const isNew = timestamp !== lastTimestamp;
+      lastTimestamp = timestamp;
+
+      const day = getPeriodStart(timestamp, 'daily');
+      const last = bars[bars.length - 1];
+      if (last && getPeriodStart(last.timestamp, 'daily') >= day) {
+        const revised = { ...last, high: Math.max(last.high, price), low: Math.min(last.low, price), close: price };
+        bars[bars.length - 1] = revised;
+        return { isNew, rsi: rsi.updateLast(price), macd: macd.updateLast(price), adx: adx.updateLast(revised) };
+      }
+
+      const opened = {
+        time: new Date(day).toISOString().slice(0, 10),
+        timestamp: day,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume: 0
+      };
+      bars.push(opened);
+      return { isNew, rsi: rsi.append(price), macd: macd.append(price), adx: adx.append(opened) };
+    },
+    bars: () => bars
+  };
+};
+
+// 🚀 Bollinger Bands using the population standard deviation over the window
+export const createBollingerCalculator = (period: number = 20, stdDev: number = 2) => {
+  const window = createRollingWindow(period - 1);
+  let count = 0;
+
+  return createIncremental<number, { upper: number | null; middle: number | null; lower: number | null }>({
+    compute: value => {
+      if (count + 1 < period) return { upper: null, middle: null, lower: null };
+      const middle = (window.sum() + value) / period;
+      const variance = Math.max(0, (window.sumSquares() + value * value) / period - middle * middle);
+      const deviation = Math.sqrt(variance) * stdDev;
+      return { upper: middle + deviation, middle, lower: middle - deviation };
+    },
+    commit: value => {
+      window.push(value);
+      count++;
+    },
+    reset: () => {
+      window.reset();
+      count = 0;
+    }
+  });
+};
+
+// 🚀 Average true range with Wilder's smoothing, like calculateATRIndicator
+export const createATRCalculator = (period: number = 14) => {
+  let previousClose: number | null = null;
+  let trueRanges = 0;
+  let trueRangeSum = 0;
+  let atr = 0;
+
+  const compute = (bar: ChartDataPoint) => {
+    if (previousClose === null) return null;
+    const trueRange = trueRangeOf(bar, previousClose);
+    if (trueRanges + 1 < period) return null;
+    if (trueRanges + 1 === period) return (trueRangeSum + trueRange) / period;
+    return (atr * (period - 1) + trueRange) / period;
+  };
+
+  return createIncremental<ChartDataPoint, number | null>({
+    compute,
+    commit: bar => {
+      if (previousClose !== null) {
+        const value = compute(bar);
+        if (value === null) {
+          trueRangeSum += trueRangeOf(bar, previousClose);
+        } else {
+          atr = value;
+        }
+        trueRanges++;
+      }
+      previousClose = bar.close;
+    },
+    reset: () => {
+      previousClose = null;
+      trueRanges = 0;
+      trueRangeSum = 0;
+      atr = 0;
+    }
+  });
+};
+
+// 🚀 Wilder ADX with +DI/-DI, same seeding as calculateADX
+export const createADXCalculator = (period: number = 14) => {
+  type ADXValue = { adx: number | null; plusDI: number | null; minusDI: number | null };
+  const EMPTY: ADXValue = { adx: null, plusDI: null, minusDI: null };
+
+  let previous: ChartDataPoint | null = null;
+  let closedBars = 0;
+  let smoothedTR = 0;
+  let smoothedPlusDM = 0;
+  let smoothedMinusDM = 0;
+  let dxSum = 0;
+  let adx: number | null = null;
+
+  // State after folding in `bar`, without keeping it
+  const step = (bar: ChartDataPoint) => {
+    const index = closedBars;
+    if (previous === null) return { value: EMPTY, smoothed: [0, 0, 0], dxSum, adx };
+
+    const upMove = bar.high - previous.high;
+    const downMove = previous.low - bar.low;
+    const moves = [
+      trueRangeOf(bar, previous.close),
+      upMove > downMove && upMove > 0 ? upMove : 0,
+      downMove > upMove && downMove > 0 ? downMove : 0
+    ];
+    const smoothed = [smoothedTR, smoothedPlusDM, smoothedMinusDM].map((total, i) =>
+      index <= period ? total + moves[i] : total - total / period + moves[i]
+    );
+    if (index < period) return { value: EMPTY, smoothed, dxSum, adx };
+
+    const [tr, plusDM, minusDM] = smoothed;
+    const plusDI = tr === 0 ? 0 : (plusDM / tr) * 100;
+    const minusDI = tr === 0 ? 0 : (minusDM / tr) * 100;
+    const dx = plusDI + minusDI === 0 ? 0 : (Math.abs(plusDI - minusDI) / (plusDI + minusDI)) * 100;
+
+    let nextDxSum = dxSum;
+    let nextAdx = adx;
+    if (adx === null) {
+      nextDxSum += dx;
+      if (index === period * 2 - 1) nextAdx = nextDxSum / period;
+    } else {
+      nextAdx = (adx * (period - 1) + dx) / period;
+    }
+    return { value: { adx: nextAdx, plusDI, minusDI }, smoothed, dxSum: nextDxSum, adx: nextAdx };
+  };
+
+  return createIncremental<ChartDataPoint, ADXValue>({
+    compute: bar => step(bar).value,
+    commit: bar => {
+      const next = step(bar);
+      [smoothedTR, smoothedPlusDM, smoothedMinusDM] = next.smoothed;
+      dxSum = next.dxSum;
+      adx = next.adx;
+      previous = bar;
+      closedBars++;
+    },
+    reset: () => {
+      previous = null;
+      closedBars = 0;
+      smoothedTR = 0;
+      smoothedPlusDM = 0;
+      smoothedMinusDM = 0;
+      dxSum = 0;
+      adx = null;
+    }
+  });
+};
+
+// 🚀 On-balance volume
+export const createOBVCalculator = () => {
+  let obv = 0;
+  let previousClose: number | null = null;
+
+  const compute = (bar: ChartDataPoint) => {
+    if (previousClose === null || bar.close === previousClose) return obv;
+    return bar.close > previousClose ? obv + bar.volume : obv - bar.volume;
+  };
+
+  return createIncremental<ChartDataPoint, number>({
+    compute,
+    commit: bar => {
+      obv = compute(bar);
+      previousClose = bar.close;
+    },
+    reset: () => {
+      obv = 0;
+      previousClose = null;
+    }
+  });
+};
+
+// 🚀 Anchored VWAP with its volume-weighted standard deviation, resetting like calculateAnchoredVWAP
+export const createVWAPCalculator = (anchorType?: VWAPIndicator['params']['anchorType'], customAnchor?: string) => {
+  const calendarPeriod: Record<string, CalendarPeriod> = { session: 'daily', week: 'weekly', month: 'monthly' };
+  const anchorTimestamp = anchorType === 'custom' && customAnchor ? new Date(customAnchor).getTime() : null;
+
+  let count = 0;
+  let started = anchorType !== 'custom';
+  let currentPeriod: number | null = null;
+  let cumulativePriceVolume = 0;
+  let cumulativeSquaredPriceVolume = 0;
+  let cumulativeVolume = 0;
+
+  const step = (bar: ChartDataPoint) => {
+    let isAnchor = count === 0 && started;
+    let nowStarted = started;
+    let period = currentPeriod;
+
+    if (anchorType === 'custom') {
+      if (!started && anchorTimestamp !== null && bar.timestamp >= anchorTimestamp) {
+        nowStarted = true;
+        isAnchor = true;
+      }
+    } else if (anchorType) {
+      period = getPeriodStart(bar.timestamp, calendarPeriod[anchorType]);
+      if (period !== currentPeriod) isAnchor = true;
+    }
+
+    const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+    const base = isAnchor ? { pv: 0, pv2: 0, v: 0 } : { pv: cumulativePriceVolume, pv2: cumulativeSquaredPriceVolume, v: cumulativeVolume };
+    return {
+      started: nowStarted,
+      period,
+      isAnchor: nowStarted && isAnchor,
+      pv: base.pv + typicalPrice * bar.volume,
+      pv2: base.pv2 + typicalPrice * typicalPrice * bar.volume,
+      v: base.v + bar.volume
+    };
+  };
+
+  return createIncremental<ChartDataPoint, { value: number | null; stdDev: number | null; isAnchor: boolean }>({
+    compute: bar => {
+      const next = step(bar);
+      if (!next.started) return { value: null, stdDev: null, isAnchor: false };
+      if (next.v === 0) return { value: null, stdDev: null, isAnchor: next.isAnchor };
+      const vwap = next.pv / next.v;
+      return { value: vwap, stdDev: Math.sqrt(Math.max(0, next.pv2 / next.v - vwap * vwap)), isAnchor: next.isAnchor };
+    },
+    commit: bar => {
+      const next = step(bar);
+      currentPeriod = next.period;
+      started = next.started;
+      if (next.started) {
+        cumulativePriceVolume = next.pv;
+        cumulativeSquaredPriceVolume = next.pv2;
+        cumulativeVolume = next.v;
+      }
+      count++;
+    },
+    reset: () => {
+      count = 0;
+      started = anchorType !== 'custom';
+      currentPeriod = null;
+      cumulativePriceVolume = 0;
+      cumulativeSquaredPriceVolume = 0;
+      cumulativeVolume = 0;
+    }
+  });
+};
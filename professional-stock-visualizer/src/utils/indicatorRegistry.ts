@@ -0,0 +1,430 @@
+import type { ChartDataPoint } from '../types/chart';
+import type {
+  AnyIndicator,
+  BaseIndicator,
+  IndicatorCategory,
+  IndicatorOfType,
+  IndicatorPreset,
+  IndicatorTypeMap,
+  MovingAverageIndicator
+} from '../types/indicators';
+import {
+  calculateSMA,
+  calculateEMA,
+  calculateWMA,
+  calculateBollingerBands,
+  calculateRSI,
+  calculateMACD,
+  calculateStochastic,
+  calculateAnchoredVWAP,
+  calculateIchimoku,
+  calculateParabolicSAR,
+  calculateATRIndicator,
+  calculateADX,
+  calculateOBV,
+  calculatePivotPoints,
+  getPriceData
+} from './technicalIndicators';
+import { evaluateFormula } from './formulaEngine';
+
+export type RegisteredIndicatorType = keyof IndicatorTypeMap;
+export type IndicatorDisplayType = BaseIndicator['displayType'];
+
+// One plotted field of an indicator's data rows
+export interface IndicatorSeriesSpec {
+  key: string;
+  label: string;
+  colorKey: string; // style field holding the colour
+  kind?: 'line' | 'histogram';
+  negativeColorKey?: string; // histogram bars below zero
+}
+
+export interface IndicatorDefinition<T extends RegisteredIndicatorType = RegisteredIndicatorType> {
+  type: T;
+  name: string;
+  category: IndicatorCategory;
+  displayTypes: IndicatorDisplayType[]; // the first one is the default
+  defaultParams: IndicatorTypeMap[T]['params'];
+  defaultStyle: IndicatorTypeMap[T]['style'];
+  paramOptions?: Record<string, string[]>; // choices for string params
+  styleOptions?: Record<string, string[]>; // choices for string style fields
+  series: IndicatorSeriesSpec[];
+  fill?: { upperKey: string; lowerKey: string; colorKey: string; opacityKey?: string };
+  range?: [number, number]; // fixed scale for bounded oscillators
+  levels?: (params: IndicatorTypeMap[T]['params']) => number[]; // reference lines
+  calculate: (data: ChartDataPoint[], params: IndicatorTypeMap[T]['params']) => IndicatorTypeMap[T]['data'];
+}
+
+const withTime = <T extends object>(data: ChartDataPoint[], rows: T[]) =>
+  rows.map((row, index) => ({ time: data[index]?.time ?? '', ...row }));
+
+const toValueRows = (data: ChartDataPoint[], values: (number | null)[]) =>
+  values.map((value, index) => ({ time: data[index].time, value }));
+
+const MOVING_AVERAGE_SOURCES = ['close', 'open', 'high', 'low', 'hl2', 'hlc3', 'ohlc4'];
+
+// Shared definition for SMA/EMA/WMA; each registry entry adds its own type
+const movingAverage = (
+  name: string,
+  calculate: (values: number[], period: number) => (number | null)[],
+  color: string
+): Omit<IndicatorDefinition<MovingAverageIndicator['type']>, 'type'> => ({
+  name,
+  category: 'trend',
+  displayTypes: ['overlay', 'separate_panel'],
+  defaultParams: { period: 20, source: 'close' },
+  defaultStyle: { color, width: 1.5, opacity: 1, lineStyle: 'solid' },
+  paramOptions: { source: MOVING_AVERAGE_SOURCES },
+  styleOptions: { lineStyle: ['solid', 'dashed', 'dotted'] },
+  series: [{ key: 'value', label: name, colorKey: 'color' }],
+  calculate: (data, params) => toValueRows(data, calculate(getPriceData(data, params.source), params.period))
+});
+
+// Each entry is checked against the params, style and data of its own indicator type
+export type IndicatorRegistry = { [T in RegisteredIndicatorType]: IndicatorDefinition<T> };
+
+// 🚀 Every indicator the engine can instantiate, keyed by type
+export const INDICATOR_REGISTRY: IndicatorRegistry = {
+  sma: { type: 'sma', ...movingAverage('SMA', calculateSMA, '#3b82f6') },
+  ema: { type: 'ema', ...movingAverage('EMA', calculateEMA, '#f59e0b') },
+  wma: { type: 'wma', ...movingAverage('WMA', calculateWMA, '#8b5cf6') },
+  bollinger: {
+    type: 'bollinger',
+    name: 'Bollinger Bands',
+    category: 'volatility',
+    displayTypes: ['overlay', 'separate_panel'],
+    defaultParams: { period: 20, stdDev: 2, source: 'close' },
+    defaultStyle: { upperColor: '#ef4444', lowerColor: '#22c55e', middleColor: '#3b82f6', fillColor: '#3b82f6', fillOpacity: 0.08, width: 1 },
+    paramOptions: { source: ['close', 'open', 'high', 'low'] },
+    series: [
+      { key: 'upper', label: 'Upper', colorKey: 'upperColor' },
+      { key: 'middle', label: 'Middle', colorKey: 'middleColor' },
+      { key: 'lower', label: 'Lower', colorKey: 'lowerColor' }
+    ],
+    fill: { upperKey: 'upper', lowerKey: 'lower', colorKey: 'fillColor', opacityKey: 'fillOpacity' },
+    calculate: (data, params) => withTime(data, calculateBollingerBands(getPriceData(data, params.source), params.period, params.stdDev))
+  },
+  rsi: {
+    type: 'rsi',
+    name: 'RSI',
+    category: 'momentum',
+    displayTypes: ['separate_panel'],
+    defaultParams: { period: 14, overbought: 70, oversold: 30 },
+    defaultStyle: { lineColor: '#3b82f6', overboughtColor: '#ef4444', oversoldColor: '#22c55e', fillColor: '#3b82f6', width: 1.5 },
+    series: [{ key: 'value', label: 'RSI', colorKey: 'lineColor' }],
+    range: [0, 100],
+    levels: params => [params.oversold, 50, params.overbought],
+    calculate: (data, params) => toValueRows(data, calculateRSI(getPriceData(data, 'close'), params.period))
+  },
+  macd: {
+    type: 'macd',
+    name: 'MACD',
+    category: 'momentum',
+    displayTypes: ['separate_panel'],
+    defaultParams: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9, source: 'close' },
+    defaultStyle: { macdColor: '#3b82f6', signalColor: '#f59e0b', histogramPositiveColor: '#22c55e', histogramNegativeColor: '#ef4444', width: 1.5 },
+    paramOptions: { source: ['close', 'open', 'high', 'low'] },
+    series: [
+      { key: 'histogram', label: 'Histogram', colorKey: 'histogramPositiveColor', negativeColorKey: 'histogramNegativeColor', kind: 'histogram' },
+      { key: 'macd', label: 'MACD', colorKey: 'macdColor' },
+      { key: 'signal', label: 'Signal', colorKey: 'signalColor' }
+    ],
+    levels: () => [0],
+    calculate: (data, params) =>
+      withTime(data, calculateMACD(getPriceData(data, params.source), params.fastPeriod, params.slowPeriod, params.signalPeriod))
+  },
+  stochastic: {
+    type: 'stochastic',
+    name: 'Stochastic',
+    category: 'momentum',
+    displayTypes: ['separate_panel'],
+    defaultParams: { kPeriod: 14, dPeriod: 3, smooth: 3, overbought: 80, oversold: 20 },
+    defaultStyle: { kColor: '#3b82f6', dColor: '#f59e0b', overboughtColor: '#ef4444', oversoldColor: '#22c55e', width: 1.5 },
+    series: [
+      { key: 'k', label: '%K', colorKey: 'kColor' },
+      { key: 'd', label: '%D', colorKey: 'dColor' }
+    ],
+    range: [0, 100],
+    levels: params => [params.oversold, params.overbought],
+    calculate: (data, params) => {
+      const raw = calculateStochastic(data, params.kPeriod, params.dPeriod);
+      if (params.smooth <= 1) return withTime(data, raw);
+
+      // Slow stochastic: %K is smoothed first and %D follows the smoothed line
+      const smoothK = smoothSeries(raw.map(point => point.k), params.smooth);
+      const d = smoothSeries(smoothK, params.dPeriod);
+      return smoothK.map((k, index) => ({ time: data[index].time, k, d: d[index] }));
+    }
+  },
+  vwap: {
+    type: 'vwap',
+    name: 'VWAP',
+    category: 'volume',
+    displayTypes: ['overlay', 'separate_panel'],
+    defaultParams: { anchorType: 'month', bandMultipliers: [1, 2] },
+    defaultStyle: { color: '#06b6d4', width: 1.5, opacity: 0.9, bandColor: '#06b6d4' },
+    paramOptions: { anchorType: ['session', 'week', 'month', 'custom'] },
+    series: [{ key: 'value', label: 'VWAP', colorKey: 'color' }],
+    calculate: (data, params) => withTime(data, calculateAnchoredVWAP(data, params.anchorType, params.customAnchor))
+  },
+  ichimoku: {
+    type: 'ichimoku',
+    name: 'Ichimoku Cloud',
+    category: 'trend',
+    displayTypes: ['overlay', 'separate_panel'],
+    defaultParams: { conversionPeriod: 9, basePeriod: 26, laggingSpan2Period: 52, displacement: 26 },
+    defaultStyle: {
+      conversionLineColor: '#3b82f6',
+      baseLineColor: '#ef4444',
+      leadingSpan1Color: '#22c55e',
+      leadingSpan2Color: '#f97316',
+      laggingSpanColor: '#a855f7',
+      cloudUpColor: '#22c55e',
+      cloudDownColor: '#ef4444',
+      width: 1.5
+    },
+    series: [
+      { key: 'conversionLine', label: 'Tenkan', colorKey: 'conversionLineColor' },
+      { key: 'baseLine', label: 'Kijun', colorKey: 'baseLineColor' },
+      { key: 'leadingSpan1', label: 'Span A', colorKey: 'leadingSpan1Color' },
+      { key: 'leadingSpan2', label: 'Span B', colorKey: 'leadingSpan2Color' }
+    ],
+    calculate: (data, params) =>
+      calculateIchimoku(data, params.conversionPeriod, params.basePeriod, params.laggingSpan2Period, params.displacement)
+  },
+  parabolic_sar: {
+    type: 'parabolic_sar',
+    name: 'Parabolic SAR',
+    category: 'trend',
+    displayTypes: ['overlay'],
+    defaultParams: { step: 0.02, maxStep: 0.2 },
+    defaultStyle: { upColor: '#22c55e', downColor: '#ef4444', size: 2 },
+    series: [{ key: 'sar', label: 'SAR', colorKey: 'upColor' }],
+    calculate: (data, params) => withTime(data, calculateParabolicSAR(data, params.step, params.maxStep))
+  },
+  atr: {
+    type: 'atr',
+    name: 'ATR',
+    category: 'volatility',
+    displayTypes: ['separate_panel'],
+    defaultParams: { period: 14 },
+    defaultStyle: { color: '#f97316', width: 1.5 },
+    series: [{ key: 'value', label: 'ATR', colorKey: 'color' }],
+    calculate: (data, params) => toValueRows(data, calculateATRIndicator(data, params.period))
+  },
+  adx: {
+    type: 'adx',
+    name: 'ADX / DMI',
+    category: 'trend',
+    displayTypes: ['separate_panel'],
+    defaultParams: { period: 14, weakTrend: 20, strongTrend: 25 },
+    defaultStyle: { adxColor: '#8b5cf6', plusDIColor: '#22c55e', minusDIColor: '#ef4444', width: 1.5 },
+    series: [
+      { key: 'plusDI', label: '+DI', colorKey: 'plusDIColor' },
+      { key: 'minusDI', label: '-DI', colorKey: 'minusDIColor' },
+      { key: 'adx', label: 'ADX', colorKey: 'adxColor' }
+    ],
+    range: [0, 100],
+    levels: params => [params.weakTrend, params.strongTrend],
+    calculate: (data, params) => withTime(data, calculateADX(data, params.period))
+  },
+  obv: {
+    type: 'obv',
+    name: 'On-Balance Volume',
+    category: 'volume',
+    displayTypes: ['separate_panel'],
+    defaultParams: { showAverage: true, averagePeriod: 20 },
+    defaultStyle: { upColor: '#22c55e', downColor: '#ef4444', averageColor: '#f59e0b', width: 1.5 },
+    series: [
+      { key: 'obv', label: 'OBV', colorKey: 'upColor' },
+      { key: 'average', label: 'Average', colorKey: 'averageColor' }
+    ],
+    calculate: (data, params) => {
+      const obv = calculateOBV(data);
+      const average = params.showAverage ? smoothSeries(obv, params.averagePeriod) : [];
+      return obv.map((value, index) => ({
+        time: data[index].time,
+        obv: value,
+        average: params.showAverage ? average[index] : undefined
+      }));
+    }
+  },
+  pivot_points: {
+    type: 'pivot_points',
+    name: 'Pivot Points',
+    category: 'support_resistance',
+    displayTypes: ['overlay'],
+    defaultParams: { timeframe: 'daily', method: 'classic', showLevels: true, showMidpoints: false },
+    defaultStyle: {
+      pivotColor: '#f59e0b',
+      resistanceColors: ['#f87171', '#ef4444', '#b91c1c'],
+      supportColors: ['#4ade80', '#22c55e', '#15803d'],
+      width: 1,
+      lineStyle: 'dashed'
+    },
+    paramOptions: {
+      timeframe: ['daily', 'weekly', 'monthly'],
+      method: ['classic', 'fibonacci', 'camarilla', 'woodie']
+    },
+    styleOptions: { lineStyle: ['solid', 'dashed'] },
+    series: [], // levels are per period rather than per bar
+    calculate: (data, params) => calculatePivotPoints(data, params.timeframe, params.method)
+  },
+  formula: {
+    type: 'formula',
+    name: 'Formula',
+    category: 'custom',
+    displayTypes: ['separate_panel', 'overlay'],
+    defaultParams: { formula: '(close - sma(close, 50)) / atr(14)' },
+    defaultStyle: { color: '#ec4899', width: 1.5, opacity: 1 },
+    series: [{ key: 'value', label: 'Formula', colorKey: 'color' }],
+    levels: () => [0],
+    calculate: (data, params) => {
+      try {
+        return toValueRows(data, evaluateFormula(params.formula, data));
+      } catch (error) {
+        console.error('Error calculating formula indicator:', error);
+        return toValueRows(data, data.map(() => null));
+      }
+    }
+  }
+};
+
+// SMA that skips the leading nulls of an already-derived series
+const smoothSeries = (values: (number | null)[], period: number): (number | null)[] => {
+  const firstValid = values.findIndex(value => value !== null);
+  if (firstValid < 0) return values.map(() => null);
+  const smoothed = calculateSMA(values.slice(firstValid) as number[], period);
+  return [...values.slice(0, firstValid).map(() => null), ...smoothed];
+};
+
+export const getIndicatorDefinition = <K extends RegisteredIndicatorType>(type: K): IndicatorRegistry[K] => INDICATOR_REGISTRY[type];
+
+const generateIndicatorId = (type: string) => `${type}_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`;
+
+const kindOf = (value: unknown) => (Array.isArray(value) ? 'array' : typeof value);
+
+// Params or style with changes merged in; keys it does not have and values of another kind are dropped
+const mergeSettings = <T extends object>(current: T, changes: Record<string, unknown> = {}): T => {
+  const kinds = new Map(Object.entries(current).map(([key, value]) => [key, kindOf(value)]));
+  const accepted = Object.entries(changes).filter(([key, value]) => kinds.get(key) === kindOf(value));
+  return Object.assign({}, current, Object.fromEntries(accepted));
+};
+
+// New instance with the registry defaults; overrides are shallow-merged into params and style
+export const createIndicator = <K extends RegisteredIndicatorType>(
+  type: K,
+  overrides: {
+    params?: Record<string, unknown>;
+    style?: Record<string, unknown>;
+    displayType?: IndicatorDisplayType;
+    zIndex?: number;
+    name?: string;
+  } = {}
+): IndicatorOfType<K> => {
+  const definition: IndicatorDefinition<K> = getIndicatorDefinition(type);
+  if (!definition) throw new Error(`Unknown indicator type: ${type}`);
+
+  const displayType = overrides.displayType && definition.displayTypes.includes(overrides.displayType)
+    ? overrides.displayType
+    : definition.displayTypes[0];
+
+  return {
+    id: generateIndicatorId(type),
+    name: overrides.name ?? definition.name,
+    type,
+    category: definition.category,
+    enabled: true,
+    visible: true,
+    displayType,
+    zIndex: overrides.zIndex ?? 0,
+    params: mergeSettings(definition.defaultParams, overrides.params),
+    style: mergeSettings(definition.defaultStyle, overrides.style),
+    data: []
+  };
+};
+
+// Instance with edits from the indicator editor applied to its params and style
+export const updateIndicatorSettings = <K extends RegisteredIndicatorType>(
+  indicator: IndicatorOfType<K>,
+  changes: { params?: Record<string, unknown>; style?: Record<string, unknown> }
+): IndicatorOfType<K> => ({
+  ...indicator,
+  params: mergeSettings(indicator.params, changes.params),
+  style: mergeSettings(indicator.style, changes.style)
+});
+
+// Runs the registered calculation for an instance and returns it with fresh data
+export const computeIndicator = <K extends RegisteredIndicatorType>(indicator: IndicatorOfType<K>, data: ChartDataPoint[]): IndicatorOfType<K> => {
+  const definition: IndicatorDefinition<K> = getIndicatorDefinition(indicator.type);
+  if (!definition || data.length === 0) return { ...indicator, data: [] };
+  return { ...indicator, data: definition.calculate(data, indicator.params) };
+};
+
+// Reference lines the registry draws for an instance, e.g. 30 and 70 for RSI
+export const getIndicatorLevels = <K extends RegisteredIndicatorType>(indicator: IndicatorOfType<K>): number[] => {
+  const definition: IndicatorDefinition<K> = getIndicatorDefinition(indicator.type);
+  return definition.levels?.(indicator.params) ?? [];
+};
+
+// Short label such as "SMA (50, close)"
+export const describeIndicator = (indicator: AnyIndicator): string => {
+  if (indicator.type === 'formula') return `${indicator.name} (${indicator.params.formula})`;
+  const values = Object.values(indicator.params)
+    .filter(value => typeof value === 'number' || (typeof value === 'string' && value.length < 12));
+  return values.length > 0 ? `${indicator.name} (${values.join(', ')})` : indicator.name;
+};
+
+// Numeric value of a series field on a data row, or null
+export const getSeriesValue = (row: object, key: string): number | null => {
+  const value = (row as Record<string, unknown>)[key];
+  return typeof value === 'number' && isFinite(value) ? value : null;
+};
+
+// Built-in presets; instances are created fresh each time a preset is loaded
+const presetIndicators = (items: Array<[RegisteredIndicatorType, Parameters<typeof createIndicator>[1]?]>) =>
+  items.map(([type, overrides], index) => ({ ...createIndicator(type, { zIndex: index, ...overrides }), id: `${type}_preset_${index}` }));
+
+export const BUILT_IN_PRESETS: IndicatorPreset[] = [
+  {
+    id: 'builtin_golden_cross',
+    name: 'Golden Cross',
+    description: '50 and 200 period simple moving averages',
+    category: 'beginner',
+    indicators: presetIndicators([
+      ['sma', { params: { period: 50 }, style: { color: '#f59e0b' } }],
+      ['sma', { params: { period: 200 }, style: { color: '#8b5cf6' } }]
+    ])
+  },
+  {
+    id: 'builtin_momentum',
+    name: 'Momentum',
+    description: 'RSI and MACD with 20 EMA on price',
+    category: 'intermediate',
+    indicators: presetIndicators([['ema'], ['rsi'], ['macd']])
+  },
+  {
+    id: 'builtin_trend_strength',
+    name: 'Trend Strength',
+    description: 'EMA ribbon, Parabolic SAR and ADX',
+    category: 'advanced',
+    indicators: presetIndicators([
+      ['ema', { params: { period: 9 }, style: { color: '#22c55e' } }],
+      ['ema', { params: { period: 21 }, style: { color: '#3b82f6' } }],
+      ['parabolic_sar'],
+      ['adx']
+    ])
+  },
+  {
+    id: 'builtin_institutional',
+    name: 'Institutional Levels',
+    description: 'Ichimoku cloud, anchored VWAP and weekly pivots',
+    category: 'professional',
+    indicators: presetIndicators([
+      ['ichimoku'],
+      ['vwap'],
+      ['pivot_points', { params: { timeframe: 'weekly' } }],
+      ['obv']
+    ])
+  }
+];
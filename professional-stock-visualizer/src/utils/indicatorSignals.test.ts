@@ -0,0 +1,261 @@
+import { describe, expect, it } from 'vitest';
+import type { ChartDataPoint } from '../types/chart';
+import type { IndicatorSignal } from '../types/indicators';
+import {
+  calculateSignalConsensus,
+  detectBollingerSignals,
+  detectMACDSignals,
+  detectRSISignals,
+  detectStochasticSignals,
+  generateLatestSignals,
+  generateSignals,
+  SIGNAL_LOOKBACK_BARS
+} from './indicatorSignals';
+import { createSeededRandom } from './random';
+import { barsFromCloses } from './__fixtures__/referenceBars';
+import { TA_LIB_BARS } from './__fixtures__/taLibReferenceBars';
+
+const steps = (start: number, step: number, count: number) => Array.from({ length: count }, (_, i) => start + step * i);
+
+// Bar index each signal fired on
+const indicesOf = (signals: IndicatorSignal[], bars: ChartDataPoint[]) =>
+  signals.map(signal => bars.findIndex(bar => bar.time === signal.timestamp));
+
+describe('detectRSISignals', () => {
+  it('emits nothing while RSI is still warming up', () => {
+    expect(detectRSISignals(barsFromCloses(steps(100, 1, 14)))).toEqual([]);
+  });
+
+  it('sells once when RSI drifts back out of overbought', () => {
+    // RSI sits at 100 from index 14, eases below 70 at index 25
+    const bars = barsFromCloses([...steps(100, 1, 18), 117, 116, 115, 114.5, 114, 113.5, 113, 112]);
+    const signals = detectRSISignals(bars);
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0]).toMatchObject({ type: 'sell', indicator: 'rsi', timestamp: bars[25].time, price: 112 });
+    expect(signals[0].message).toBe('RSI left overbought territory after 11 bars (extreme 100.0)');
+  });
+
+  it('treats a jump from overbought straight to oversold as leaving overbought', () => {
+    // RSI is 100 at index 14, 11.5 at index 15, and climbs back above 30 at index 23
+    const bars = barsFromCloses([...steps(200, 1, 15), 114, ...steps(117, 3, 8)]);
+    const signals = detectRSISignals(bars);
+
+    expect(signals.map(signal => signal.type)).toEqual(['sell', 'buy']);
+    expect(signals[0]).toMatchObject({ timestamp: bars[15].time, confidence: 0.6 });
+    expect(signals[0].message).toBe('RSI left overbought territory after 1 bars (extreme 100.0)');
+    // The oversold stretch is measured on its own, not from the overbought entry
+    expect(signals[1]).toMatchObject({ timestamp: bars[23].time, confidence: 1 });
+    expect(signals[1].message).toBe('RSI left oversold territory after 8 bars (extreme 11.5)');
+  });
+
+  it('treats a jump from oversold straight to overbought as leaving oversold', () => {
+    const bars = barsFromCloses([...steps(300, -1, 15), 386, ...steps(383, -3, 8)]);
+    const signals = detectRSISignals(bars);
+
+    expect(signals.map(signal => signal.type)).toEqual(['buy', 'sell']);
+    expect(signals[0].timestamp).toBe(bars[15].time);
+    expect(signals[0].message).toBe('RSI left oversold territory after 1 bars (extreme 0.0)');
+    expect(signals[1].timestamp).toBe(bars[23].time);
+    expect(signals[1].message).toBe('RSI left overbought territory after 8 bars (extreme 88.5)');
+  });
+});
+
+describe('detectMACDSignals', () => {
+  // A 40-bar sine wave: peaks at 10, 50, 90 and troughs at 30, 70, 110
+  const bars = barsFromCloses(Array.from({ length: 120 }, (_, i) => 100 + 10 * Math.sin((2 * Math.PI * i) / 40)));
+
+  it('buys a few bars after each trough and sells a few bars after each peak', () => {
+    const signals = detectMACDSignals(bars);
+
+    expect(signals.map(signal => signal.type)).toEqual(['buy', 'sell', 'buy', 'sell', 'buy']);
+    expect(indicesOf(signals, bars)).toEqual([34, 56, 76, 96, 116]);
+    expect(signals[0].message).toBe('MACD crossed above its signal line below zero');
+    expect(signals[1].message).toBe('MACD crossed below its signal line above zero');
+  });
+
+  it('trusts a cross more the longer it has been since the last one', () => {
+    const [first, ...rest] = detectMACDSignals(bars);
+
+    // 8 bars after the slow EMA finished seeding, then 20 or more between crosses
+    expect(first.confidence).toBeCloseTo(0.7, 9);
+    rest.forEach(signal => expect(signal.confidence, signal.timestamp).toBe(1));
+  });
+
+  it('emits nothing before the signal line has seeded', () => {
+    expect(detectMACDSignals(bars.slice(0, 34))).toEqual([]);
+  });
+});
+
+describe('detectStochasticSignals', () => {
+  const options = { kPeriod: 5, dPeriod: 3, overbought: 80, oversold: 20 };
+
+  it('buys when %K turns up out of oversold and sells when it turns down out of overbought', () => {
+    // %K and %D sit at 0 through the decline and at 100 through the rally
+    const bars = barsFromCloses([...steps(120, -1, 20), ...steps(102, 1, 10), 105]);
+    const signals = detectStochasticSignals(bars, options);
+
+    expect(signals.map(signal => signal.type)).toEqual(['buy', 'sell']);
+    expect(indicesOf(signals, bars)).toEqual([20, 30]);
+    expect(signals[0]).toMatchObject({ confidence: 0.75, message: 'Stochastic %K crossed above %D in oversold territory' });
+    expect(signals[0].strength).toBeCloseTo(2 / 3, 9);
+    expect(signals[1]).toMatchObject({ confidence: 0.75, message: 'Stochastic %K crossed below %D in overbought territory' });
+  });
+
+  it('counts crosses in the middle of the range for less', () => {
+    // Fixed 100-110 range, so %K alternates between 40 and 60 and crosses %D every bar
+    const bars = barsFromCloses([104, 106, 104, 106, 104, 106, 104, 106, 104, 106])
+      .map(bar => ({ ...bar, high: 110, low: 100 }));
+    const signals = detectStochasticSignals(bars, options);
+
+    expect(signals.map(signal => signal.type)).toEqual(['buy', 'sell', 'buy']);
+    signals.forEach(signal => {
+      expect(signal.confidence, signal.timestamp).toBe(0.4);
+      expect(signal.message, signal.timestamp).not.toContain('territory');
+    });
+  });
+});
+
+describe('detectBollingerSignals', () => {
+  const options = { period: 10, stdDev: 2, squeezeLookback: 40 };
+  // Swings that keep widening, so the bands never squeeze
+  const widening = Array.from({ length: 30 }, (_, i) => 100 + (i % 2 === 0 ? 1 : -1) * (2 + i * 0.2));
+
+  it('flags a squeeze once and trusts the breakout that follows it', () => {
+    const calm = Array.from({ length: 12 }, (_, i) => 100 + (i % 2 === 0 ? 0.2 : -0.2));
+    const bars = barsFromCloses([...widening, ...calm, 103]);
+    const signals = detectBollingerSignals(bars, options);
+
+    // The squeeze fires as soon as the calm bars pull bandwidth back near the narrowest early swings
+    expect(signals.map(signal => signal.type)).toEqual(['neutral', 'buy']);
+    expect(indicesOf(signals, bars)).toEqual([38, 42]);
+    expect(signals[0].message).toBe('Bollinger squeeze: bandwidth 9.49% is near its 30-bar low');
+    expect(signals[1]).toMatchObject({
+      confidence: 0.8,
+      message: 'Close broke above the upper Bollinger Band out of a squeeze'
+    });
+  });
+
+  it('trusts a breakdown without a squeeze less', () => {
+    expect(detectBollingerSignals(barsFromCloses(widening), options)).toEqual([]);
+
+    const bars = barsFromCloses([...widening, 50]);
+    const signals = detectBollingerSignals(bars, options);
+
+    expect(signals).toHaveLength(1);
+    expect(signals[0]).toMatchObject({
+      type: 'sell',
+      timestamp: bars[30].time,
+      confidence: 0.55,
+      message: 'Close broke below the lower Bollinger Band'
+    });
+  });
+});
+
+describe('Parabolic SAR signals', () => {
+  it('sells when an uptrend flips and buys when the downtrend after it flips', () => {
+    const bars = barsFromCloses([...steps(100, 1, 20), ...steps(118, -1, 20), ...steps(100, 1, 20)])
+      .map(bar => ({ ...bar, high: bar.close + 1, low: bar.close - 1 }));
+    const signals = generateSignals(bars).filter(signal => signal.indicator === 'parabolic_sar');
+
+    expect(signals.map(signal => signal.type)).toEqual(['sell', 'buy']);
+    expect(indicesOf(signals, bars)).toEqual([21, 41]);
+    expect(signals[0].message).toBe('Parabolic SAR flipped bearish after a 20-bar uptrend');
+    expect(signals[1].message).toBe('Parabolic SAR flipped bullish after a 20-bar downtrend');
+    signals.forEach(signal => expect(signal.confidence, signal.timestamp).toBe(1));
+  });
+});
+
+describe('calculateSignalConsensus', () => {
+  const bars = barsFromCloses(steps(100, 1, 30));
+  const last = bars.length - 1;
+
+  const signalOn = (index: number, type: IndicatorSignal['type'], strength = 1, confidence = 1): IndicatorSignal => ({
+    type,
+    strength,
+    confidence,
+    indicator: 'rsi',
+    message: '',
+    timestamp: bars[index].time,
+    price: bars[index].close
+  });
+
+  it('is neutral with no signals', () => {
+    expect(calculateSignalConsensus([], bars)).toEqual({
+      score: 0,
+      direction: 'neutral',
+      buyCount: 0,
+      sellCount: 0,
+      neutralCount: 0,
+      signals: []
+    });
+    expect(calculateSignalConsensus([], []).score).toBe(0);
+  });
+
+  it('keeps the score between -1 and 1', () => {
+    const buys = Array.from({ length: 10 }, (_, age) => signalOn(last - age, 'buy'));
+    expect(calculateSignalConsensus(buys, bars).score).toBe(1);
+    expect(calculateSignalConsensus(buys.map(signal => ({ ...signal, type: 'sell' as const })), bars).score).toBe(-1);
+
+    const random = createSeededRandom(3);
+    for (let run = 0; run < 50; run++) {
+      const signals = Array.from({ length: 12 }, () =>
+        signalOn(last - Math.floor(random() * 15), random() < 0.5 ? 'buy' : 'sell', random(), random())
+      );
+      const { score } = calculateSignalConsensus(signals, bars);
+      expect(score, `run ${run}`).toBeGreaterThanOrEqual(-1);
+      expect(score, `run ${run}`).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('halves a signal\'s weight every halfLife bars of age', () => {
+    // Buy weight 1 today against sell weight 1/2 from five bars ago: net 0.5 of 1.5
+    const consensus = calculateSignalConsensus([signalOn(last, 'buy'), signalOn(last - 5, 'sell')], bars);
+
+    expect(consensus.score).toBeCloseTo(1 / 3, 9);
+    expect(consensus.direction).toBe('buy');
+    expect(consensus.signals.map(signal => signal.type)).toEqual(['buy', 'sell']);
+  });
+
+  it('weighs each signal by strength times confidence', () => {
+    const strong = signalOn(last, 'sell', 1, 0.9);
+    const weak = signalOn(last, 'buy', 0.3, 0.5);
+
+    expect(calculateSignalConsensus([strong, weak], bars).score).toBeCloseTo((0.15 - 0.9) / 1.05, 9);
+    // A lone weak signal stays close to zero instead of counting as a unanimous vote
+    expect(calculateSignalConsensus([weak], bars)).toMatchObject({ direction: 'neutral', buyCount: 1 });
+    expect(calculateSignalConsensus([weak], bars).score).toBeCloseTo(0.15, 9);
+  });
+
+  it('counts neutral signals without weighing them and ignores signals outside the lookback', () => {
+    const consensus = calculateSignalConsensus(
+      [signalOn(last, 'neutral'), signalOn(last, 'sell'), signalOn(last - 10, 'buy')],
+      bars
+    );
+
+    expect(consensus).toMatchObject({ score: -1, direction: 'sell', buyCount: 0, sellCount: 1, neutralCount: 1 });
+    expect(consensus.signals).toHaveLength(2);
+  });
+});
+
+describe('generateLatestSignals', () => {
+  it('raises the same newest-bar signals as the full history', () => {
+    let compared = 0;
+    for (let end = SIGNAL_LOOKBACK_BARS; end <= TA_LIB_BARS.length; end++) {
+      const bars = TA_LIB_BARS.slice(0, end);
+      const full = generateSignals(bars).filter(signal => signal.timestamp === bars[end - 1].time);
+      const latest = generateLatestSignals(bars);
+
+      // RSI and MACD smooth from the window's first bar instead of the first bar overall, so the
+      // same signals fire with strengths a few thousandths apart
+      expect(latest.map(({ type, indicator }) => `${indicator} ${type}`), `bar ${end - 1}`)
+        .toEqual(full.map(({ type, indicator }) => `${indicator} ${type}`));
+      latest.forEach((signal, index) => {
+        expect(signal.strength, `${signal.indicator} strength at bar ${end - 1}`).toBeCloseTo(full[index].strength, 2);
+        expect(signal.confidence, `${signal.indicator} confidence at bar ${end - 1}`).toBeCloseTo(full[index].confidence, 9);
+      });
+      compared += full.length;
+    }
+    expect(compared).toBeGreaterThan(10);
+  });
+});
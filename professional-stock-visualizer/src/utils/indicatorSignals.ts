@@ -0,0 +1,273 @@
+import type { ChartDataPoint } from '../types/chart';
+import type { IndicatorSignal, SignalConsensus } from '../types/indicators';
+import {
+  calculateRSI,
+  calculateMACD,
+  calculateBollingerBands,
+  calculateStochastic,
+  calculateParabolicSAR,
+  detectParabolicSARSignals,
+  getPriceData
+} from './technicalIndicators';
+
+export interface SignalOptions {
+  rsi?: { period: number; overbought: number; oversold: number };
+  macd?: { fastPeriod: number; slowPeriod: number; signalPeriod: number };
+  bollinger?: { period: number; stdDev: number; squeezeLookback: number };
+  stochastic?: { kPeriod: number; dPeriod: number; overbought: number; oversold: number };
+  sar?: { step: number; maxStep: number };
+}
+
+const DEFAULT_SIGNAL_OPTIONS: Required<SignalOptions> = {
+  rsi: { period: 14, overbought: 70, oversold: 30 },
+  macd: { fastPeriod: 12, slowPeriod: 26, signalPeriod: 9 },
+  bollinger: { period: 20, stdDev: 2, squeezeLookback: 120 },
+  stochastic: { kPeriod: 14, dPeriod: 3, overbought: 80, oversold: 20 },
+  sar: { step: 0.02, maxStep: 0.2 }
+};
+
+const clamp = (value: number, min = 0, max = 1) => Math.min(max, Math.max(min, value));
+
+// Fewer bars since the previous event means a choppier market and a less trustworthy signal
+const confidenceFromSpacing = (barsSincePrevious: number, fullAt: number) =>
+  0.5 + 0.5 * clamp(barsSincePrevious / fullAt);
+
+const signalAt = (
+  data: ChartDataPoint[],
+  index: number,
+  fields: Omit<IndicatorSignal, 'timestamp' | 'price'>
+): IndicatorSignal => ({ ...fields, timestamp: data[index].time, price: data[index].close });
+
+// 🚀 RSI leaving the overbought zone (sell) or the oversold zone (buy)
+export const detectRSISignals = (
+  data: ChartDataPoint[],
+  { period, overbought, oversold } = DEFAULT_SIGNAL_OPTIONS.rsi
+): IndicatorSignal[] => {
+  const rsi = calculateRSI(getPriceData(data, 'close'), period);
+  const signals: IndicatorSignal[] = [];
+  let zone: 'overbought' | 'oversold' | null = null;
+  let zoneEntry = -1;
+  let extreme = 50;
+
+  const exitZone = (index: number) => {
+    const leftOverbought = zone === 'overbought';
+    const depth = leftOverbought ? (extreme - overbought) / (100 - overbought) : (oversold - extreme) / oversold;
+    const barsInZone = index - zoneEntry;
+    signals.push(signalAt(data, index, {
+      type: leftOverbought ? 'sell' : 'buy',
+      strength: clamp(depth * 2, 0.1),
+      indicator: 'rsi',
+      message: `RSI left ${zone} territory after ${barsInZone} bars (extreme ${extreme.toFixed(1)})`,
+      confidence: 0.5 + 0.5 * clamp(barsInZone / 5)
+    }));
+  };
+
+  for (let i = 1; i < rsi.length; i++) {
+    const current = rsi[i];
+    if (current === null) continue;
+
+    const currentZone = current > overbought ? 'overbought' : current < oversold ? 'oversold' : null;
+    // Jumping straight from one extreme to the other also leaves the first zone
+    if (zone && currentZone !== zone) exitZone(i);
+
+    if (currentZone && currentZone !== zone) {
+      zoneEntry = i;
+      extreme = current;
+    }
+    if (currentZone === 'overbought') extreme = Math.max(extreme, current);
+    if (currentZone === 'oversold') extreme = Math.min(extreme, current);
+    zone = currentZone;
+  }
+
+  return signals;
+};
+
+// 🚀 MACD line crossing its signal line
+export const detectMACDSignals = (
+  data: ChartDataPoint[],
+  { fastPeriod, slowPeriod, signalPeriod } = DEFAULT_SIGNAL_OPTIONS.macd
+): IndicatorSignal[] => {
+  const macd = calculateMACD(getPriceData(data, 'close'), fastPeriod, slowPeriod, signalPeriod);
+  const signals: IndicatorSignal[] = [];
+  let lastCross = slowPeriod;
+
+  // The EMAs are still seeding before the slow period
+  for (let i = Math.max(1, slowPeriod); i < macd.length; i++) {
+    const previous = macd[i - 1].histogram;
+    const current = macd[i].histogram;
+    const line = macd[i].macd;
+    if (previous === null || current === null || line === null) continue;
+
+    const bullish = previous <= 0 && current > 0;
+    const bearish = previous >= 0 && current < 0;
+    if (!bullish && !bearish) continue;
+
+    const price = data[i].close;
+    signals.push(signalAt(data, i, {
+      type: bullish ? 'buy' : 'sell',
+      strength: price > 0 ? clamp(Math.abs(line) / (price * 0.01), 0.1) : 0.1,
+      indicator: 'macd',
+      message: `MACD crossed ${bullish ? 'above' : 'below'} its signal line ${line >= 0 ? 'above' : 'below'} zero`,
+      confidence: confidenceFromSpacing(i - lastCross, 20)
+    }));
+    lastCross = i;
+  }
+
+  return signals;
+};
+
+// 🚀 Bandwidth squeezes (direction unknown, so neutral) and closes outside the bands
+export const detectBollingerSignals = (
+  data: ChartDataPoint[],
+  { period, stdDev, squeezeLookback } = DEFAULT_SIGNAL_OPTIONS.bollinger
+): IndicatorSignal[] => {
+  const bands = calculateBollingerBands(getPriceData(data, 'close'), period, stdDev);
+  const bandwidth = bands.map(({ upper, middle, lower }) =>
+    upper !== null && middle !== null && lower !== null && middle !== 0 ? (upper - lower) / middle : null
+  );
+  const signals: IndicatorSignal[] = [];
+  let inSqueeze = false;
+  let lastSqueeze = -Infinity;
+
+  for (let i = period; i < data.length; i++) {
+    const width = bandwidth[i];
+    const { upper, middle, lower } = bands[i];
+    const previousBand = bands[i - 1];
+    if (width === null || upper === null || middle === null || lower === null) continue;
+
+    // Squeeze: bandwidth within 10% of its lowest over the lookback
+    const history = bandwidth.slice(Math.max(0, i - squeezeLookback + 1), i + 1).filter((value): value is number => value !== null);
+    if (history.length >= period) {
+      const lowest = Math.min(...history);
+      const average = history.reduce((sum, value) => sum + value, 0) / history.length;
+      const squeezed = width <= lowest * 1.1;
+      if (squeezed && !inSqueeze) {
+        signals.push(signalAt(data, i, {
+          type: 'neutral',
+          strength: clamp(1 - width / average),
+          indicator: 'bollinger',
+          message: `Bollinger squeeze: bandwidth ${(width * 100).toFixed(2)}% is near its ${history.length}-bar low`,
+          confidence: 0.5
+        }));
+        lastSqueeze = i;
+      }
+      inSqueeze = squeezed;
+    }
+
+    if (previousBand.upper === null || previousBand.lower === null) continue;
+    const close = data[i].close;
+    const previousClose = data[i - 1].close;
+    const breakoutUp = close > upper && previousClose <= previousBand.upper;
+    const breakoutDown = close < lower && previousClose >= previousBand.lower;
+    if (!breakoutUp && !breakoutDown) continue;
+
+    const halfWidth = upper - middle;
+    const overshoot = halfWidth > 0 ? (breakoutUp ? close - upper : lower - close) / halfWidth : 0;
+    const afterSqueeze = i - lastSqueeze <= 10;
+    signals.push(signalAt(data, i, {
+      type: breakoutUp ? 'buy' : 'sell',
+      strength: clamp(0.5 + overshoot),
+      indicator: 'bollinger',
+      message: `Close broke ${breakoutUp ? 'above the upper' : 'below the lower'} Bollinger Band${afterSqueeze ? ' out of a squeeze' : ''}`,
+      confidence: afterSqueeze ? 0.8 : 0.55
+    }));
+  }
+
+  return signals;
+};
+
+// 🚀 %K crossing %D; crosses inside the overbought/oversold zones count for more
+export const detectStochasticSignals = (
+  data: ChartDataPoint[],
+  { kPeriod, dPeriod, overbought, oversold } = DEFAULT_SIGNAL_OPTIONS.stochastic
+): IndicatorSignal[] => {
+  const stochastic = calculateStochastic(data, kPeriod, dPeriod);
+  const signals: IndicatorSignal[] = [];
+
+  for (let i = 1; i < stochastic.length; i++) {
+    const previous = stochastic[i - 1];
+    const current = stochastic[i];
+    if (previous.k === null || previous.d === null || current.k === null || current.d === null) continue;
+
+    const bullish = previous.k <= previous.d && current.k > current.d;
+    const bearish = previous.k >= previous.d && current.k < current.d;
+    if (!bullish && !bearish) continue;
+
+    const inZone = bullish ? Math.min(previous.k, current.k) < oversold : Math.max(previous.k, current.k) > overbought;
+    signals.push(signalAt(data, i, {
+      type: bullish ? 'buy' : 'sell',
+      strength: clamp(bullish ? (100 - current.k) / 100 : current.k / 100),
+      indicator: 'stochastic',
+      message: `Stochastic %K crossed ${bullish ? 'above' : 'below'} %D${inZone ? ` in ${bullish ? 'oversold' : 'overbought'} territory` : ''}`,
+      confidence: inZone ? 0.75 : 0.4
+    }));
+  }
+
+  return signals;
+};
+
+// 🚀 Every detector over the same bars, in bar order
+export const generateSignals = (data: ChartDataPoint[], options: SignalOptions = {}): IndicatorSignal[] => {
+  if (data.length < 2) return [];
+  const settings = { ...DEFAULT_SIGNAL_OPTIONS, ...options };
+  const indexByTime = new Map(data.map((point, index) => [point.time, index]));
+
+  const signals = [
+    ...detectRSISignals(data, settings.rsi),
+    ...detectMACDSignals(data, settings.macd),
+    ...detectBollingerSignals(data, settings.bollinger),
+    ...detectStochasticSignals(data, settings.stochastic),
+    ...detectParabolicSARSignals(data, calculateParabolicSAR(data, settings.sar.step, settings.sar.maxStep))
+  ];
+
+  return signals.sort((a, b) => (indexByTime.get(a.timestamp) ?? 0) - (indexByTime.get(b.timestamp) ?? 0));
+};
+
+// Trailing bars every detector looks back over with the default options; the Bollinger squeeze
+// reaches furthest. Bars before them only nudge the EMA-seeded RSI and MACD values.
+export const SIGNAL_LOOKBACK_BARS = DEFAULT_SIGNAL_OPTIONS.bollinger.period + DEFAULT_SIGNAL_OPTIONS.bollinger.squeezeLookback;
+
+// 🚀 Signals raised on the newest bar, computed from the trailing SIGNAL_LOOKBACK_BARS only
+export const generateLatestSignals = (data: ChartDataPoint[]): IndicatorSignal[] => {
+  const recent = data.slice(-SIGNAL_LOOKBACK_BARS);
+  if (recent.length === 0) return [];
+  const latestTime = recent[recent.length - 1].time;
+  return generateSignals(recent).filter(signal => signal.timestamp === latestTime);
+};
+
+// 🚀 Weighted vote of the signals from the last `lookback` bars.
+// Each signal counts strength × confidence, halving every `halfLife` bars of age;
+// the score is the net weight, so a lone weak signal stays close to zero.
+export const calculateSignalConsensus = (
+  signals: IndicatorSignal[],
+  data: ChartDataPoint[],
+  lookback: number = 10,
+  halfLife: number = 5
+): SignalConsensus => {
+  const indexByTime = new Map(data.map((point, index) => [point.time, index]));
+  const lastIndex = data.length - 1;
+
+  const recent = signals
+    .map(signal => ({ signal, age: lastIndex - (indexByTime.get(signal.timestamp) ?? -Infinity) }))
+    .filter(({ age }) => age >= 0 && age < lookback)
+    .sort((a, b) => a.age - b.age);
+
+  let net = 0;
+  let total = 0;
+  recent.forEach(({ signal, age }) => {
+    if (signal.type === 'neutral') return;
+    const weight = signal.strength * signal.confidence * Math.pow(0.5, age / halfLife);
+    net += signal.type === 'buy' ? weight : -weight;
+    total += weight;
+  });
+
+  const score = total > 0 ? net / Math.max(1, total) : 0;
+  return {
+    score,
+    direction: score >= 0.2 ? 'buy' : score <= -0.2 ? 'sell' : 'neutral',
+    buyCount: recent.filter(({ signal }) => signal.type === 'buy').length,
+    sellCount: recent.filter(({ signal }) => signal.type === 'sell').length,
+    neutralCount: recent.filter(({ signal }) => signal.type === 'neutral').length,
+    signals: recent.map(({ signal }) => signal)
+  };
+};
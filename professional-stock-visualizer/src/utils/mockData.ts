@@ -1,15 +1,26 @@
 import type { StockData, PriceData, FundamentalData } from '../types/stock';
+import { createSeededRandom, hashSeed, type RandomSource } from './random';
+
+// Optional global seed: when set, every generator below is fully deterministic
+let globalSeed: number | null = null;
+
+// Seeded series end on a fixed date so bar timestamps are reproducible too
+const SEEDED_END_DATE = Date.UTC(2025, 0, 3);
+
+export const setMockDataSeed = (seed: number | null): void => {
+  globalSeed = seed;
+};
+
+export const getMockDataSeed = (): number | null => globalSeed;
+
+// Independent stream per key (symbol, "MARKET", ...) so generators don't disturb each other
+const getRandomSource = (key: string, seed: number | null = globalSeed): RandomSource =>
+  seed === null ? Math.random : createSeededRandom(hashSeed(`${key}:${seed}`));
 
 // Generate realistic market returns with volatility clustering
 export const generateMarketReturns = (days: number = 252, seed?: number): number[] => {
-  // Use seed for reproducible results in development
-  const random = seed !== undefined ? (() => {
-    let currentSeed = seed;
-    return () => {
-      const x = Math.sin(currentSeed++) * 10000;
-      return x - Math.floor(x);
-    };
-  })() : Math.random;
+  // Use seed for reproducible results in development; otherwise follow the global seed
+  const random = seed !== undefined ? createSeededRandom(seed) : getRandomSource('MARKET');
 
   const returns: number[] = [];
   let volatilityRegime = 0.15; // Base volatility (15%)
@@ -109,7 +120,9 @@ const getSectorCharacteristics = (sector: string) => {
 };
 
 // Generate enhanced stock data with realistic patterns
-export const generateMockStockData = (symbol: string): StockData => {
+export const generateMockStockData = (symbol: string, seed: number | null = globalSeed): StockData => {
+  const random = getRandomSource(symbol.toUpperCase(), seed);
+
   const companies = {
     'AAPL': { name: 'Apple Inc.', sector: 'Technology' },
     'GOOGL': { name: 'Alphabet Inc.', sector: 'Technology' },
@@ -133,21 +146,24 @@ export const generateMockStockData = (symbol: string): StockData => {
   
   const sectorChar = getSectorCharacteristics(company.sector);
   const days = 252; // One trading year
-  const basePrice = 50 + Math.random() * 300; // $50-$350 range
+  const endTime = seed === null ? Date.now() : SEEDED_END_DATE;
+  const basePrice = 50 + random() * 300; // $50-$350 range
   
-  // Generate market returns for correlation
-  const marketReturns = generateMarketReturns(days, symbol.charCodeAt(0));
+  // Generate market returns for correlation (seeded runs share one market path across symbols)
+  const marketReturns = seed === null
+    ? generateMarketReturns(days, symbol.charCodeAt(0))
+    : generateMarketReturns(days, hashSeed(`MARKET:${seed}`));
   
   // Generate stock-specific parameters
-  const stockBeta = sectorChar.beta * (0.8 + Math.random() * 0.4); // Add randomness
+  const stockBeta = sectorChar.beta * (0.8 + random() * 0.4); // Add randomness
   const idiosyncraticVol = sectorChar.volatility * 0.6; // Stock-specific volatility
-  const correlation = 0.3 + Math.random() * 0.4; // 30-70% correlation with market
+  const correlation = 0.3 + random() * 0.4; // 30-70% correlation with market
   
   const prices: PriceData[] = [];
   let currentPrice = basePrice;
   
   // Generate earnings announcement dates (quarterly)
-  const earningsDates = [63, 126, 189, 252].map(day => day - Math.floor(Math.random() * 10));
+  const earningsDates = [63, 126, 189, 252].map(day => day - Math.floor(random() * 10));
   
   for (let i = 0; i < days; i++) {
     const marketReturn = marketReturns[i];
@@ -155,13 +171,13 @@ export const generateMockStockData = (symbol: string): StockData => {
     // Generate correlated stock return
     const correlatedReturn = correlation * marketReturn;
     const independentReturn = Math.sqrt(1 - correlation * correlation) * 
-                             (Math.random() - 0.5) * idiosyncraticVol / Math.sqrt(252);
+                             (random() - 0.5) * idiosyncraticVol / Math.sqrt(252);
     
     let stockReturn = stockBeta * correlatedReturn + independentReturn;
     
     // Add earnings surprise effect
     if (earningsDates.includes(i)) {
-      const earningsSurprise = (Math.random() - 0.4) * 0.08; // Slight positive bias
+      const earningsSurprise = (random() - 0.4) * 0.08; // Slight positive bias
       stockReturn += earningsSurprise;
     }
     
@@ -193,16 +209,16 @@ export const generateMockStockData = (symbol: string): StockData => {
     currentPrice = prevPrice * (1 + stockReturn);
     
     // Generate realistic OHLC with proper relationships
-    const dailyRange = currentPrice * (0.01 + Math.random() * 0.04); // 1-5% daily range
+    const dailyRange = currentPrice * (0.01 + random() * 0.04); // 1-5% daily range
     const openGap = stockReturn * 0.3; // Partial overnight gap
     
     const open = Math.max(0.01, prevPrice * (1 + openGap));
-    const high = Math.max(open, currentPrice) + dailyRange * Math.random() * 0.3;
-    const low = Math.min(open, currentPrice) - dailyRange * Math.random() * 0.3;
+    const high = Math.max(open, currentPrice) + dailyRange * random() * 0.3;
+    const low = Math.min(open, currentPrice) - dailyRange * random() * 0.3;
     const close = Math.max(0.01, currentPrice);
     
     // Generate volume with realistic patterns
-    const baseVolume = 1000000 + Math.random() * 3000000;
+    const baseVolume = 1000000 + random() * 3000000;
     let volume = baseVolume;
     
     // Higher volume on large moves
@@ -211,7 +227,7 @@ export const generateMockStockData = (symbol: string): StockData => {
     
     // Higher volume on earnings dates
     if (earningsDates.includes(i)) {
-      volume *= (1.5 + Math.random() * 2);
+      volume *= (1.5 + random() * 2);
     }
     
     // Lower volume on Fridays and Mondays (simulate day-of-week effect)
@@ -221,7 +237,7 @@ export const generateMockStockData = (symbol: string): StockData => {
     }
     
     prices.push({
-      time: new Date(Date.now() - (days - i) * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+      time: new Date(endTime - (days - i) * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
       open: Math.max(0.01, open),
       high: Math.max(0.01, high),
       low: Math.max(0.01, low),
@@ -238,19 +254,19 @@ export const generateMockStockData = (symbol: string): StockData => {
   const avgVolume = prices.slice(-20).reduce((sum, p) => sum + p.volume, 0) / 20;
   
   // Generate realistic fundamental data
-  const marketCap = latestPrice.close * (50000000 + Math.random() * 2000000000); // 50M - 2B shares
+  const marketCap = latestPrice.close * (50000000 + random() * 2000000000); // 50M - 2B shares
   const peRange = sectorChar.peRange;
   
   const fundamentals: FundamentalData = {
-    peRatio: peRange[0] + Math.random() * (peRange[1] - peRange[0]),
-    pbRatio: 1 + Math.random() * 5,
-    roe: 0.05 + Math.random() * 0.25,
-    roa: 0.02 + Math.random() * 0.15,
-    debtToEquity: Math.random() * 1.5,
+    peRatio: peRange[0] + random() * (peRange[1] - peRange[0]),
+    pbRatio: 1 + random() * 5,
+    roe: 0.05 + random() * 0.25,
+    roa: 0.02 + random() * 0.15,
+    debtToEquity: random() * 1.5,
     marketCap,
-    dividendYield: company.sector === 'Technology' ? Math.random() * 0.02 : Math.random() * 0.05,
+    dividendYield: company.sector === 'Technology' ? random() * 0.02 : random() * 0.05,
     beta: stockBeta,
-    eps: latestPrice.close / (peRange[0] + Math.random() * (peRange[1] - peRange[0])),
+    eps: latestPrice.close / (peRange[0] + random() * (peRange[1] - peRange[0])),
   };
   
   return {
@@ -270,8 +286,12 @@ export const generateMockStockData = (symbol: string): StockData => {
   };
 };
 
-// Generate correlation matrix for multiple stocks
-export const generateCorrelationMatrix = (symbols: string[]): number[][] => {
+// Generate correlation matrix for multiple stocks.
+// Not used by portfolio risk: mock histories already share one market path, so the
+// correlations estimated from them are the mock correlations, and a matrix drawn
+// independently here would contradict the prices on screen.
+export const generateCorrelationMatrix = (symbols: string[], seed: number | null = globalSeed): number[][] => {
+  const random = getRandomSource(`CORR:${symbols.join(',')}`, seed);
   const n = symbols.length;
   const matrix: number[][] = [];
   
@@ -285,7 +305,7 @@ export const generateCorrelationMatrix = (symbols: string[]): number[][] => {
   for (let i = 0; i < n; i++) {
     for (let j = i + 1; j < n; j++) {
       // Technology stocks tend to be more correlated
-      const correlation = 0.2 + Math.random() * 0.6; // 20-80% correlation
+      const correlation = 0.2 + random() * 0.6; // 20-80% correlation
       matrix[i][j] = correlation;
       matrix[j][i] = correlation; // Symmetric matrix
     }
@@ -296,12 +316,13 @@ export const generateCorrelationMatrix = (symbols: string[]): number[][] => {
 
 // Helper function to get realistic market data
 export const generateMarketOverview = () => {
+  const random = getRandomSource('OVERVIEW');
   const baseValues = {
-    sp500: 4200 + Math.random() * 800, // 4200-5000 range
-    nasdaq: 13000 + Math.random() * 3000, // 13000-16000 range  
-    dow: 33000 + Math.random() * 5000, // 33000-38000 range
-    vix: 15 + Math.random() * 20, // 15-35 range
-    treasuryRate: 0.02 + Math.random() * 0.03, // 2-5% range
+    sp500: 4200 + random() * 800, // 4200-5000 range
+    nasdaq: 13000 + random() * 3000, // 13000-16000 range  
+    dow: 33000 + random() * 5000, // 33000-38000 range
+    vix: 15 + random() * 20, // 15-35 range
+    treasuryRate: 0.02 + random() * 0.03, // 2-5% range
   };
   
   const currentHour = new Date().getHours();
@@ -0,0 +1,38 @@
+import { parseSeed } from './random';
+
+const STORAGE_KEY = 'mockDataSeed';
+const URL_PARAM = 'seed';
+
+// 🎲 Resolve the seed for this page load: ?seed= URL param, then saved setting, then VITE_MOCK_SEED
+export const readMockSeedSetting = (): number | null => {
+  try {
+    const params = new URLSearchParams(window.location.search);
+    if (params.has(URL_PARAM)) {
+      return parseSeed(params.get(URL_PARAM));
+    }
+
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored !== null) {
+      return parseSeed(stored);
+    }
+  } catch (error) {
+    console.warn('Could not read mock data seed setting:', error);
+  }
+
+  return parseSeed(import.meta.env.VITE_MOCK_SEED);
+};
+
+// 🎲 Persist a new seed (null = random) and reload so every generator restarts from it
+export const saveMockSeedSetting = (seed: number | null): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, seed === null ? 'off' : String(seed));
+  } catch (error) {
+    console.warn('Could not persist mock data seed setting:', error);
+  }
+
+  const url = new URL(window.location.href);
+  if (url.searchParams.has(URL_PARAM)) {
+    url.searchParams.set(URL_PARAM, seed === null ? 'off' : String(seed));
+  }
+  window.location.assign(url.toString());
+};
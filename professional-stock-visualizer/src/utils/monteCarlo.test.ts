@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { MonteCarloOptions } from '../types/stock';
+import { MonteCarloSimulator, type SimulationAsset } from './monteCarlo';
+import { createGaussianRandom, createSeededRandom } from './random';
+
+// Two years of daily returns per asset with the given annual drift and volatility
+const makeAssets = (specs: { weight: number; drift: number; volatility: number }[], seed: number): SimulationAsset[] => {
+  const gaussian = createGaussianRandom(createSeededRandom(seed));
+  return specs.map(({ weight, drift, volatility }, index) => ({
+    symbol: `A${index}`,
+    weight,
+    returns: Array.from({ length: 504 }, () => drift / 252 + (volatility / Math.sqrt(252)) * gaussian())
+  }));
+};
+
+const ASSETS = makeAssets([
+  { weight: 0.6, drift: 0.1, volatility: 0.3 },
+  { weight: 0.4, drift: 0.04, volatility: 0.15 }
+], 11);
+
+describe('MonteCarloSimulator.simulate', () => {
+  (['gbm', 'bootstrap'] as const).forEach(method => {
+    const options: MonteCarloOptions = { method, paths: 500, horizon: 60, seed: 42 };
+
+    it(`reproduces a seeded ${method} run exactly`, () => {
+      const first = MonteCarloSimulator.simulate(ASSETS, 10000, options);
+      const second = MonteCarloSimulator.simulate(ASSETS, 10000, options);
+
+      expect(second.bands).toEqual(first.bands);
+      expect(second.var95).toBe(first.var95);
+      expect(second.cvar99).toBe(first.cvar99);
+      expect(second.probabilityOfLoss).toBe(first.probabilityOfLoss);
+
+      const reseeded = MonteCarloSimulator.simulate(ASSETS, 10000, { ...options, seed: 43 });
+      expect(reseeded.bands[options.horizon]).not.toEqual(first.bands[options.horizon]);
+    });
+
+    it(`keeps ${method} bands ordered at every step`, () => {
+      const { bands } = MonteCarloSimulator.simulate(ASSETS, 10000, options);
+
+      expect(bands).toHaveLength(options.horizon + 1);
+      bands.forEach(band => {
+        expect(band.p5, `step ${band.step}`).toBeLessThanOrEqual(band.p25);
+        expect(band.p25, `step ${band.step}`).toBeLessThanOrEqual(band.p50);
+        expect(band.p50, `step ${band.step}`).toBeLessThanOrEqual(band.p75);
+        expect(band.p75, `step ${band.step}`).toBeLessThanOrEqual(band.p95);
+      });
+      expect(bands[0].p5).toBe(10000);
+      expect(bands[0].p95).toBe(10000);
+    });
+  });
+
+  it('follows a single deterministic path when the history has no volatility', () => {
+    const flat: SimulationAsset[] = [{ symbol: 'FLAT', weight: 1, returns: new Array(100).fill(0.001) }];
+
+    (['gbm', 'bootstrap'] as const).forEach(method => {
+      const result = MonteCarloSimulator.simulate(flat, 1000, { method, paths: 200, horizon: 20, seed: 1 });
+
+      result.bands.forEach(band => {
+        const expected = 1000 * 1.001 ** band.step;
+        expect(band.p5, `${method} step ${band.step}`).toBeCloseTo(expected, 9);
+        expect(band.p95, `${method} step ${band.step}`).toBeCloseTo(expected, 9);
+      });
+      expect(result.volatility).toBeCloseTo(0, 12);
+      expect(result.probabilityOfLoss).toBe(0);
+      expect(result.expectedValue).toBeCloseTo(1000 * 1.001 ** 20, 9);
+      expect(result.var95).toBeCloseTo(-(1.001 ** 20 - 1), 9);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import type { MonteCarloOptions, MonteCarloResult, SimulationBand } from '../types/stock';
+import { QuantAnalytics } from './quantAnalytics';
+import { createGaussianRandom, createSeededRandom } from './random';
+
+export interface SimulationAsset {
+  symbol: string;
+  weight: number;
+  returns: number[]; // daily simple returns
+}
+
+export class MonteCarloSimulator {
+  private static readonly MAX_PATHS = 20000;
+  private static readonly MAX_HORIZON = 756;
+
+  // 🚀 Simulate buy-and-hold value paths for one stock (weight 1) or a weighted portfolio
+  static simulate(assets: SimulationAsset[], startValue: number, options: MonteCarloOptions): MonteCarloResult {
+    const { method, paths, horizon } = options;
+    const seed = options.seed ?? null;
+
+    if (assets.length === 0) {
+      throw new Error('Simulation needs at least one asset');
+    }
+    if (!(startValue > 0)) {
+      throw new Error('Start value must be positive');
+    }
+    if (!Number.isInteger(paths) || paths < 1 || paths > this.MAX_PATHS) {
+      throw new Error(`Paths must be a whole number between 1 and ${this.MAX_PATHS}`);
+    }
+    if (!Number.isInteger(horizon) || horizon < 1 || horizon > this.MAX_HORIZON) {
+      throw new Error(`Horizon must be a whole number of days between 1 and ${this.MAX_HORIZON}`);
+    }
+
+    const length = Math.min(...assets.map(asset => asset.returns.length));
+    if (length < 2) {
+      throw new Error('Simulation needs at least two returns per asset');
+    }
+
+    // Log returns over the common window keep each bootstrap day's cross-asset move intact
+    const logReturns = assets.map(asset => asset.returns.slice(asset.returns.length - length).map(value => Math.log(1 + value)));
+    const totalWeight = assets.reduce((sum, asset) => sum + asset.weight, 0);
+    if (totalWeight === 0) {
+      throw new Error('Portfolio weights must not sum to zero');
+    }
+    const weights = assets.map(asset => asset.weight / totalWeight);
+
+    const random = seed === null ? Math.random : createSeededRandom(seed);
+    const step = method === 'gbm'
+      ? this.createGbmStep(logReturns, createGaussianRandom(random))
+      : this.createBootstrapStep(logReturns, random);
+
+    // All paths advance one day at a time, so only each path's per-asset growth and the current day's
+    // values are held; bands are read off each day and the sorted final day feeds the risk figures
+    const count = assets.length;
+    const growth = new Float64Array(paths * count).fill(1);
+    const current = new Float64Array(paths).fill(startValue);
+    const bands: SimulationBand[] = [this.band(0, current)];
+    for (let t = 1; t <= horizon; t++) {
+      for (let p = 0; p < paths; p++) {
+        const moves = step();
+        let value = 0;
+        for (let i = 0; i < count; i++) {
+          growth[p * count + i] *= Math.exp(moves[i]);
+          value += weights[i] * growth[p * count + i];
+        }
+        current[p] = startValue * value;
+      }
+      bands.push(this.band(t, current.sort()));
+    }
+    const terminal = current;
+
+    // Calibration summary of the weighted history the paths were drawn from
+    const portfolioReturns = Array.from({ length }, (_, k) =>
+      Math.log(1 + weights.reduce((sum, weight, i) => sum + weight * (Math.exp(logReturns[i][k]) - 1), 0))
+    );
+    const drift = portfolioReturns.reduce((sum, value) => sum + value, 0) / length;
+    const volatility = Math.sqrt(portfolioReturns.reduce((sum, value) => sum + (value - drift) ** 2, 0) / (length - 1));
+
+    const lossCount = terminal.findIndex(value => value >= startValue);
+    const tail = (confidence: number) => {
+      const cutoff = this.percentile(terminal, 1 - confidence);
+      const count = Math.max(1, Math.ceil((1 - confidence) * paths));
+      let sum = 0;
+      for (let i = 0; i < count; i++) sum += terminal[i];
+      return {
+        valueAtRisk: (startValue - cutoff) / startValue,
+        expectedShortfall: (startValue - sum / count) / startValue
+      };
+    };
+    const tail95 = tail(0.95);
+    const tail99 = tail(0.99);
+
+    return {
+      method,
+      paths,
+      horizon,
+      seed,
+      startValue,
+      drift,
+      volatility,
+      bands,
+      expectedValue: terminal.reduce((sum, value) => sum + value, 0) / paths,
+      probabilityOfLoss: (lossCount === -1 ? paths : lossCount) / paths,
+      var95: tail95.valueAtRisk,
+      var99: tail99.valueAtRisk,
+      cvar95: tail95.expectedShortfall,
+      cvar99: tail99.expectedShortfall
+    };
+  }
+
+  // Correlated normal log returns with each asset's historical drift and covariance
+  private static createGbmStep(logReturns: number[][], gaussian: () => number): () => number[] {
+    const count = logReturns.length;
+    const means = logReturns.map(series => series.reduce((sum, value) => sum + value, 0) / series.length);
+    const cholesky = this.cholesky(QuantAnalytics.calculateCovarianceMatrix(logReturns));
+    const shocks = new Array<number>(count);
+    const moves = new Array<number>(count);
+
+    return () => {
+      for (let i = 0; i < count; i++) shocks[i] = gaussian();
+      for (let i = 0; i < count; i++) {
+        let move = means[i];
+        for (let j = 0; j <= i; j++) move += cholesky[i][j] * shocks[j];
+        moves[i] = move;
+      }
+      return moves;
+    };
+  }
+
+  // Resample whole historical days with replacement
+  private static createBootstrapStep(logReturns: number[][], random: () => number): () => number[] {
+    const length = logReturns[0].length;
+    const moves = new Array<number>(logReturns.length);
+
+    return () => {
+      const day = Math.min(length - 1, Math.floor(random() * length));
+      for (let i = 0; i < logReturns.length; i++) moves[i] = logReturns[i][day];
+      return moves;
+    };
+  }
+
+  // Lower-triangular factor; zero-variance directions (e.g. duplicated assets) get zero columns
+  private static cholesky(matrix: number[][]): number[][] {
+    const n = matrix.length;
+    const lower = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+
+    for (let j = 0; j < n; j++) {
+      let diagonal = matrix[j][j];
+      for (let k = 0; k < j; k++) diagonal -= lower[j][k] ** 2;
+      lower[j][j] = diagonal > 1e-14 ? Math.sqrt(diagonal) : 0;
+
+      for (let i = j + 1; i < n; i++) {
+        if (lower[j][j] === 0) continue;
+        let sum = matrix[i][j];
+        for (let k = 0; k < j; k++) sum -= lower[i][k] * lower[j][k];
+        lower[i][j] = sum / lower[j][j];
+      }
+    }
+
+    return lower;
+  }
+
+  private static band(step: number, sorted: Float64Array): SimulationBand {
+    return {
+      step,
+      p5: this.percentile(sorted, 0.05),
+      p25: this.percentile(sorted, 0.25),
+      p50: this.percentile(sorted, 0.5),
+      p75: this.percentile(sorted, 0.75),
+      p95: this.percentile(sorted, 0.95)
+    };
+  }
+
+  // Linear interpolation between order statistics of an ascending array
+  private static percentile(sorted: Float64Array, p: number): number {
+    const position = (sorted.length - 1) * p;
+    const below = Math.floor(position);
+    const above = Math.min(sorted.length - 1, below + 1);
+    return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+  }
+}
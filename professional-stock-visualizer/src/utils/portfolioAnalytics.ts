@@ -0,0 +1,84 @@
+import type { PortfolioAnalytics, PortfolioHolding, PortfolioPosition } from '../types/stock';
+import { QuantAnalytics } from './quantAnalytics';
+
+// Market data a holding is marked against
+export interface PortfolioMarketData {
+  name: string;
+  sector: string;
+  currentPrice: number;
+  closes: number[];
+}
+
+// Histories of different lengths are compared over their most recent common window
+const alignTails = (series: number[][]): number[][] => {
+  const length = Math.min(...series.map(values => values.length));
+  return series.map(values => values.slice(values.length - length));
+};
+
+// 🚀 Mark holdings to market and derive allocation, risk and diversification
+export const calculatePortfolioAnalytics = (
+  holdings: PortfolioHolding[],
+  marketData: Record<string, PortfolioMarketData>,
+  livePrices: Record<string, number> = {}
+): PortfolioAnalytics => {
+  const marked = holdings.map(holding => {
+    const currentPrice = livePrices[holding.symbol] ?? marketData[holding.symbol]?.currentPrice ?? holding.avgPrice;
+    const totalValue = holding.quantity * currentPrice;
+    const cost = holding.quantity * holding.avgPrice;
+    return { holding, currentPrice, totalValue, cost };
+  });
+
+  const totalValue = marked.reduce((sum, position) => sum + position.totalValue, 0);
+  const totalCost = marked.reduce((sum, position) => sum + position.cost, 0);
+
+  const positions: PortfolioPosition[] = marked.map(({ holding, currentPrice, totalValue: value, cost }) => ({
+    symbol: holding.symbol,
+    quantity: holding.quantity,
+    avgPrice: holding.avgPrice,
+    currentPrice,
+    totalValue: value,
+    unrealizedPnL: value - cost,
+    unrealizedPnLPercent: cost !== 0 ? ((value - cost) / cost) * 100 : 0,
+    weight: totalValue !== 0 ? value / totalValue : 0
+  }));
+
+  const assetAllocation = positions
+    .map(({ symbol, weight, totalValue: value }) => ({ symbol, weight, value }))
+    .sort((a, b) => b.value - a.value);
+
+  const sectorValues = new Map<string, number>();
+  positions.forEach(position => {
+    const sector = marketData[position.symbol]?.sector ?? 'Unknown';
+    sectorValues.set(sector, (sectorValues.get(sector) ?? 0) + position.totalValue);
+  });
+  const sectorAllocation = Array.from(sectorValues, ([sector, value]) => ({
+    sector,
+    value,
+    weight: totalValue !== 0 ? value / totalValue : 0
+  })).sort((a, b) => b.value - a.value);
+
+  // Risk uses the positions with enough price history
+  const priced = positions.filter(position => (marketData[position.symbol]?.closes.length ?? 0) > 2);
+  const closes = alignTails(priced.map(position => marketData[position.symbol].closes));
+  const riskInputs = priced.map((position, index) => ({
+    symbol: position.symbol,
+    weight: position.weight,
+    returns: QuantAnalytics.calculateReturns(closes[index])
+  }));
+  const portfolioRisk = QuantAnalytics.calculatePortfolioRisk(riskInputs);
+  const riskDecomposition = QuantAnalytics.calculateRiskDecomposition(riskInputs);
+
+  return {
+    totalValue,
+    totalCost,
+    totalPnL: totalValue - totalCost,
+    totalPnLPercent: totalCost !== 0 ? ((totalValue - totalCost) / totalCost) * 100 : 0,
+    portfolioRisk,
+    positions,
+    assetAllocation,
+    sectorAllocation,
+    riskDecomposition,
+    diversificationRatio: riskDecomposition.diversificationRatio,
+    sharpeRatio: portfolioRisk.sharpeRatio
+  };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { OptimizationConstraints } from '../types/stock';
+import { PortfolioOptimizer, type OptimizerAsset } from './portfolioOptimizer';
+import { createGaussianRandom, createSeededRandom } from './random';
+
+// A year of daily returns per asset with the given annual drift and volatility
+const makeAssets = (specs: { drift: number; volatility: number }[], seed: number): OptimizerAsset[] => {
+  const gaussian = createGaussianRandom(createSeededRandom(seed));
+  return specs.map(({ drift, volatility }, index) => ({
+    symbol: `A${index}`,
+    returns: Array.from({ length: 252 }, () => drift / 252 + (volatility / Math.sqrt(252)) * gaussian())
+  }));
+};
+
+// Best Sharpe over every three-asset weight vector on a 1% grid that satisfies the constraints
+const bruteForceSharpe = (assets: OptimizerAsset[], { maxWeight, riskFreeRate = 0.025 }: OptimizationConstraints) => {
+  const { expectedReturns, covariance } = PortfolioOptimizer.estimateInputs(assets);
+  let best = -Infinity;
+  for (let a = 0; a <= 100; a++) {
+    for (let b = 0; a + b <= 100; b++) {
+      const weights = [a / 100, b / 100, (100 - a - b) / 100];
+      if (weights.some(weight => weight > maxWeight + 1e-12)) continue;
+      const excess = weights.reduce((sum, weight, i) => sum + weight * expectedReturns[i], 0) - riskFreeRate;
+      const variance = weights.reduce((sum, weight, i) =>
+        sum + weight * covariance[i].reduce((inner, value, j) => inner + value * weights[j], 0), 0);
+      best = Math.max(best, excess / Math.sqrt(variance));
+    }
+  }
+  return best;
+};
+
+const expectFeasible = (weights: Record<string, number>, maxWeight: number) => {
+  const values = Object.values(weights);
+  expect(values.reduce((sum, weight) => sum + weight, 0)).toBeCloseTo(1, 6);
+  values.forEach(weight => {
+    expect(weight).toBeGreaterThanOrEqual(-1e-9);
+    expect(weight).toBeLessThanOrEqual(maxWeight + 1e-9);
+  });
+};
+
+describe('PortfolioOptimizer.calculateEfficientFrontier', () => {
+  const constraints: OptimizationConstraints = { longOnly: true, maxWeight: 0.6 };
+
+  it('finds the max-Sharpe portfolio when some assets beat the risk-free rate', () => {
+    const assets = makeAssets([
+      { drift: 0.12, volatility: 0.25 },
+      { drift: 0.06, volatility: 0.15 },
+      { drift: 0.03, volatility: 0.3 }
+    ], 7);
+    const { maxSharpe } = PortfolioOptimizer.calculateEfficientFrontier(assets, constraints);
+
+    expectFeasible(maxSharpe.weights, constraints.maxWeight);
+    expect(maxSharpe.sharpeRatio).toBeGreaterThan(0);
+    expect(maxSharpe.sharpeRatio).toBeGreaterThanOrEqual(bruteForceSharpe(assets, constraints) - 1e-6);
+  });
+
+  it('finds the max-Sharpe portfolio when every asset trails the risk-free rate', () => {
+    const assets = makeAssets([
+      { drift: -0.6, volatility: 0.3 },
+      { drift: -0.4, volatility: 0.2 },
+      { drift: -0.25, volatility: 0.1 }
+    ], 11);
+    const { expectedReturns } = PortfolioOptimizer.estimateInputs(assets);
+    expect(expectedReturns.every(value => value < 0.025)).toBe(true);
+
+    const { maxSharpe, points } = PortfolioOptimizer.calculateEfficientFrontier(assets, constraints);
+    const brute = bruteForceSharpe(assets, constraints);
+
+    expectFeasible(maxSharpe.weights, constraints.maxWeight);
+    expect(maxSharpe.sharpeRatio).toBeGreaterThanOrEqual(brute - 1e-6);
+    // The best of these portfolios takes more risk than the frontier would for its return
+    expect(Math.max(...points.map(point => point.sharpeRatio))).toBeLessThan(brute - 1e-3);
+  });
+
+  it('plots only non-dominated, distinct frontier points', () => {
+    const assets = makeAssets([
+      { drift: 0.15, volatility: 0.3 },
+      { drift: 0.08, volatility: 0.18 },
+      { drift: 0.04, volatility: 0.12 }
+    ], 3);
+    const { points, minVariance } = PortfolioOptimizer.calculateEfficientFrontier(assets, constraints, 40);
+
+    expect(points.length).toBeGreaterThan(1);
+    expect(points[0].volatility).toBeCloseTo(minVariance.volatility, 6);
+    points.slice(1).forEach((point, index) => {
+      expect(point.volatility).toBeGreaterThan(points[index].volatility);
+      expect(point.expectedReturn).toBeGreaterThan(points[index].expectedReturn);
+    });
+  });
+});
@@ -0,0 +1,332 @@
+import type {
+  EfficientFrontier,
+  OptimizationConstraints,
+  OptimizedPortfolio,
+  PortfolioPosition,
+  RebalanceTrade
+} from '../types/stock';
+import { QuantAnalytics } from './quantAnalytics';
+
+export interface OptimizerAsset {
+  symbol: string;
+  returns: number[];  // daily
+  sector?: string;
+}
+
+interface FeasibleSet {
+  lower: number;
+  upper: number;
+  sectors: { members: number[]; cap: number }[];
+}
+
+export class PortfolioOptimizer {
+  private static readonly TRADING_DAYS_PER_YEAR = 252;
+  private static readonly DEFAULT_RISK_FREE_RATE = 0.025;
+  private static readonly MAX_ITERATIONS = 2000;
+  private static readonly TOLERANCE = 1e-8;
+
+  // Annualized expected returns and covariance over the assets' common history
+  static estimateInputs(assets: OptimizerAsset[]): { expectedReturns: number[]; covariance: number[][] } {
+    const length = Math.min(...assets.map(asset => asset.returns.length));
+    if (assets.length === 0 || length < 2) {
+      throw new Error('Optimization needs at least two returns per asset');
+    }
+
+    const aligned = assets.map(asset => asset.returns.slice(asset.returns.length - length));
+    return {
+      expectedReturns: aligned.map(returns => (returns.reduce((sum, value) => sum + value, 0) / length) * this.TRADING_DAYS_PER_YEAR),
+      covariance: QuantAnalytics.calculateCovarianceMatrix(aligned).map(row => row.map(value => value * this.TRADING_DAYS_PER_YEAR))
+    };
+  }
+
+  // 🚀 Frontier from minimum variance to maximum return, plus the max-Sharpe and risk-parity portfolios
+  static calculateEfficientFrontier(
+    assets: OptimizerAsset[],
+    constraints: OptimizationConstraints,
+    pointCount: number = 30
+  ): EfficientFrontier {
+    const { expectedReturns, covariance } = this.estimateInputs(assets);
+    const feasible = this.buildFeasibleSet(assets, constraints);
+    const riskFreeRate = constraints.riskFreeRate ?? this.DEFAULT_RISK_FREE_RATE;
+    const describe = (weights: number[]) => this.describePortfolio(assets, weights, expectedReturns, covariance, riskFreeRate);
+
+    // Each point minimizes variance - tradeoff × return; tradeoff 0 is the minimum-variance portfolio
+    const lipschitz = this.lipschitzBound(covariance);
+    const returnSpread = Math.max(...expectedReturns) - Math.min(...expectedReturns);
+    const maxTradeoff = returnSpread > 0 ? (4 * lipschitz) / returnSpread : 0;
+    const tradeoffs = Array.from({ length: Math.max(2, pointCount) }, (_, k) => maxTradeoff * Math.pow(k / (Math.max(2, pointCount) - 1), 2));
+
+    let start = this.project(new Array(assets.length).fill(1 / assets.length), feasible);
+    const solutions = tradeoffs.map(tradeoff => {
+      const solution = this.minimizeMeanVariance(covariance, expectedReturns, tradeoff, start, feasible);
+      start = solution.weights;
+      return { ...solution, portfolio: describe(solution.weights) };
+    });
+
+    // Where Sharpe is positive it is quasi-concave, so one ascent from the best frontier point reaches the
+    // global maximum. When nothing beats the risk-free rate it is quasi-convex and peaks at a corner of the
+    // feasible set, usually off the frontier, so the ascent starts from every frontier point and asset corner.
+    const best = solutions.reduce((top, solution) => (solution.portfolio.sharpeRatio > top.portfolio.sharpeRatio ? solution : top));
+    const starts = best.portfolio.sharpeRatio > 0
+      ? [best.weights]
+      : [
+          ...solutions.map(solution => solution.weights),
+          ...assets.map((_, i) => this.project(assets.map((__, j) => (i === j ? 1 : 0)), feasible))
+        ];
+    const maxSharpe = starts
+      .map(weights => describe(this.maximizeSharpe(covariance, expectedReturns, riskFreeRate, weights, feasible)))
+      .reduce((top, portfolio) => (portfolio.sharpeRatio > top.sharpeRatio ? portfolio : top));
+
+    // Unconverged solves are not frontier points; of the rest keep each point that adds return for its risk,
+    // which drops dominated points and the corner portfolios several tradeoffs land on
+    const points = solutions
+      .filter(solution => solution.converged)
+      .map(solution => solution.portfolio)
+      .sort((a, b) => a.volatility - b.volatility || b.expectedReturn - a.expectedReturn)
+      .reduce<OptimizedPortfolio[]>((kept, point) => {
+        const last = kept[kept.length - 1];
+        return !last || point.expectedReturn > last.expectedReturn + 1e-9 ? [...kept, point] : kept;
+      }, []);
+
+    return {
+      assets: assets.map((asset, i) => ({
+        symbol: asset.symbol,
+        expectedReturn: expectedReturns[i],
+        volatility: Math.sqrt(Math.max(0, covariance[i][i]))
+      })),
+      points,
+      minVariance: solutions[0].portfolio,
+      maxSharpe,
+      // Risk parity is only defined for long positions
+      riskParity: describe(this.project(this.equalRiskContribution(covariance), { ...feasible, lower: 0 }))
+    };
+  }
+
+  // 🚀 Expected return, volatility and Sharpe of arbitrary weights, e.g. the current portfolio
+  static evaluatePortfolio(
+    assets: OptimizerAsset[],
+    weights: Record<string, number>,
+    riskFreeRate: number = this.DEFAULT_RISK_FREE_RATE
+  ): OptimizedPortfolio {
+    const { expectedReturns, covariance } = this.estimateInputs(assets);
+    return this.describePortfolio(assets, assets.map(asset => weights[asset.symbol] ?? 0), expectedReturns, covariance, riskFreeRate);
+  }
+
+  // 🚀 Trades that move the current positions to the target weights at current prices
+  static proposeTrades(
+    positions: PortfolioPosition[],
+    targetWeights: Record<string, number>,
+    options: { prices?: Record<string, number>; minTradeValue?: number; fractional?: boolean } = {}
+  ): RebalanceTrade[] {
+    const { prices = {}, minTradeValue = 0, fractional = false } = options;
+    const totalValue = positions.reduce((sum, position) => sum + position.totalValue, 0);
+    const symbols = Array.from(new Set([...positions.map(position => position.symbol), ...Object.keys(targetWeights)]));
+
+    return symbols.flatMap<RebalanceTrade>(symbol => {
+      const position = positions.find(item => item.symbol === symbol);
+      const price = prices[symbol] ?? position?.currentPrice;
+      if (!price || price <= 0) return [];
+
+      const currentValue = position?.totalValue ?? 0;
+      const targetWeight = targetWeights[symbol] ?? 0;
+      const rawQuantity = (targetWeight * totalValue - currentValue) / price;
+      const quantity = fractional ? rawQuantity : Math.trunc(rawQuantity);
+      const value = Math.abs(quantity * price);
+      if (quantity === 0 || value < minTradeValue) return [];
+
+      return [{
+        symbol,
+        side: quantity > 0 ? 'buy' : 'sell',
+        quantity: Math.abs(quantity),
+        value,
+        currentWeight: totalValue > 0 ? currentValue / totalValue : 0,
+        targetWeight
+      }];
+    }).sort((a, b) => b.value - a.value);
+  }
+
+  private static describePortfolio(
+    assets: OptimizerAsset[],
+    weights: number[],
+    expectedReturns: number[],
+    covariance: number[][],
+    riskFreeRate: number
+  ): OptimizedPortfolio {
+    const expectedReturn = weights.reduce((sum, weight, i) => sum + weight * expectedReturns[i], 0);
+    const variance = weights.reduce((sum, weight, i) =>
+      sum + weight * covariance[i].reduce((inner, value, j) => inner + value * weights[j], 0), 0);
+    const volatility = Math.sqrt(Math.max(0, variance));
+
+    return {
+      weights: Object.fromEntries(assets.map((asset, i) => [asset.symbol, weights[i]])),
+      expectedReturn,
+      volatility,
+      sharpeRatio: volatility > 0 ? (expectedReturn - riskFreeRate) / volatility : 0
+    };
+  }
+
+  // Weight bounds and sector caps; throws when no portfolio can satisfy them
+  private static buildFeasibleSet(assets: OptimizerAsset[], constraints: OptimizationConstraints): FeasibleSet {
+    const { longOnly, maxWeight, sectorCaps = {} } = constraints;
+    if (!(maxWeight > 0)) {
+      throw new Error('Max weight must be positive');
+    }
+
+    const upper = Math.min(1, maxWeight);
+    const sectors = Object.entries(sectorCaps)
+      .map(([sector, cap]) => ({
+        cap,
+        members: assets.flatMap((asset, index) => (asset.sector === sector ? [index] : []))
+      }))
+      .filter(group => group.members.length > 0);
+
+    // The largest total weight the constraints allow must still reach 100%
+    const capped = new Set(sectors.flatMap(group => group.members));
+    const reachable = sectors.reduce((sum, group) => sum + Math.min(group.cap, group.members.length * upper), 0) +
+      (assets.length - capped.size) * upper;
+    if (reachable < 1 - 1e-9) {
+      throw new Error(`Constraints are infeasible: at most ${(reachable * 100).toFixed(1)}% of the portfolio can be allocated`);
+    }
+
+    return { lower: longOnly ? 0 : -upper, upper, sectors };
+  }
+
+  // Euclidean projection onto the feasible set: w_i = clip(v_i - λ - μ_sector), with the budget
+  // multiplier λ and each capped sector's μ ≥ 0 found by bisection (sectors never overlap)
+  private static project(weights: number[], { lower, upper, sectors }: FeasibleSet): number[] {
+    const clip = (value: number) => Math.min(upper, Math.max(lower, value));
+    const bisect = (total: (shift: number) => number, target: number, low: number, high: number) => {
+      for (let i = 0; i < 45; i++) {
+        const middle = (low + high) / 2;
+        if (total(middle) > target) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      return (low + high) / 2;
+    };
+
+    const range = Math.max(...weights) - Math.min(...weights) + upper - lower + 1;
+    const projectedAt = (shift: number) => {
+      const projected = weights.map(value => clip(value - shift));
+      sectors.forEach(({ members, cap }) => {
+        const sectorTotal = (extra: number) => members.reduce((sum, index) => sum + clip(weights[index] - shift - extra), 0);
+        if (sectorTotal(0) <= cap) return;
+        const extra = bisect(sectorTotal, cap, 0, range);
+        members.forEach(index => {
+          projected[index] = clip(weights[index] - shift - extra);
+        });
+      });
+      return projected;
+    };
+
+    const budget = (shift: number) => projectedAt(shift).reduce((sum, value) => sum + value, 0);
+    return projectedAt(bisect(budget, 1, Math.min(...weights) - upper - 1, Math.max(...weights) - lower + 1));
+  }
+
+  // Gershgorin bound on the largest eigenvalue of 2Σ, the gradient's Lipschitz constant
+  private static lipschitzBound(covariance: number[][]): number {
+    return 2 * Math.max(...covariance.map(row => row.reduce((sum, value) => sum + Math.abs(value), 0)), 1e-12);
+  }
+
+  // Accelerated projected gradient (FISTA) on wᵀΣw - tradeoff × μᵀw
+  private static minimizeMeanVariance(
+    covariance: number[][],
+    expectedReturns: number[],
+    tradeoff: number,
+    start: number[],
+    feasible: FeasibleSet
+  ): { weights: number[]; converged: boolean } {
+    const step = 1 / this.lipschitzBound(covariance);
+    let weights = this.project(start, feasible);
+    let momentum = weights;
+    let t = 1;
+
+    for (let iteration = 0; iteration < this.MAX_ITERATIONS; iteration++) {
+      const gradient = covariance.map((row, i) =>
+        2 * row.reduce((sum, value, j) => sum + value * momentum[j], 0) - tradeoff * expectedReturns[i]
+      );
+      const next = this.project(momentum.map((value, i) => value - step * gradient[i]), feasible);
+      const nextT = (1 + Math.sqrt(1 + 4 * t * t)) / 2;
+      momentum = next.map((value, i) => value + ((t - 1) / nextT) * (value - weights[i]));
+
+      const change = next.reduce((max, value, i) => Math.max(max, Math.abs(value - weights[i])), 0);
+      weights = next;
+      t = nextT;
+      if (change < this.TOLERANCE) return { weights, converged: true };
+    }
+
+    return { weights, converged: false };
+  }
+
+  // Projected gradient ascent on (μᵀw - rf) / √(wᵀΣw), halving the step until Sharpe improves
+  private static maximizeSharpe(
+    covariance: number[][],
+    expectedReturns: number[],
+    riskFreeRate: number,
+    start: number[],
+    feasible: FeasibleSet
+  ): number[] {
+    const evaluate = (weights: number[]) => {
+      const marginal = covariance.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+      const volatility = Math.sqrt(Math.max(0, weights.reduce((sum, weight, i) => sum + weight * marginal[i], 0)));
+      const excess = weights.reduce((sum, weight, i) => sum + weight * expectedReturns[i], 0) - riskFreeRate;
+      return { marginal, volatility, excess, sharpe: volatility > 0 ? excess / volatility : -Infinity };
+    };
+
+    let weights = this.project(start, feasible);
+    let current = evaluate(weights);
+    let step = 1;
+
+    for (let iteration = 0; iteration < this.MAX_ITERATIONS && current.volatility > 0; iteration++) {
+      const { marginal, volatility, excess } = current;
+      const gradient = expectedReturns.map((value, i) => value / volatility - (excess * marginal[i]) / Math.pow(volatility, 3));
+
+      let next = weights;
+      let candidate = current;
+      for (; step > 1e-12; step /= 2) {
+        next = this.project(weights.map((value, i) => value + step * gradient[i]), feasible);
+        candidate = evaluate(next);
+        if (candidate.sharpe > current.sharpe) break;
+      }
+      if (!(candidate.sharpe > current.sharpe)) break;
+
+      const change = next.reduce((max, value, i) => Math.max(max, Math.abs(value - weights[i])), 0);
+      weights = next;
+      current = candidate;
+      step *= 2;
+      if (change < this.TOLERANCE) break;
+    }
+
+    return weights;
+  }
+
+  // Long-only weights whose risk contributions w_i (Σw)_i are all equal
+  private static equalRiskContribution(covariance: number[][]): number[] {
+    const n = covariance.length;
+    const volatilities = covariance.map((row, i) => Math.sqrt(Math.max(row[i], 1e-16)));
+    const inverseVolatility = volatilities.map(volatility => 1 / volatility);
+    const inverseSum = inverseVolatility.reduce((sum, value) => sum + value, 0);
+    let weights = inverseVolatility.map(value => value / inverseSum);
+
+    for (let iteration = 0; iteration < this.MAX_ITERATIONS; iteration++) {
+      const marginal = covariance.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+      const variance = weights.reduce((sum, weight, i) => sum + weight * marginal[i], 0);
+      if (variance <= 0) break;
+
+      // Damped multiplicative update toward contributions of variance / n
+      const next = weights.map((weight, i) =>
+        marginal[i] > 0 ? weight * Math.sqrt(variance / n / (weight * marginal[i])) : weight
+      );
+      const total = next.reduce((sum, value) => sum + value, 0);
+      const normalized = next.map(value => value / total);
+
+      const change = normalized.reduce((max, value, i) => Math.max(max, Math.abs(value - weights[i])), 0);
+      weights = normalized;
+      if (change < this.TOLERANCE) break;
+    }
+
+    return weights;
+  }
+}
@@ -1,3 +1,5 @@
+import { calculateRSI, getLatestValue } from './technicalIndicators';
+
 interface PriceUpdate {
   symbol: string;
   price: number;
@@ -126,26 +128,11 @@ export const calculateMomentum = (priceHistory: number[]): {
   strength: 'weak' | 'moderate' | 'strong';
   rsi: number;
 } => {
-  if (priceHistory.length < 14) {
+  const rsi = getLatestValue(calculateRSI(priceHistory, 14));
+  if (rsi === null) {
     return { trend: 'neutral', strength: 'weak', rsi: 50 };
   }
   
-  // Simple RSI calculation
-  const gains = [];
-  const losses = [];
-  
-  for (let i = 1; i < priceHistory.length; i++) {
-    const change = priceHistory[i] - priceHistory[i - 1];
-    gains.push(change > 0 ? change : 0);
-    losses.push(change < 0 ? Math.abs(change) : 0);
-  }
-  
-  const avgGain = gains.slice(-14).reduce((a, b) => a + b, 0) / 14;
-  const avgLoss = losses.slice(-14).reduce((a, b) => a + b, 0) / 14;
-  
-  const rs = avgLoss === 0 ? 100 : avgGain / avgLoss;
-  const rsi = 100 - (100 / (1 + rs));
-  
   const trend = rsi > 70 ? 'bullish' : rsi < 30 ? 'bearish' : 'neutral';
   const strength = rsi > 80 || rsi < 20 ? 'strong' : 
                   rsi > 60 || rsi < 40 ? 'moderate' : 'weak';
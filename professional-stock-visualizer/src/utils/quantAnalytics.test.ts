@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { QuantAnalytics } from './quantAnalytics';
+import { createGaussianRandom, createSeededRandom } from './random';
+
+// A year of independent daily returns per position with the given annual volatility
+const makePositions = (specs: { weight: number; volatility: number }[], seed: number) => {
+  const gaussian = createGaussianRandom(createSeededRandom(seed));
+  return specs.map(({ weight, volatility }, index) => ({
+    symbol: `A${index}`,
+    weight,
+    returns: Array.from({ length: 252 }, () => 0.0003 + (volatility / Math.sqrt(252)) * gaussian())
+  }));
+};
+
+const POSITIONS = makePositions([
+  { weight: 0.5, volatility: 0.3 },
+  { weight: 0.3, volatility: 0.2 },
+  { weight: 0.2, volatility: 0.45 }
+], 5);
+
+const Z95 = QuantAnalytics.normalQuantile(0.95);
+
+const sampleDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1));
+};
+
+describe('QuantAnalytics.calculateRiskDecomposition', () => {
+  it('splits var95 into component VaRs that add back up to it', () => {
+    const decomposition = QuantAnalytics.calculateRiskDecomposition(POSITIONS);
+    const components = decomposition.positions.map(position => position.componentVaR);
+
+    expect(decomposition.var95).toBeGreaterThan(0);
+    expect(components.reduce((sum, value) => sum + value, 0)).toBeCloseTo(decomposition.var95, 12);
+    expect(decomposition.positions.reduce((sum, position) => sum + position.contribution, 0)).toBeCloseTo(1, 12);
+  });
+
+  it('keeps the component sum under a supplied correlation matrix', () => {
+    const correlationMatrix = [
+      [1, 0.8, -0.2],
+      [0.8, 1, 0.1],
+      [-0.2, 0.1, 1]
+    ];
+    const decomposition = QuantAnalytics.calculateRiskDecomposition(POSITIONS, { correlationMatrix });
+
+    expect(decomposition.positions.reduce((sum, position) => sum + position.componentVaR, 0))
+      .toBeCloseTo(decomposition.var95, 12);
+    expect(decomposition.correlationMatrix[0][1]).toBeCloseTo(0.8, 12);
+  });
+
+  it('uses a supplied correlation matrix instead of the estimated one', () => {
+    const n = POSITIONS.length;
+    const deviations = POSITIONS.map(position => sampleDeviation(position.returns));
+    const weighted = POSITIONS.map((position, i) => position.weight * deviations[i]);
+
+    const perfect = QuantAnalytics.calculateRiskDecomposition(POSITIONS, {
+      correlationMatrix: Array.from({ length: n }, () => new Array(n).fill(1))
+    });
+    const independent = QuantAnalytics.calculateRiskDecomposition(POSITIONS, {
+      correlationMatrix: Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)))
+    });
+
+    // Perfect correlation adds deviations linearly; independence adds variances
+    expect(perfect.var95).toBeCloseTo(Z95 * weighted.reduce((sum, value) => sum + value, 0), 12);
+    expect(independent.var95).toBeCloseTo(Z95 * Math.sqrt(weighted.reduce((sum, value) => sum + value ** 2, 0)), 12);
+    expect(perfect.diversificationRatio).toBeCloseTo(1, 12);
+  });
+
+  it('uses a supplied covariance matrix as is', () => {
+    const covarianceMatrix = [
+      [0.0004, 0, 0],
+      [0, 0.0001, 0],
+      [0, 0, 0.0009]
+    ];
+    const decomposition = QuantAnalytics.calculateRiskDecomposition(POSITIONS, { covarianceMatrix });
+
+    const variance = 0.5 ** 2 * 0.0004 + 0.3 ** 2 * 0.0001 + 0.2 ** 2 * 0.0009;
+    expect(decomposition.var95).toBeCloseTo(Z95 * Math.sqrt(variance), 12);
+    expect(decomposition.positions[2].volatility).toBeCloseTo(0.03 * Math.sqrt(252), 12);
+  });
+
+  it('rejects a matrix that does not match the positions', () => {
+    expect(() => QuantAnalytics.calculateRiskDecomposition(POSITIONS, { correlationMatrix: [[1, 0], [0, 1]] }))
+      .toThrow('Expected a 3x3 matrix for 3 positions');
+  });
+});
+
+describe('QuantAnalytics.calculatePortfolioRisk', () => {
+  it('reports the decomposition VaR and volatility', () => {
+    const risk = QuantAnalytics.calculatePortfolioRisk(POSITIONS);
+    const decomposition = QuantAnalytics.calculateRiskDecomposition(POSITIONS);
+
+    expect(risk.var95).toBeCloseTo(decomposition.var95, 12);
+    expect(risk.var99).toBeCloseTo(decomposition.var99, 12);
+    expect(risk.volatility).toBeCloseTo(decomposition.volatility, 12);
+  });
+
+  it('changes with a supplied correlation or covariance matrix', () => {
+    const n = POSITIONS.length;
+    const estimated = QuantAnalytics.calculatePortfolioRisk(POSITIONS);
+    const correlated = QuantAnalytics.calculatePortfolioRisk(
+      POSITIONS,
+      Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0.9)))
+    );
+    const covarianceMatrix = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 0.0001 : 0)));
+    const supplied = QuantAnalytics.calculatePortfolioRisk(POSITIONS, undefined, covarianceMatrix);
+
+    // The histories are independent, so assuming 0.9 correlation must raise VaR well above the estimate
+    expect(correlated.var95).toBeGreaterThan(estimated.var95 * 1.3);
+    expect(correlated.volatility).toBeGreaterThan(estimated.volatility * 1.3);
+    expect(supplied.var95).toBeCloseTo(Z95 * Math.sqrt((0.25 + 0.09 + 0.04) * 0.0001), 12);
+  });
+});
@@ -1,4 +1,4 @@
-import type { RiskMetrics, QuantitativeMetrics } from '../types/stock';
+import type { RiskMetrics, QuantitativeMetrics, PortfolioRiskDecomposition } from '../types/stock';
 
 export class QuantAnalytics {
   private static readonly TRADING_DAYS_PER_YEAR = 252;
@@ -266,10 +266,133 @@ export class QuantAnalytics {
     return { returns, quantMetrics };
   }
 
-  // Portfolio-level risk calculations
+  // Sample covariance matrix of return series over their most recent common window
+  static calculateCovarianceMatrix(returnSeries: number[][]): number[][] {
+    if (returnSeries.length === 0) return [];
+
+    const n = Math.min(...returnSeries.map(returns => returns.length));
+    const aligned = returnSeries.map(returns => returns.slice(returns.length - n));
+    const means = aligned.map(returns => this.calculateMean(returns));
+
+    return aligned.map((returnsI, i) =>
+      aligned.map((returnsJ, j) => {
+        if (n < 2) return 0;
+        let sum = 0;
+        for (let k = 0; k < n; k++) {
+          sum += (returnsI[k] - means[i]) * (returnsJ[k] - means[j]);
+        }
+        return sum / (n - 1);
+      })
+    );
+  }
+
+  // Covariance from a correlation matrix and per-asset standard deviations
+  static correlationToCovariance(correlationMatrix: number[][], standardDeviations: number[]): number[][] {
+    return correlationMatrix.map((row, i) =>
+      row.map((correlation, j) => correlation * standardDeviations[i] * standardDeviations[j])
+    );
+  }
+
+  // Standard normal quantile (Acklam's rational approximation, |error| < 1.2e-9)
+  static normalQuantile(p: number): number {
+    if (p <= 0) return -Infinity;
+    if (p >= 1) return Infinity;
+
+    const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.383577518672690e2, -3.066479806614716e1, 2.506628277459239];
+    const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+    const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+    const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+    const low = 0.02425;
+
+    if (p < low) {
+      const q = Math.sqrt(-2 * Math.log(p));
+      return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+        ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - low) {
+      return -this.normalQuantile(1 - p);
+    }
+
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+      (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+  }
+
+  // Parametric (variance-covariance) VaR split into marginal and component VaR per position.
+  // The covariance matrix is estimated from the return histories unless one is supplied,
+  // or built from a supplied correlation matrix and the histories' standard deviations.
+  static calculateRiskDecomposition(
+    positions: Array<{ symbol: string; weight: number; returns: number[] }>,
+    options: { correlationMatrix?: number[][]; covarianceMatrix?: number[][] } = {}
+  ): PortfolioRiskDecomposition {
+    const n = positions.length;
+    const totalWeight = positions.reduce((sum, position) => sum + position.weight, 0);
+    if (n === 0 || totalWeight === 0) {
+      return { volatility: 0, var95: 0, var99: 0, diversificationRatio: 1, positions: [], correlationMatrix: [] };
+    }
+
+    const { correlationMatrix, covarianceMatrix } = options;
+    [covarianceMatrix, correlationMatrix].forEach(matrix => {
+      if (matrix && (matrix.length !== n || matrix.some(row => row.length !== n))) {
+        throw new Error(`Expected a ${n}x${n} matrix for ${n} positions`);
+      }
+    });
+
+    let covariance: number[][];
+    if (covarianceMatrix) {
+      covariance = covarianceMatrix;
+    } else if (correlationMatrix) {
+      const standardDeviations = positions.map(position => this.calculateStandardDeviation(position.returns));
+      covariance = this.correlationToCovariance(correlationMatrix, standardDeviations);
+    } else {
+      covariance = this.calculateCovarianceMatrix(positions.map(position => position.returns));
+    }
+
+    // Weights are normalized so partially priced portfolios still sum to one
+    const weights = positions.map(position => position.weight / totalWeight);
+    const volatilities = covariance.map((row, i) => Math.sqrt(Math.max(0, row[i])));
+    const covarianceTimesWeights = covariance.map(row => row.reduce((sum, value, j) => sum + value * weights[j], 0));
+    const variance = weights.reduce((sum, weight, i) => sum + weight * covarianceTimesWeights[i], 0);
+    const portfolioDeviation = Math.sqrt(Math.max(0, variance));
+
+    const z95 = this.normalQuantile(0.95);
+    const var95 = z95 * portfolioDeviation;
+    const annualize = Math.sqrt(this.TRADING_DAYS_PER_YEAR);
+
+    const contributions = positions.map((position, i) => {
+      const marginalVaR = portfolioDeviation > 0 ? (z95 * covarianceTimesWeights[i]) / portfolioDeviation : 0;
+      const componentVaR = weights[i] * marginalVaR;
+      return {
+        symbol: position.symbol,
+        weight: weights[i],
+        volatility: volatilities[i] * annualize,
+        marginalVaR,
+        componentVaR,
+        contribution: var95 > 0 ? componentVaR / var95 : 0
+      };
+    });
+
+    const weightedDeviation = weights.reduce((sum, weight, i) => sum + weight * volatilities[i], 0);
+
+    return {
+      volatility: portfolioDeviation * annualize,
+      var95,
+      var99: this.normalQuantile(0.99) * portfolioDeviation,
+      diversificationRatio: portfolioDeviation > 0 ? weightedDeviation / portfolioDeviation : 1,
+      positions: contributions,
+      correlationMatrix: covariance.map((row, i) =>
+        row.map((value, j) => (volatilities[i] > 0 && volatilities[j] > 0 ? value / (volatilities[i] * volatilities[j]) : i === j ? 1 : 0))
+      )
+    };
+  }
+
+  // Portfolio-level risk calculations: drawdown and return ratios from the weighted return series,
+  // volatility and VaR from the covariance matrix (estimated, or built from correlationMatrix)
   static calculatePortfolioRisk(
     positions: Array<{ weight: number; returns: number[] }>,
-    correlationMatrix?: number[][]
+    correlationMatrix?: number[][],
+    covarianceMatrix?: number[][]
   ): RiskMetrics {
     if (positions.length === 0) {
       return {
@@ -279,21 +402,17 @@ export class QuantAnalytics {
       };
     }
 
-    // Calculate portfolio returns
-    const maxLength = Math.max(...positions.map(p => p.returns.length));
+    // Calculate portfolio returns over the common window
+    const length = Math.min(...positions.map(p => p.returns.length));
+    const aligned = positions.map(p => p.returns.slice(p.returns.length - length));
+    const totalWeight = positions.reduce((sum, p) => sum + p.weight, 0);
     const portfolioReturns: number[] = [];
 
-    for (let i = 0; i < maxLength; i++) {
+    for (let i = 0; i < length; i++) {
       let portfolioReturn = 0;
-      let totalWeight = 0;
-
-      for (const position of positions) {
-        if (i < position.returns.length) {
-          portfolioReturn += position.weight * position.returns[i];
-          totalWeight += position.weight;
-        }
-      }
-
+      positions.forEach((position, index) => {
+        portfolioReturn += position.weight * aligned[index][i];
+      });
       if (totalWeight > 0) {
         portfolioReturns.push(portfolioReturn / totalWeight);
       }
@@ -304,7 +423,17 @@ export class QuantAnalytics {
       this.cumulativeReturnsToPrice(portfolioReturns)
     );
 
-    return quantMetrics.riskMetrics;
+    const decomposition = this.calculateRiskDecomposition(
+      positions.map((position, index) => ({ symbol: String(index), weight: position.weight, returns: aligned[index] })),
+      { correlationMatrix, covarianceMatrix }
+    );
+
+    return {
+      ...quantMetrics.riskMetrics,
+      var95: decomposition.var95,
+      var99: decomposition.var99,
+      volatility: decomposition.volatility
+    };
   }
 
   // Helper to convert returns to price series for drawdown calculation
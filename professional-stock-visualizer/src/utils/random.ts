@@ -0,0 +1,52 @@
+// Seedable random number helpers for reproducible simulations (not for crypto)
+
+export type RandomSource = () => number;
+
+// Mulberry32: fast 32-bit PRNG returning floats in [0, 1)
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// FNV-1a hash of a string, used to derive independent seeds from keys like "AAPL:42"
+export const hashSeed = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Parse a user-supplied seed: "42" → 42, "demo" → hash of "demo", "" / "off" / "random" → null (unseeded)
+export const parseSeed = (value: string | null | undefined): number | null => {
+  const trimmed = value?.trim();
+  if (!trimmed || ['off', 'random', 'none'].includes(trimmed.toLowerCase())) return null;
+
+  const numeric = Number(trimmed);
+  return Number.isInteger(numeric) ? numeric : hashSeed(trimmed);
+};
+
+// Standard normal draws from a uniform source (Box–Muller, caching the second variate)
+export const createGaussianRandom = (random: RandomSource): RandomSource => {
+  let spare: number | null = null;
+  return () => {
+    if (spare !== null) {
+      const value = spare;
+      spare = null;
+      return value;
+    }
+
+    const u = 1 - random(); // (0, 1] keeps the log finite
+    const v = random();
+    const radius = Math.sqrt(-2 * Math.log(u));
+    spare = radius * Math.sin(2 * Math.PI * v);
+    return radius * Math.cos(2 * Math.PI * v);
+  };
+};
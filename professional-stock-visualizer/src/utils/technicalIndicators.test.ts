@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import { calculateADX, calculateATRIndicator, calculateMACD, calculateRSI } from './technicalIndicators';
+import { createTickIndicators } from './incrementalIndicators';
+import { REFERENCE_BARS, REFERENCE_CLOSES } from './__fixtures__/referenceBars';
+import { TA_LIB_BARS, TA_LIB_CLOSES } from './__fixtures__/taLibReferenceBars';
+
+// Wilder RSI(14) for the first 33 reference closes
+const GOLDEN_RSI = [
+  null, null, null, null, null, null, null, null,
+  null, null, null, null, null, null, 70.464135, 66.249619,
+  66.480942, 69.346853, 66.294713, 57.915021, 62.880718, 63.208789, 56.011585, 62.339929,
+  54.670971, 50.386815, 40.019424, 41.492635, 41.90243, 45.499497, 37.322778, 33.090483,
+  37.788772
+];
+
+// StockCharts' published RSI worksheet rounds the averages to two decimals, so it sits ~0.07 above the exact values
+const WORKSHEET_RSI = [
+  70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38,
+  54.71, 50.42, 39.99, 41.46, 41.87, 45.46, 37.30, 33.08, 37.77
+];
+
+// TA-Lib's published expectations for its regression bars (ta_test_func/test_macd.c and test_trange.c):
+// [bar index, value]. Each must match to the precision TA-Lib prints it with.
+const TA_LIB_MACD: [number, number][] = [[33, -1.9738]];
+const TA_LIB_SIGNAL: [number, number][] = [[33, -2.7071]];
+const TA_LIB_ATR: [number, number][] = [
+  [14, 3.578], [15, 3.4876], [16, 3.55], [26, 3.245], [27, 3.394], [28, 3.413], [251, 3.26]
+];
+
+// Within one unit of the last published decimal
+const expectPublished = (actual: number | null, expected: number, label: string) => {
+  const decimals = String(expected).split('.')[1]?.length ?? 0;
+  expect(actual, label).not.toBeNull();
+  expect(Math.abs(actual! - expected), label).toBeLessThan(10 ** -decimals);
+};
+
+const expectSeries = (actual: (number | null)[], expected: (number | null)[], digits: number = 5) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, index) => {
+    if (expected[index] === null) {
+      expect(value, `index ${index}`).toBeNull();
+    } else {
+      expect(value, `index ${index}`).toBeCloseTo(expected[index]!, digits);
+    }
+  });
+};
+
+describe('calculateRSI', () => {
+  const rsi = calculateRSI(REFERENCE_CLOSES.slice(0, 33), 14);
+
+  it('matches the golden Wilder RSI', () => {
+    expectSeries(rsi, GOLDEN_RSI);
+  });
+
+  it('agrees with the published worksheet to within its rounding', () => {
+    rsi.slice(14).forEach((value, index) => {
+      expect(Math.abs(value! - WORKSHEET_RSI[index])).toBeLessThan(0.1);
+    });
+  });
+
+  it('returns nulls when there are fewer closes than the period needs', () => {
+    expect(calculateRSI(REFERENCE_CLOSES.slice(0, 14), 14).every(value => value === null)).toBe(true);
+  });
+});
+
+describe('calculateMACD', () => {
+  const macd = calculateMACD(TA_LIB_CLOSES, 12, 26, 9);
+
+  it('matches TA-Lib\'s published MACD(12, 26, 9)', () => {
+    TA_LIB_MACD.forEach(([index, value]) => expectPublished(macd[index].macd, value, `MACD at ${index}`));
+    TA_LIB_SIGNAL.forEach(([index, value]) => expectPublished(macd[index].signal, value, `signal at ${index}`));
+    TA_LIB_SIGNAL.forEach(([index]) => {
+      expect(macd[index].histogram).toBeCloseTo(macd[index].macd! - macd[index].signal!, 12);
+    });
+  });
+
+  it('starts the MACD line on the slow period and the signal line after it seeds', () => {
+    expect(macd.findIndex(point => point.macd !== null)).toBe(25);
+    expect(macd.findIndex(point => point.signal !== null)).toBe(33);
+    expect(macd.findIndex(point => point.histogram !== null)).toBe(33);
+  });
+});
+
+describe('calculateATRIndicator', () => {
+  const atr = calculateATRIndicator(TA_LIB_BARS, 14);
+
+  it('matches TA-Lib\'s published Wilder ATR(14)', () => {
+    TA_LIB_ATR.forEach(([index, value]) => expectPublished(atr[index], value, `ATR at ${index}`));
+  });
+
+  it('is null until a full period of true ranges', () => {
+    expect(atr.findIndex(value => value !== null)).toBe(14);
+    expect(calculateATRIndicator(TA_LIB_BARS.slice(0, 14), 14).every(value => value === null)).toBe(true);
+  });
+});
+
+describe('alert ticks', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const closes = REFERENCE_BARS.map(bar => bar.close);
+  const last = REFERENCE_BARS[REFERENCE_BARS.length - 1];
+
+  const expectSameValues = (value: ReturnType<ReturnType<typeof createTickIndicators>['tick']>, series: number[], label: string) => {
+    const index = series.length - 1;
+    const rsi = calculateRSI(series, 14)[index];
+    const macd = calculateMACD(series)[index];
+
+    if (rsi === null) {
+      expect(value.rsi, label).toBeNull();
+    } else {
+      expect(value.rsi, label).toBeCloseTo(rsi, 9);
+    }
+    (['macd', 'signal', 'histogram'] as const).forEach(key => {
+      if (macd[key] === null) {
+        expect(value.macd[key], `${key} ${label}`).toBeNull();
+      } else {
+        expect(value.macd[key], `${key} ${label}`).toBeCloseTo(macd[key]!, 9);
+      }
+    });
+  };
+
+  const seeded = () => {
+    const ticks = createTickIndicators();
+    ticks.seed(REFERENCE_BARS);
+    return ticks;
+  };
+
+  // useAlerts seeds each symbol with the daily bars the charts draw, then feeds live prices in
+  it('match the chart\'s last value when seeded with the same bars', () => {
+    const value = seeded().tick(last.close, last.timestamp + 15 * 60 * 60 * 1000);
+
+    expect(value.macd.signal).not.toBeNull();
+    expectSameValues(value, closes, 'on the last bar');
+    expect(value.adx.adx).toBeCloseTo(calculateADX(REFERENCE_BARS, 14)[REFERENCE_BARS.length - 1].adx!, 9);
+  });
+
+  it('revise the forming bar with a live price on the same day', () => {
+    const ticks = seeded();
+    ticks.tick(last.close * 1.05, last.timestamp + 1000);
+    const value = ticks.tick(last.close * 0.97, last.timestamp + 2000);
+
+    expectSameValues(value, [...closes.slice(0, -1), last.close * 0.97], 'after the revision');
+    expect(ticks.bars()).toHaveLength(REFERENCE_BARS.length);
+    const adx = calculateADX(ticks.bars(), 14)[REFERENCE_BARS.length - 1];
+    expect(value.adx.adx).toBeCloseTo(adx.adx!, 9);
+    expect(value.adx.plusDI).toBeCloseTo(adx.plusDI!, 9);
+    expect(value.adx.minusDI).toBeCloseTo(adx.minusDI!, 9);
+    expect(ticks.bars()[REFERENCE_BARS.length - 1]).toMatchObject({
+      open: last.open,
+      high: Math.max(last.high, last.close * 1.05),
+      low: Math.min(last.low, last.close * 0.97),
+      close: last.close * 0.97
+    });
+  });
+
+  it('open a new bar on the first tick of a later day', () => {
+    const ticks = seeded();
+    const value = ticks.tick(47, last.timestamp + DAY + 1000);
+
+    expectSameValues(value, [...closes, 47], 'on the new bar');
+    expect(ticks.bars()).toHaveLength(REFERENCE_BARS.length + 1);
+    expect(ticks.bars()[REFERENCE_BARS.length].timestamp).toBe(last.timestamp + DAY);
+  });
+
+  it('evaluate the same RSI and MACD the charts draw when ticked one day at a time', () => {
+    const ticks = createTickIndicators();
+    const streamed = REFERENCE_BARS.map((bar, index) => {
+      const value = ticks.tick(bar.close, bar.timestamp);
+      expectSameValues(value, closes.slice(0, index + 1), `at ${index}`);
+      return value;
+    });
+    expectSeries(streamed.slice(0, 33).map(value => value.rsi), GOLDEN_RSI);
+  });
+
+  // The monitor effect re-runs on every alert change with the same realTimePrices
+  it('do not move when the same tick is seen again', () => {
+    const ticks = seeded();
+    const first = ticks.tick(46.5, last.timestamp + 1000);
+    const rerun = ticks.tick(46.5, last.timestamp + 1000);
+
+    expect(first.isNew).toBe(true);
+    expect(rerun.isNew).toBe(false);
+    expect(rerun.rsi).toBe(first.rsi);
+    expect(rerun.macd).toEqual(first.macd);
+  });
+
+  it('replace ticks taken before the history loaded', () => {
+    const ticks = createTickIndicators();
+    ticks.tick(99, last.timestamp + 1000);
+    ticks.seed(REFERENCE_BARS);
+
+    expectSameValues(ticks.tick(last.close, last.timestamp + 2000), closes, 'after seeding');
+    expect(ticks.bars()).toHaveLength(REFERENCE_BARS.length);
+  });
+});
@@ -1,4 +1,6 @@
 import type { ChartDataPoint } from '../types/chart';
+import type { IndicatorSignal, PivotPointsIndicator, VWAPIndicator } from '../types/indicators';
+import { aggregateOHLC, getPeriodStart, type CalendarPeriod } from './chartHelpers';
 
 
 // Simple Moving Average
@@ -100,6 +102,26 @@ export const calculateBollingerBands = (
   return result;
 };
 
+// Rolling population standard deviation (the same measure the Bollinger Bands use)
+export const calculateStandardDeviation = (data: number[], period: number): (number | null)[] => {
+  const sma = calculateSMA(data, period);
+
+  return data.map((_, i) => {
+    const mean = sma[i];
+    if (mean === null) return null;
+    const subset = data.slice(i - period + 1, i + 1);
+    return Math.sqrt(subset.reduce((acc, val) => acc + Math.pow(val - mean, 2), 0) / period);
+  });
+};
+
+// Highest value over the last `period` bars
+export const calculateHighest = (data: number[], period: number): (number | null)[] =>
+  data.map((_, i) => (i < period - 1 ? null : Math.max(...data.slice(i - period + 1, i + 1))));
+
+// Lowest value over the last `period` bars
+export const calculateLowest = (data: number[], period: number): (number | null)[] =>
+  data.map((_, i) => (i < period - 1 ? null : Math.min(...data.slice(i - period + 1, i + 1))));
+
 // Relative Strength Index (RSI)
 export const calculateRSI = (data: number[], period: number = 14): (number | null)[] => {
   const result: (number | null)[] = [];
@@ -123,12 +145,18 @@ export const calculateRSI = (data: number[], period: number = 14): (number | nul
   let avgLoss = losses.slice(0, period).reduce((sum, loss) => sum + loss, 0) / period;
   
   // Add null values for insufficient data
-  for (let i = 0; i <= period; i++) {
+  for (let i = 0; i < period; i++) {
     result.push(null);
   }
   
-  // Calculate RSI for remaining periods
-  for (let i = period; i < changes.length; i++) {
+  // Bar `period` is the first with a full set of changes; each later bar folds in its own change
+  for (let i = period; i <= changes.length; i++) {
+    if (i > period) {
+      // Update averages using Wilder's smoothing
+      avgGain = ((avgGain * (period - 1)) + gains[i - 1]) / period;
+      avgLoss = ((avgLoss * (period - 1)) + losses[i - 1]) / period;
+    }
+
     if (avgLoss === 0) {
       result.push(100);
     } else {
@@ -136,64 +164,56 @@ export const calculateRSI = (data: number[], period: number = 14): (number | nul
       const rsi = 100 - (100 / (1 + rs));
       result.push(rsi);
     }
-    
-    // Update averages using Wilder's smoothing
-    if (i < changes.length - 1) {
-      avgGain = ((avgGain * (period - 1)) + gains[i]) / period;
-      avgLoss = ((avgLoss * (period - 1)) + losses[i]) / period;
-    }
   }
   
   return result;
 };
 
-// MACD (Moving Average Convergence Divergence)
+// Exponential average seeded with the SMA of the `period` values ending at `seedIndex`; null before it
+const seededEMA = (data: number[], period: number, seedIndex: number): (number | null)[] => {
+  const multiplier = 2 / (period + 1);
+  const result: (number | null)[] = data.map(() => null);
+  if (seedIndex < period - 1 || seedIndex >= data.length) return result;
+
+  let ema = data.slice(seedIndex - period + 1, seedIndex + 1).reduce((sum, value) => sum + value, 0) / period;
+  result[seedIndex] = ema;
+  for (let i = seedIndex + 1; i < data.length; i++) {
+    ema = data[i] * multiplier + ema * (1 - multiplier);
+    result[i] = ema;
+  }
+  return result;
+};
+
+// MACD (Moving Average Convergence Divergence), following TA-Lib: both EMAs are seeded on the
+// slow period's first full bar (the fast one with the SMA of its own last `fastPeriod` closes),
+// and the signal line is seeded with the SMA of the first `signalPeriod` MACD values
 export const calculateMACD = (
   data: number[], 
   fastPeriod: number = 12, 
   slowPeriod: number = 26, 
   signalPeriod: number = 9
 ): Array<{ macd: number | null; signal: number | null; histogram: number | null }> => {
-  const fastEMA = calculateEMA(data, fastPeriod);
-  const slowEMA = calculateEMA(data, slowPeriod);
-  
-  // Calculate MACD line
-  const macdLine: (number | null)[] = [];
-  for (let i = 0; i < data.length; i++) {
-    if (fastEMA[i] !== null && slowEMA[i] !== null) {
-      macdLine.push(fastEMA[i]! - slowEMA[i]!);
-    } else {
-      macdLine.push(null);
-    }
-  }
-  
-  // Calculate signal line (EMA of MACD)
-  const validMacdValues = macdLine.filter(val => val !== null) as number[];
-  const signalLine = calculateEMA(validMacdValues, signalPeriod);
-  
-  // Align signal line with original data length
-  const alignedSignalLine: (number | null)[] = [];
-  let signalIndex = 0;
-  for (let i = 0; i < macdLine.length; i++) {
-    if (macdLine[i] !== null) {
-      alignedSignalLine.push(signalLine[signalIndex] || null);
-      signalIndex++;
-    } else {
-      alignedSignalLine.push(null);
-    }
+  const start = Math.max(fastPeriod, slowPeriod) - 1;
+  const fastEMA = seededEMA(data, fastPeriod, start);
+  const slowEMA = seededEMA(data, slowPeriod, start);
+
+  const macdLine = data.map((_, i) =>
+    fastEMA[i] !== null && slowEMA[i] !== null ? fastEMA[i]! - slowEMA[i]! : null
+  );
+
+  // Signal line (EMA of MACD) over the bars that have a MACD value
+  const signalLine: (number | null)[] = data.map(() => null);
+  if (data.length > start) {
+    seededEMA(macdLine.slice(start) as number[], signalPeriod, signalPeriod - 1).forEach((value, offset) => {
+      signalLine[start + offset] = value;
+    });
   }
-  
-  // Calculate histogram
-  const result: Array<{ macd: number | null; signal: number | null; histogram: number | null }> = [];
-  for (let i = 0; i < data.length; i++) {
+
+  return data.map((_, i) => {
     const macd = macdLine[i];
-    const signal = alignedSignalLine[i];
-    const histogram = (macd !== null && signal !== null) ? macd - signal : null;
-    
-    result.push({ macd, signal, histogram });
-  }
-  
-  return result;
+    const signal = signalLine[i];
+    return { macd, signal, histogram: macd !== null && signal !== null ? macd - signal : null };
+  });
 };
 
 // Stochastic Oscillator
@@ -235,7 +255,7 @@ export const calculateStochastic = (
     let d: number | null = null;
     
     if (k !== null) {
-      d = dValues[dIndex] || null;
+      d = dValues[dIndex] ?? null;
       dIndex++;
     }
     
@@ -273,37 +293,85 @@ export const calculateWilliamsR = (
   return result;
 };
 
-// Volume Weighted Average Price (VWAP)
-export const calculateVWAP = (data: ChartDataPoint[]): (number | null)[] => {
-  const result: (number | null)[] = [];
+// Volume Weighted Average Price (VWAP) with a volume-weighted standard deviation for bands.
+// Accumulation restarts at every session/week/month boundary, or runs from a custom anchor bar
+// (bars before it stay null). Without an anchor type it accumulates from the first bar.
+export const calculateAnchoredVWAP = (
+  data: ChartDataPoint[],
+  anchorType?: VWAPIndicator['params']['anchorType'],
+  customAnchor?: string
+): Array<{ value: number | null; stdDev: number | null; isAnchor: boolean }> => {
+  const result: Array<{ value: number | null; stdDev: number | null; isAnchor: boolean }> = [];
+  const calendarPeriod: Record<string, CalendarPeriod> = { session: 'daily', week: 'weekly', month: 'monthly' };
+  const anchorTimestamp = anchorType === 'custom' && customAnchor ? new Date(customAnchor).getTime() : null;
+
   let cumulativePriceVolume = 0;
+  let cumulativeSquaredPriceVolume = 0;
   let cumulativeVolume = 0;
-  
+  let currentPeriod: number | null = null;
+  let started = anchorType !== 'custom';
+
   for (let i = 0; i < data.length; i++) {
+    let isAnchor = i === 0 && started;
+
+    if (anchorType === 'custom') {
+      if (!started && anchorTimestamp !== null && data[i].timestamp >= anchorTimestamp) {
+        started = true;
+        isAnchor = true;
+      }
+    } else if (anchorType) {
+      const period = getPeriodStart(data[i].timestamp, calendarPeriod[anchorType]);
+      if (period !== currentPeriod) {
+        currentPeriod = period;
+        isAnchor = true;
+      }
+    }
+
+    if (!started) {
+      result.push({ value: null, stdDev: null, isAnchor: false });
+      continue;
+    }
+
+    if (isAnchor) {
+      cumulativePriceVolume = 0;
+      cumulativeSquaredPriceVolume = 0;
+      cumulativeVolume = 0;
+    }
+
     const typicalPrice = (data[i].high + data[i].low + data[i].close) / 3;
-    const priceVolume = typicalPrice * data[i].volume;
-    
-    cumulativePriceVolume += priceVolume;
+    cumulativePriceVolume += typicalPrice * data[i].volume;
+    cumulativeSquaredPriceVolume += typicalPrice * typicalPrice * data[i].volume;
     cumulativeVolume += data[i].volume;
-    
+
     if (cumulativeVolume === 0) {
-      result.push(null);
+      result.push({ value: null, stdDev: null, isAnchor });
     } else {
-      result.push(cumulativePriceVolume / cumulativeVolume);
+      const vwap = cumulativePriceVolume / cumulativeVolume;
+      const variance = cumulativeSquaredPriceVolume / cumulativeVolume - vwap * vwap;
+      result.push({ value: vwap, stdDev: Math.sqrt(Math.max(0, variance)), isAnchor });
     }
   }
-  
+
   return result;
 };
 
-// Average True Range (ATR)
+// Volume Weighted Average Price (VWAP)
+export const calculateVWAP = (
+  data: ChartDataPoint[],
+  anchorType?: VWAPIndicator['params']['anchorType'],
+  customAnchor?: string
+): (number | null)[] => calculateAnchoredVWAP(data, anchorType, customAnchor).map(point => point.value);
+
+// Average True Range (ATR) with Wilder's smoothing: the first value (bar `period`) is the mean of
+// the first `period` true ranges, then each bar adds 1/period of its true range
 export const calculateATRIndicator = (
   data: ChartDataPoint[], 
   period: number = 14
 ): (number | null)[] => {
-  const trueRanges: number[] = [];
-  
-  // Calculate True Range for each period
+  const result: (number | null)[] = data.map(() => null);
+  if (period < 1 || data.length <= period) return result;
+
+  let atr = 0;
   for (let i = 1; i < data.length; i++) {
     const current = data[i];
     const previous = data[i - 1];
@@ -311,15 +379,304 @@ export const calculateATRIndicator = (
     const tr1 = current.high - current.low;
     const tr2 = Math.abs(current.high - previous.close);
     const tr3 = Math.abs(current.low - previous.close);
-    
-    trueRanges.push(Math.max(tr1, tr2, tr3));
+    const trueRange = Math.max(tr1, tr2, tr3);
+
+    if (i < period) {
+      atr += trueRange;
+    } else if (i === period) {
+      atr = (atr + trueRange) / period;
+      result[i] = atr;
+    } else {
+      atr = (atr * (period - 1) + trueRange) / period;
+      result[i] = atr;
+    }
   }
-  
-  // Calculate ATR using EMA
-  const atrValues = calculateEMA(trueRanges, period);
-  
-  // Add null for first value (no previous close)
-  return [null, ...atrValues];
+
+  return result;
+};
+
+// Average Directional Index (ADX) with +DI / -DI, using Wilder's smoothing
+export const calculateADX = (
+  data: ChartDataPoint[],
+  period: number = 14
+): Array<{ adx: number | null; plusDI: number | null; minusDI: number | null }> => {
+  const result: Array<{ adx: number | null; plusDI: number | null; minusDI: number | null }> =
+    data.map(() => ({ adx: null, plusDI: null, minusDI: null }));
+
+  if (period < 1 || data.length <= period) return result;
+
+  let smoothedTR = 0;
+  let smoothedPlusDM = 0;
+  let smoothedMinusDM = 0;
+  let dxSum = 0;
+  let adx: number | null = null;
+
+  for (let i = 1; i < data.length; i++) {
+    const current = data[i];
+    const previous = data[i - 1];
+
+    const trueRange = Math.max(
+      current.high - current.low,
+      Math.abs(current.high - previous.close),
+      Math.abs(current.low - previous.close)
+    );
+    const upMove = current.high - previous.high;
+    const downMove = previous.low - current.low;
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0;
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0;
+
+    // First smoothed value is a plain sum; afterwards Wilder: prev - prev / n + current
+    if (i <= period) {
+      smoothedTR += trueRange;
+      smoothedPlusDM += plusDM;
+      smoothedMinusDM += minusDM;
+      if (i < period) continue;
+    } else {
+      smoothedTR = smoothedTR - smoothedTR / period + trueRange;
+      smoothedPlusDM = smoothedPlusDM - smoothedPlusDM / period + plusDM;
+      smoothedMinusDM = smoothedMinusDM - smoothedMinusDM / period + minusDM;
+    }
+
+    const plusDI = smoothedTR === 0 ? 0 : (smoothedPlusDM / smoothedTR) * 100;
+    const minusDI = smoothedTR === 0 ? 0 : (smoothedMinusDM / smoothedTR) * 100;
+    const diSum = plusDI + minusDI;
+    const dx = diSum === 0 ? 0 : (Math.abs(plusDI - minusDI) / diSum) * 100;
+
+    result[i].plusDI = plusDI;
+    result[i].minusDI = minusDI;
+
+    // ADX seeds with the mean of the first `period` DX values, then smooths the same way
+    if (adx === null) {
+      dxSum += dx;
+      if (i === period * 2 - 1) {
+        adx = dxSum / period;
+      }
+    } else {
+      adx = (adx * (period - 1) + dx) / period;
+    }
+
+    result[i].adx = adx;
+  }
+
+  return result;
+};
+
+// Ichimoku Kinko Hyo. The result runs `displacement` rows past the last bar so the
+// leading spans (the cloud) can be drawn into the future; those rows get extrapolated times.
+export const calculateIchimoku = (
+  data: ChartDataPoint[],
+  conversionPeriod: number = 9,
+  basePeriod: number = 26,
+  laggingSpan2Period: number = 52,
+  displacement: number = 26
+): Array<{
+  time: string;
+  conversionLine: number | null;
+  baseLine: number | null;
+  leadingSpan1: number | null;
+  leadingSpan2: number | null;
+  laggingSpan: number | null;
+}> => {
+  if (data.length === 0) return [];
+
+  // Midpoint of the highest high and lowest low over the window ending at index
+  const midpoint = (index: number, period: number): number | null => {
+    if (index < period - 1) return null;
+    let high = -Infinity;
+    let low = Infinity;
+    for (let j = index - period + 1; j <= index; j++) {
+      high = Math.max(high, data[j].high);
+      low = Math.min(low, data[j].low);
+    }
+    return (high + low) / 2;
+  };
+
+  const conversion = data.map((_, i) => midpoint(i, conversionPeriod));
+  const base = data.map((_, i) => midpoint(i, basePeriod));
+  const span2 = data.map((_, i) => midpoint(i, laggingSpan2Period));
+
+  const lastTimestamp = data[data.length - 1].timestamp;
+  const step = data.length > 1 ? (lastTimestamp - data[0].timestamp) / (data.length - 1) : 24 * 60 * 60 * 1000;
+  const dateOnly = data[data.length - 1].time.length <= 10;
+
+  return Array.from({ length: data.length + displacement }, (_, i) => {
+    const source = i - displacement; // bar whose values are projected onto row i
+    const conversionAtSource = source >= 0 ? conversion[source] : null;
+    const baseAtSource = source >= 0 ? base[source] : null;
+
+    let time: string;
+    if (i < data.length) {
+      time = data[i].time;
+    } else {
+      const projected = new Date(lastTimestamp + step * (i - data.length + 1)).toISOString();
+      time = dateOnly ? projected.split('T')[0] : projected;
+    }
+
+    return {
+      time,
+      conversionLine: i < data.length ? conversion[i] : null,
+      baseLine: i < data.length ? base[i] : null,
+      leadingSpan1: conversionAtSource !== null && baseAtSource !== null ? (conversionAtSource + baseAtSource) / 2 : null,
+      leadingSpan2: source >= 0 ? span2[source] : null,
+      laggingSpan: i + displacement < data.length ? data[i + displacement].close : null
+    };
+  });
+};
+
+// Parabolic SAR (Wilder). `step` is the acceleration factor increment, `maxStep` its cap.
+export const calculateParabolicSAR = (
+  data: ChartDataPoint[],
+  step: number = 0.02,
+  maxStep: number = 0.2
+): Array<{ sar: number | null; trend: 'up' | 'down' | null; reversal: boolean }> => {
+  const result: Array<{ sar: number | null; trend: 'up' | 'down' | null; reversal: boolean }> =
+    data.map(() => ({ sar: null, trend: null, reversal: false }));
+
+  if (data.length < 2) return result;
+
+  let isUp = data[1].close >= data[0].close;
+  let sar = isUp ? data[0].low : data[0].high;
+  let extremePoint = isUp ? data[0].high : data[0].low;
+  let acceleration = step;
+
+  for (let i = 1; i < data.length; i++) {
+    const current = data[i];
+    const previous = data[i - 1];
+    const beforePrevious = data[Math.max(0, i - 2)];
+
+    sar = sar + acceleration * (extremePoint - sar);
+
+    // SAR may never move inside the prior two bars' range
+    sar = isUp
+      ? Math.min(sar, previous.low, beforePrevious.low)
+      : Math.max(sar, previous.high, beforePrevious.high);
+
+    let reversal = false;
+
+    if (isUp && current.low < sar) {
+      isUp = false;
+      reversal = true;
+      sar = extremePoint;
+      extremePoint = current.low;
+      acceleration = step;
+    } else if (!isUp && current.high > sar) {
+      isUp = true;
+      reversal = true;
+      sar = extremePoint;
+      extremePoint = current.high;
+      acceleration = step;
+    } else if (isUp && current.high > extremePoint) {
+      extremePoint = current.high;
+      acceleration = Math.min(acceleration + step, maxStep);
+    } else if (!isUp && current.low < extremePoint) {
+      extremePoint = current.low;
+      acceleration = Math.min(acceleration + step, maxStep);
+    }
+
+    result[i] = { sar, trend: isUp ? 'up' : 'down', reversal };
+  }
+
+  return result;
+};
+
+// One signal per SAR flip: bullish flips are buys, bearish flips are sells. Flips that end a
+// long-running trend get more confidence than whipsaws.
+export const detectParabolicSARSignals = (
+  data: ChartDataPoint[],
+  sarValues: Array<{ sar: number | null; trend: 'up' | 'down' | null; reversal: boolean }>
+): IndicatorSignal[] => {
+  const signals: IndicatorSignal[] = [];
+  let trendStart = 1;
+
+  for (let i = 2; i < sarValues.length; i++) {
+    const { sar, trend, reversal } = sarValues[i];
+    if (!reversal || sar === null || !data[i]) continue;
+
+    const priorTrendLength = i - trendStart;
+    trendStart = i;
+
+    const price = data[i].close;
+    const gap = price > 0 ? Math.abs(price - sar) / price : 0;
+    const bullish = trend === 'up';
+
+    signals.push({
+      type: bullish ? 'buy' : 'sell',
+      strength: Math.min(1, gap * 20),
+      indicator: 'parabolic_sar',
+      message: `Parabolic SAR flipped ${bullish ? 'bullish' : 'bearish'} after a ${priorTrendLength}-bar ${bullish ? 'down' : 'up'}trend`,
+      timestamp: data[i].time,
+      price,
+      confidence: 0.5 + 0.5 * Math.min(1, priorTrendLength / 20)
+    });
+  }
+
+  return signals;
+};
+
+// Pivot levels for every period after the first, each derived from the previous period's bar.
+// Rows are keyed by the time of the first bar they apply to.
+export const calculatePivotPoints = (
+  data: ChartDataPoint[],
+  timeframe: PivotPointsIndicator['params']['timeframe'] = 'daily',
+  method: PivotPointsIndicator['params']['method'] = 'classic'
+): PivotPointsIndicator['data'] => {
+  const periods = aggregateOHLC(data, timeframe);
+  const result: PivotPointsIndicator['data'] = [];
+  let barIndex = 0;
+
+  for (let p = 1; p < periods.length; p++) {
+    const { high, low, close } = periods[p - 1];
+    const open = periods[p].open;
+    const range = high - low;
+
+    // First bar of this period in the source data
+    while (barIndex < data.length && data[barIndex].timestamp < periods[p].timestamp) barIndex++;
+    if (barIndex >= data.length) break;
+
+    let levels: Omit<PivotPointsIndicator['data'][number], 'time'>;
+
+    switch (method) {
+      case 'fibonacci': {
+        const pivot = (high + low + close) / 3;
+        levels = {
+          pivot,
+          r1: pivot + range * 0.382, r2: pivot + range * 0.618, r3: pivot + range,
+          s1: pivot - range * 0.382, s2: pivot - range * 0.618, s3: pivot - range
+        };
+        break;
+      }
+      case 'camarilla': {
+        levels = {
+          pivot: (high + low + close) / 3,
+          r1: close + range * 1.1 / 12, r2: close + range * 1.1 / 6, r3: close + range * 1.1 / 4,
+          s1: close - range * 1.1 / 12, s2: close - range * 1.1 / 6, s3: close - range * 1.1 / 4
+        };
+        break;
+      }
+      case 'woodie': {
+        // Woodie weights the new period's open instead of the prior close
+        const pivot = (high + low + 2 * open) / 4;
+        levels = {
+          pivot,
+          r1: 2 * pivot - low, r2: pivot + range, r3: high + 2 * (pivot - low),
+          s1: 2 * pivot - high, s2: pivot - range, s3: low - 2 * (high - pivot)
+        };
+        break;
+      }
+      default: {
+        const pivot = (high + low + close) / 3;
+        levels = {
+          pivot,
+          r1: 2 * pivot - low, r2: pivot + range, r3: high + 2 * (pivot - low),
+          s1: 2 * pivot - high, s2: pivot - range, s3: low - 2 * (high - pivot)
+        };
+      }
+    }
+
+    result.push({ time: data[barIndex].time, ...levels });
+  }
+
+  return result;
 };
 
 // On Balance Volume (OBV)
@@ -386,6 +743,14 @@ export const calculateCCI = (
   return result;
 };
 
+// Most recent non-null value of a series, e.g. the RSI an alert should compare against
+export const getLatestValue = (values: (number | null)[]): number | null => {
+  for (let i = values.length - 1; i >= 0; i--) {
+    if (values[i] !== null) return values[i];
+  }
+  return null;
+};
+
 // Helper function to get price data based on source
 export const getPriceData = (data: ChartDataPoint[], source: string): number[] => {
   switch (source) {
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import type { CostBasisMethod, PortfolioTransaction } from '../types/stock';
+import { applyLedger, parseTransactionsCsv, transactionsToCsv } from './transactionLedger';
+
+// Two lots at 100 and 120, then 15 shares sold at 130: the sale spans both lots
+const TWO_LOTS: PortfolioTransaction[] = [
+  { id: 'b1', date: '2024-01-02', symbol: 'AAPL', type: 'buy', quantity: 10, price: 100, fees: 0 },
+  { id: 'b2', date: '2024-02-01', symbol: 'AAPL', type: 'buy', quantity: 10, price: 120, fees: 0 },
+  { id: 's1', date: '2024-03-01', symbol: 'AAPL', type: 'sell', quantity: 15, price: 130, fees: 0 }
+];
+
+describe('applyLedger', () => {
+  const cases: { method: CostBasisMethod; gain: number; remainingCost: number }[] = [
+    // 10 @ 100 then 5 @ 120
+    { method: 'fifo', gain: 1950 - 1600, remainingCost: 120 },
+    // 10 @ 120 then 5 @ 100
+    { method: 'lifo', gain: 1950 - 1700, remainingCost: 100 },
+    // 15 @ the pooled 110
+    { method: 'average', gain: 1950 - 1650, remainingCost: 110 }
+  ];
+
+  cases.forEach(({ method, gain, remainingCost }) => {
+    it(`realizes a partial sale across two lots under ${method}`, () => {
+      const summary = applyLedger(TWO_LOTS, method);
+      const position = summary.positions.AAPL;
+
+      expect(summary.realizedPnL).toBeCloseTo(gain, 9);
+      expect(summary.realizedGains.reduce((sum, entry) => sum + entry.quantity, 0)).toBeCloseTo(15, 9);
+      expect(summary.realizedGains.reduce((sum, entry) => sum + entry.proceeds, 0)).toBeCloseTo(1950, 9);
+      expect(position.quantity).toBeCloseTo(5, 9);
+      expect(position.avgPrice).toBeCloseTo(remainingCost, 9);
+      expect(position.costBasis).toBeCloseTo(5 * remainingCost, 9);
+    });
+  });
+
+  it('splits open lots before a later sale', () => {
+    const summary = applyLedger([
+      { id: 'b1', date: '2024-01-02', symbol: 'MSFT', type: 'buy', quantity: 10, price: 100, fees: 0 },
+      { id: 'x1', date: '2024-02-01', symbol: 'MSFT', type: 'split', quantity: 2, price: 0, fees: 0 },
+      { id: 's1', date: '2024-03-01', symbol: 'MSFT', type: 'sell', quantity: 5, price: 60, fees: 0 }
+    ]);
+    const position = summary.positions.MSFT;
+
+    // 20 shares at 50 after the split; 5 sold at 60
+    expect(summary.realizedPnL).toBeCloseTo(50, 9);
+    expect(summary.realizedGains[0].costBasis).toBeCloseTo(250, 9);
+    expect(position.quantity).toBeCloseTo(15, 9);
+    expect(position.avgPrice).toBeCloseTo(50, 9);
+  });
+
+  it('adds buy fees to cost basis and takes sell fees off the proceeds', () => {
+    const summary = applyLedger([
+      { id: 'b1', date: '2024-01-02', symbol: 'NVDA', type: 'buy', quantity: 10, price: 100, fees: 10 },
+      { id: 's1', date: '2024-03-01', symbol: 'NVDA', type: 'sell', quantity: 10, price: 110, fees: 10 }
+    ]);
+    const [gain] = summary.realizedGains;
+
+    expect(gain.costBasis).toBeCloseTo(1010, 9);
+    expect(gain.proceeds).toBeCloseTo(1090, 9);
+    expect(summary.realizedPnL).toBeCloseTo(80, 9);
+    expect(summary.fees).toBeCloseTo(20, 9);
+    expect(summary.positions.NVDA.quantity).toBe(0);
+  });
+
+  it('rejects selling more than is held', () => {
+    expect(() => applyLedger([
+      { id: 'b1', date: '2024-01-02', symbol: 'TSLA', type: 'buy', quantity: 5, price: 200, fees: 0 },
+      { id: 's1', date: '2024-03-01', symbol: 'TSLA', type: 'sell', quantity: 6, price: 210, fees: 0 }
+    ])).toThrow(/Cannot sell 6 TSLA on 2024-03-01: only 5 held/);
+  });
+});
+
+describe('ledger CSV', () => {
+  it('reads back the ledger it writes', () => {
+    const ledger: PortfolioTransaction[] = [
+      ...TWO_LOTS.map(transaction => ({ ...transaction, fees: 1.25 })),
+      { id: 'd1', date: '2024-03-15', symbol: 'AAPL', type: 'dividend', quantity: 5, price: 0.24, fees: 0, notes: 'Q1 dividend, "qualified"' },
+      { id: 'x1', date: '2024-04-01', symbol: 'AAPL', type: 'split', quantity: 4, price: 0, fees: 0, notes: 'line one\nline two' }
+    ];
+
+    const imported = parseTransactionsCsv(transactionsToCsv(ledger));
+
+    // Imported rows get fresh ids; everything else must survive
+    const withoutId = (transaction: PortfolioTransaction) => ({ ...transaction, id: '' });
+    expect(imported.map(withoutId)).toEqual(ledger.map(withoutId));
+    expect(applyLedger(imported).realizedPnL).toBeCloseTo(applyLedger(ledger).realizedPnL, 9);
+  });
+});
@@ -0,0 +1,283 @@
+import type {
+  CostBasisMethod,
+  PortfolioHolding,
+  PortfolioTransaction,
+  RealizedGain,
+  TaxLot,
+  TransactionType
+} from '../types/stock';
+import { formatCsvValue } from './chartExport';
+
+export interface LedgerPosition {
+  symbol: string;
+  quantity: number;
+  avgPrice: number;
+  costBasis: number;
+  lots: TaxLot[];
+  realizedPnL: number; // closed-lot gains plus dividends, less standalone fees
+  dividends: number;
+  fees: number;        // every commission paid, including those already in cost basis or proceeds
+}
+
+export interface LedgerSummary {
+  positions: Record<string, LedgerPosition>;
+  realizedGains: RealizedGain[];
+  realizedPnL: number;
+  dividends: number;
+  fees: number;
+}
+
+export const TRANSACTION_TYPES: TransactionType[] = ['buy', 'sell', 'dividend', 'split', 'fee'];
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: 'fifo', label: 'FIFO' },
+  { value: 'lifo', label: 'LIFO' },
+  { value: 'average', label: 'Average Cost' }
+];
+
+const CSV_COLUMNS = ['date', 'symbol', 'type', 'quantity', 'price', 'fees', 'notes'] as const;
+
+// Remainders below this are floating-point noise from partial lot sales
+const QUANTITY_EPSILON = 1e-9;
+
+export const createTransactionId = () => `txn_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`;
+
+// 🚀 Reject transactions the ledger can't apply
+export const validateTransaction = (transaction: Omit<PortfolioTransaction, 'id'>): void => {
+  const { date, symbol, type, quantity, price, fees } = transaction;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(date).getTime())) {
+    throw new Error(`Invalid transaction date: ${date || '(empty)'}`);
+  }
+  if (!symbol.trim()) {
+    throw new Error('Transaction symbol is required');
+  }
+  if (!TRANSACTION_TYPES.includes(type)) {
+    throw new Error(`Unknown transaction type: ${type}`);
+  }
+  if (![quantity, price, fees].every(Number.isFinite) || quantity < 0 || price < 0 || fees < 0) {
+    throw new Error('Quantity, price and fees must be non-negative numbers');
+  }
+  if ((type === 'buy' || type === 'sell' || type === 'split') && quantity <= 0) {
+    throw new Error(`A ${type} needs a positive ${type === 'split' ? 'ratio' : 'quantity'}`);
+  }
+};
+
+const emptyPosition = (symbol: string): LedgerPosition => ({
+  symbol,
+  quantity: 0,
+  avgPrice: 0,
+  costBasis: 0,
+  lots: [],
+  realizedPnL: 0,
+  dividends: 0,
+  fees: 0
+});
+
+// Average cost keeps a single pooled lot dated at the first purchase
+const addLot = (lots: TaxLot[], lot: TaxLot, method: CostBasisMethod): TaxLot[] => {
+  if (method !== 'average' || lots.length === 0) return [...lots, lot];
+
+  const pooled = lots[0];
+  const quantity = pooled.quantity + lot.quantity;
+  return [{
+    ...pooled,
+    quantity,
+    costPerShare: (pooled.quantity * pooled.costPerShare + lot.quantity * lot.costPerShare) / quantity
+  }];
+};
+
+// 🚀 Replay the ledger in date order into open lots and realized gains
+export const applyLedger = (transactions: PortfolioTransaction[], method: CostBasisMethod = 'fifo'): LedgerSummary => {
+  const positions: Record<string, LedgerPosition> = {};
+  const realizedGains: RealizedGain[] = [];
+
+  // sort is stable, so same-day transactions keep their entry order
+  const ordered = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const transaction of ordered) {
+    const { id, date, type, quantity, price, fees } = transaction;
+    const symbol = transaction.symbol.toUpperCase();
+    const position = positions[symbol] ?? (positions[symbol] = emptyPosition(symbol));
+    position.fees += fees;
+
+    switch (type) {
+      case 'buy':
+        position.lots = addLot(position.lots, {
+          symbol,
+          quantity,
+          costPerShare: (quantity * price + fees) / quantity,
+          acquiredDate: date
+        }, method);
+        break;
+
+      case 'sell': {
+        const held = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+        if (quantity > held + QUANTITY_EPSILON) {
+          throw new Error(`Cannot sell ${quantity} ${symbol} on ${date}: only ${Number(held.toFixed(6))} held`);
+        }
+
+        // Fees reduce the proceeds of every share sold equally
+        const netPricePerShare = price - fees / quantity;
+        let remaining = quantity;
+        const lots = method === 'lifo' ? [...position.lots].reverse() : [...position.lots];
+
+        for (const lot of lots) {
+          if (remaining <= QUANTITY_EPSILON) break;
+          const sold = Math.min(lot.quantity, remaining);
+          const proceeds = sold * netPricePerShare;
+          const costBasis = sold * lot.costPerShare;
+
+          realizedGains.push({
+            transactionId: id,
+            symbol,
+            date,
+            acquiredDate: lot.acquiredDate,
+            quantity: sold,
+            proceeds,
+            costBasis,
+            gain: proceeds - costBasis
+          });
+          position.realizedPnL += proceeds - costBasis;
+          lot.quantity -= sold;
+          remaining -= sold;
+        }
+
+        const open = lots.filter(lot => lot.quantity > QUANTITY_EPSILON);
+        position.lots = method === 'lifo' ? open.reverse() : open;
+        break;
+      }
+
+      case 'dividend': {
+        const income = quantity * price - fees;
+        position.dividends += quantity * price;
+        position.realizedPnL += income;
+        break;
+      }
+
+      case 'split':
+        position.lots = position.lots.map(lot => ({
+          ...lot,
+          quantity: lot.quantity * quantity,
+          costPerShare: lot.costPerShare / quantity
+        }));
+        break;
+
+      case 'fee':
+        position.realizedPnL -= fees;
+        break;
+    }
+  }
+
+  Object.values(positions).forEach(position => {
+    position.quantity = position.lots.reduce((sum, lot) => sum + lot.quantity, 0);
+    position.costBasis = position.lots.reduce((sum, lot) => sum + lot.quantity * lot.costPerShare, 0);
+    position.avgPrice = position.quantity > 0 ? position.costBasis / position.quantity : 0;
+  });
+
+  const all = Object.values(positions);
+  return {
+    positions,
+    realizedGains,
+    realizedPnL: all.reduce((sum, position) => sum + position.realizedPnL, 0),
+    dividends: all.reduce((sum, position) => sum + position.dividends, 0),
+    fees: all.reduce((sum, position) => sum + position.fees, 0)
+  };
+};
+
+// 🚀 Open positions as holdings for mark-to-market
+export const ledgerToHoldings = (summary: LedgerSummary): PortfolioHolding[] =>
+  Object.values(summary.positions)
+    .filter(position => position.quantity > QUANTITY_EPSILON)
+    .map(({ symbol, quantity, avgPrice }) => ({ symbol, quantity, avgPrice }));
+
+// 🚀 Ledger as CSV with a header row
+export const transactionsToCsv = (transactions: PortfolioTransaction[]): string => {
+  const rows = transactions.map(transaction =>
+    CSV_COLUMNS.map(column => formatCsvValue(transaction[column])).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+// RFC 4180 style: quoted fields may contain commas, newlines and doubled quotes
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+};
+
+// 🚀 Parse a ledger CSV; columns are matched by header name in any order
+export const parseTransactionsCsv = (text: string): PortfolioTransaction[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('CSV file is empty');
+  }
+
+  const columnIndex = new Map(header.map((name, index) => [name.trim().toLowerCase(), index]));
+  const missing = CSV_COLUMNS.filter(column => column !== 'fees' && column !== 'notes' && !columnIndex.has(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  const cell = (cells: string[], column: typeof CSV_COLUMNS[number]) => {
+    const index = columnIndex.get(column);
+    return index === undefined ? '' : (cells[index] ?? '').trim();
+  };
+
+  return rows.map((cells, index) => {
+    const number = (column: typeof CSV_COLUMNS[number]) => {
+      const value = cell(cells, column);
+      return value === '' ? 0 : Number(value);
+    };
+
+    const transaction = {
+      date: cell(cells, 'date'),
+      symbol: cell(cells, 'symbol').toUpperCase(),
+      type: cell(cells, 'type').toLowerCase() as TransactionType,
+      quantity: number('quantity'),
+      price: number('price'),
+      fees: number('fees'),
+      notes: cell(cells, 'notes') || undefined
+    };
+
+    try {
+      validateTransaction(transaction);
+    } catch (error) {
+      // Row numbers count the header as line 1
+      throw new Error(`Line ${index + 2}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return { ...transaction, id: createTransactionId() };
+  });
+};
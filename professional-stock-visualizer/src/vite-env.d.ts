@@ -1,8 +1,12 @@
 /// <reference types="vite/client" />
 interface ImportMetaEnv {
-  readonly VITE_WEBSOCKET_URL: string
+  readonly VITE_WEBSOCKET_URL?: string
   readonly VITE_API_KEY: string
   readonly VITE_ENVIRONMENT: string
+  readonly VITE_MARKET_DATA_PROVIDER?: string
+  readonly VITE_MARKET_DATA_URL?: string
+  readonly VITE_MARKET_DATA_BARS_PATH?: string
+  readonly VITE_MOCK_SEED?: string
   readonly DEV: boolean
   readonly MODE: string
 }